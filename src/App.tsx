@@ -7,6 +7,7 @@ import SignUp from './pages/SignUp';
 import Dashboard from './pages/Dashboard';
 import Portfolio from './pages/Portfolio';
 import Media from './pages/Media';
+import MediaDetail from './pages/MediaDetail';
 import Masterclass from './pages/Masterclass';
 import Projects from './pages/Projects';
 import HelpCenter from './pages/HelpCenter';
@@ -16,7 +17,15 @@ import CreatorMembership from './pages/CreatorMembership';
 import MemberMembership from './pages/MemberMembership';
 import Content from './pages/Content';
 import Account from './pages/Account';
+import MyTickets from './pages/MyTickets';
+import MyBookings from './pages/MyBookings';
+import MyEvents from './pages/MyEvents';
+import EventEditor from './pages/EventEditor';
+import EventCheckIn from './pages/EventCheckIn';
+import EventAnalytics from './pages/EventAnalytics';
+import LivestreamPlayer from './pages/LivestreamPlayer';
 import Connect from './pages/Connect';
+import AdminModeration from './pages/AdminModeration';
 import CareerGuidance from './pages/CareerGuidance';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import './App.css';
@@ -43,14 +52,24 @@ function AppContent() {
           <Route path="/dashboard" element={user ? <Dashboard /> : <Navigate to="/" />} />
           <Route path="/portfolio" element={user ? <Portfolio /> : <Navigate to="/" />} />
           <Route path="/media" element={<Media />} />
+          <Route path="/media/:id" element={<MediaDetail />} />
           <Route path="/masterclass" element={<Masterclass />} />
           <Route path="/projects" element={<Projects />} />
           <Route path="/events" element={<Events />} />
+          <Route path="/events/new" element={user ? <EventEditor /> : <Navigate to="/" />} />
+          <Route path="/events/:eventId/edit" element={user ? <EventEditor /> : <Navigate to="/" />} />
+          <Route path="/events/:eventId/check-in" element={user ? <EventCheckIn /> : <Navigate to="/" />} />
+          <Route path="/events/:eventId/analytics" element={user ? <EventAnalytics /> : <Navigate to="/" />} />
+          <Route path="/events/:eventId/live" element={user ? <LivestreamPlayer /> : <Navigate to="/" />} />
           <Route path="/profile" element={user ? <Profile /> : <Navigate to="/" />} />
           <Route path="/creator-membership" element={user ? <CreatorMembership /> : <Navigate to="/" />} />
           <Route path="/member-membership" element={user ? <MemberMembership /> : <Navigate to="/" />} />
           <Route path="/content" element={user ? <Content /> : <Navigate to="/" />} />
           <Route path="/account" element={user ? <Account /> : <Navigate to="/" />} />
+          <Route path="/account/tickets" element={user ? <MyTickets /> : <Navigate to="/" />} />
+          <Route path="/account/bookings" element={user ? <MyBookings /> : <Navigate to="/" />} />
+          <Route path="/account/events" element={user ? <MyEvents /> : <Navigate to="/" />} />
+          <Route path="/admin/moderation" element={user?.is_admin ? <AdminModeration /> : <Navigate to="/" />} />
           <Route path="/connect" element={user ? <Connect /> : <Navigate to="/" />} />
           <Route path="/career-guidance/:masterclassId" element={user ? <CareerGuidance /> : <Navigate to="/" />} />
           <Route path="/help-center" element={<HelpCenter />} />
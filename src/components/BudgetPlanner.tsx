@@ -0,0 +1,362 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { PiggyBank, Save, Trash2, FilePlus, FileText, FileSpreadsheet, ChevronDown, ChevronUp } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { fetchEvents, type Event } from '../lib/events';
+import { PROVIDER_CATEGORIES, fetchProvidersByIds, type CartLine, type ProviderCategory } from '../lib/providers';
+import {
+  createBudget,
+  deleteBudget,
+  downloadBudgetCsv,
+  downloadBudgetPdf,
+  fetchBudgets,
+  summarizeBudget,
+  toBudgetItems,
+  updateBudget,
+  type BudgetAllocations,
+  type BudgetExport,
+  type EventBudget,
+} from '../lib/budgets';
+
+interface BudgetPlannerProps {
+  cart: CartLine[];
+  onCartChange: (cart: CartLine[]) => void;
+}
+
+const BUDGET_CATEGORIES = PROVIDER_CATEGORIES.filter(
+  (category): category is ProviderCategory => category !== 'all'
+);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function BudgetPlanner({ cart, onCartChange }: BudgetPlannerProps) {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<EventBudget[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [name, setName] = useState('Untitled plan');
+  const [eventId, setEventId] = useState('');
+  const [totalBudget, setTotalBudget] = useState(0);
+  const [allocations, setAllocations] = useState<BudgetAllocations>({});
+  const [notes, setNotes] = useState('');
+  const [showAllocations, setShowAllocations] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    Promise.all([fetchBudgets(user.id), fetchEvents({ organizerId: user.id })])
+      .then(([savedBudgets, organizedEvents]) => {
+        if (!isMounted) return;
+        setBudgets(savedBudgets);
+        setEvents(organizedEvents);
+      })
+      .catch((error) => console.error('Error loading budget plans:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  const summary = summarizeBudget(totalBudget, allocations, cart);
+
+  const resetPlan = () => {
+    setActiveId(null);
+    setName('Untitled plan');
+    setEventId('');
+    setTotalBudget(0);
+    setAllocations({});
+    setNotes('');
+  };
+
+  const handleSelectPlan = async (budgetId: string) => {
+    const budget = budgets.find((b) => b.id === budgetId);
+    if (!budget) {
+      resetPlan();
+      return;
+    }
+
+    try {
+      const providers = await fetchProvidersByIds(budget.items.map((item) => item.provider_id));
+      // Providers removed since the plan was saved are dropped; prices are always current
+      onCartChange(
+        budget.items.flatMap((item) => {
+          const provider = providers.find((p) => p.id === item.provider_id);
+          return provider ? [{ provider, quantity: item.quantity }] : [];
+        })
+      );
+      setActiveId(budget.id);
+      setName(budget.name);
+      setEventId(budget.event_id || '');
+      setTotalBudget(budget.total_budget);
+      setAllocations(budget.allocations);
+      setNotes(budget.notes || '');
+    } catch (error: any) {
+      console.error('Error loading budget plan:', error);
+      alert(error.message || 'Failed to load budget plan. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!name.trim()) {
+      alert('Please give your plan a name.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const draft = {
+        name: name.trim(),
+        event_id: eventId || null,
+        total_budget: Math.max(0, totalBudget),
+        allocations,
+        items: toBudgetItems(cart),
+        notes: notes.trim() || null,
+      };
+      const saved = activeId ? await updateBudget(activeId, draft) : await createBudget(user.id, draft);
+      setBudgets((prev) => [saved, ...prev.filter((b) => b.id !== saved.id)]);
+      setActiveId(saved.id);
+    } catch (error: any) {
+      console.error('Error saving budget plan:', error);
+      alert(error.message || 'Failed to save budget plan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeId || !window.confirm(`Delete "${name}"?`)) return;
+
+    try {
+      await deleteBudget(activeId);
+      setBudgets((prev) => prev.filter((b) => b.id !== activeId));
+      resetPlan();
+    } catch (error: any) {
+      console.error('Error deleting budget plan:', error);
+      alert(error.message || 'Failed to delete budget plan. Please try again.');
+    }
+  };
+
+  const exportPlan = (): BudgetExport => ({
+    name: name.trim() || 'Budget plan',
+    eventTitle: events.find((event) => event.id === eventId)?.title,
+    totalBudget,
+    notes,
+    cart,
+    summary,
+  });
+
+  const handleExportPdf = async () => {
+    setExporting(true);
+    try {
+      await downloadBudgetPdf(exportPlan());
+    } catch (error: any) {
+      console.error('Error exporting budget plan:', error);
+      alert(error.message || 'Failed to export PDF. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const setAllocation = (category: ProviderCategory, amount: number) => {
+    setAllocations((prev) => {
+      const next = { ...prev };
+      if (amount > 0) next[category] = amount;
+      else delete next[category];
+      return next;
+    });
+  };
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl">
+      <h3 className="text-xl font-semibold text-white flex items-center space-x-2 mb-4">
+        <PiggyBank className="w-5 h-5" />
+        <span>Budget & Plans</span>
+      </h3>
+
+      {user ? (
+        <div className="flex items-center space-x-2 mb-4">
+          <select
+            value={activeId || ''}
+            onChange={(e) => handleSelectPlan(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm focus:ring-2 focus:ring-rose-400"
+          >
+            <option value="" className="bg-gray-800">
+              {activeId ? 'New plan' : 'Unsaved plan'}
+            </option>
+            {budgets.map((budget) => (
+              <option key={budget.id} value={budget.id} className="bg-gray-800">
+                {budget.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={resetPlan} title="New plan" className="p-2 glass-effect rounded-lg text-gray-300 hover:text-white">
+            <FilePlus className="w-4 h-4" />
+          </button>
+          {activeId && (
+            <button onClick={handleDelete} title="Delete plan" className="p-2 glass-effect rounded-lg text-rose-400 hover:text-rose-300">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm mb-4">
+          <Link to="/signin" className="text-rose-400 hover:text-rose-300">
+            Sign in
+          </Link>{' '}
+          to save plans and come back to them later.
+        </p>
+      )}
+
+      <div className="space-y-3 mb-4">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={120}
+          placeholder="Plan name"
+          className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400"
+        />
+        {events.length > 0 && (
+          <select
+            value={eventId}
+            onChange={(e) => setEventId(e.target.value)}
+            className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm focus:ring-2 focus:ring-rose-400"
+          >
+            <option value="" className="bg-gray-800">
+              Not linked to an event
+            </option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id} className="bg-gray-800">
+                {event.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="block text-gray-300 text-sm">
+          Total budget (UGX)
+          <input
+            type="number"
+            min={0}
+            step={10000}
+            value={totalBudget || ''}
+            onChange={(e) => setTotalBudget(Math.max(0, Number(e.target.value)))}
+            className="mt-1 w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white focus:ring-2 focus:ring-rose-400"
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={() => setShowAllocations((show) => !show)}
+        className="w-full flex items-center justify-between text-gray-300 hover:text-white text-sm mb-3"
+      >
+        <span>Allocate by category</span>
+        {showAllocations ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {showAllocations && (
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {BUDGET_CATEGORIES.map((category) => (
+            <label key={category} className="block text-gray-400 text-xs">
+              {capitalize(category)}
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={allocations[category] || ''}
+                onChange={(e) => setAllocation(category, Number(e.target.value))}
+                className="mt-1 w-full px-2 py-1 glass-effect rounded border border-white/20 text-white text-sm focus:ring-2 focus:ring-rose-400"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {summary.lines.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {summary.lines.map((line) => {
+            const over = line.remaining < 0;
+            const percent = line.allocated > 0 ? Math.min(100, (line.planned / line.allocated) * 100) : 100;
+            return (
+              <div key={line.category}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-gray-300">{capitalize(line.category)}</span>
+                  <span className={over ? 'text-rose-400' : 'text-gray-400'}>
+                    {line.planned.toLocaleString()} / {line.allocated.toLocaleString()}
+                  </span>
+                </div>
+                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${over ? 'bg-rose-500' : 'bg-gradient-to-r from-rose-500 to-purple-600'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                {over && (
+                  <p className="text-rose-400 text-xs mt-1">
+                    {line.allocated > 0
+                      ? `Over by UGX ${Math.abs(line.remaining).toLocaleString()}`
+                      : 'No allocation for this category'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {totalBudget > 0 && (
+        <div className="border-t border-white/10 pt-3 mb-4 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-400">Unallocated</span>
+            <span className={summary.unallocated < 0 ? 'text-rose-400' : 'text-white'}>
+              UGX {summary.unallocated.toLocaleString()}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Left after cart</span>
+            <span className={summary.remaining < 0 ? 'text-rose-400 font-semibold' : 'text-green-300 font-semibold'}>
+              UGX {summary.remaining.toLocaleString()}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={2}
+        placeholder="Notes for your team or client"
+        className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 resize-none mb-4"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {user && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : activeId ? 'Save Plan' : 'Save Draft'}</span>
+          </button>
+        )}
+        <button
+          onClick={() => downloadBudgetCsv(exportPlan())}
+          className="px-3 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-1 text-sm"
+        >
+          <FileSpreadsheet className="w-4 h-4" />
+          <span>CSV</span>
+        </button>
+        <button
+          onClick={handleExportPdf}
+          disabled={exporting}
+          className="px-3 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-1 text-sm disabled:opacity-50"
+        >
+          <FileText className="w-4 h-4" />
+          <span>PDF</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,36 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Calendar, MapPin, Clock, Ticket, Star, Share2 } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Calendar, MapPin, Clock, Ticket, Star, Share2, QrCode, PlayCircle, Radio, Pencil, ListPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import type { Event } from '../lib/firebase';
+import type { Event } from '../lib/events';
+import type { EventRegistrationStats } from '../lib/registrations';
+import {
+  getEventTimes,
+  getEventStatus,
+  getCountdown,
+  formatEventDate,
+  formatEventTimeRange,
+  formatViewerTimeRange,
+  isViewerInTimezone,
+  type EventTimes,
+} from '../lib/eventTime';
 
 interface EventCardProps {
   event: Event;
   nowTime: number;
   calendarAdded: Record<string, boolean>;
+  registrationStats?: EventRegistrationStats;
   onToggleCalendar: (eventId: string) => void;
   onShare: (event: Event) => void;
   onRegister: (eventId: string) => void;
 }
 
-function CountdownDisplay({ date, nowTime }: { date: string; nowTime: number }) {
-  const target = new Date(date + 'T00:00:00');
-  const diff = target.getTime() - nowTime;
-  if (diff <= 0) return <span className="text-sm text-rose-400">Happening now</span>;
+function CountdownDisplay({ times, nowTime }: { times: EventTimes; nowTime: number }) {
+  const status = getEventStatus(times, nowTime);
+  if (status === 'happening') return <span className="text-sm text-rose-400">Happening now</span>;
+  if (status === 'past') return <span className="text-sm text-gray-400">Ended</span>;
 
-  const totalSeconds = Math.max(0, Math.floor(diff / 1000));
-  const days = Math.floor(totalSeconds / 86400);
-  const hours = Math.floor((totalSeconds % 86400) / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
+  const { days, hours, minutes, seconds } = getCountdown(times.start, nowTime)!;
 
   return (
     <span className="text-rose-400 text-sm font-mono">
@@ -35,6 +43,7 @@ export default function EventCard({
   event,
   nowTime,
   calendarAdded,
+  registrationStats,
   onToggleCalendar,
   onShare,
   onRegister,
@@ -42,6 +51,24 @@ export default function EventCard({
   const { user } = useAuth();
   const navigate = useNavigate();
 
+  const seatsLeft =
+    registrationStats?.capacity != null
+      ? Math.max(0, registrationStats.capacity - registrationStats.registered_count - registrationStats.held_count)
+      : null;
+  const isSoldOut = seatsLeft === 0;
+
+  const times = getEventTimes(event);
+  const status = getEventStatus(times, nowTime);
+
+  // Upcoming: how far we are from announcement to start. Happening: how much of the event has elapsed.
+  const progress = (() => {
+    if (status === 'past') return 100;
+    const from = status === 'happening' ? times.start.getTime() : new Date(event.created_at).getTime();
+    const to = status === 'happening' ? times.end.getTime() : times.start.getTime();
+    if (to <= from) return 100;
+    return ((nowTime - from) / (to - from)) * 100;
+  })();
+
   function maskRating(r: number): string {
     return '-'.repeat((Number.isFinite(r) ? r : 0).toFixed(1).length);
   }
@@ -52,11 +79,8 @@ export default function EventCard({
       navigate('/signin');
       return;
     }
-    if ((user as any).tier === 'elite' || (user as any).tier === 'premium') {
-      alert('Connecting to livestream...');
-    } else {
-      alert('Livestream is a premium feature. Upgrade to access.');
-    }
+    // Tier and ticket access is checked by the player page's get_event_stream call
+    navigate(`/events/${event.id}/live`);
   };
 
   return (
@@ -69,7 +93,7 @@ export default function EventCard({
             <span className="text-white text-sm">{maskRating(event.rating)}</span>
           </div>
         </div>
-        {event.is_livestream && event.status === 'happening' && (
+        {event.is_livestream && status === 'happening' && (
           <div className="absolute top-4 left-4">
             <span className="px-3 py-1 bg-red-500 text-white text-sm font-medium rounded-full animate-pulse">
               LIVE
@@ -84,6 +108,25 @@ export default function EventCard({
             <h3 className="text-xl font-semibold text-white mb-2">{event.title}</h3>
             <p className="text-gray-200 text-sm">by {event.organizer}</p>
           </div>
+          {user && event.organizer_id === user.id && (
+            <div className="flex space-x-2">
+              <Link
+                to={`/events/${event.id}/edit`}
+                className="flex items-center space-x-1 px-3 py-1 glass-effect text-gray-300 hover:text-white text-sm rounded-lg"
+                title="Edit event"
+              >
+                <Pencil className="w-4 h-4" />
+              </Link>
+              <Link
+                to={`/events/${event.id}/check-in`}
+                className="flex items-center space-x-1 px-3 py-1 glass-effect text-gray-300 hover:text-white text-sm rounded-lg"
+                title="Check in attendees"
+              >
+                <QrCode className="w-4 h-4" />
+                <span>Check-in</span>
+              </Link>
+            </div>
+          )}
         </div>
 
         <p className="text-gray-200 text-sm mb-4 line-clamp-2">{event.description}</p>
@@ -91,23 +134,32 @@ export default function EventCard({
         <div className="space-y-2 mb-4">
           <div className="flex items-center space-x-3 text-gray-200 text-sm">
             <Calendar className="w-4 h-4 text-rose-400" />
-            <span>
-              {new Date(event.date).toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-              })}
-            </span>
+            <span>{formatEventDate(times)}</span>
           </div>
-          <div className="flex items-center space-x-3 text-gray-200 text-sm">
-            <Clock className="w-4 h-4 text-rose-400" />
-            <span>{event.time}</span>
+          <div className="flex items-start space-x-3 text-gray-200 text-sm">
+            <Clock className="w-4 h-4 text-rose-400 mt-0.5" />
+            <div>
+              <div>{formatEventTimeRange(times)}</div>
+              {!times.allDay && !isViewerInTimezone(times.timezone, times.start) && (
+                <div className="text-gray-400 text-xs">{formatViewerTimeRange(times)}</div>
+              )}
+            </div>
           </div>
           <div className="flex items-center space-x-3 text-gray-200 text-sm">
             <MapPin className="w-4 h-4 text-rose-400" />
             <span>{event.location}</span>
           </div>
+          <div className="flex items-center space-x-3 text-gray-200 text-sm">
+            <Ticket className="w-4 h-4 text-rose-400" />
+            <span>
+              {event.price > 0 ? `From UGX ${event.price.toLocaleString()}` : 'Free'}
+              {seatsLeft !== null && (
+                <span className={isSoldOut ? 'text-rose-400 ml-2' : 'text-gray-400 ml-2'}>
+                  • {isSoldOut ? 'Sold out' : `${seatsLeft} seats left`}
+                </span>
+              )}
+            </span>
+          </div>
         </div>
 
         <div className="mb-4">
@@ -130,33 +182,47 @@ export default function EventCard({
         <div className="mb-4">
           <div className="flex items-center justify-between mb-2">
             <div className="text-sm text-gray-300">
-              {event.status === 'happening' && event.is_livestream ? 'Happening' : 'Happening in'}
+              {status === 'upcoming' ? 'Happening in' : status === 'happening' ? 'Happening' : 'Status'}
             </div>
             <div className="text-sm font-semibold text-white">
-              <CountdownDisplay date={event.date} nowTime={nowTime} />
+              <CountdownDisplay times={times} nowTime={nowTime} />
             </div>
           </div>
 
           <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
             <div
               className="h-full bg-gradient-to-r from-rose-500 to-purple-600"
-              style={{ width: `${Math.min(100, Math.max(6, 60))}%` }}
+              style={{ width: `${Math.min(100, Math.max(6, progress))}%` }}
             />
           </div>
         </div>
 
         <div>
-          {event.status === 'upcoming' ? (
+          {status === 'upcoming' ? (
             <div className="flex items-center space-x-3">
               <button
                 onClick={() => onRegister(event.id)}
-                className="flex-1 h-12 flex items-center justify-center px-4 font-semibold rounded-lg transition-all bg-gradient-to-r from-rose-500 to-purple-600 text-white hover:shadow-lg"
+                className={`flex-1 h-12 flex items-center justify-center px-4 font-semibold rounded-lg transition-all ${
+                  isSoldOut
+                    ? 'glass-effect text-white hover:bg-white/10'
+                    : 'bg-gradient-to-r from-rose-500 to-purple-600 text-white hover:shadow-lg'
+                }`}
               >
-                <Ticket className="w-5 h-5 mr-2 inline" />
-                Book Now
+                {isSoldOut ? <ListPlus className="w-5 h-5 mr-2 inline" /> : <Ticket className="w-5 h-5 mr-2 inline" />}
+                {isSoldOut ? 'Join Waitlist' : 'Book Now'}
               </button>
 
               <div className="flex items-center space-x-2">
+                {event.is_livestream && (
+                  <button
+                    onClick={handleStreamNow}
+                    className="h-12 w-12 flex items-center justify-center rounded-xl glass-effect text-gray-300 hover:text-white"
+                    title="Open waiting room"
+                  >
+                    <Radio className="w-5 h-5" />
+                  </button>
+                )}
+
                 <button
                   onClick={() => onToggleCalendar(event.id)}
                   className={`h-12 w-12 flex items-center justify-center rounded-xl ${
@@ -178,7 +244,7 @@ export default function EventCard({
                 </button>
               </div>
             </div>
-          ) : event.status === 'happening' ? (
+          ) : status === 'happening' ? (
             <>
               {event.is_livestream ? (
                 <div className="flex items-center space-x-3">
@@ -218,6 +284,14 @@ export default function EventCard({
                 </button>
               )}
             </>
+          ) : event.is_livestream ? (
+            <button
+              onClick={handleStreamNow}
+              className="w-full py-3 glass-effect text-white font-semibold rounded-xl hover:bg-white/10 transition-all flex items-center justify-center"
+            >
+              <PlayCircle className="w-5 h-5 mr-2" />
+              Watch Replay
+            </button>
           ) : (
             <button className="w-full py-3 bg-gray-600 text-gray-400 font-semibold rounded-xl cursor-not-allowed">
               Event Ended
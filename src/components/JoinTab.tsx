@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Search, Filter, Calendar } from 'lucide-react';
-import type { Event } from '../lib/firebase';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { fetchEvents, EVENT_CATEGORIES, type Event } from '../lib/events';
+import { fetchCalendarAdds, addEventToCalendar, removeEventFromCalendar, downloadEventIcs } from '../lib/calendar';
+import { fetchRegistrationStats, type EventRegistration, type EventRegistrationStats } from '../lib/registrations';
 import EventCard from './EventCard';
+import TicketPurchaseModal from './TicketPurchaseModal';
 
 interface JoinTabProps {
   searchQuery: string;
@@ -16,128 +21,81 @@ export default function JoinTab({
   onSearchChange,
   onCategoryChange,
 }: JoinTabProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [nowTime, setNowTime] = useState(Date.now());
   const [calendarAdded, setCalendarAdded] = useState<Record<string, boolean>>({});
-
-  const categories = ['all', 'social', 'networking', 'business'];
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [registrationStats, setRegistrationStats] = useState<Record<string, EventRegistrationStats>>({});
+  const [bookingEvent, setBookingEvent] = useState<Event | null>(null);
 
   useEffect(() => {
     const t = setInterval(() => setNowTime(Date.now()), 1000);
     return () => clearInterval(t);
   }, []);
 
-  const events: Event[] = [
-    {
-      id: '1',
-      title: 'The Advertising Summit',
-      category: 'business',
-      date: '2025-11-15',
-      time: '10:00 AM - 6:00 PM EAT',
-      location: 'Virtual Event',
-      organizer: 'Creative Arts Institute',
-      organizer_id: null,
-      image_url: 'https://tinuiti.com/wp-content/uploads/2024/12/2025-amazon-and-retail-media-summit-featured.webp?auto=compress&cs=tinysrgb&w=800',
-      description: 'A momentous occasion of advertising insights, creative strategies, and networking.',
-      price: 380000,
-      rating: 4.8,
-      features: ['Live Sessions', 'Networking', 'Certificates', 'Recordings'],
-      speakers: ['Sarah Johnson', 'Mike Chen', 'Emma Wilson'],
-      status: 'upcoming',
-      is_livestream: false,
-      livestream_url: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '2',
-      title: 'Talent Show',
-      category: 'social',
-      date: '2025-11-20',
-      time: '7:00 PM - 10:00 PM EAT',
-      location: 'Kampala, Uganda',
-      organizer: 'Creative Collective',
-      organizer_id: null,
-      image_url: 'https://static.vecteezy.com/system/resources/thumbnails/035/924/440/small_2x/show-talent-podium-3d-retro-talent-show-podium-with-microphone-show-scene-stage-studio-or-room-vector.jpg',
-      description: 'Showcase your talent and compete for amazing prizes. Open to all creative professionals.',
-      price: 95000,
-      rating: 4.9,
-      features: ['Live Judging', 'Prizes', 'Networking', 'Media Coverage'],
-      speakers: ['Celebrity Judges Panel'],
-      status: 'upcoming',
-      is_livestream: false,
-      livestream_url: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '3',
-      title: "The Patrons' Forum",
-      category: 'networking',
-      date: '2025-11-25',
-      time: '6:00 PM - 9:00 PM EAT',
-      location: 'Kampala, Uganda',
-      organizer: 'The Patrons',
-      organizer_id: null,
-      image_url: 'https://cassette.sphdigital.com.sg/image/thepeak/8895ea9e31e92e0644e57b997d762a1a209a9cbf171f5f3a9aed2e210c6d6333?auto=compress&cs=tinysrgb&w=800',
-      description: 'Recognition for Patrons contributions to the flourishing Arts.',
-      price: 285000,
-      rating: 4.7,
-      features: ['Networking', 'Panel Discussion', 'Cocktails', 'Business Cards'],
-      speakers: ['Dr. Maria Rodriguez', 'Jedi Martinez'],
-      status: 'upcoming',
-      is_livestream: false,
-      livestream_url: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '4',
-      title: 'Brand Ambassador Masterclass',
-      category: 'business',
-      date: '2025-10-28',
-      time: '2:00 PM - 5:00 PM EAT',
-      location: 'Virtual Event',
-      organizer: 'Creative Arts Institute',
-      organizer_id: null,
-      image_url: 'https://images.pexels.com/photos/6285080/pexels-photo-6285080.jpeg?auto=compress&cs=tinysrgb&w=800',
-      description: 'Learn the secrets of successful brand ambassadorship from industry experts.',
-      price: 560000,
-      rating: 4.9,
-      features: ['Interactive Sessions', 'Case Studies', 'Q&A', 'Certificate'],
-      speakers: ['Ruby Nesda', 'Maya Chen'],
-      status: 'past',
-      is_livestream: false,
-      livestream_url: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadEvents = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchEvents({
+          searchQuery,
+          category: selectedCategory,
+          status: 'upcoming',
+        });
+        if (isMounted) setEvents(data);
+        fetchRegistrationStats(data.map((event) => event.id))
+          .then((stats) => {
+            if (isMounted) setRegistrationStats(stats);
+          })
+          .catch((error) => console.error('Error fetching registration stats:', error));
+      } catch (error) {
+        console.error('Error fetching events:', error);
+        if (isMounted) setEvents([]);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    const t = setTimeout(loadEvents, 300);
+    return () => {
+      isMounted = false;
+      clearTimeout(t);
+    };
+  }, [searchQuery, selectedCategory]);
+
+  useEffect(() => {
+    if (!user) {
+      setCalendarAdded({});
+      return;
     }
-  ];
-
-  const filteredEvents = events.filter((event) => {
-    const matchesCategory = selectedCategory === 'all' || event.category === selectedCategory;
-    const matchesSearch =
-      event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.organizer.toLowerCase().includes(searchQuery.toLowerCase());
-
-    return matchesCategory && matchesSearch && event.status === 'upcoming';
-  });
-
-  const toggleCalendar = (eventId: string) => {
-    setCalendarAdded((prev) => {
-      const added = !!prev[eventId];
-      const next = { ...prev, [eventId]: !added };
-      if (!added) {
-        setTimeout(() => {
-          if (window.confirm('Added to calendar. Get reminders?')) {
-            alert('Reminders enabled for this event.');
-          }
-        }, 10);
+    fetchCalendarAdds(user.id)
+      .then(setCalendarAdded)
+      .catch((error) => console.error('Error fetching calendar state:', error));
+  }, [user]);
+
+  const toggleCalendar = async (eventId: string) => {
+    const event = events.find((e) => e.id === eventId);
+    if (!event) return;
+
+    const added = !!calendarAdded[eventId];
+    setCalendarAdded((prev) => ({ ...prev, [eventId]: !added }));
+
+    try {
+      if (added) {
+        if (user) await removeEventFromCalendar(user.id, eventId);
+        alert('Removed from your calendar list. Delete the entry in your calendar app if you imported it.');
       } else {
-        alert('Removed from calendar.');
+        downloadEventIcs(event);
+        if (user) await addEventToCalendar(user.id, eventId);
       }
-      return next;
-    });
+    } catch (error) {
+      console.error('Error updating calendar state:', error);
+      setCalendarAdded((prev) => ({ ...prev, [eventId]: added }));
+    }
   };
 
   const handleShare = (event: Event) => {
@@ -154,7 +112,31 @@ export default function JoinTab({
   };
 
   const handleRegister = (eventId: string) => {
-    alert('Registration functionality will be implemented with authentication.');
+    if (!user) {
+      alert('Please sign in to register for events.');
+      navigate('/signin');
+      return;
+    }
+
+    const event = events.find((e) => e.id === eventId);
+    if (event) setBookingEvent(event);
+  };
+
+  const handleRegistered = (registration: EventRegistration) => {
+    const eventId = registration.event_id;
+    setBookingEvent(null);
+    setRegistrationStats((prev) => {
+      const current = prev[eventId];
+      if (!current) return prev;
+      return { ...prev, [eventId]: { ...current, registered_count: current.registered_count + registration.seats } };
+    });
+    alert(
+      `You're registered! Your ticket code is ${registration.ticket_code}.` +
+        (registration.payment_status === 'pending'
+          ? `\n\nPayment of UGX ${registration.amount.toLocaleString()} is due before the event.`
+          : '') +
+        '\n\nFind your tickets anytime under My Tickets in your account.'
+    );
   };
 
   return (
@@ -178,7 +160,7 @@ export default function JoinTab({
             onChange={(e) => onCategoryChange(e.target.value)}
             className="px-4 py-3 glass-effect rounded-xl border border-white/20 text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
           >
-            {categories.map((category) => (
+            {EVENT_CATEGORIES.map((category) => (
               <option key={category} value={category} className="bg-gray-800">
                 {category.charAt(0).toUpperCase() + category.slice(1)}
               </option>
@@ -187,14 +169,20 @@ export default function JoinTab({
         </div>
       </div>
 
-      {filteredEvents.length > 0 ? (
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400 mx-auto"></div>
+          <p className="text-gray-400 mt-4">Loading events...</p>
+        </div>
+      ) : events.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          {filteredEvents.map((event) => (
+          {events.map((event) => (
             <EventCard
               key={event.id}
               event={event}
               nowTime={nowTime}
               calendarAdded={calendarAdded}
+              registrationStats={registrationStats[event.id]}
               onToggleCalendar={toggleCalendar}
               onShare={handleShare}
               onRegister={handleRegister}
@@ -208,6 +196,15 @@ export default function JoinTab({
           <p className="text-gray-400">Try adjusting your search criteria or check back later for new events.</p>
         </div>
       )}
+
+      {bookingEvent && (
+        <TicketPurchaseModal
+          event={bookingEvent}
+          registrationStats={registrationStats[bookingEvent.id]}
+          onClose={() => setBookingEvent(null)}
+          onRegistered={handleRegistered}
+        />
+      )}
     </>
   );
 }
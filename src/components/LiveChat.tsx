@@ -0,0 +1,386 @@
+import { useState, useEffect, useRef, useCallback, type FormEvent } from 'react';
+import { MessageCircle, Send, Trash2, Users, VolumeX, Volume2, Timer } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import {
+  CHAT_REACTIONS,
+  SLOW_MODE_OPTIONS,
+  fetchChatMessages,
+  fetchChatState,
+  fetchChatMutes,
+  sendChatMessage,
+  sendChatReaction,
+  deleteChatMessage,
+  muteChatUser,
+  unmuteChatUser,
+  setChatSlowMode,
+  type ChatMessage,
+  type ChatState,
+} from '../lib/eventChat';
+
+interface LiveChatProps {
+  eventId: string;
+  startsAt: Date;
+  mode: 'live' | 'replay';
+  // Seconds into the recording; replays only show chat up to this point.
+  playbackSeconds?: number;
+}
+
+type FloatingReaction = {
+  id: string;
+  emoji: string;
+  left: number;
+};
+
+const REACTION_LIFETIME_MS = 2500;
+const MAX_FLOATING_REACTIONS = 30;
+
+export default function LiveChat({ eventId, startsAt, mode, playbackSeconds = 0 }: LiveChatProps) {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chatState, setChatState] = useState<ChatState>({ slow_mode_seconds: 0, is_muted: false, is_moderator: false });
+  const [mutedUserIds, setMutedUserIds] = useState<Set<string>>(new Set());
+  const [viewerCount, setViewerCount] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [nextMessageAt, setNextMessageAt] = useState(0);
+  const [nowTime, setNowTime] = useState(Date.now());
+  const [floating, setFloating] = useState<FloatingReaction[]>([]);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const lastPlaybackRef = useRef(playbackSeconds);
+
+  const isLive = mode === 'live';
+
+  const showReaction = useCallback((id: string, emoji: string) => {
+    setFloating((prev) => [...prev.slice(-MAX_FLOATING_REACTIONS + 1), { id, emoji, left: 10 + Math.random() * 80 }]);
+    setTimeout(() => setFloating((prev) => prev.filter((r) => r.id !== id)), REACTION_LIFETIME_MS);
+  }, []);
+
+  const refreshChatState = useCallback(async () => {
+    try {
+      const state = await fetchChatState(eventId);
+      setChatState(state);
+      if (state.is_moderator) {
+        const mutes = await fetchChatMutes(eventId);
+        setMutedUserIds(new Set(mutes.map((m) => m.user_id)));
+      }
+    } catch (error) {
+      console.error('Error loading chat settings:', error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchChatMessages(eventId)
+      .then((data) => {
+        if (isMounted) setMessages(data);
+      })
+      .catch((error) => console.error('Error loading chat:', error));
+
+    if (isLive) refreshChatState();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, isLive, refreshChatState]);
+
+  useEffect(() => {
+    if (!isLive || !user) return;
+
+    // Viewers share one topic for presence and moderator broadcasts, so the channel has to be
+    // removed from the client on cleanup or the next mount would reuse the closed one
+    const channel = supabase.channel(`event_chat_${eventId}`, {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'event_chat_messages', filter: `event_id=eq.${eventId}` },
+        (payload) => {
+          const message = payload.new as ChatMessage;
+          setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+          if (message.kind === 'reaction') showReaction(message.id, message.body);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'event_chat_messages', filter: `event_id=eq.${eventId}` },
+        (payload) => {
+          const updated = payload.new as ChatMessage;
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+        }
+      )
+      // Moderators announce mute and slow mode changes; each client re-reads its own state
+      .on('broadcast', { event: 'chat_state' }, () => {
+        refreshChatState();
+      })
+      .on('presence', { event: 'sync' }, () => {
+        setViewerCount(Object.keys(channel.presenceState()).length);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ name: user.name, joined_at: new Date().toISOString() });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, isLive, user, refreshChatState, showReaction]);
+
+  // Slow mode countdown
+  useEffect(() => {
+    if (nextMessageAt <= Date.now()) return;
+    const timer = setInterval(() => setNowTime(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [nextMessageAt]);
+
+  // Keyed on the timestamp rather than the Date so a parent passing a fresh Date each render is harmless
+  const startsAtMs = startsAt.getTime();
+  const replayOffset = useCallback(
+    (message: ChatMessage) => (new Date(message.created_at).getTime() - startsAtMs) / 1000,
+    [startsAtMs]
+  );
+
+  // Replays fire reactions as playback passes them; seeking jumps without replaying everything in between
+  useEffect(() => {
+    if (isLive) return;
+    const previous = lastPlaybackRef.current;
+    lastPlaybackRef.current = playbackSeconds;
+    if (playbackSeconds < previous || playbackSeconds - previous > 5) return;
+
+    messages
+      .filter((m) => m.kind === 'reaction' && !m.deleted_at)
+      .filter((m) => {
+        const offset = replayOffset(m);
+        return offset > previous && offset <= playbackSeconds;
+      })
+      .forEach((m) => showReaction(m.id, m.body));
+  }, [playbackSeconds, isLive, messages, replayOffset, showReaction]);
+
+  const visibleMessages = messages.filter(
+    (m) => m.kind === 'message' && (isLive || replayOffset(m) <= playbackSeconds)
+  );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [visibleMessages.length]);
+
+  const slowModeRemaining = Math.max(0, Math.ceil((nextMessageAt - nowTime) / 1000));
+
+  const announceStateChange = () => {
+    channelRef.current?.send({ type: 'broadcast', event: 'chat_state', payload: {} });
+  };
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    setSending(true);
+    try {
+      const message = await sendChatMessage(eventId, body);
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      setDraft('');
+      if (chatState.slow_mode_seconds > 0 && !chatState.is_moderator) {
+        setNextMessageAt(Date.now() + chatState.slow_mode_seconds * 1000);
+        setNowTime(Date.now());
+      }
+    } catch (error: any) {
+      console.error('Error sending chat message:', error);
+      alert(error.message || 'Failed to send message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleReaction = async (emoji: string) => {
+    try {
+      await sendChatReaction(eventId, emoji);
+    } catch (error: any) {
+      console.error('Error sending reaction:', error);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    try {
+      const updated = await deleteChatMessage(messageId);
+      setMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    } catch (error: any) {
+      console.error('Error removing chat message:', error);
+      alert(error.message || 'Failed to remove message. Please try again.');
+    }
+  };
+
+  const handleToggleMute = async (userId: string) => {
+    if (!user) return;
+    try {
+      if (mutedUserIds.has(userId)) {
+        await unmuteChatUser(eventId, userId);
+      } else {
+        await muteChatUser(eventId, userId, user.id);
+      }
+      await refreshChatState();
+      announceStateChange();
+    } catch (error: any) {
+      console.error('Error updating mute:', error);
+      alert(error.message || 'Failed to update mute. Please try again.');
+    }
+  };
+
+  const handleSlowModeChange = async (seconds: number) => {
+    try {
+      await setChatSlowMode(eventId, seconds);
+      setChatState((prev) => ({ ...prev, slow_mode_seconds: seconds }));
+      announceStateChange();
+    } catch (error: any) {
+      console.error('Error updating slow mode:', error);
+      alert(error.message || 'Failed to update slow mode. Please try again.');
+    }
+  };
+
+  return (
+    <div className="relative glass-effect rounded-2xl flex flex-col h-[32rem]">
+      <div className="pointer-events-none absolute inset-x-0 bottom-24 h-56 overflow-hidden">
+        {floating.map((reaction) => (
+          <span
+            key={reaction.id}
+            className="absolute bottom-0 text-3xl animate-reaction"
+            style={{ left: `${reaction.left}%` }}
+          >
+            {reaction.emoji}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="text-white font-semibold flex items-center space-x-2">
+          <MessageCircle className="w-5 h-5 text-rose-400" />
+          <span>{isLive ? 'Live Chat' : 'Chat Replay'}</span>
+        </h2>
+        {isLive && (
+          <div className="flex items-center space-x-3 text-sm text-gray-300">
+            {chatState.slow_mode_seconds > 0 && (
+              <span className="flex items-center space-x-1" title="Slow mode">
+                <Timer className="w-4 h-4" />
+                <span>{chatState.slow_mode_seconds}s</span>
+              </span>
+            )}
+            <span className="flex items-center space-x-1" title="Watching now">
+              <Users className="w-4 h-4" />
+              <span>{viewerCount}</span>
+            </span>
+          </div>
+        )}
+      </div>
+
+      {isLive && chatState.is_moderator && (
+        <div className="px-4 py-2 border-b border-white/10 flex items-center justify-between text-sm">
+          <span className="text-gray-400">Slow mode</span>
+          <select
+            value={chatState.slow_mode_seconds}
+            onChange={(e) => handleSlowModeChange(Number(e.target.value))}
+            className="bg-gray-800 text-white rounded-lg px-2 py-1 border border-white/20"
+          >
+            {SLOW_MODE_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? 'Off' : `${seconds} seconds`}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {visibleMessages.length === 0 ? (
+          <p className="text-gray-400 text-sm text-center py-8">
+            {isLive ? 'No messages yet. Say hello!' : 'Chat messages will appear as the replay plays.'}
+          </p>
+        ) : (
+          visibleMessages.map((message) => (
+            <div key={message.id} className="group text-sm">
+              <div className="flex items-center justify-between">
+                <span className={`font-medium ${message.user_id === user?.id ? 'text-rose-300' : 'text-purple-300'}`}>
+                  {message.author_name}
+                  {mutedUserIds.has(message.user_id) && <span className="text-gray-500 text-xs ml-2">muted</span>}
+                </span>
+                {isLive && chatState.is_moderator && message.user_id !== user?.id && (
+                  <div className="hidden group-hover:flex items-center space-x-2">
+                    {!message.deleted_at && (
+                      <button
+                        onClick={() => handleDelete(message.id)}
+                        className="text-gray-400 hover:text-rose-400"
+                        title="Remove message"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleMute(message.user_id)}
+                      className="text-gray-400 hover:text-rose-400"
+                      title={mutedUserIds.has(message.user_id) ? 'Unmute user' : 'Mute user'}
+                    >
+                      {mutedUserIds.has(message.user_id) ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {message.deleted_at ? (
+                <p className="text-gray-500 italic">Message removed by the organizer</p>
+              ) : (
+                <p className="text-gray-200 break-words">{message.body}</p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {isLive && (
+        <div className="border-t border-white/10 p-3 space-y-2">
+          <div className="flex justify-between">
+            {CHAT_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => handleReaction(emoji)}
+                disabled={chatState.is_muted}
+                className="text-xl px-2 py-1 rounded-lg hover:bg-white/10 disabled:opacity-40 transition-all"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+          {chatState.is_muted ? (
+            <p className="text-gray-400 text-sm text-center py-2">You have been muted by the organizer.</p>
+          ) : (
+            <form onSubmit={handleSend} className="flex space-x-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={500}
+                placeholder={slowModeRemaining > 0 ? `Slow mode: wait ${slowModeRemaining}s` : 'Say something...'}
+                disabled={slowModeRemaining > 0}
+                className="flex-1 px-3 py-2 glass-effect rounded-xl border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent disabled:opacity-60"
+              />
+              <button
+                type="submit"
+                disabled={sending || slowModeRemaining > 0 || !draft.trim()}
+                className="px-3 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg disabled:opacity-50 transition-all"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Search, Filter, Calendar } from 'lucide-react';
-import type { Event } from '../lib/firebase';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { fetchEvents, EVENT_CATEGORIES, type Event } from '../lib/events';
+import { fetchCalendarAdds, addEventToCalendar, removeEventFromCalendar, downloadEventIcs } from '../lib/calendar';
+import { fetchRegistrationStats, type EventRegistration, type EventRegistrationStats } from '../lib/registrations';
 import EventCard from './EventCard';
+import TicketPurchaseModal from './TicketPurchaseModal';
 
 interface LivestreamTabProps {
   searchQuery: string;
@@ -16,65 +21,81 @@ export default function LivestreamTab({
   onSearchChange,
   onCategoryChange,
 }: LivestreamTabProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [nowTime, setNowTime] = useState(Date.now());
   const [calendarAdded, setCalendarAdded] = useState<Record<string, boolean>>({});
-
-  const categories = ['all', 'social', 'networking', 'business'];
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [registrationStats, setRegistrationStats] = useState<Record<string, EventRegistrationStats>>({});
+  const [bookingEvent, setBookingEvent] = useState<Event | null>(null);
 
   useEffect(() => {
     const t = setInterval(() => setNowTime(Date.now()), 1000);
     return () => clearInterval(t);
   }, []);
 
-  const events: Event[] = [
-    {
-      id: '5',
-      title: 'Live Concert - Dawn Fever',
-      category: 'social',
-      date: new Date().toISOString().split('T')[0],
-      time: 'Now',
-      location: 'Main Auditorium',
-      organizer: 'LiveEvents Ltd',
-      organizer_id: null,
-      image_url: 'https://images.pexels.com/photos/1190299/pexels-photo-1190299.jpeg?auto=compress&cs=tinysrgb&w=800',
-      description: 'Never miss a beat. Attend or stream as a premium subscriber or on VIP ticket.',
-      price: 150000,
-      rating: 4.9,
-      features: ['Live Performance', 'Merch', 'Meet & Greet'],
-      speakers: ['Headline Artist'],
-      status: 'happening',
-      is_livestream: true,
-      livestream_url: 'https://stream.example.com/dawn-fever',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadEvents = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchEvents({
+          searchQuery,
+          category: selectedCategory,
+          isLivestream: true,
+        });
+        if (isMounted) setEvents(data);
+        fetchRegistrationStats(data.map((event) => event.id))
+          .then((stats) => {
+            if (isMounted) setRegistrationStats(stats);
+          })
+          .catch((error) => console.error('Error fetching registration stats:', error));
+      } catch (error) {
+        console.error('Error fetching livestream events:', error);
+        if (isMounted) setEvents([]);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    const t = setTimeout(loadEvents, 300);
+    return () => {
+      isMounted = false;
+      clearTimeout(t);
+    };
+  }, [searchQuery, selectedCategory]);
+
+  useEffect(() => {
+    if (!user) {
+      setCalendarAdded({});
+      return;
     }
-  ];
-
-  const filteredEvents = events.filter((event) => {
-    const matchesCategory = selectedCategory === 'all' || event.category === selectedCategory;
-    const matchesSearch =
-      event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.organizer.toLowerCase().includes(searchQuery.toLowerCase());
-
-    return matchesCategory && matchesSearch;
-  });
-
-  const toggleCalendar = (eventId: string) => {
-    setCalendarAdded((prev) => {
-      const added = !!prev[eventId];
-      const next = { ...prev, [eventId]: !added };
-      if (!added) {
-        setTimeout(() => {
-          if (window.confirm('Added to calendar. Get reminders?')) {
-            alert('Reminders enabled for this event.');
-          }
-        }, 10);
+    fetchCalendarAdds(user.id)
+      .then(setCalendarAdded)
+      .catch((error) => console.error('Error fetching calendar state:', error));
+  }, [user]);
+
+  const toggleCalendar = async (eventId: string) => {
+    const event = events.find((e) => e.id === eventId);
+    if (!event) return;
+
+    const added = !!calendarAdded[eventId];
+    setCalendarAdded((prev) => ({ ...prev, [eventId]: !added }));
+
+    try {
+      if (added) {
+        if (user) await removeEventFromCalendar(user.id, eventId);
+        alert('Removed from your calendar list. Delete the entry in your calendar app if you imported it.');
       } else {
-        alert('Removed from calendar.');
+        downloadEventIcs(event);
+        if (user) await addEventToCalendar(user.id, eventId);
       }
-      return next;
-    });
+    } catch (error) {
+      console.error('Error updating calendar state:', error);
+      setCalendarAdded((prev) => ({ ...prev, [eventId]: added }));
+    }
   };
 
   const handleShare = (event: Event) => {
@@ -91,7 +112,31 @@ export default function LivestreamTab({
   };
 
   const handleRegister = (eventId: string) => {
-    alert('Registration functionality will be implemented with authentication.');
+    if (!user) {
+      alert('Please sign in to register for events.');
+      navigate('/signin');
+      return;
+    }
+
+    const event = events.find((e) => e.id === eventId);
+    if (event) setBookingEvent(event);
+  };
+
+  const handleRegistered = (registration: EventRegistration) => {
+    const eventId = registration.event_id;
+    setBookingEvent(null);
+    setRegistrationStats((prev) => {
+      const current = prev[eventId];
+      if (!current) return prev;
+      return { ...prev, [eventId]: { ...current, registered_count: current.registered_count + registration.seats } };
+    });
+    alert(
+      `You're registered! Your ticket code is ${registration.ticket_code}.` +
+        (registration.payment_status === 'pending'
+          ? `\n\nPayment of UGX ${registration.amount.toLocaleString()} is due before the event.`
+          : '') +
+        '\n\nFind your tickets anytime under My Tickets in your account.'
+    );
   };
 
   return (
@@ -115,7 +160,7 @@ export default function LivestreamTab({
             onChange={(e) => onCategoryChange(e.target.value)}
             className="px-4 py-3 glass-effect rounded-xl border border-white/20 text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
           >
-            {categories.map((category) => (
+            {EVENT_CATEGORIES.map((category) => (
               <option key={category} value={category} className="bg-gray-800">
                 {category.charAt(0).toUpperCase() + category.slice(1)}
               </option>
@@ -131,14 +176,20 @@ export default function LivestreamTab({
         </p>
       </div>
 
-      {filteredEvents.length > 0 ? (
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400 mx-auto"></div>
+          <p className="text-gray-400 mt-4">Loading livestream events...</p>
+        </div>
+      ) : events.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          {filteredEvents.map((event) => (
+          {events.map((event) => (
             <EventCard
               key={event.id}
               event={event}
               nowTime={nowTime}
               calendarAdded={calendarAdded}
+              registrationStats={registrationStats[event.id]}
               onToggleCalendar={toggleCalendar}
               onShare={handleShare}
               onRegister={handleRegister}
@@ -152,6 +203,15 @@ export default function LivestreamTab({
           <p className="text-gray-400">Check back later for upcoming livestream events.</p>
         </div>
       )}
+
+      {bookingEvent && (
+        <TicketPurchaseModal
+          event={bookingEvent}
+          registrationStats={registrationStats[bookingEvent.id]}
+          onClose={() => setBookingEvent(null)}
+          onRegistered={handleRegistered}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,476 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { Flag, Heart, MessageCircle, Pencil, Pin, Reply, Send, Trash2, User, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import {
+  COMMENT_DELETE_WINDOW_MS,
+  COMMENT_EDIT_WINDOW_MS,
+  COMMENT_MAX_LENGTH,
+  REPORT_REASONS,
+  deleteComment,
+  editComment,
+  fetchComment,
+  fetchComments,
+  likeComment,
+  pinComment,
+  postComment,
+  reportComment,
+  unlikeComment,
+  withinWindow,
+  type CommentReportReason,
+  type MediaComment,
+} from '../lib/comments';
+
+interface MediaCommentsProps {
+  mediaId: string;
+  creatorId: string | null;
+}
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+export default function MediaComments({ mediaId, creatorId }: MediaCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<MediaComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [replyTo, setReplyTo] = useState<MediaComment | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [reportTarget, setReportTarget] = useState<MediaComment | null>(null);
+  const [reportReason, setReportReason] = useState<CommentReportReason>('spam');
+  const [reportDetails, setReportDetails] = useState('');
+  // Re-render every minute so edit/delete actions disappear when their window closes
+  const [nowTime, setNowTime] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNowTime(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    fetchComments(mediaId)
+      .then((data) => {
+        if (isMounted) setComments(data);
+      })
+      .catch((error) => console.error('Error loading comments:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [mediaId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const addComment = (comment: MediaComment) =>
+      setComments((prev) => (prev.some((c) => c.id === comment.id) ? prev : [...prev, comment]));
+
+    const loadComment = (commentId: string) =>
+      fetchComment(commentId)
+        .then((comment) => {
+          if (comment) addComment(comment);
+        })
+        .catch((error) => console.error('Error loading comment:', error));
+
+    // Table rows carry no author details, so new comments are read back through the view; updates
+    // only touch the table's own columns and are merged into what is loaded
+    const channel = supabase
+      .channel(`media_comments_${mediaId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'media_comments', filter: `media_id=eq.${mediaId}` },
+        (payload) => loadComment((payload.new as { id: string }).id)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'media_comments', filter: `media_id=eq.${mediaId}` },
+        (payload) => {
+          const { id, body, likes_count, is_pinned, is_hidden, edited_at } = payload.new as MediaComment;
+          setComments((prev) =>
+            prev.map((c) => (c.id === id ? { ...c, body, likes_count, is_pinned, is_hidden, edited_at } : c))
+          );
+        }
+      )
+      // Row changes stop reaching viewers once a comment is hidden from them, and DELETE changes
+      // cannot be filtered by item, so the database broadcasts both on this topic by id
+      .on('broadcast', { event: 'comment_visibility' }, ({ payload }) => {
+        const { id, is_hidden } = payload as { id: string; is_hidden: boolean };
+        setComments((prev) => prev.map((c) => (c.id === id ? { ...c, is_hidden } : c)));
+        // Viewers who never had the comment loaded read it back once it is shown again
+        if (!is_hidden) loadComment(id);
+      })
+      .on('broadcast', { event: 'comment_deleted' }, ({ payload }) => {
+        const { id } = payload as { id: string };
+        // Deleting a comment removes its replies
+        setComments((prev) => prev.filter((c) => c.id !== id && c.parent_id !== id));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [mediaId, user]);
+
+  if (!user) return null;
+
+  const isCreator = creatorId === user.id;
+  const visible = comments.filter((c) => !c.is_hidden || c.user_id === user.id || user.is_admin);
+  const topLevel = visible
+    .filter((c) => !c.parent_id)
+    .sort((a, b) => Number(b.is_pinned) - Number(a.is_pinned) || b.created_at.localeCompare(a.created_at));
+  const repliesTo = (commentId: string) => visible.filter((c) => c.parent_id === commentId);
+
+  const canEdit = (comment: MediaComment) =>
+    comment.user_id === user.id && withinWindow(comment, COMMENT_EDIT_WINDOW_MS, nowTime);
+  const canDelete = (comment: MediaComment) =>
+    isCreator || user.is_admin || (comment.user_id === user.id && withinWindow(comment, COMMENT_DELETE_WINDOW_MS, nowTime));
+
+  const handlePost = async (e: FormEvent, parent: MediaComment | null) => {
+    e.preventDefault();
+    const body = parent ? replyDraft : draft;
+    if (!body.trim()) return;
+
+    setPosting(true);
+    try {
+      const comment = await postComment(user.id, mediaId, body, parent ? parent.parent_id ?? parent.id : null);
+      setComments((prev) => (prev.some((c) => c.id === comment.id) ? prev : [...prev, comment]));
+      if (parent) {
+        setReplyTo(null);
+        setReplyDraft('');
+      } else {
+        setDraft('');
+      }
+    } catch (error: any) {
+      console.error('Error posting comment:', error);
+      alert(error.message || 'Failed to post comment. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleEdit = async (e: FormEvent, comment: MediaComment) => {
+    e.preventDefault();
+    if (!editDraft.trim()) return;
+
+    try {
+      await editComment(comment.id, editDraft);
+      setComments((prev) =>
+        prev.map((c) => (c.id === comment.id ? { ...c, body: editDraft.trim(), edited_at: new Date().toISOString() } : c))
+      );
+      setEditingId(null);
+    } catch (error: any) {
+      console.error('Error editing comment:', error);
+      alert(error.message || 'Failed to edit comment. Please try again.');
+    }
+  };
+
+  const handleDelete = async (comment: MediaComment) => {
+    if (!confirm(comment.parent_id ? 'Delete this reply?' : 'Delete this comment and its replies?')) return;
+
+    try {
+      await deleteComment(comment.id);
+      setComments((prev) => prev.filter((c) => c.id !== comment.id && c.parent_id !== comment.id));
+    } catch (error: any) {
+      console.error('Error deleting comment:', error);
+      alert(error.message || 'Failed to delete comment. Please try again.');
+    }
+  };
+
+  const handleLike = async (comment: MediaComment) => {
+    const setLiked = (liked: boolean, likeId: string | null) =>
+      setComments((prev) =>
+        prev.map((c) =>
+          c.id === comment.id
+            ? {
+                ...c,
+                is_liked: liked,
+                my_like_id: likeId,
+                likes_count: c.is_liked === liked ? c.likes_count : Math.max(0, c.likes_count + (liked ? 1 : -1)),
+              }
+            : c
+        )
+      );
+
+    setLiked(!comment.is_liked, null);
+    try {
+      if (comment.is_liked) {
+        await unlikeComment(user.id, comment.id);
+      } else {
+        const likeId = await likeComment(user.id, comment.id);
+        if (likeId) setLiked(true, likeId);
+      }
+    } catch (error: any) {
+      setLiked(comment.is_liked, comment.my_like_id);
+      console.error('Error toggling comment like:', error);
+      alert(error.message || 'Failed to update like. Please try again.');
+    }
+  };
+
+  const handlePin = async (comment: MediaComment) => {
+    try {
+      const pinned = !comment.is_pinned;
+      await pinComment(comment.id, pinned);
+      // Pinning replaces any previous pin on the item
+      setComments((prev) =>
+        prev.map((c) => (c.id === comment.id ? { ...c, is_pinned: pinned } : pinned ? { ...c, is_pinned: false } : c))
+      );
+    } catch (error: any) {
+      console.error('Error pinning comment:', error);
+      alert(error.message || 'Failed to pin comment. Please try again.');
+    }
+  };
+
+  const handleReport = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!reportTarget) return;
+
+    try {
+      const reported = await reportComment(user.id, reportTarget.id, reportReason, reportDetails);
+      alert(reported ? 'Thanks, our team will review this comment.' : 'You have already reported this comment.');
+      setReportTarget(null);
+      setReportDetails('');
+    } catch (error: any) {
+      console.error('Error reporting comment:', error);
+      alert(error.message || 'Failed to report comment. Please try again.');
+    }
+  };
+
+  const renderComment = (comment: MediaComment) => {
+    const isReply = Boolean(comment.parent_id);
+
+    return (
+      <div key={comment.id} className={isReply ? 'ml-12 mt-3' : ''}>
+        <div className="flex gap-3">
+          <div className="w-9 h-9 rounded-full bg-gradient-to-r from-rose-500 to-purple-600 flex items-center justify-center overflow-hidden flex-shrink-0">
+            {comment.author_image ? (
+              <img src={comment.author_image} alt={comment.author_name} className="w-full h-full object-cover" />
+            ) : (
+              <User className="w-4 h-4 text-white" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-white font-medium">{comment.author_name}</span>
+              {comment.user_id === creatorId && (
+                <span className="px-2 py-0.5 bg-rose-500/20 text-rose-300 rounded-full text-xs">Creator</span>
+              )}
+              <span className="text-gray-500 text-xs">
+                {timeAgo(comment.created_at)}
+                {comment.edited_at && ' (edited)'}
+              </span>
+              {comment.is_pinned && (
+                <span className="flex items-center space-x-1 text-yellow-400 text-xs">
+                  <Pin className="w-3 h-3" />
+                  <span>Pinned</span>
+                </span>
+              )}
+              {comment.is_hidden && <span className="text-red-400 text-xs">Hidden after reports</span>}
+            </div>
+
+            {editingId === comment.id ? (
+              <form onSubmit={(e) => handleEdit(e, comment)} className="mt-2 space-y-2">
+                <textarea
+                  rows={2}
+                  value={editDraft}
+                  maxLength={COMMENT_MAX_LENGTH}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                />
+                <div className="flex gap-2">
+                  <button type="submit" className="px-3 py-1 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg text-xs">
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 glass-effect text-gray-300 hover:text-white rounded-lg text-xs"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <p className="text-gray-300 text-sm mt-1 whitespace-pre-line break-words">{comment.body}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-gray-400">
+              <button
+                onClick={() => handleLike(comment)}
+                className={`flex items-center space-x-1 transition-colors ${comment.is_liked ? 'text-rose-400' : 'hover:text-white'}`}
+              >
+                <Heart className={`w-3 h-3 ${comment.is_liked ? 'fill-current' : ''}`} />
+                <span>{comment.likes_count}</span>
+              </button>
+              <button
+                onClick={() => {
+                  setReplyTo(comment);
+                  setReplyDraft(isReply ? `@${comment.author_name} ` : '');
+                }}
+                className="flex items-center space-x-1 hover:text-white transition-colors"
+              >
+                <Reply className="w-3 h-3" />
+                <span>Reply</span>
+              </button>
+              {isCreator && !isReply && !comment.is_hidden && (
+                <button onClick={() => handlePin(comment)} className="flex items-center space-x-1 hover:text-white transition-colors">
+                  <Pin className="w-3 h-3" />
+                  <span>{comment.is_pinned ? 'Unpin' : 'Pin'}</span>
+                </button>
+              )}
+              {canEdit(comment) && editingId !== comment.id && (
+                <button
+                  onClick={() => {
+                    setEditingId(comment.id);
+                    setEditDraft(comment.body);
+                  }}
+                  className="flex items-center space-x-1 hover:text-white transition-colors"
+                >
+                  <Pencil className="w-3 h-3" />
+                  <span>Edit</span>
+                </button>
+              )}
+              {canDelete(comment) && (
+                <button onClick={() => handleDelete(comment)} className="flex items-center space-x-1 hover:text-red-400 transition-colors">
+                  <Trash2 className="w-3 h-3" />
+                  <span>Delete</span>
+                </button>
+              )}
+              {comment.user_id !== user.id && (
+                <button onClick={() => setReportTarget(comment)} className="flex items-center space-x-1 hover:text-white transition-colors">
+                  <Flag className="w-3 h-3" />
+                  <span>Report</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {replyTo?.id === comment.id && (
+          <form onSubmit={(e) => handlePost(e, comment)} className="ml-12 mt-3 flex gap-2">
+            <input
+              type="text"
+              autoFocus
+              value={replyDraft}
+              maxLength={COMMENT_MAX_LENGTH}
+              onChange={(e) => setReplyDraft(e.target.value)}
+              placeholder={`Reply to ${comment.author_name}...`}
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={posting || !replyDraft.trim()}
+              className="px-3 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => setReplyTo(null)} className="px-2 text-gray-400 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        )}
+
+        {!isReply && repliesTo(comment.id).map(renderComment)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+        <MessageCircle className="w-5 h-5 text-rose-400" />
+        <span>Comments ({visible.length})</span>
+      </h2>
+
+      <form onSubmit={(e) => handlePost(e, null)} className="mb-6">
+        <textarea
+          rows={3}
+          value={draft}
+          maxLength={COMMENT_MAX_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Share your thoughts..."
+          className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+        />
+        <div className="flex justify-end mt-2">
+          <button
+            type="submit"
+            disabled={posting || !draft.trim()}
+            className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            <span>{posting ? 'Posting...' : 'Comment'}</span>
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-400"></div>
+        </div>
+      ) : topLevel.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center py-6">No comments yet. Start the conversation!</p>
+      ) : (
+        <div className="space-y-6">{topLevel.map(renderComment)}</div>
+      )}
+
+      {reportTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleReport} className="bg-gray-800 border border-gray-700 p-6 rounded-2xl max-w-md w-full">
+            <h3 className="text-xl font-semibold text-white mb-2">Report Comment</h3>
+            <p className="text-gray-400 text-sm mb-4 line-clamp-3">"{reportTarget.body}"</p>
+            <div className="space-y-2 mb-4">
+              {(Object.keys(REPORT_REASONS) as CommentReportReason[]).map((reason) => (
+                <label key={reason} className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    checked={reportReason === reason}
+                    onChange={() => setReportReason(reason)}
+                    className="accent-rose-500"
+                  />
+                  <span>{REPORT_REASONS[reason]}</span>
+                </label>
+              ))}
+            </div>
+            <textarea
+              rows={2}
+              value={reportDetails}
+              onChange={(e) => setReportDetails(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent mb-4"
+            />
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="flex-1 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all"
+              >
+                Report
+              </button>
+              <button
+                type="button"
+                onClick={() => setReportTarget(null)}
+                className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
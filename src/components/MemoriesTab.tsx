@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   MessageCircle,
@@ -6,16 +6,274 @@ import {
   Send,
   Camera,
   Sparkles,
+  Star,
+  X,
+  Trash2,
+  Reply,
+  Calendar,
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import { fetchEvents, type Event } from '../lib/events';
+import { getEventTimes, getEventStatus, formatEventDate } from '../lib/eventTime';
+import {
+  MAX_MEMORY_PHOTOS,
+  fetchEventMemories,
+  createEventMemory,
+  deleteEventMemory,
+  uploadMemoryPhoto,
+  fetchAttendedEvents,
+  fetchMemoryChats,
+  postMemoryChat,
+  deleteMemoryChat,
+  type MemoryWithDetails,
+  type MemoryChatWithAuthor,
+} from '../lib/memories';
+
+const MAX_REPLY_DEPTH = 4;
+
+function ChatThread({
+  message,
+  replies,
+  depth,
+  currentUserId,
+  onReply,
+  onDelete,
+}: {
+  message: MemoryChatWithAuthor;
+  replies: Record<string, MemoryChatWithAuthor[]>;
+  depth: number;
+  currentUserId?: string;
+  onReply: (message: MemoryChatWithAuthor) => void;
+  onDelete: (messageId: string) => void;
+}) {
+  const children = replies[message.id] || [];
+
+  return (
+    <div className={depth > 0 ? 'ml-4 md:ml-8 pl-4 border-l border-white/10' : ''}>
+      <div className="py-2">
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="font-medium text-purple-300">{message.author?.name || 'Attendee'}</span>
+          <span className="text-gray-500 text-xs">{new Date(message.created_at).toLocaleString()}</span>
+        </div>
+        <p className="text-gray-200 break-words">{message.message}</p>
+        <div className="flex items-center space-x-4 mt-1 text-xs">
+          {currentUserId && (
+            <button onClick={() => onReply(message)} className="flex items-center space-x-1 text-gray-400 hover:text-white">
+              <Reply className="w-3 h-3" />
+              <span>Reply</span>
+            </button>
+          )}
+          {message.user_id === currentUserId && (
+            <button onClick={() => onDelete(message.id)} className="flex items-center space-x-1 text-gray-400 hover:text-rose-400">
+              <Trash2 className="w-3 h-3" />
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+      </div>
+      {children.map((child) => (
+        <ChatThread
+          key={child.id}
+          message={child}
+          replies={replies}
+          depth={Math.min(depth + 1, MAX_REPLY_DEPTH)}
+          currentUserId={currentUserId}
+          onReply={onReply}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  );
+}
 
 export default function MemoriesTab() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [activeView, setActiveView] = useState<'journal' | 'chat'>('journal');
   const [newMessage, setNewMessage] = useState('');
+  const [selectedEventId, setSelectedEventId] = useState('');
+  const [pastEvents, setPastEvents] = useState<Event[]>([]);
+  const [attendedEvents, setAttendedEvents] = useState<Event[]>([]);
+  const [memories, setMemories] = useState<MemoryWithDetails[]>([]);
+  const [chats, setChats] = useState<MemoryChatWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyTo, setReplyTo] = useState<MemoryChatWithAuthor | null>(null);
+
+  const [showComposer, setShowComposer] = useState(false);
+  const [composerEventId, setComposerEventId] = useState('');
+  const [content, setContent] = useState('');
+  const [highlights, setHighlights] = useState<string[]>([]);
+  const [highlightInput, setHighlightInput] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadEvents = async () => {
+      try {
+        const [events, attended] = await Promise.all([
+          fetchEvents(),
+          user ? fetchAttendedEvents(user.id) : Promise.resolve([]),
+        ]);
+        if (!isMounted) return;
+        setPastEvents(events.filter((event) => getEventStatus(getEventTimes(event)) !== 'upcoming').reverse());
+        setAttendedEvents(attended);
+      } catch (error) {
+        console.error('Error loading events:', error);
+      }
+    };
+
+    loadEvents();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        if (activeView === 'journal') {
+          const data = await fetchEventMemories(selectedEventId || undefined);
+          if (isMounted) setMemories(data);
+        } else {
+          const data = await fetchMemoryChats(selectedEventId || null);
+          if (isMounted) setChats(data);
+        }
+      } catch (error) {
+        console.error('Error loading memories:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadData();
 
-  const handleSendMessage = () => {
+    return () => {
+      isMounted = false;
+    };
+  }, [activeView, selectedEventId]);
+
+  useEffect(() => {
+    if (activeView !== 'chat') return;
+    const threadEventId = selectedEventId || null;
+
+    // Realtime filters cannot match a null event_id, so listen to all chat rows and keep this thread's
+    const channel = supabase
+      .channel(`memory_chats_${threadEventId || 'community'}_${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'memory_chats' }, (payload) => {
+        if ((payload.new as MemoryChatWithAuthor).event_id !== threadEventId) return;
+        fetchMemoryChats(threadEventId)
+          .then(setChats)
+          .catch((error) => console.error('Error refreshing chat:', error));
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'memory_chats' }, (payload) => {
+        const removedId = (payload.old as { id: string }).id;
+        setChats((prev) => prev.filter((c) => c.id !== removedId));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeView, selectedEventId]);
+
+  useEffect(() => {
+    const urls = photoFiles.map((file) => URL.createObjectURL(file));
+    setPhotoPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photoFiles]);
+
+  const canChatHere = !selectedEventId || attendedEvents.some((event) => event.id === selectedEventId);
+
+  const repliesByParent = chats.reduce<Record<string, MemoryChatWithAuthor[]>>((acc, chat) => {
+    if (chat.parent_id) (acc[chat.parent_id] ||= []).push(chat);
+    return acc;
+  }, {});
+  // Replies whose parent was deleted cascade away with it, so every reply has a visible parent
+  const rootChats = chats.filter((chat) => !chat.parent_id);
+
+  const resetComposer = () => {
+    setShowComposer(false);
+    setContent('');
+    setHighlights([]);
+    setHighlightInput('');
+    setRating(null);
+    setPhotoFiles([]);
+  };
+
+  const openComposer = () => {
+    if (!user) {
+      alert('Please sign in to share memories.');
+      navigate('/signin');
+      return;
+    }
+    setComposerEventId(
+      attendedEvents.some((event) => event.id === selectedEventId) ? selectedEventId : attendedEvents[0]?.id || ''
+    );
+    setShowComposer(true);
+  };
+
+  const addHighlight = () => {
+    const value = highlightInput.trim();
+    if (value && !highlights.includes(value)) setHighlights((prev) => [...prev, value]);
+    setHighlightInput('');
+  };
+
+  const handlePhotoSelect = (files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter((file) => file.type.startsWith('image/'));
+    setPhotoFiles((prev) => [...prev, ...images].slice(0, MAX_MEMORY_PHOTOS));
+  };
+
+  const handleShareMemory = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !composerEventId || !content.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const photos: string[] = [];
+      for (const file of photoFiles) {
+        photos.push(await uploadMemoryPhoto(user.id, composerEventId, file));
+      }
+
+      await createEventMemory(user.id, {
+        event_id: composerEventId,
+        content: content.trim(),
+        highlights,
+        photos,
+        rating,
+      });
+
+      resetComposer();
+      setMemories(await fetchEventMemories(selectedEventId || undefined));
+    } catch (error: any) {
+      console.error('Error sharing memory:', error);
+      alert(error.message || 'Failed to share memory. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteMemory = async (memoryId: string) => {
+    if (!confirm('Delete this memory?')) return;
+    try {
+      await deleteEventMemory(memoryId);
+      setMemories((prev) => prev.filter((m) => m.id !== memoryId));
+    } catch (error: any) {
+      console.error('Error deleting memory:', error);
+      alert(error.message || 'Failed to delete memory. Please try again.');
+    }
+  };
+
+  const handleSendMessage = async () => {
     if (!user) {
       alert('Please sign in to chat.');
       navigate('/signin');
@@ -24,8 +282,25 @@ export default function MemoriesTab() {
 
     if (!newMessage.trim()) return;
 
-    alert('Message posted successfully!');
-    setNewMessage('');
+    try {
+      const chat = await postMemoryChat(user.id, selectedEventId || null, newMessage, replyTo?.id || null);
+      setChats((prev) => (prev.some((c) => c.id === chat.id) ? prev : [...prev, chat]));
+      setNewMessage('');
+      setReplyTo(null);
+    } catch (error: any) {
+      console.error('Error posting message:', error);
+      alert(error.message || 'Failed to post message. Please try again.');
+    }
+  };
+
+  const handleDeleteChat = async (chatId: string) => {
+    try {
+      await deleteMemoryChat(chatId);
+      setChats((prev) => prev.filter((c) => c.id !== chatId && c.parent_id !== chatId));
+    } catch (error: any) {
+      console.error('Error deleting message:', error);
+      alert(error.message || 'Failed to delete message. Please try again.');
+    }
   };
 
   return (
@@ -43,7 +318,7 @@ export default function MemoriesTab() {
           </div>
           {user && (
             <button
-              onClick={() => alert('Share Memory feature coming soon!')}
+              onClick={openComposer}
               className="px-6 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
             >
               <Camera className="w-5 h-5" />
@@ -52,68 +327,313 @@ export default function MemoriesTab() {
           )}
         </div>
 
-        <div className="flex items-center space-x-4 mb-6">
-          <button
-            onClick={() => setActiveView('journal')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
-              activeView === 'journal'
-                ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
-                : 'glass-effect text-gray-300 hover:text-white'
-            }`}
-          >
-            <ImageIcon className="w-5 h-5" />
-            <span>Memory Journal</span>
-          </button>
-          <button
-            onClick={() => setActiveView('chat')}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
-              activeView === 'chat'
-                ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
-                : 'glass-effect text-gray-300 hover:text-white'
-            }`}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setActiveView('journal')}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
+                activeView === 'journal'
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  : 'glass-effect text-gray-300 hover:text-white'
+              }`}
+            >
+              <ImageIcon className="w-5 h-5" />
+              <span>Memory Journal</span>
+            </button>
+            <button
+              onClick={() => setActiveView('chat')}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
+                activeView === 'chat'
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  : 'glass-effect text-gray-300 hover:text-white'
+              }`}
+            >
+              <MessageCircle className="w-5 h-5" />
+              <span>Community Chat</span>
+            </button>
+          </div>
+
+          <select
+            value={selectedEventId}
+            onChange={(e) => {
+              setSelectedEventId(e.target.value);
+              setReplyTo(null);
+            }}
+            className="px-4 py-3 bg-gray-800 rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400 focus:border-transparent md:w-72"
           >
-            <MessageCircle className="w-5 h-5" />
-            <span>Community Chat</span>
-          </button>
+            <option value="">{activeView === 'journal' ? 'All events' : 'General community chat'}</option>
+            {pastEvents.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.title}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
-      {activeView === 'journal' ? (
-        <div className="text-center py-12 glass-effect rounded-2xl">
-          <ImageIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-xl font-semibold text-white mb-2">No Memories Yet</h3>
-          <p className="text-gray-400">
-            {user
-              ? 'Be the first to share memories from past events!'
-              : 'Sign in to share your event memories.'}
-          </p>
+      {showComposer && (
+        <form onSubmit={handleShareMemory} className="glass-effect p-6 rounded-2xl space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-white">Share a Memory</h3>
+            <button type="button" onClick={resetComposer} className="text-gray-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {attendedEvents.length === 0 ? (
+            <p className="text-gray-300">
+              You can share memories from events you attended. Book a ticket and come back once the event has started.
+            </p>
+          ) : (
+            <>
+              <select
+                value={composerEventId}
+                onChange={(e) => setComposerEventId(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-800 rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+              >
+                {attendedEvents.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.title} • {formatEventDate(getEventTimes(event), { weekday: undefined })}
+                  </option>
+                ))}
+              </select>
+
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                rows={4}
+                maxLength={5000}
+                placeholder="What made this event memorable?"
+                className="w-full px-4 py-3 glass-effect rounded-xl border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+              />
+
+              <div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={highlightInput}
+                    onChange={(e) => setHighlightInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addHighlight();
+                      }
+                    }}
+                    placeholder="Add a highlight, e.g. Keynote, After party"
+                    className="flex-1 px-4 py-2 glass-effect rounded-xl border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                  />
+                  <button type="button" onClick={addHighlight} className="px-4 py-2 glass-effect text-white rounded-lg text-sm">
+                    Add
+                  </button>
+                </div>
+                {highlights.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {highlights.map((highlight) => (
+                      <span
+                        key={highlight}
+                        className="px-2 py-1 bg-blue-400/20 text-blue-300 text-xs rounded flex items-center space-x-1"
+                      >
+                        <span>{highlight}</span>
+                        <button type="button" onClick={() => setHighlights((prev) => prev.filter((h) => h !== highlight))}>
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-1">
+                <span className="text-gray-300 text-sm mr-2">Your rating</span>
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button key={value} type="button" onClick={() => setRating(rating === value ? null : value)}>
+                    <Star
+                      className={`w-5 h-5 ${rating && value <= rating ? 'text-yellow-400 fill-current' : 'text-gray-500'}`}
+                    />
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="inline-flex items-center space-x-2 px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg text-sm cursor-pointer">
+                  <Camera className="w-4 h-4" />
+                  <span>Add Photos ({photoFiles.length}/{MAX_MEMORY_PHOTOS})</span>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="sr-only"
+                    onChange={(e) => {
+                      handlePhotoSelect(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {photoPreviews.length > 0 && (
+                  <div className="grid grid-cols-4 md:grid-cols-6 gap-2 mt-3">
+                    {photoPreviews.map((url, index) => (
+                      <div key={url} className="relative aspect-square">
+                        <img src={url} alt="" className="w-full h-full object-cover rounded-lg" />
+                        <button
+                          type="button"
+                          onClick={() => setPhotoFiles((prev) => prev.filter((_, i) => i !== index))}
+                          className="absolute top-1 right-1 bg-black/60 rounded-full p-0.5 text-white"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || !content.trim() || !composerEventId}
+                className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50"
+              >
+                {submitting ? 'Sharing...' : 'Share Memory'}
+              </button>
+            </>
+          )}
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
         </div>
+      ) : activeView === 'journal' ? (
+        memories.length === 0 ? (
+          <div className="text-center py-12 glass-effect rounded-2xl">
+            <ImageIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No Memories Yet</h3>
+            <p className="text-gray-400">
+              {user
+                ? 'Be the first to share memories from past events!'
+                : 'Sign in to share your event memories.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {memories.map((memory) => (
+              <div key={memory.id} className="glass-effect p-6 rounded-2xl">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <div className="text-white font-medium">{memory.author?.name || 'Attendee'}</div>
+                    {memory.event && (
+                      <div className="flex items-center space-x-1 text-gray-400 text-sm">
+                        <Calendar className="w-3 h-3" />
+                        <span>
+                          {memory.event.title} • {formatEventDate(getEventTimes(memory.event), { weekday: undefined })}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {memory.rating && (
+                      <div className="flex items-center space-x-0.5">
+                        {Array.from({ length: memory.rating }).map((_, i) => (
+                          <Star key={i} className="w-4 h-4 text-yellow-400 fill-current" />
+                        ))}
+                      </div>
+                    )}
+                    {memory.user_id === user?.id && (
+                      <button
+                        onClick={() => handleDeleteMemory(memory.id)}
+                        className="text-gray-400 hover:text-rose-400"
+                        title="Delete memory"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <p className="text-gray-200 whitespace-pre-line mb-3">{memory.content}</p>
+
+                {memory.highlights.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {memory.highlights.map((highlight) => (
+                      <span key={highlight} className="px-2 py-1 bg-blue-400/20 text-blue-300 text-xs rounded">
+                        {highlight}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {memory.photos.length > 0 && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {memory.photos.map((photo) => (
+                      <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="aspect-square">
+                        <img src={photo} alt="" className="w-full h-full object-cover rounded-lg" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
       ) : (
         <div className="glass-effect rounded-2xl overflow-hidden">
           <div className="h-96 overflow-y-auto p-6">
-            <div className="text-center py-8 text-gray-400">
-              <MessageCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>No messages yet. Start the conversation!</p>
-            </div>
+            {rootChats.length === 0 ? (
+              <div className="text-center py-8 text-gray-400">
+                <MessageCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p>No messages yet. Start the conversation!</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-white/5">
+                {rootChats.map((chat) => (
+                  <ChatThread
+                    key={chat.id}
+                    message={chat}
+                    replies={repliesByParent}
+                    depth={0}
+                    currentUserId={user?.id}
+                    onReply={setReplyTo}
+                    onDelete={handleDeleteChat}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="p-4 border-t border-white/10">
-            <div className="flex items-center space-x-3">
-              <input
-                type="text"
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-                placeholder="Share your thoughts about the event..."
-                className="flex-1 px-4 py-3 glass-effect rounded-xl border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
-              />
-              <button
-                onClick={handleSendMessage}
-                className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
-              >
-                <Send className="w-5 h-5" />
-              </button>
-            </div>
+            {user && !canChatHere ? (
+              <p className="text-gray-400 text-sm text-center">Only attendees of this event can post in its thread.</p>
+            ) : (
+              <>
+                {replyTo && (
+                  <div className="flex items-center justify-between text-sm text-gray-300 mb-2">
+                    <span>
+                      Replying to <span className="text-purple-300">{replyTo.author?.name || 'Attendee'}</span>
+                    </span>
+                    <button onClick={() => setReplyTo(null)} className="text-gray-400 hover:text-white">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    value={newMessage}
+                    onChange={(e) => setNewMessage(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+                    maxLength={1000}
+                    placeholder="Share your thoughts about the event..."
+                    className="flex-1 px-4 py-3 glass-effect rounded-xl border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+                  />
+                  <button
+                    onClick={handleSendMessage}
+                    className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
+                  >
+                    <Send className="w-5 h-5" />
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Menu, X, Crown, User, LogOut, Settings, Bell, Star, UserPlus, LogIn } from 'lucide-react';
+import { Menu, X, Crown, User, LogOut, Settings, Star, UserPlus, LogIn, Ticket, ClipboardList, CalendarDays, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import NotificationBell from './NotificationBell';
 
 export default function Navbar() {
   const [isOpen, setIsOpen] = useState(false);
@@ -109,9 +110,7 @@ export default function Navbar() {
               )}
               {user && (
                 <>
-                  <button className="p-2 rounded-full text-white hover:bg-white/10 transition-colors">
-                    <Bell className="w-5 h-5" />
-                  </button>
+                  <NotificationBell />
                   <div className="relative">
                     <button
                       onClick={() => setShowUserMenu(!showUserMenu)}
@@ -144,6 +143,40 @@ export default function Navbar() {
                             <Settings className="w-4 h-4 mr-3" />
                             Profile Settings
                           </Link>
+                          <Link
+                            to="/account/tickets"
+                            className="flex items-center px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                            onClick={() => setShowUserMenu(false)}
+                          >
+                            <Ticket className="w-4 h-4 mr-3" />
+                            My Tickets
+                          </Link>
+                          <Link
+                            to="/account/bookings"
+                            className="flex items-center px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                            onClick={() => setShowUserMenu(false)}
+                          >
+                            <ClipboardList className="w-4 h-4 mr-3" />
+                            My Bookings
+                          </Link>
+                          <Link
+                            to="/account/events"
+                            className="flex items-center px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                            onClick={() => setShowUserMenu(false)}
+                          >
+                            <CalendarDays className="w-4 h-4 mr-3" />
+                            My Events
+                          </Link>
+                          {user.is_admin && (
+                            <Link
+                              to="/admin/moderation"
+                              className="flex items-center px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                              onClick={() => setShowUserMenu(false)}
+                            >
+                              <ShieldCheck className="w-4 h-4 mr-3" />
+                              Content Review
+                            </Link>
+                          )}
                           <div className="px-4 py-2 text-sm text-gray-300">
                             Loyalty Points: <span className="text-yellow-400 font-medium">{user.loyaltyPoints}</span>
                           </div>
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Trash2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import {
+  deleteNotification,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type AppNotification,
+} from '../lib/notifications';
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    fetchNotifications(user.id)
+      .then((data) => {
+        if (isMounted) setNotifications(data);
+      })
+      .catch((error) => console.error('Error fetching notifications:', error));
+
+    const channel = supabase
+      .channel(`notifications_${user.id}_${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const created = payload.new as AppNotification;
+          setNotifications((prev) => (prev.some((n) => n.id === created.id) ? prev : [created, ...prev]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  const handleOpen = (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read_at) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n))
+      );
+      markNotificationRead(notification.id).catch((error) =>
+        console.error('Error marking notification read:', error)
+      );
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+    try {
+      await markAllNotificationsRead(user.id);
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })));
+    } catch (error: any) {
+      console.error('Error marking notifications read:', error);
+      alert(error.message || 'Failed to update notifications. Please try again.');
+    }
+  };
+
+  const handleDelete = async (notificationId: string) => {
+    try {
+      await deleteNotification(notificationId);
+      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+    } catch (error: any) {
+      console.error('Error deleting notification:', error);
+      alert(error.message || 'Failed to delete notification. Please try again.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-full text-white hover:bg-white/10 transition-colors"
+        aria-label="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-rose-500 text-white text-[10px] font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-gray-700 rounded-lg shadow-xl border border-gray-600">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-600">
+            <span className="text-white font-medium text-sm">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-rose-400 hover:text-rose-300 text-xs">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-gray-400 text-sm">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`group flex items-start gap-2 px-4 py-3 border-b border-gray-600 last:border-0 hover:bg-white/5 ${
+                    notification.read_at ? '' : 'bg-rose-500/10'
+                  }`}
+                >
+                  <button onClick={() => handleOpen(notification)} className="flex-1 text-left">
+                    <div className="text-white text-sm font-medium">{notification.title}</div>
+                    {notification.body && <div className="text-gray-300 text-xs mt-0.5">{notification.body}</div>}
+                    <div className="text-gray-400 text-xs mt-1">{timeAgo(notification.created_at)}</div>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(notification.id)}
+                    className="text-gray-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Dismiss"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import {
   Search,
   Star,
@@ -16,9 +16,32 @@ import {
   Calendar,
   DollarSign,
   CheckCircle,
+  ClipboardList,
+  ChevronDown,
+  ChevronUp,
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import type { ServiceProvider } from '../lib/firebase';
+import {
+  PROVIDER_CATEGORIES,
+  calculateServiceFee,
+  fetchProviders,
+  fetchProviderAvailability,
+  createProviderBookings,
+  type CartLine,
+  type ProviderDayAvailability,
+  type ServiceProvider,
+} from '../lib/providers';
+import { fetchEvents, type Event } from '../lib/events';
+import ProviderReviews from './ProviderReviews';
+import BudgetPlanner from './BudgetPlanner';
+
+function availabilityLabel(day: ProviderDayAvailability, provider: ServiceProvider) {
+  if (day.status === 'blocked') return 'Not available on this date';
+  if (day.status === 'too_soon') return `Needs ${provider.lead_time_days} days notice`;
+  if (day.status === 'full') return 'Fully booked on this date';
+  const slotsLeft = day.capacity - day.booked;
+  return day.capacity > 1 ? `Available • ${slotsLeft} of ${day.capacity} slots left` : 'Available';
+}
 
 export default function OrganizeTab() {
   const { user } = useAuth();
@@ -26,176 +49,78 @@ export default function OrganizeTab() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [sortBy, setSortBy] = useState<'rating' | 'price' | 'reviews'>('rating');
-  const [cart, setCart] = useState<{ provider: ServiceProvider; quantity: number }[]>([]);
+  const [providers, setProviders] = useState<ServiceProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cart, setCart] = useState<CartLine[]>([]);
   const [showCheckout, setShowCheckout] = useState(false);
   const [eventDate, setEventDate] = useState('');
   const [eventNotes, setEventNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [availability, setAvailability] = useState<Record<string, ProviderDayAvailability>>({});
+  const [expandedReviewsId, setExpandedReviewsId] = useState<string | null>(null);
+  const [myEvents, setMyEvents] = useState<Event[]>([]);
+  const [bookingEventId, setBookingEventId] = useState('');
 
-  const categories = [
-    'all',
-    'venue',
-    'decor',
-    'catering',
-    'audio',
-    'ushering',
-    'photography',
-    'entertainment',
-    'security',
-    'transport',
-  ];
-
-  const providers: ServiceProvider[] = [
-    {
-      id: '1',
-      name: 'Grand Hall Venues',
-      category: 'venue',
-      description: 'Premier event venues for conferences, weddings, and corporate events',
-      expertise: 'Large events, conferences, weddings',
-      base_price: 2000000,
-      rating: 4.8,
-      reviews_count: 124,
-      contact_email: 'info@grandhall.com',
-      contact_phone: '+256-700-123456',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '2',
-      name: 'Elite Tents & Decor',
-      category: 'decor',
-      description: 'Professional event decoration and tent rental services',
-      expertise: 'Weddings, gala, corporate events',
-      base_price: 450000,
-      rating: 4.7,
-      reviews_count: 78,
-      contact_email: 'elite@tents.com',
-      contact_phone: '+256-700-234567',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '3',
-      name: 'Prime Ushers',
-      category: 'ushering',
-      description: 'Trained and professional ushering staff for all event types',
-      expertise: 'Friendly, trained staff, crowd management',
-      base_price: 120000,
-      rating: 4.6,
-      reviews_count: 46,
-      contact_email: 'contact@primeushers.com',
-      contact_phone: '+256-700-345678',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '4',
-      name: 'SoundWorks Ltd',
-      category: 'audio',
-      description: 'Complete audio solutions including PA systems and mixing',
-      expertise: 'PA systems, mixing, live sound',
-      base_price: 600000,
-      rating: 4.9,
-      reviews_count: 98,
-      contact_email: 'hello@soundworks.com',
-      contact_phone: '+256-700-456789',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '5',
-      name: 'CaterPro',
-      category: 'catering',
-      description: 'Full-service catering for events of all sizes',
-      expertise: 'Buffet, plated service, dietary options',
-      base_price: 350000,
-      rating: 4.5,
-      reviews_count: 65,
-      contact_email: 'catering@caterpro.com',
-      contact_phone: '+256-700-567890',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '6',
-      name: 'LightUp Studios',
-      category: 'photography',
-      description: 'Professional event photography and videography',
-      expertise: 'Weddings, corporate events, portraits',
-      base_price: 800000,
-      rating: 4.9,
-      reviews_count: 112,
-      contact_email: 'book@lightupstudios.com',
-      contact_phone: '+256-700-678901',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '7',
-      name: 'StarDJ Entertainment',
-      category: 'entertainment',
-      description: 'DJs, MCs, and live entertainment for events',
-      expertise: 'Weddings, parties, corporate events',
-      base_price: 500000,
-      rating: 4.7,
-      reviews_count: 89,
-      contact_email: 'info@stardj.com',
-      contact_phone: '+256-700-789012',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '8',
-      name: 'SafeGuard Security',
-      category: 'security',
-      description: 'Professional event security and crowd control',
-      expertise: 'Large events, VIP protection, access control',
-      base_price: 400000,
-      rating: 4.8,
-      reviews_count: 73,
-      contact_email: 'security@safeguard.com',
-      contact_phone: '+256-700-890123',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-    {
-      id: '9',
-      name: 'RideShare Transport',
-      category: 'transport',
-      description: 'Event transportation and shuttle services',
-      expertise: 'Guest shuttles, VIP transport, logistics',
-      base_price: 300000,
-      rating: 4.6,
-      reviews_count: 54,
-      contact_email: 'ride@rideshare.com',
-      contact_phone: '+256-700-901234',
-      portfolio_images: [],
-      available: true,
-      created_at: new Date().toISOString(),
-    },
-  ];
-
-  const filteredProviders = providers
-    .filter((provider) => {
-      const matchesCategory = selectedCategory === 'all' || provider.category === selectedCategory;
-      const matchesSearch =
-        provider.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        provider.expertise.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        provider.description.toLowerCase().includes(searchQuery.toLowerCase());
-      return matchesCategory && matchesSearch;
-    })
-    .sort((a, b) => {
-      if (sortBy === 'price') return a.base_price - b.base_price;
-      if (sortBy === 'reviews') return b.reviews_count - a.reviews_count;
-      return b.rating - a.rating;
-    });
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadProviders = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchProviders({ searchQuery, category: selectedCategory, sortBy });
+        if (isMounted) setProviders(data);
+      } catch (error) {
+        console.error('Error fetching providers:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    const t = setTimeout(loadProviders, 300);
+    return () => {
+      isMounted = false;
+      clearTimeout(t);
+    };
+  }, [searchQuery, selectedCategory, sortBy]);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    fetchEvents({ organizerId: user.id, status: 'upcoming' })
+      .then((data) => {
+        if (isMounted) setMyEvents(data);
+      })
+      .catch((error) => console.error('Error fetching your events:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  const cartProviderIds = cart.map((item) => item.provider.id).join(',');
+
+  useEffect(() => {
+    if (!eventDate || !cartProviderIds) {
+      setAvailability({});
+      return;
+    }
+    let isMounted = true;
+
+    fetchProviderAvailability(cartProviderIds.split(','), eventDate)
+      .then((days) => {
+        if (isMounted) setAvailability(Object.fromEntries(days.map((day) => [day.provider_id, day])));
+      })
+      .catch((error) => console.error('Error checking provider availability:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventDate, cartProviderIds]);
+
+  const unavailableCount = eventDate
+    ? cart.filter((item) => availability[item.provider.id] && availability[item.provider.id].status !== 'available').length
+    : 0;
 
   const addToCart = (provider: ServiceProvider) => {
     setCart((prev) => {
@@ -224,8 +149,9 @@ export default function OrganizeTab() {
   };
 
   const totalCost = cart.reduce((sum, item) => sum + item.provider.base_price * item.quantity, 0);
+  const serviceFee = cart.reduce((sum, item) => sum + calculateServiceFee(item.provider.base_price * item.quantity), 0);
 
-  const handleCheckout = () => {
+  const handleCheckout = async () => {
     if (!user) {
       alert('Please sign in to book providers.');
       navigate('/signin');
@@ -242,13 +168,24 @@ export default function OrganizeTab() {
       return;
     }
 
-    alert(
-      `Booking successful! Total: UGX ${(totalCost * 1.05).toLocaleString()}\n\nProviders will contact you shortly to confirm details.`
-    );
-    setCart([]);
-    setEventDate('');
-    setEventNotes('');
-    setShowCheckout(false);
+    setSubmitting(true);
+    try {
+      const bookings = await createProviderBookings(cart, eventDate, eventNotes, bookingEventId || null);
+      const total = bookings.reduce((sum, booking) => sum + booking.total_cost, 0);
+      alert(
+        `Booking requests sent! Total: UGX ${total.toLocaleString()}\n\nEach provider will accept or decline your request. Track them under My Bookings.`
+      );
+      setCart([]);
+      setEventDate('');
+      setEventNotes('');
+      setBookingEventId('');
+      setShowCheckout(false);
+    } catch (error: any) {
+      console.error('Error booking providers:', error);
+      alert(error.message || 'Failed to book providers. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -262,6 +199,15 @@ export default function OrganizeTab() {
                 Browse and book professional event service providers. Compare ratings, reviews, and pricing.
               </p>
             </div>
+            {user && (
+              <Link
+                to="/account/bookings"
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg text-sm whitespace-nowrap flex items-center space-x-2"
+              >
+                <ClipboardList className="w-4 h-4" />
+                <span>My Bookings</span>
+              </Link>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -297,7 +243,7 @@ export default function OrganizeTab() {
           </div>
 
           <div className="flex space-x-2 mb-6 overflow-x-auto pb-2">
-            {categories.map((category) => (
+            {PROVIDER_CATEGORIES.map((category) => (
               <button
                 key={category}
                 onClick={() => setSelectedCategory(category)}
@@ -312,75 +258,104 @@ export default function OrganizeTab() {
             ))}
           </div>
 
-          <div className="space-y-4">
-            {filteredProviders.map((provider) => (
-              <div key={provider.id} className="glass-effect p-5 rounded-xl hover:bg-white/5 transition-all">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h3 className="text-lg font-semibold text-white">{provider.name}</h3>
-                      <span className="px-2 py-1 bg-purple-500/20 text-purple-300 text-xs rounded-full">
-                        {provider.category}
-                      </span>
-                    </div>
-                    <p className="text-gray-300 text-sm mb-3">{provider.description}</p>
-                    <div className="flex items-center space-x-1 mb-2">
-                      <Award className="w-4 h-4 text-purple-400" />
-                      <span className="text-gray-300 text-sm">{provider.expertise}</span>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {providers.map((provider) => (
+                <div key={provider.id} className="glass-effect p-5 rounded-xl hover:bg-white/5 transition-all">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="text-lg font-semibold text-white">{provider.name}</h3>
+                        <span className="px-2 py-1 bg-purple-500/20 text-purple-300 text-xs rounded-full">
+                          {provider.category}
+                        </span>
+                      </div>
+                      <p className="text-gray-300 text-sm mb-3">{provider.description}</p>
+                      <div className="flex items-center space-x-1 mb-2">
+                        <Award className="w-4 h-4 text-purple-400" />
+                        <span className="text-gray-300 text-sm">{provider.expertise}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-2">
-                    <div className="flex items-center space-x-4">
-                      <div className="flex items-center space-x-1">
-                        <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                        <span className="text-white font-semibold">{provider.rating.toFixed(1)}</span>
-                        <span className="text-gray-400 text-sm">({provider.reviews_count} reviews)</span>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                      <div className="flex items-center space-x-4">
+                        <button
+                          onClick={() => setExpandedReviewsId(expandedReviewsId === provider.id ? null : provider.id)}
+                          className="flex items-center space-x-1 group"
+                        >
+                          <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                          {provider.reviews_count > 0 ? (
+                            <>
+                              <span className="text-white font-semibold">{provider.rating.toFixed(1)}</span>
+                              <span className="text-gray-400 text-sm group-hover:text-white">
+                                ({provider.reviews_count} {provider.reviews_count === 1 ? 'review' : 'reviews'})
+                              </span>
+                            </>
+                          ) : (
+                            <span className="text-gray-400 text-sm group-hover:text-white">No reviews yet</span>
+                          )}
+                          {expandedReviewsId === provider.id ? (
+                            <ChevronUp className="w-4 h-4 text-gray-400" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4 text-gray-400" />
+                          )}
+                        </button>
+                        {provider.reviews_count > 80 && (
+                          <div className="flex items-center space-x-1 text-purple-400">
+                            <TrendingUp className="w-4 h-4" />
+                            <span className="text-sm">Popular</span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-400">
+                        {provider.contact_phone && (
+                          <div className="flex items-center space-x-1">
+                            <Phone className="w-3 h-3" />
+                            <span>{provider.contact_phone}</span>
+                          </div>
+                        )}
+                        {provider.contact_email && (
+                          <div className="flex items-center space-x-1">
+                            <Mail className="w-3 h-3" />
+                            <span>{provider.contact_email}</span>
+                          </div>
+                        )}
                       </div>
-                      {provider.reviews_count > 80 && (
-                        <div className="flex items-center space-x-1 text-purple-400">
-                          <TrendingUp className="w-4 h-4" />
-                          <span className="text-sm">Popular</span>
-                        </div>
-                      )}
                     </div>
-                    <div className="flex items-center space-x-4 text-sm text-gray-400">
-                      {provider.contact_phone && (
-                        <div className="flex items-center space-x-1">
-                          <Phone className="w-3 h-3" />
-                          <span>{provider.contact_phone}</span>
-                        </div>
-                      )}
-                      {provider.contact_email && (
-                        <div className="flex items-center space-x-1">
-                          <Mail className="w-3 h-3" />
-                          <span>{provider.contact_email}</span>
-                        </div>
-                      )}
+
+                    <div className="flex items-center space-x-4">
+                      <div className="text-right">
+                        <div className="text-sm text-gray-400">Starting at</div>
+                        <div className="text-xl font-bold text-white">UGX {provider.base_price.toLocaleString()}</div>
+                      </div>
+                      <button
+                        onClick={() => addToCart(provider)}
+                        disabled={!provider.available}
+                        className="px-6 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <ShoppingCart className="w-4 h-4" />
+                        <span>{provider.available ? 'Add' : 'Unavailable'}</span>
+                      </button>
                     </div>
                   </div>
 
-                  <div className="flex items-center space-x-4">
-                    <div className="text-right">
-                      <div className="text-sm text-gray-400">Starting at</div>
-                      <div className="text-xl font-bold text-white">UGX {provider.base_price.toLocaleString()}</div>
+                  {expandedReviewsId === provider.id && (
+                    <div className="mt-4 pt-4 border-t border-white/10">
+                      <ProviderReviews provider={provider} />
                     </div>
-                    <button
-                      onClick={() => addToCart(provider)}
-                      className="px-6 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
-                    >
-                      <ShoppingCart className="w-4 h-4" />
-                      <span>Add</span>
-                    </button>
-                  </div>
+                  )}
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
 
-          {filteredProviders.length === 0 && (
+          {!loading && providers.length === 0 && (
             <div className="text-center py-12 text-gray-400">
               <p>No providers found matching your criteria.</p>
             </div>
@@ -388,12 +363,12 @@ export default function OrganizeTab() {
         </div>
       </div>
 
-      <div className="lg:col-span-1">
-        <div className="glass-effect p-6 rounded-2xl sticky top-24">
+      <div className="lg:col-span-1 space-y-6">
+        <div className="glass-effect p-6 rounded-2xl">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-xl font-semibold text-white flex items-center space-x-2">
               <ShoppingCart className="w-5 h-5" />
-              <span>Budget Planner</span>
+              <span>Your Cart</span>
             </h3>
             {cart.length > 0 && (
               <span className="px-3 py-1 bg-rose-500 text-white text-sm font-semibold rounded-full">
@@ -418,6 +393,15 @@ export default function OrganizeTab() {
                       <div className="flex-1">
                         <h4 className="text-white font-medium text-sm">{item.provider.name}</h4>
                         <p className="text-gray-400 text-xs">{item.provider.category}</p>
+                        {eventDate && availability[item.provider.id] && (
+                          <p
+                            className={`text-xs mt-1 ${
+                              availability[item.provider.id].status === 'available' ? 'text-green-300' : 'text-rose-400'
+                            }`}
+                          >
+                            {availabilityLabel(availability[item.provider.id], item.provider)}
+                          </p>
+                        )}
                       </div>
                       <button
                         onClick={() => removeFromCart(item.provider.id)}
@@ -463,11 +447,11 @@ export default function OrganizeTab() {
                 </div>
                 <div className="flex justify-between items-center mb-4">
                   <span className="text-gray-300 text-sm">Service Fee (5%)</span>
-                  <span className="text-white">UGX {(totalCost * 0.05).toLocaleString()}</span>
+                  <span className="text-white">UGX {serviceFee.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between items-center text-lg">
                   <span className="text-white font-semibold">Total</span>
-                  <span className="text-white font-bold">UGX {(totalCost * 1.05).toLocaleString()}</span>
+                  <span className="text-white font-bold">UGX {(totalCost + serviceFee).toLocaleString()}</span>
                 </div>
               </div>
 
@@ -481,11 +465,42 @@ export default function OrganizeTab() {
                     <input
                       type="date"
                       value={eventDate}
+                      min={new Date().toLocaleDateString('en-CA')}
                       onChange={(e) => setEventDate(e.target.value)}
                       className="w-full px-4 py-2 glass-effect rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400"
                       required
                     />
+                    {unavailableCount > 0 && (
+                      <p className="text-rose-400 text-xs mt-2">
+                        {unavailableCount === 1 ? '1 provider is' : `${unavailableCount} providers are`} unavailable on this
+                        date. Pick another date or remove them from your cart.
+                      </p>
+                    )}
                   </div>
+                  {myEvents.length > 0 && (
+                    <div>
+                      <label className="block text-gray-300 text-sm mb-2">For Event</label>
+                      <select
+                        value={bookingEventId}
+                        onChange={(e) => {
+                          setBookingEventId(e.target.value);
+                          const selected = myEvents.find((event) => event.id === e.target.value);
+                          if (selected) setEventDate(selected.date);
+                        }}
+                        className="w-full px-4 py-2 glass-effect rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400"
+                      >
+                        <option value="" className="bg-gray-800">
+                          Not linked to an event
+                        </option>
+                        {myEvents.map((event) => (
+                          <option key={event.id} value={event.id} className="bg-gray-800">
+                            {event.title}
+                            {!event.published_at && ' (draft)'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                   <div>
                     <label className="block text-gray-300 text-sm mb-2">Additional Notes</label>
                     <textarea
@@ -499,10 +514,11 @@ export default function OrganizeTab() {
                   <div className="flex space-x-2">
                     <button
                       onClick={handleCheckout}
-                      className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center justify-center space-x-2"
+                      disabled={submitting || unavailableCount > 0}
+                      className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
                     >
                       <CheckCircle className="w-5 h-5" />
-                      <span>Confirm Booking</span>
+                      <span>{submitting ? 'Booking...' : 'Confirm Booking'}</span>
                     </button>
                     <button
                       onClick={() => setShowCheckout(false)}
@@ -531,6 +547,8 @@ export default function OrganizeTab() {
             </>
           )}
         </div>
+
+        <BudgetPlanner cart={cart} onCartChange={setCart} />
       </div>
     </div>
   );
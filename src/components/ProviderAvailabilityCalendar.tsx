@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, CalendarDays, Save } from 'lucide-react';
+import {
+  fetchProviderAvailability,
+  blockProviderDate,
+  unblockProviderDate,
+  updateProviderSchedule,
+  type DayStatus,
+  type ProviderDayAvailability,
+  type ServiceProvider,
+} from '../lib/providers';
+
+interface ProviderAvailabilityCalendarProps {
+  provider: ServiceProvider;
+  onUpdated: (provider: ServiceProvider) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_STYLES: Record<DayStatus, string> = {
+  available: 'bg-white/5 text-white hover:bg-white/10',
+  full: 'bg-rose-500/30 text-rose-200',
+  blocked: 'bg-gray-700 text-gray-400 line-through',
+  too_soon: 'bg-white/5 text-gray-500',
+};
+
+const toIsoDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+export default function ProviderAvailabilityCalendar({ provider, onUpdated }: ProviderAvailabilityCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [days, setDays] = useState<Record<string, ProviderDayAvailability>>({});
+  const [dailyCapacity, setDailyCapacity] = useState(provider.daily_capacity);
+  const [leadTimeDays, setLeadTimeDays] = useState(provider.lead_time_days);
+  const [available, setAvailable] = useState(provider.available);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const daysInMonth = new Date(month.year, month.month + 1, 0).getDate();
+  const firstWeekday = new Date(month.year, month.month, 1).getDay();
+  const today = new Date().toLocaleDateString('en-CA');
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchProviderAvailability(
+      [provider.id],
+      toIsoDate(month.year, month.month, 1),
+      toIsoDate(month.year, month.month, daysInMonth)
+    )
+      .then((data) => {
+        if (isMounted) setDays(Object.fromEntries(data.map((day) => [day.day, day])));
+      })
+      .catch((error) => console.error('Error loading availability:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [provider.id, month, daysInMonth, reloadKey]);
+
+  const changeMonth = (delta: number) => {
+    setMonth((prev) => {
+      const next = new Date(prev.year, prev.month + delta, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  const toggleBlocked = async (date: string) => {
+    const day = days[date];
+    if (!day || date < today) return;
+
+    try {
+      if (day.status === 'blocked') {
+        await unblockProviderDate(provider.id, date);
+      } else {
+        if (day.booked > 0 && !window.confirm(`${day.booked} booking(s) already fall on this date. Block it anyway?`)) {
+          return;
+        }
+        await blockProviderDate(provider.id, date);
+      }
+      setReloadKey((key) => key + 1);
+    } catch (error: any) {
+      console.error('Error updating blocked date:', error);
+      alert(error.message || 'Failed to update availability. Please try again.');
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    setSaving(true);
+    try {
+      const updated = await updateProviderSchedule(provider.id, {
+        daily_capacity: Math.max(1, dailyCapacity),
+        lead_time_days: Math.max(0, leadTimeDays),
+        available,
+      });
+      onUpdated(updated);
+      setReloadKey((key) => key + 1);
+    } catch (error: any) {
+      console.error('Error saving schedule:', error);
+      alert(error.message || 'Failed to save availability settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-rose-400" />
+          <span>{provider.name}</span>
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => changeMonth(-1)} className="p-1 glass-effect rounded text-gray-300 hover:text-white">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-white text-sm w-32 text-center">
+            {new Date(month.year, month.month, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </span>
+          <button onClick={() => changeMonth(1)} className="p-1 glass-effect rounded text-gray-300 hover:text-white">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs mb-4">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-gray-400 py-1">
+            {weekday}
+          </div>
+        ))}
+        {Array.from({ length: firstWeekday }).map((_, i) => (
+          <div key={`pad-${i}`} />
+        ))}
+        {Array.from({ length: daysInMonth }).map((_, i) => {
+          const date = toIsoDate(month.year, month.month, i + 1);
+          const day = days[date];
+          const isPast = date < today;
+          return (
+            <button
+              key={date}
+              onClick={() => toggleBlocked(date)}
+              disabled={isPast || !day}
+              title={day ? `${day.booked} of ${day.capacity} booked` : undefined}
+              className={`rounded-lg py-2 transition-colors disabled:cursor-default ${
+                isPast ? 'text-gray-600' : day ? DAY_STYLES[day.status] : 'bg-white/5 text-gray-500'
+              }`}
+            >
+              <div>{i + 1}</div>
+              {day && day.booked > 0 && <div className="text-[10px] text-rose-300">{day.booked} booked</div>}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-gray-400 text-xs mb-4">Click a date to block or unblock it.</p>
+
+      <div className="grid sm:grid-cols-3 gap-4 items-end">
+        <label className="block text-gray-300 text-sm">
+          Bookings per day
+          <input
+            type="number"
+            min={1}
+            value={dailyCapacity}
+            onChange={(e) => setDailyCapacity(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 glass-effect rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400"
+          />
+        </label>
+        <label className="block text-gray-300 text-sm">
+          Days notice required
+          <input
+            type="number"
+            min={0}
+            value={leadTimeDays}
+            onChange={(e) => setLeadTimeDays(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 glass-effect rounded-xl border border-white/20 text-white focus:ring-2 focus:ring-rose-400"
+          />
+        </label>
+        <label className="flex items-center space-x-2 text-gray-300 text-sm py-2">
+          <input type="checkbox" checked={available} onChange={(e) => setAvailable(e.target.checked)} />
+          <span>Taking bookings</span>
+        </label>
+      </div>
+
+      <button
+        onClick={handleSaveSchedule}
+        disabled={saving}
+        className="mt-4 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2 disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        <span>{saving ? 'Saving...' : 'Save Settings'}</span>
+      </button>
+    </div>
+  );
+}
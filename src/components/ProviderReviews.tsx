@@ -0,0 +1,233 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { Star, Flag, MessageSquare, EyeOff } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import type { ServiceProvider } from '../lib/providers';
+import {
+  REPORT_REASONS,
+  fetchProviderReviews,
+  replyToProviderReview,
+  reportProviderReview,
+  type ReportReason,
+  type ReviewWithAuthor,
+} from '../lib/reviews';
+
+interface ProviderReviewsProps {
+  provider: ServiceProvider;
+}
+
+export function StarRating({ rating, onChange }: { rating: number; onChange?: (rating: number) => void }) {
+  return (
+    <div className="flex items-center space-x-0.5">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onChange?.(value)}
+          disabled={!onChange}
+          className="disabled:cursor-default"
+          aria-label={`${value} star${value > 1 ? 's' : ''}`}
+        >
+          <Star
+            className={`${onChange ? 'w-6 h-6' : 'w-4 h-4'} ${
+              value <= rating ? 'text-yellow-400 fill-current' : 'text-gray-500'
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function ProviderReviews({ provider }: ProviderReviewsProps) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<ReviewWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState<ReportReason>('spam');
+  const [reportDetails, setReportDetails] = useState('');
+  const [reportedIds, setReportedIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isOwner = !!user && provider.owner_id === user.id;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchProviderReviews(provider.id)
+      .then((data) => {
+        if (isMounted) setReviews(data);
+      })
+      .catch((error) => console.error('Error fetching reviews:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [provider.id]);
+
+  const handleReply = async (e: FormEvent, review: ReviewWithAuthor) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const updated = await replyToProviderReview(review.id, replyText);
+      setReviews((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+      setReplyingId(null);
+    } catch (error: any) {
+      console.error('Error replying to review:', error);
+      alert(error.message || 'Failed to post reply. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReport = async (e: FormEvent, review: ReviewWithAuthor) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSubmitting(true);
+    try {
+      await reportProviderReview(user.id, review.id, reportReason, reportDetails);
+      setReportedIds((prev) => [...prev, review.id]);
+      setReportingId(null);
+      setReportDetails('');
+    } catch (error: any) {
+      console.error('Error reporting review:', error);
+      alert(error.message || 'Failed to report review. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (reviews.length === 0) {
+    return <p className="text-gray-400 text-sm py-2">No reviews yet. Reviews come from organizers who completed a booking.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {reviews.map((review) => (
+        <div key={review.id} className="bg-white/5 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-white text-sm font-medium">{review.author?.name || 'Organizer'}</span>
+              <StarRating rating={review.rating} />
+            </div>
+            <span className="text-gray-500 text-xs">{new Date(review.created_at).toLocaleDateString()}</span>
+          </div>
+
+          {review.hidden_at && (
+            <p className="flex items-center space-x-1 text-yellow-300 text-xs mb-1">
+              <EyeOff className="w-3 h-3" />
+              <span>Hidden after multiple reports</span>
+            </p>
+          )}
+          {review.comment && <p className="text-gray-300 text-sm whitespace-pre-line">{review.comment}</p>}
+
+          {review.reply && replyingId !== review.id && (
+            <div className="mt-3 pl-3 border-l-2 border-purple-400">
+              <div className="text-purple-300 text-xs font-medium mb-1">Response from {provider.name}</div>
+              <p className="text-gray-300 text-sm whitespace-pre-line">{review.reply}</p>
+            </div>
+          )}
+
+          {replyingId === review.id ? (
+            <form onSubmit={(e) => handleReply(e, review)} className="mt-3 space-y-2">
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                rows={2}
+                maxLength={2000}
+                placeholder="Write a public response..."
+                className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400"
+              />
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg disabled:opacity-50"
+                >
+                  {submitting ? 'Saving...' : 'Post Response'}
+                </button>
+                <button type="button" onClick={() => setReplyingId(null)} className="px-3 py-1 text-gray-400 hover:text-white text-sm">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : reportingId === review.id ? (
+            <form onSubmit={(e) => handleReport(e, review)} className="mt-3 space-y-2">
+              <select
+                value={reportReason}
+                onChange={(e) => setReportReason(e.target.value as ReportReason)}
+                className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm focus:ring-2 focus:ring-rose-400"
+              >
+                {REPORT_REASONS.map((reason) => (
+                  <option key={reason.value} value={reason.value} className="bg-gray-800">
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                maxLength={1000}
+                placeholder="Anything else we should know? (optional)"
+                className="w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400"
+              />
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-3 py-1 bg-rose-500 text-white text-sm rounded-lg disabled:opacity-50"
+                >
+                  {submitting ? 'Sending...' : 'Report Review'}
+                </button>
+                <button type="button" onClick={() => setReportingId(null)} className="px-3 py-1 text-gray-400 hover:text-white text-sm">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-center space-x-4 mt-2">
+              {isOwner && (
+                <button
+                  onClick={() => {
+                    setReplyingId(review.id);
+                    setReplyText(review.reply || '');
+                  }}
+                  className="flex items-center space-x-1 text-gray-400 hover:text-white text-xs"
+                >
+                  <MessageSquare className="w-3 h-3" />
+                  <span>{review.reply ? 'Edit Response' : 'Respond'}</span>
+                </button>
+              )}
+              {user && user.id !== review.user_id && (
+                reportedIds.includes(review.id) ? (
+                  <span className="text-gray-500 text-xs">Reported</span>
+                ) : (
+                  <button
+                    onClick={() => setReportingId(review.id)}
+                    className="flex items-center space-x-1 text-gray-400 hover:text-rose-400 text-xs"
+                  >
+                    <Flag className="w-3 h-3" />
+                    <span>Report</span>
+                  </button>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, ExternalLink, Flag, Trash2 } from 'lucide-react';
+import {
+  REPORT_REASONS,
+  deleteComment,
+  dismissCommentReports,
+  fetchReportedComments,
+  type ReportedComment,
+} from '../lib/comments';
+
+// Admin queue of reported media comments: keep a comment (clearing its reports) or remove it
+export default function ReportedComments() {
+  const [comments, setComments] = useState<ReportedComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchReportedComments()
+      .then((data) => {
+        if (isMounted) setComments(data);
+      })
+      .catch((error) => console.error('Error fetching reported comments:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const resolve = async (commentId: string, action: (id: string) => Promise<void>) => {
+    setBusyId(commentId);
+    try {
+      await action(commentId);
+      setComments((prev) => prev.filter((c) => c.id !== commentId));
+    } catch (error: any) {
+      console.error('Error resolving report:', error);
+      alert(error.message || 'Failed to resolve report. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (comments.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+        <CheckCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-white mb-2">Nothing here</h3>
+        <p className="text-gray-400">No comments have been reported.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.map((comment) => (
+        <div key={comment.id} className="p-4 bg-gray-800 border border-gray-700 rounded-2xl">
+          <div className="flex flex-wrap justify-between gap-2 mb-2">
+            <div className="text-sm">
+              <span className="text-white font-medium">{comment.author_name}</span>
+              <span className="text-gray-400"> • {new Date(comment.created_at).toLocaleDateString()}</span>
+              {comment.is_hidden && <span className="text-red-400"> • Hidden</span>}
+            </div>
+            <Link
+              to={`/media/${comment.media_id}`}
+              className="text-rose-400 hover:text-rose-300 text-sm flex items-center space-x-1"
+            >
+              <ExternalLink className="w-4 h-4" />
+              <span>View media</span>
+            </Link>
+          </div>
+          <p className="text-gray-300 text-sm whitespace-pre-line break-words mb-3">{comment.body}</p>
+          <div className="space-y-1 mb-3">
+            {comment.reports.map((report, index) => (
+              <div key={index} className="flex items-start space-x-2 text-xs text-gray-400">
+                <Flag className="w-3 h-3 mt-0.5 text-red-400 flex-shrink-0" />
+                <span>
+                  {REPORT_REASONS[report.reason]}
+                  {report.details && `: ${report.details}`}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => resolve(comment.id, dismissCommentReports)}
+              disabled={busyId === comment.id}
+              className="px-3 py-1 rounded-lg text-xs font-medium transition-all flex items-center space-x-1 disabled:opacity-50 glass-effect text-gray-300 hover:text-white"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Keep</span>
+            </button>
+            <button
+              onClick={() => resolve(comment.id, deleteComment)}
+              disabled={busyId === comment.id}
+              className="px-3 py-1 rounded-lg text-xs font-medium transition-all flex items-center space-x-1 disabled:opacity-50 glass-effect text-red-400 hover:text-red-300"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Remove</span>
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
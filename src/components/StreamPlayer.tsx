@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface StreamPlayerProps {
+  url: string;
+  live?: boolean;
+  poster?: string | null;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+const isHls = (url: string) => /\.m3u8(\?|$)/i.test(url);
+const isDash = (url: string) => /\.mpd(\?|$)/i.test(url);
+
+// Plays HLS/DASH manifests in a plain <video>. Safari plays HLS natively; elsewhere hls.js and
+// dash.js are loaded on demand so they stay out of the main bundle.
+export default function StreamPlayer({ url, live = false, poster, onTimeUpdate }: StreamPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let destroy: (() => void) | undefined;
+    let cancelled = false;
+    setError(null);
+
+    const attach = async () => {
+      try {
+        if (isHls(url) && !video.canPlayType('application/vnd.apple.mpegurl')) {
+          const { default: Hls } = await import('hls.js');
+          if (cancelled) return;
+          if (!Hls.isSupported()) {
+            setError('Your browser cannot play this stream.');
+            return;
+          }
+          const hls = new Hls({ lowLatencyMode: live });
+          hls.on(Hls.Events.ERROR, (_event, data) => {
+            if (data.fatal) setError('The stream could not be loaded. It may not have started yet.');
+          });
+          hls.loadSource(url);
+          hls.attachMedia(video);
+          destroy = () => hls.destroy();
+        } else if (isDash(url)) {
+          const dashjs = await import('dashjs');
+          if (cancelled) return;
+          const player = dashjs.MediaPlayer().create();
+          player.on(dashjs.MediaPlayer.events.ERROR, () => {
+            setError('The stream could not be loaded. It may not have started yet.');
+          });
+          player.initialize(video, url, true);
+          destroy = () => player.reset();
+        } else {
+          video.src = url;
+          destroy = () => {
+            video.removeAttribute('src');
+            video.load();
+          };
+        }
+      } catch (err) {
+        console.error('Error attaching stream:', err);
+        setError('The player failed to load. Please refresh and try again.');
+      }
+    };
+
+    attach();
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [url, live]);
+
+  return (
+    <div className="relative aspect-video bg-black rounded-2xl overflow-hidden">
+      <video
+        ref={videoRef}
+        className="w-full h-full"
+        controls
+        autoPlay
+        playsInline
+        poster={poster || undefined}
+        onTimeUpdate={onTimeUpdate ? (e) => onTimeUpdate(e.currentTarget.currentTime) : undefined}
+      />
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/70 p-6 text-center">
+          <p className="text-gray-200">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ListPlus, Tag, Ticket, Users, X } from 'lucide-react';
+import type { Event } from '../lib/events';
+import { registerForEvent, type EventRegistration, type EventRegistrationStats } from '../lib/registrations';
+import { joinWaitlist } from '../lib/waitlist';
+import {
+  fetchTicketTypes,
+  fetchTicketTypeStats,
+  getSaleState,
+  quoteTicket,
+  type SaleState,
+  type TicketQuote,
+  type TicketType,
+  type TicketTypeStats,
+} from '../lib/tickets';
+
+interface TicketPurchaseModalProps {
+  event: Event;
+  registrationStats?: EventRegistrationStats;
+  onClose: () => void;
+  onRegistered: (registration: EventRegistration) => void;
+}
+
+const SALE_STATE_LABELS: Record<Exclude<SaleState, 'on_sale'>, string> = {
+  not_started: 'Not on sale yet',
+  ended: 'Sales ended',
+  sold_out: 'Sold out',
+};
+
+const formatPrice = (amount: number) => (amount > 0 ? `UGX ${amount.toLocaleString()}` : 'Free');
+
+export default function TicketPurchaseModal({
+  event,
+  registrationStats,
+  onClose,
+  onRegistered,
+}: TicketPurchaseModalProps) {
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [stats, setStats] = useState<Record<string, TicketTypeStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [quote, setQuote] = useState<TicketQuote | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+
+  const seatsLeft =
+    registrationStats?.capacity != null
+      ? Math.max(0, registrationStats.capacity - registrationStats.registered_count - registrationStats.held_count)
+      : null;
+  const fitsEvent = useCallback((seats: number) => seatsLeft === null || seats <= seatsLeft, [seatsLeft]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([fetchTicketTypes(event.id), fetchTicketTypeStats(event.id)])
+      .then(([types, typeStats]) => {
+        if (!isMounted) return;
+        setTicketTypes(types);
+        setStats(typeStats);
+        const firstOnSale = types.find(
+          (type) => getSaleState(type, typeStats[type.id]) === 'on_sale' && fitsEvent(type.group_size)
+        );
+        // Seats changing underneath the modal refreshes the list without undoing the buyer's choice
+        setSelectedId((prev) => (prev && types.some((type) => type.id === prev) ? prev : (firstOnSale?.id ?? null)));
+      })
+      .catch((error) => console.error('Error fetching ticket types:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [event.id, fitsEvent]);
+
+  const selectedType = ticketTypes.find((type) => type.id === selectedId) || null;
+  // Events created before ticket types existed still sell a single ticket at events.price
+  const basePrice = selectedType ? selectedType.price : event.price;
+
+  const selectType = (ticketTypeId: string) => {
+    setSelectedId(ticketTypeId);
+    setQuote(null);
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+    setApplying(true);
+    try {
+      setQuote(await quoteTicket(event.id, selectedId, promoCode.trim()));
+    } catch (error: any) {
+      console.error('Error applying promo code:', error);
+      setQuote(null);
+      alert(error.message || 'Failed to apply promo code. Please try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const registration = await registerForEvent(event.id, selectedId, promoCode.trim());
+      onRegistered(registration);
+    } catch (error: any) {
+      console.error('Error registering for event:', error);
+      alert(error.message || 'Failed to register. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoinWaitlist = async (ticketTypeId: string | null) => {
+    setJoiningId(ticketTypeId ?? event.id);
+    try {
+      await joinWaitlist(event.id, ticketTypeId);
+      alert(
+        "You're on the waitlist. When a spot opens up we'll hold it for you and send a notification, " +
+          'and you will have up to 24 hours to claim it from My Tickets.'
+      );
+      onClose();
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error);
+      alert(error.message || 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setJoiningId(null);
+    }
+  };
+
+  const eventSoldOut = ticketTypes.length === 0 && seatsLeft === 0;
+  const canConfirm = !loading && !submitting && (ticketTypes.length === 0 || selectedType !== null);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="glass-effect p-6 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Get Tickets</h3>
+            <p className="text-gray-400 text-sm">{event.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+          </div>
+        ) : (
+          <>
+            {ticketTypes.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {ticketTypes.map((type) => {
+                  const state = getSaleState(type, stats[type.id]);
+                  const fits = fitsEvent(type.group_size);
+                  const available = state === 'on_sale' && fits;
+                  const typeStats = stats[type.id];
+                  const left =
+                    type.quantity !== null && typeStats
+                      ? Math.max(0, type.quantity - typeStats.sold_count - typeStats.held_count)
+                      : null;
+                  return (
+                    <label
+                      key={type.id}
+                      className={`flex items-start gap-3 p-3 rounded-xl border transition-colors ${
+                        !available
+                          ? 'border-gray-700 cursor-not-allowed'
+                          : selectedId === type.id
+                            ? 'border-rose-400 bg-rose-500/10 cursor-pointer'
+                            : 'border-gray-700 hover:border-gray-500 cursor-pointer'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="ticket-type"
+                        checked={selectedId === type.id}
+                        disabled={!available}
+                        onChange={() => selectType(type.id)}
+                        className="mt-1 accent-rose-500"
+                      />
+                      <div className="flex-1">
+                        <div className="flex justify-between gap-2">
+                          <span className={available ? 'text-white font-medium' : 'text-gray-400 font-medium'}>
+                            {type.name}
+                          </span>
+                          <span className={available ? 'text-white' : 'text-gray-400'}>{formatPrice(type.price)}</span>
+                        </div>
+                        {type.description && <p className="text-gray-400 text-sm">{type.description}</p>}
+                        <div className="flex flex-wrap gap-3 text-xs text-gray-400 mt-1">
+                          {type.group_size > 1 && (
+                            <span className="flex items-center space-x-1">
+                              <Users className="w-3 h-3" />
+                              <span>Admits {type.group_size}</span>
+                            </span>
+                          )}
+                          {state !== 'on_sale' ? (
+                            <span className="text-rose-400">{SALE_STATE_LABELS[state]}</span>
+                          ) : !fits ? (
+                            <span className="text-rose-400">Not enough seats left</span>
+                          ) : (
+                            left !== null && <span>{left} left</span>
+                          )}
+                          {(state === 'sold_out' || (state === 'on_sale' && !fits)) && (
+                            <button
+                              type="button"
+                              onClick={() => handleJoinWaitlist(type.id)}
+                              disabled={joiningId !== null}
+                              className="text-rose-400 hover:text-rose-300 font-medium disabled:opacity-50"
+                            >
+                              {joiningId === type.id ? 'Joining...' : 'Join waitlist'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {eventSoldOut ? (
+              <div className="text-center py-4">
+                <p className="text-gray-300 mb-4">
+                  This event is sold out. Join the waitlist and we will hold the next free seat for you.
+                </p>
+                <button
+                  onClick={() => handleJoinWaitlist(null)}
+                  disabled={joiningId !== null}
+                  className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all flex items-center justify-center disabled:opacity-50"
+                >
+                  <ListPlus className="w-5 h-5 mr-2" />
+                  {joiningId ? 'Joining...' : 'Join Waitlist'}
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-300 mb-1">Promo code</label>
+                  <div className="flex gap-2">
+                    <div className="flex-1 relative">
+                      <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                      <input
+                        type="text"
+                        value={promoCode}
+                        onChange={(e) => {
+                          setPromoCode(e.target.value.toUpperCase());
+                          setQuote(null);
+                        }}
+                        placeholder="Optional"
+                        className="w-full pl-9 pr-3 py-2 glass-effect rounded-lg border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                      />
+                    </div>
+                    <button
+                      onClick={handleApplyPromo}
+                      disabled={applying || !promoCode.trim() || (ticketTypes.length > 0 && !selectedType)}
+                      className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg disabled:opacity-50"
+                    >
+                      {applying ? 'Applying...' : 'Apply'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 mb-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-300">
+                    <span>Ticket</span>
+                    <span>{formatPrice(quote ? quote.price : basePrice)}</span>
+                  </div>
+                  {quote && quote.discount > 0 && (
+                    <div className="flex justify-between text-green-300">
+                      <span>Promo {promoCode.trim()}</span>
+                      <span>- UGX {quote.discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-white font-semibold pt-1 border-t border-gray-700">
+                    <span>Total</span>
+                    <span>{formatPrice(quote ? quote.amount : basePrice)}</span>
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleConfirm}
+                  disabled={!canConfirm}
+                  className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all flex items-center justify-center disabled:opacity-50"
+                >
+                  <Ticket className="w-5 h-5 mr-2" />
+                  {submitting ? 'Registering...' : 'Confirm Registration'}
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
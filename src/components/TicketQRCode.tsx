@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+
+interface TicketQRCodeProps {
+  code: string;
+  size?: number;
+  className?: string;
+}
+
+export default function TicketQRCode({ code, size = 160, className = '' }: TicketQRCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    QRCode.toDataURL(code, { width: size, margin: 1 })
+      .then((url) => {
+        if (isMounted) setDataUrl(url);
+      })
+      .catch((error) => console.error('Error generating QR code:', error));
+    return () => {
+      isMounted = false;
+    };
+  }, [code, size]);
+
+  if (!dataUrl) {
+    return <div className={`bg-white/10 rounded ${className}`} style={{ width: size, height: size }} />;
+  }
+
+  return <img src={dataUrl} alt={`Ticket ${code}`} width={size} height={size} className={`rounded ${className}`} />;
+}
@@ -0,0 +1,587 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { Pencil, Plus, Tag, Trash2, Users } from 'lucide-react';
+import {
+  TICKET_KINDS,
+  createPromoCode,
+  createTicketType,
+  deletePromoCode,
+  deleteTicketType,
+  fetchPromoCodeUsage,
+  fetchPromoCodes,
+  fetchTicketTypeStats,
+  formatDiscount,
+  setPromoCodeActive,
+  updateTicketType,
+  type PromoCode,
+  type TicketKind,
+  type TicketType,
+  type TicketTypeStats,
+} from '../lib/tickets';
+
+interface TicketTypesManagerProps {
+  eventId: string;
+  ticketTypes: TicketType[];
+  onTicketTypesChange: (ticketTypes: TicketType[]) => void;
+}
+
+const FIELD_CLASS =
+  'w-full px-3 py-2 glass-effect rounded-lg border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400';
+
+type TicketTypeForm = {
+  name: string;
+  kind: TicketKind;
+  description: string;
+  price: string;
+  quantity: string;
+  groupSize: string;
+  salesStart: string;
+  salesEnd: string;
+};
+
+const EMPTY_TICKET_FORM: TicketTypeForm = {
+  name: '',
+  kind: 'regular',
+  description: '',
+  price: '',
+  quantity: '',
+  groupSize: '2',
+  salesStart: '',
+  salesEnd: '',
+};
+
+type PromoForm = {
+  code: string;
+  ticketTypeId: string;
+  discountType: PromoCode['discount_type'];
+  discountValue: string;
+  maxUses: string;
+  expiresAt: string;
+};
+
+const EMPTY_PROMO_FORM: PromoForm = {
+  code: '',
+  ticketTypeId: '',
+  discountType: 'percent',
+  discountValue: '',
+  maxUses: '',
+  expiresAt: '',
+};
+
+// datetime-local inputs work in the organizer's local time, the database in UTC
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const positiveOrNull = (value: string) => (Number(value) > 0 ? Math.round(Number(value)) : null);
+
+const formatWindow = (type: TicketType) => {
+  const format = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  if (type.sales_start && type.sales_end) return `${format(type.sales_start)} – ${format(type.sales_end)}`;
+  if (type.sales_start) return `from ${format(type.sales_start)}`;
+  if (type.sales_end) return `until ${format(type.sales_end)}`;
+  return null;
+};
+
+export default function TicketTypesManager({ eventId, ticketTypes, onTicketTypesChange }: TicketTypesManagerProps) {
+  const [stats, setStats] = useState<Record<string, TicketTypeStats>>({});
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [promoUsage, setPromoUsage] = useState<Record<string, number>>({});
+  const [ticketForm, setTicketForm] = useState<TicketTypeForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [promoForm, setPromoForm] = useState<PromoForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([fetchTicketTypeStats(eventId), fetchPromoCodes(eventId), fetchPromoCodeUsage(eventId)])
+      .then(([typeStats, codes, usage]) => {
+        if (!isMounted) return;
+        setStats(typeStats);
+        setPromoCodes(codes);
+        setPromoUsage(usage);
+      })
+      .catch((error) => console.error('Error fetching ticket settings:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId]);
+
+  const openTicketForm = (type?: TicketType) => {
+    setEditingId(type?.id ?? null);
+    setTicketForm(
+      type
+        ? {
+            name: type.name,
+            kind: type.kind,
+            description: type.description,
+            price: type.price ? String(type.price) : '',
+            quantity: type.quantity ? String(type.quantity) : '',
+            groupSize: String(Math.max(2, type.group_size)),
+            salesStart: toLocalInput(type.sales_start),
+            salesEnd: toLocalInput(type.sales_end),
+          }
+        : EMPTY_TICKET_FORM
+    );
+  };
+
+  const updateTicketForm = <K extends keyof TicketTypeForm>(key: K, value: TicketTypeForm[K]) =>
+    setTicketForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const updatePromoForm = <K extends keyof PromoForm>(key: K, value: PromoForm[K]) =>
+    setPromoForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const handleSaveTicketType = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!ticketForm || !ticketForm.name.trim()) return;
+
+    const input = {
+      name: ticketForm.name.trim(),
+      kind: ticketForm.kind,
+      description: ticketForm.description.trim(),
+      price: Math.max(0, Math.round(Number(ticketForm.price) || 0)),
+      quantity: positiveOrNull(ticketForm.quantity),
+      group_size: ticketForm.kind === 'group' ? positiveOrNull(ticketForm.groupSize) || 2 : 1,
+      sales_start: fromLocalInput(ticketForm.salesStart),
+      sales_end: fromLocalInput(ticketForm.salesEnd),
+      sort_order: editingId
+        ? ticketTypes.find((type) => type.id === editingId)?.sort_order ?? 0
+        : ticketTypes.reduce((max, type) => Math.max(max, type.sort_order + 1), 0),
+    };
+
+    if (input.sales_start && input.sales_end && input.sales_end <= input.sales_start) {
+      alert('Sales must end after they start.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        const saved = await updateTicketType(editingId, input);
+        onTicketTypesChange(ticketTypes.map((type) => (type.id === saved.id ? saved : type)));
+      } else {
+        onTicketTypesChange([...ticketTypes, await createTicketType(eventId, input)]);
+      }
+      setTicketForm(null);
+      setEditingId(null);
+    } catch (error: any) {
+      console.error('Error saving ticket type:', error);
+      alert(error.message || 'Failed to save ticket type. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTicketType = async (type: TicketType) => {
+    const sold = stats[type.id]?.sold_count || 0;
+    const warning = sold > 0 ? `\n\n${sold} ticket(s) already sold stay valid.` : '';
+    if (!window.confirm(`Delete the ${type.name} ticket type?${warning}`)) return;
+
+    try {
+      await deleteTicketType(type.id);
+      onTicketTypesChange(ticketTypes.filter((t) => t.id !== type.id));
+      // Codes restricted to this type are removed with it
+      setPromoCodes((prev) => prev.filter((promo) => promo.ticket_type_id !== type.id));
+    } catch (error: any) {
+      console.error('Error deleting ticket type:', error);
+      alert(error.message || 'Failed to delete ticket type. Please try again.');
+    }
+  };
+
+  const handleCreatePromo = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!promoForm) return;
+
+    const code = promoForm.code.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      alert('Promo codes are 3-32 letters, numbers, dashes or underscores.');
+      return;
+    }
+    const discountValue = Math.round(Number(promoForm.discountValue));
+    if (!(discountValue > 0) || (promoForm.discountType === 'percent' && discountValue > 100)) {
+      alert(promoForm.discountType === 'percent' ? 'Enter a discount between 1 and 100%.' : 'Enter a discount amount.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await createPromoCode(eventId, {
+        code,
+        ticket_type_id: promoForm.ticketTypeId || null,
+        discount_type: promoForm.discountType,
+        discount_value: discountValue,
+        max_uses: positiveOrNull(promoForm.maxUses),
+        expires_at: fromLocalInput(promoForm.expiresAt),
+      });
+      setPromoCodes((prev) => [created, ...prev]);
+      setPromoForm(null);
+    } catch (error: any) {
+      console.error('Error creating promo code:', error);
+      alert(error.message || 'Failed to create promo code. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePromo = async (promo: PromoCode) => {
+    try {
+      const saved = await setPromoCodeActive(promo.id, !promo.active);
+      setPromoCodes((prev) => prev.map((p) => (p.id === saved.id ? saved : p)));
+    } catch (error: any) {
+      console.error('Error updating promo code:', error);
+      alert(error.message || 'Failed to update promo code. Please try again.');
+    }
+  };
+
+  const handleDeletePromo = async (promo: PromoCode) => {
+    if (!window.confirm(`Delete promo code ${promo.code}?`)) return;
+    try {
+      await deletePromoCode(promo.id);
+      setPromoCodes((prev) => prev.filter((p) => p.id !== promo.id));
+    } catch (error: any) {
+      console.error('Error deleting promo code:', error);
+      alert(error.message || 'Failed to delete promo code. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white font-semibold">Ticket types</h3>
+          {!ticketForm && (
+            <button
+              type="button"
+              onClick={() => openTicketForm()}
+              className="text-rose-400 hover:text-rose-300 text-sm flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add ticket type</span>
+            </button>
+          )}
+        </div>
+
+        {ticketTypes.length === 0 && !ticketForm && (
+          <p className="text-gray-400 text-sm">
+            No ticket types yet, so everyone pays the single price above. Add Early Bird, VIP or group tiers to sell
+            several kinds of tickets.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {ticketTypes.map((type) => {
+            const saleWindow = formatWindow(type);
+            const sold = stats[type.id]?.sold_count || 0;
+            return (
+              <div key={type.id} className="flex items-start justify-between gap-3 p-3 bg-white/5 rounded-xl">
+                <div>
+                  <div className="text-white font-medium">
+                    {type.name}{' '}
+                    <span className="text-gray-400 text-xs">
+                      {TICKET_KINDS.find((kind) => kind.value === type.kind)?.label}
+                    </span>
+                  </div>
+                  <div className="text-gray-400 text-xs flex flex-wrap gap-x-3">
+                    <span>{type.price > 0 ? `UGX ${type.price.toLocaleString()}` : 'Free'}</span>
+                    <span>
+                      {sold} sold{type.quantity !== null && ` of ${type.quantity}`}
+                    </span>
+                    {type.group_size > 1 && (
+                      <span className="flex items-center space-x-1">
+                        <Users className="w-3 h-3" />
+                        <span>Admits {type.group_size}</span>
+                      </span>
+                    )}
+                    {saleWindow && <span>On sale {saleWindow}</span>}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => openTicketForm(type)}
+                    className="text-gray-400 hover:text-white"
+                    title="Edit ticket type"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteTicketType(type)}
+                    className="text-gray-400 hover:text-rose-400"
+                    title="Delete ticket type"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {ticketForm && (
+          <form onSubmit={handleSaveTicketType} className="mt-3 p-4 bg-white/5 rounded-xl space-y-3">
+            <div className="grid md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={ticketForm.name}
+                onChange={(e) => updateTicketForm('name', e.target.value)}
+                placeholder="Name, e.g. Early Bird"
+                maxLength={80}
+                required
+                className={FIELD_CLASS}
+              />
+              <select
+                value={ticketForm.kind}
+                onChange={(e) => updateTicketForm('kind', e.target.value as TicketKind)}
+                className={`${FIELD_CLASS} bg-transparent`}
+              >
+                {TICKET_KINDS.map((kind) => (
+                  <option key={kind.value} value={kind.value} className="bg-gray-800">
+                    {kind.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={ticketForm.price}
+                onChange={(e) => updateTicketForm('price', e.target.value)}
+                placeholder="Price (UGX), 0 for free"
+                className={FIELD_CLASS}
+              />
+              <input
+                type="number"
+                min={1}
+                value={ticketForm.quantity}
+                onChange={(e) => updateTicketForm('quantity', e.target.value)}
+                placeholder="Quantity (unlimited)"
+                className={FIELD_CLASS}
+              />
+              {ticketForm.kind === 'group' && (
+                <input
+                  type="number"
+                  min={2}
+                  max={50}
+                  value={ticketForm.groupSize}
+                  onChange={(e) => updateTicketForm('groupSize', e.target.value)}
+                  placeholder="People per ticket"
+                  className={FIELD_CLASS}
+                />
+              )}
+            </div>
+            <div className="grid md:grid-cols-2 gap-3">
+              <label className="text-gray-400 text-xs">
+                Sales start
+                <input
+                  type="datetime-local"
+                  value={ticketForm.salesStart}
+                  onChange={(e) => updateTicketForm('salesStart', e.target.value)}
+                  className={`${FIELD_CLASS} mt-1`}
+                />
+              </label>
+              <label className="text-gray-400 text-xs">
+                Sales end
+                <input
+                  type="datetime-local"
+                  value={ticketForm.salesEnd}
+                  onChange={(e) => updateTicketForm('salesEnd', e.target.value)}
+                  className={`${FIELD_CLASS} mt-1`}
+                />
+              </label>
+            </div>
+            <input
+              type="text"
+              value={ticketForm.description}
+              onChange={(e) => updateTicketForm('description', e.target.value)}
+              placeholder="What's included (optional)"
+              className={FIELD_CLASS}
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setTicketForm(null);
+                  setEditingId(null);
+                }}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingId ? 'Save Ticket Type' : 'Add Ticket Type'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white font-semibold">Promo codes</h3>
+          {!promoForm && (
+            <button
+              type="button"
+              onClick={() => setPromoForm(EMPTY_PROMO_FORM)}
+              className="text-rose-400 hover:text-rose-300 text-sm flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add promo code</span>
+            </button>
+          )}
+        </div>
+
+        {promoCodes.length === 0 && !promoForm && (
+          <p className="text-gray-400 text-sm">No promo codes yet.</p>
+        )}
+
+        <div className="space-y-2">
+          {promoCodes.map((promo) => {
+            const uses = promoUsage[promo.id] || 0;
+            const expired = !!promo.expires_at && new Date(promo.expires_at).getTime() <= Date.now();
+            const typeName = ticketTypes.find((type) => type.id === promo.ticket_type_id)?.name;
+            return (
+              <div key={promo.id} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-xl">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Tag className="w-4 h-4 text-rose-400" />
+                    <span className={`font-mono ${promo.active && !expired ? 'text-white' : 'text-gray-500'}`}>
+                      {promo.code}
+                    </span>
+                    <span className="text-green-300 text-xs">{formatDiscount(promo)}</span>
+                  </div>
+                  <div className="text-gray-400 text-xs flex flex-wrap gap-x-3">
+                    <span>
+                      Used {uses}
+                      {promo.max_uses !== null && ` of ${promo.max_uses}`}
+                    </span>
+                    <span>{typeName ? `${typeName} only` : 'All ticket types'}</span>
+                    {promo.expires_at && (
+                      <span className={expired ? 'text-rose-400' : ''}>
+                        {expired ? 'Expired' : 'Expires'} {new Date(promo.expires_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => handleTogglePromo(promo)}
+                    className="text-sm text-gray-300 hover:text-white"
+                  >
+                    {promo.active ? 'Deactivate' : 'Activate'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeletePromo(promo)}
+                    className="text-gray-400 hover:text-rose-400"
+                    title="Delete promo code"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {promoForm && (
+          <form onSubmit={handleCreatePromo} className="mt-3 p-4 bg-white/5 rounded-xl space-y-3">
+            <div className="grid md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={promoForm.code}
+                onChange={(e) => updatePromoForm('code', e.target.value.toUpperCase())}
+                placeholder="Code, e.g. EARLY20"
+                maxLength={32}
+                required
+                className={`${FIELD_CLASS} font-mono`}
+              />
+              <select
+                value={promoForm.ticketTypeId}
+                onChange={(e) => updatePromoForm('ticketTypeId', e.target.value)}
+                className={`${FIELD_CLASS} bg-transparent`}
+              >
+                <option value="" className="bg-gray-800">
+                  All ticket types
+                </option>
+                {ticketTypes.map((type) => (
+                  <option key={type.id} value={type.id} className="bg-gray-800">
+                    {type.name} only
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <select
+                  value={promoForm.discountType}
+                  onChange={(e) => updatePromoForm('discountType', e.target.value as PromoCode['discount_type'])}
+                  className={`${FIELD_CLASS} bg-transparent w-28`}
+                >
+                  <option value="percent" className="bg-gray-800">
+                    %
+                  </option>
+                  <option value="fixed" className="bg-gray-800">
+                    UGX
+                  </option>
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={promoForm.discountType === 'percent' ? 100 : undefined}
+                  value={promoForm.discountValue}
+                  onChange={(e) => updatePromoForm('discountValue', e.target.value)}
+                  placeholder="Discount"
+                  required
+                  className={FIELD_CLASS}
+                />
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={promoForm.maxUses}
+                onChange={(e) => updatePromoForm('maxUses', e.target.value)}
+                placeholder="Usage limit (unlimited)"
+                className={FIELD_CLASS}
+              />
+            </div>
+            <label className="block text-gray-400 text-xs">
+              Expires
+              <input
+                type="datetime-local"
+                value={promoForm.expiresAt}
+                onChange={(e) => updatePromoForm('expiresAt', e.target.value)}
+                className={`${FIELD_CLASS} mt-1`}
+              />
+            </label>
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setPromoForm(null)}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Add Promo Code'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
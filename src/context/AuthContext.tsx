@@ -12,8 +12,14 @@ interface Profile {
   role: 'creator' | 'member';
   is_verified: boolean;
   joined_date: string;
+  followers_count: number;
+  following_count: number;
+  is_admin: boolean;
 }
 
+// Tier, points, role and verification are written by the server; see switchRole for the role
+type EditableProfile = Partial<Pick<Profile, 'name' | 'profile_image' | 'joined_date'>>;
+
 interface AppUser extends Profile {
   email: string;
 }
@@ -24,7 +30,7 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (userData: any) => Promise<void>;
   signOut: () => Promise<void>;
-  updateUser: (userData: Partial<Profile>) => Promise<void>;
+  updateUser: (userData: EditableProfile) => Promise<void>;
   switchRole: () => Promise<void>;
 }
 
@@ -176,7 +182,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateUser = async (userData: Partial<Profile>) => {
+  const updateUser = async (userData: EditableProfile) => {
     if (!user) {
       console.error('No user found for update');
       return;
@@ -210,9 +216,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const newRole = user.role === 'creator' ? 'member' : 'creator';
-      const newAccountType = user.account_type === 'creator' ? 'member' : 'creator';
-      await updateUser({ role: newRole, account_type: newAccountType });
+      const { error } = await supabase.rpc('switch_account_role');
+      if (error) throw error;
+
+      const updatedUser = await getProfile(user.id, user.email);
+      if (updatedUser) {
+        setUser(updatedUser);
+      }
     } catch (error) {
       console.error('Error switching role:', error);
       throw error;
@@ -0,0 +1,106 @@
+import { supabase } from './supabaseClient';
+import type { TicketKind } from './tickets';
+
+// Rows come from organizer-scoped views: callers only ever see their own events.
+export type EventAnalytics = {
+  event_id: string;
+  organizer_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  capacity: number | null;
+  is_livestream: boolean;
+  tickets_sold: number;
+  seats_sold: number;
+  cancelled_count: number;
+  checked_in_count: number;
+  gross_revenue: number;
+  paid_revenue: number;
+  discount_total: number;
+  memories_count: number;
+  waitlist_count: number;
+  peak_viewers: number;
+};
+
+export type RegistrationTimelinePoint = {
+  event_id: string;
+  day: string;
+  registrations: number;
+  cancellations: number;
+};
+
+export type TicketTypeAnalytics = {
+  ticket_type_id: string;
+  event_id: string;
+  name: string;
+  kind: TicketKind;
+  price: number;
+  quantity: number | null;
+  sort_order: number;
+  sold_count: number;
+  checked_in_count: number;
+  revenue: number;
+};
+
+export type OrganizerSummary = {
+  events: number;
+  upcomingEvents: number;
+  ticketsSold: number;
+  grossRevenue: number;
+  checkInRate: number | null;
+  memories: number;
+};
+
+export const checkInRate = (checkedIn: number, sold: number) => (sold > 0 ? checkedIn / sold : null);
+
+export async function fetchOrganizerAnalytics(): Promise<EventAnalytics[]> {
+  const { data, error } = await supabase
+    .from('event_analytics')
+    .select('*')
+    .order('starts_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as EventAnalytics[];
+}
+
+export async function fetchEventAnalytics(eventId: string): Promise<EventAnalytics | null> {
+  const { data, error } = await supabase.from('event_analytics').select('*').eq('event_id', eventId).maybeSingle();
+  if (error) throw error;
+  return data as EventAnalytics | null;
+}
+
+export async function fetchRegistrationTimeline(eventId: string): Promise<RegistrationTimelinePoint[]> {
+  const { data, error } = await supabase
+    .from('event_registration_timeline')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('day');
+  if (error) throw error;
+  return (data || []) as RegistrationTimelinePoint[];
+}
+
+export async function fetchTicketTypeAnalytics(eventId: string): Promise<TicketTypeAnalytics[]> {
+  const { data, error } = await supabase
+    .from('event_ticket_type_analytics')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('sort_order')
+    .order('price');
+  if (error) throw error;
+  return (data || []) as TicketTypeAnalytics[];
+}
+
+// Check-ins only mean something once an event has started, so the rate covers started events only
+export function summarizeAnalytics(rows: EventAnalytics[], now: number = Date.now()): OrganizerSummary {
+  const started = rows.filter((row) => new Date(row.starts_at).getTime() <= now);
+  const startedSold = started.reduce((sum, row) => sum + row.tickets_sold, 0);
+  const startedCheckedIn = started.reduce((sum, row) => sum + row.checked_in_count, 0);
+
+  return {
+    events: rows.length,
+    upcomingEvents: rows.length - started.length,
+    ticketsSold: rows.reduce((sum, row) => sum + row.tickets_sold, 0),
+    grossRevenue: rows.reduce((sum, row) => sum + row.gross_revenue, 0),
+    checkInRate: checkInRate(startedCheckedIn, startedSold),
+    memories: rows.reduce((sum, row) => sum + row.memories_count, 0),
+  };
+}
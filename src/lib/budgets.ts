@@ -0,0 +1,262 @@
+import { supabase } from './supabaseClient';
+import { downloadBlob, slugify } from './download';
+import { calculateServiceFee, type CartLine, type ProviderCategory } from './providers';
+
+export type BudgetAllocations = Partial<Record<ProviderCategory, number>>;
+
+export type BudgetItem = { provider_id: string; quantity: number };
+
+export type EventBudget = {
+  id: string;
+  user_id: string;
+  event_id: string | null;
+  name: string;
+  total_budget: number;
+  allocations: BudgetAllocations;
+  items: BudgetItem[];
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BudgetDraft = Pick<EventBudget, 'event_id' | 'name' | 'total_budget' | 'allocations' | 'items' | 'notes'>;
+
+export type BudgetCategoryLine = {
+  category: ProviderCategory;
+  allocated: number;
+  planned: number;
+  remaining: number;
+};
+
+export type BudgetSummary = {
+  lines: BudgetCategoryLine[];
+  allocatedTotal: number;
+  plannedTotal: number;
+  /** Budget not yet allocated to any category */
+  unallocated: number;
+  /** Budget left after everything in the cart */
+  remaining: number;
+};
+
+export const toBudgetItems = (cart: CartLine[]): BudgetItem[] =>
+  cart.map((line) => ({ provider_id: line.provider.id, quantity: line.quantity }));
+
+export const cartLineCost = (line: CartLine) => {
+  const subtotal = line.provider.base_price * line.quantity;
+  const fee = calculateServiceFee(subtotal);
+  return { subtotal, fee, total: subtotal + fee };
+};
+
+// Planned spend per category includes the service fee, since that is what the organizer pays
+export function summarizeBudget(totalBudget: number, allocations: BudgetAllocations, cart: CartLine[]): BudgetSummary {
+  const planned: BudgetAllocations = {};
+  cart.forEach((line) => {
+    const category = line.provider.category;
+    planned[category] = (planned[category] || 0) + cartLineCost(line).total;
+  });
+
+  const categories = Array.from(
+    new Set([...Object.keys(allocations), ...Object.keys(planned)] as ProviderCategory[])
+  ).filter((category) => (allocations[category] || 0) > 0 || (planned[category] || 0) > 0);
+
+  const lines = categories.map((category) => {
+    const allocated = allocations[category] || 0;
+    const spent = planned[category] || 0;
+    return { category, allocated, planned: spent, remaining: allocated - spent };
+  });
+
+  const allocatedTotal = lines.reduce((sum, line) => sum + line.allocated, 0);
+  const plannedTotal = lines.reduce((sum, line) => sum + line.planned, 0);
+
+  return {
+    lines,
+    allocatedTotal,
+    plannedTotal,
+    unallocated: totalBudget - allocatedTotal,
+    remaining: totalBudget - plannedTotal,
+  };
+}
+
+export async function fetchBudgets(userId: string): Promise<EventBudget[]> {
+  const { data, error } = await supabase
+    .from('event_budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as EventBudget[];
+}
+
+export async function createBudget(userId: string, draft: BudgetDraft): Promise<EventBudget> {
+  const { data, error } = await supabase
+    .from('event_budgets')
+    .insert({ ...draft, user_id: userId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as EventBudget;
+}
+
+export async function updateBudget(budgetId: string, draft: BudgetDraft): Promise<EventBudget> {
+  const { data, error } = await supabase.from('event_budgets').update(draft).eq('id', budgetId).select().single();
+  if (error) throw error;
+  return data as EventBudget;
+}
+
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const { error } = await supabase.from('event_budgets').delete().eq('id', budgetId);
+  if (error) throw error;
+}
+
+export interface BudgetExport {
+  name: string;
+  eventTitle?: string;
+  totalBudget: number;
+  notes: string;
+  cart: CartLine[];
+  summary: BudgetSummary;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatUgx = (amount: number) => `UGX ${amount.toLocaleString()}`;
+
+// Text starting with a formula character is prefixed with ' so spreadsheets don't evaluate it;
+// numbers are left alone so negative amounts stay numeric.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildBudgetCsv(plan: BudgetExport): string {
+  const rows: (string | number)[][] = [
+    ['Budget plan', plan.name],
+    ...(plan.eventTitle ? [['Event', plan.eventTitle]] : []),
+    ['Total budget (UGX)', plan.totalBudget],
+    [],
+    ['Category', 'Allocated (UGX)', 'Planned (UGX)', 'Remaining (UGX)'],
+    ...plan.summary.lines.map((line) => [capitalize(line.category), line.allocated, line.planned, line.remaining]),
+    ['Total', plan.summary.allocatedTotal, plan.summary.plannedTotal, plan.summary.remaining],
+    [],
+    ['Provider', 'Category', 'Quantity', 'Unit price (UGX)', 'Subtotal (UGX)', 'Service fee (UGX)', 'Total (UGX)'],
+    ...plan.cart.map((line) => {
+      const cost = cartLineCost(line);
+      return [
+        line.provider.name,
+        capitalize(line.provider.category),
+        line.quantity,
+        line.provider.base_price,
+        cost.subtotal,
+        cost.fee,
+        cost.total,
+      ];
+    }),
+    ...(plan.notes.trim() ? [[], ['Notes', plan.notes.trim()]] : []),
+  ];
+
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadBudgetCsv(plan: BudgetExport) {
+  const blob = new Blob([buildBudgetCsv(plan)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `${slugify(plan.name, 'budget')}.csv`);
+}
+
+export async function downloadBudgetPdf(plan: BudgetExport) {
+  // Loaded on demand; only needed when someone actually exports
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const left = 14;
+  let y = 20;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - 14) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const row = (cells: string[], columns: number[], bold = false) => {
+    ensureSpace(7);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, i) => {
+      const isAmount = i > 0;
+      doc.text(cell, isAmount ? columns[i] : left, y, isAmount ? { align: 'right' } : undefined);
+    });
+    y += 7;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(plan.name, left, y);
+  y += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  if (plan.eventTitle) {
+    doc.text(`Event: ${plan.eventTitle}`, left, y);
+    y += 6;
+  }
+  doc.text(`Total budget: ${formatUgx(plan.totalBudget)}`, left, y);
+  y += 6;
+  doc.text(`Prepared ${new Date().toLocaleDateString('en-US', { dateStyle: 'long' })}`, left, y);
+  y += 12;
+
+  doc.setFontSize(13);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Allocations', left, y);
+  y += 8;
+  doc.setFontSize(10);
+  const summaryColumns = [left, 110, 150, 196];
+  row(['Category', 'Allocated', 'Planned', 'Remaining'], summaryColumns, true);
+  plan.summary.lines.forEach((line) =>
+    row(
+      [capitalize(line.category), formatUgx(line.allocated), formatUgx(line.planned), formatUgx(line.remaining)],
+      summaryColumns
+    )
+  );
+  row(
+    [
+      'Total',
+      formatUgx(plan.summary.allocatedTotal),
+      formatUgx(plan.summary.plannedTotal),
+      formatUgx(plan.summary.remaining),
+    ],
+    summaryColumns,
+    true
+  );
+  y += 8;
+
+  ensureSpace(16);
+  doc.setFontSize(13);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Providers', left, y);
+  y += 8;
+  doc.setFontSize(10);
+  const itemColumns = [left, 110, 150, 196];
+  row(['Provider', 'Quantity', 'Service fee', 'Total'], itemColumns, true);
+  plan.cart.forEach((line) => {
+    const cost = cartLineCost(line);
+    row(
+      [`${line.provider.name} (${line.provider.category})`, String(line.quantity), formatUgx(cost.fee), formatUgx(cost.total)],
+      itemColumns
+    );
+  });
+
+  if (plan.notes.trim()) {
+    y += 8;
+    ensureSpace(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Notes', left, y);
+    y += 6;
+    doc.setFont('helvetica', 'normal');
+    doc.splitTextToSize(plan.notes.trim(), 182).forEach((text: string) => {
+      ensureSpace(6);
+      doc.text(text, left, y);
+      y += 6;
+    });
+  }
+
+  doc.save(`${slugify(plan.name, 'budget')}.pdf`);
+}
@@ -0,0 +1,71 @@
+import { supabase } from './supabaseClient';
+import type { Event } from './events';
+import { getEventTimes } from './eventTime';
+import { buildCalendar, type IcsEvent } from './ics';
+import { downloadBlob, slugify } from './download';
+
+export const toIcsEvent = (event: Event): IcsEvent => ({
+  uid: `${event.id}@flourishtalents`,
+  title: event.title,
+  description: event.description,
+  location: event.location,
+  times: getEventTimes(event),
+  updatedAt: event.updated_at,
+});
+
+export function downloadEventIcs(event: Event) {
+  const blob = new Blob([buildCalendar([toIcsEvent(event)])], { type: 'text/calendar;charset=utf-8' });
+  downloadBlob(blob, `${slugify(event.title, 'event')}.ics`);
+}
+
+export async function fetchCalendarAdds(userId: string): Promise<Record<string, boolean>> {
+  const { data, error } = await supabase
+    .from('event_calendar_adds')
+    .select('event_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row) => [row.event_id, true]));
+}
+
+export async function addEventToCalendar(userId: string, eventId: string) {
+  const { error } = await supabase
+    .from('event_calendar_adds')
+    .upsert({ user_id: userId, event_id: eventId }, { onConflict: 'user_id,event_id' });
+  if (error) throw error;
+}
+
+export async function removeEventFromCalendar(userId: string, eventId: string) {
+  const { error } = await supabase
+    .from('event_calendar_adds')
+    .delete()
+    .eq('user_id', userId)
+    .eq('event_id', eventId);
+  if (error) throw error;
+}
+
+const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/calendar-feed?token=${token}`;
+
+export async function getCalendarFeedUrl(userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return feedUrl(data.token);
+
+  const { data: created, error: insertError } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: userId })
+    .select('token')
+    .single();
+  if (insertError) throw insertError;
+  return feedUrl(created.token);
+}
+
+export async function regenerateCalendarFeedUrl(): Promise<string> {
+  const { data, error } = await supabase.rpc('reset_calendar_feed_token');
+  if (error) throw error;
+  return feedUrl(data as string);
+}
@@ -0,0 +1,195 @@
+import { supabase } from './supabaseClient';
+
+export type MediaComment = {
+  id: string;
+  media_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string;
+  likes_count: number;
+  is_pinned: boolean;
+  is_hidden: boolean;
+  edited_at: string | null;
+  created_at: string;
+  author_name: string;
+  author_image: string | null;
+  is_liked: boolean;
+  my_like_id: string | null;
+};
+
+export type CommentReportReason = 'spam' | 'harassment' | 'hate' | 'other';
+
+export const REPORT_REASONS: Record<CommentReportReason, string> = {
+  spam: 'Spam or advertising',
+  harassment: 'Harassment or bullying',
+  hate: 'Hate speech',
+  other: 'Something else',
+};
+
+export type ReportedComment = {
+  id: string;
+  media_id: string;
+  body: string;
+  is_hidden: boolean;
+  created_at: string;
+  author_name: string;
+  reports: { reason: CommentReportReason; details: string | null; created_at: string }[];
+};
+
+type CommentReportRow = {
+  reason: CommentReportReason;
+  details: string | null;
+  created_at: string;
+  comment:
+    | (Pick<ReportedComment, 'id' | 'media_id' | 'body' | 'is_hidden' | 'created_at'> & {
+        author: { name: string } | null;
+      })
+    | null;
+};
+
+// Mirror the media_comments policies; the database has the final say
+export const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+export const COMMENT_DELETE_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const COMMENT_MAX_LENGTH = 2000;
+
+export const withinWindow = (comment: Pick<MediaComment, 'created_at'>, windowMs: number, now = Date.now()) =>
+  now - new Date(comment.created_at).getTime() < windowMs;
+
+export async function fetchComments(mediaId: string): Promise<MediaComment[]> {
+  const { data, error } = await supabase
+    .from('media_comment_feed')
+    .select('*')
+    .eq('media_id', mediaId)
+    .order('created_at', { ascending: true })
+    .limit(500);
+  if (error) throw error;
+  return (data || []) as MediaComment[];
+}
+
+export async function fetchComment(commentId: string): Promise<MediaComment | null> {
+  const { data, error } = await supabase
+    .from('media_comment_feed')
+    .select('*')
+    .eq('id', commentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as MediaComment | null;
+}
+
+// Replies to a reply are attached to the top-level comment by the database
+export async function postComment(
+  userId: string,
+  mediaId: string,
+  body: string,
+  parentId: string | null = null
+): Promise<MediaComment> {
+  const { data, error } = await supabase
+    .from('media_comments')
+    .insert({ media_id: mediaId, user_id: userId, body: body.trim(), parent_id: parentId })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const comment = await fetchComment(data.id);
+  if (!comment) throw new Error('Comment not found');
+  return comment;
+}
+
+export async function editComment(commentId: string, body: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('media_comments')
+    .update({ body: body.trim() })
+    .eq('id', commentId)
+    .select('id');
+  if (error) throw error;
+  // RLS filters rows outside the edit window instead of raising an error
+  if (!data?.length) throw new Error('Comments can only be edited for 15 minutes after posting.');
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { data, error } = await supabase.from('media_comments').delete().eq('id', commentId).select('id');
+  if (error) throw error;
+  if (!data?.length) throw new Error('This comment can no longer be deleted.');
+}
+
+export async function likeComment(userId: string, commentId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('media_comment_likes')
+    .insert({ comment_id: commentId, user_id: userId })
+    .select('id')
+    .single();
+  if (error) {
+    // Already liked, e.g. from another tab
+    if (error.code === '23505') return null;
+    throw error;
+  }
+  return data.id as string;
+}
+
+export async function unlikeComment(userId: string, commentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('media_comment_likes')
+    .delete()
+    .eq('comment_id', commentId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function pinComment(commentId: string, pinned: boolean): Promise<void> {
+  const { error } = await supabase.rpc('pin_media_comment', { p_comment_id: commentId, p_pinned: pinned });
+  if (error) throw error;
+}
+
+// Returns false when the user had already reported this comment
+export async function reportComment(
+  reporterId: string,
+  commentId: string,
+  reason: CommentReportReason,
+  details = ''
+): Promise<boolean> {
+  const { error } = await supabase.from('media_comment_reports').insert({
+    comment_id: commentId,
+    reporter_id: reporterId,
+    reason,
+    details: details.trim() || null,
+  });
+  if (error) {
+    if (error.code === '23505') return false;
+    throw error;
+  }
+  return true;
+}
+
+// Admins only: reported comments with every report against them, most reported first
+export async function fetchReportedComments(): Promise<ReportedComment[]> {
+  const { data, error } = await supabase
+    .from('media_comment_reports')
+    .select(
+      'reason, details, created_at, comment:media_comments(id, media_id, body, is_hidden, created_at, author:profiles!media_comments_user_id_fkey(name))'
+    )
+    .order('created_at', { ascending: false })
+    .limit(500);
+  if (error) throw error;
+
+  const byComment = new Map<string, ReportedComment>();
+  for (const row of (data || []) as unknown as CommentReportRow[]) {
+    if (!row.comment) continue;
+    const entry: ReportedComment = byComment.get(row.comment.id) ?? {
+      id: row.comment.id,
+      media_id: row.comment.media_id,
+      body: row.comment.body,
+      is_hidden: row.comment.is_hidden,
+      created_at: row.comment.created_at,
+      author_name: row.comment.author?.name ?? 'Unknown',
+      reports: [],
+    };
+    entry.reports.push({ reason: row.reason, details: row.details, created_at: row.created_at });
+    byComment.set(entry.id, entry);
+  }
+  return [...byComment.values()].sort((a, b) => b.reports.length - a.reports.length);
+}
+
+export async function dismissCommentReports(commentId: string): Promise<void> {
+  const { error } = await supabase.rpc('dismiss_media_comment_reports', { p_comment_id: commentId });
+  if (error) throw error;
+}
@@ -0,0 +1,104 @@
+import { supabase } from './supabaseClient';
+
+export const CHAT_REACTIONS = ['❤️', '🔥', '👏', '😂', '😮', '🎉'] as const;
+
+export const SLOW_MODE_OPTIONS = [0, 5, 15, 30, 60];
+
+export type ChatMessage = {
+  id: string;
+  event_id: string;
+  user_id: string;
+  author_name: string;
+  kind: 'message' | 'reaction';
+  body: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  created_at: string;
+};
+
+export type ChatState = {
+  slow_mode_seconds: number;
+  is_muted: boolean;
+  is_moderator: boolean;
+};
+
+export type ChatMute = {
+  event_id: string;
+  user_id: string;
+  muted_by: string;
+  created_at: string;
+};
+
+export const CHAT_HISTORY_LIMIT = 2000;
+
+// The most recent messages, returned oldest first so live chat appends and replays can walk forward
+// with the video.
+export async function fetchChatMessages(eventId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('event_chat_messages')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .limit(CHAT_HISTORY_LIMIT);
+  if (error) throw error;
+  return ((data || []) as ChatMessage[]).reverse();
+}
+
+export async function fetchChatState(eventId: string): Promise<ChatState> {
+  const { data, error } = await supabase.rpc('get_event_chat_state', { p_event_id: eventId });
+  if (error) throw error;
+  return data as ChatState;
+}
+
+export async function sendChatMessage(eventId: string, body: string): Promise<ChatMessage> {
+  const { data, error } = await supabase.rpc('post_event_chat_message', {
+    p_event_id: eventId,
+    p_kind: 'message',
+    p_body: body,
+  });
+  if (error) throw error;
+  return data as ChatMessage;
+}
+
+export async function sendChatReaction(eventId: string, emoji: string): Promise<ChatMessage> {
+  const { data, error } = await supabase.rpc('post_event_chat_message', {
+    p_event_id: eventId,
+    p_kind: 'reaction',
+    p_body: emoji,
+  });
+  if (error) throw error;
+  return data as ChatMessage;
+}
+
+export async function deleteChatMessage(messageId: string): Promise<ChatMessage> {
+  const { data, error } = await supabase.rpc('delete_event_chat_message', { p_message_id: messageId });
+  if (error) throw error;
+  return data as ChatMessage;
+}
+
+export async function fetchChatMutes(eventId: string): Promise<ChatMute[]> {
+  const { data, error } = await supabase.from('event_chat_mutes').select('*').eq('event_id', eventId);
+  if (error) throw error;
+  return (data || []) as ChatMute[];
+}
+
+export async function muteChatUser(eventId: string, userId: string, mutedBy: string): Promise<void> {
+  const { error } = await supabase
+    .from('event_chat_mutes')
+    .insert({ event_id: eventId, user_id: userId, muted_by: mutedBy });
+  if (error) throw error;
+}
+
+export async function unmuteChatUser(eventId: string, userId: string): Promise<void> {
+  const { error } = await supabase.from('event_chat_mutes').delete().eq('event_id', eventId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function setChatSlowMode(eventId: string, seconds: number): Promise<number> {
+  const { data, error } = await supabase.rpc('set_event_chat_slow_mode', {
+    p_event_id: eventId,
+    p_seconds: seconds,
+  });
+  if (error) throw error;
+  return data as number;
+}
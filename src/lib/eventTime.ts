@@ -0,0 +1,210 @@
+// Shared event time handling: parses the date/time an event was declared in, derives its status and
+// formats countdowns and viewer-local conversions. Kept free of imports so the calendar-feed edge
+// function can reuse it.
+
+export type EventTimezone = {
+  abbreviation: string;
+  tzid: string;
+  offsetMinutes: number;
+};
+
+// Only zones without daylight saving, so a fixed offset is exact all year round.
+export const EVENT_TIMEZONES: Record<string, EventTimezone> = {
+  EAT: { abbreviation: 'EAT', tzid: 'Africa/Kampala', offsetMinutes: 180 },
+  CAT: { abbreviation: 'CAT', tzid: 'Africa/Maputo', offsetMinutes: 120 },
+  WAT: { abbreviation: 'WAT', tzid: 'Africa/Lagos', offsetMinutes: 60 },
+  GMT: { abbreviation: 'GMT', tzid: 'Etc/GMT', offsetMinutes: 0 },
+  UTC: { abbreviation: 'UTC', tzid: 'Etc/UTC', offsetMinutes: 0 },
+};
+
+export const DEFAULT_EVENT_TIMEZONE = EVENT_TIMEZONES.EAT;
+
+export type EventStatus = 'upcoming' | 'happening' | 'past';
+
+export type EventTimes = {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone: EventTimezone;
+};
+
+// The subset of an event row needed to work out when it happens.
+export type EventTimeSource = {
+  date: string;
+  time: string;
+  timezone?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+};
+
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIME_PATTERN = /(\d{1,2})(?::(\d{2}))?\s*(AM|PM)/gi;
+const ZONE_PATTERN = /\b([A-Z]{3,4})\s*$/;
+
+// Events without a zone are EAT; any other zone must be one of EVENT_TIMEZONES (the events table
+// enforces the same list), since guessing an offset would silently shift the event.
+export function resolveTimezone(tzid?: string | null): EventTimezone {
+  if (!tzid) return DEFAULT_EVENT_TIMEZONE;
+  const timezone = Object.values(EVENT_TIMEZONES).find((zone) => zone.tzid === tzid);
+  if (!timezone) throw new RangeError(`Unsupported event timezone: ${tzid}`);
+  return timezone;
+}
+
+const parseClockTimes = (time: string) =>
+  [...time.matchAll(TIME_PATTERN)].map((match) => {
+    let hours = Number(match[1]) % 12;
+    if (match[3].toUpperCase() === 'PM') hours += 12;
+    return { hours, minutes: Number(match[2] || 0) };
+  });
+
+export function parseEventTimes(date: string, time: string, tzid?: string | null): EventTimes {
+  const [year, month, day] = date.split('-').map(Number);
+  const zoneMatch = time.trim().match(ZONE_PATTERN);
+  const timezone = tzid
+    ? resolveTimezone(tzid)
+    : (zoneMatch && EVENT_TIMEZONES[zoneMatch[1]]) || DEFAULT_EVENT_TIMEZONE;
+  const offsetMs = timezone.offsetMinutes * 60 * 1000;
+
+  const toInstant = (hours: number, minutes: number) =>
+    new Date(Date.UTC(year, month - 1, day, hours, minutes) - offsetMs);
+
+  const clockTimes = parseClockTimes(time);
+
+  if (clockTimes.length === 0) {
+    const start = toInstant(0, 0);
+    return { start, end: new Date(start.getTime() + DAY_MS), allDay: true, timezone };
+  }
+
+  const start = toInstant(clockTimes[0].hours, clockTimes[0].minutes);
+  let end = clockTimes[1]
+    ? toInstant(clockTimes[1].hours, clockTimes[1].minutes)
+    : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  // '10:00 PM - 2:00 AM' runs past midnight
+  if (end.getTime() <= start.getTime()) end = new Date(end.getTime() + DAY_MS);
+
+  return { start, end, allDay: false, timezone };
+}
+
+// Prefers the stored starts_at/ends_at instants and falls back to parsing the display strings.
+export function getEventTimes(event: EventTimeSource): EventTimes {
+  if (event.starts_at && event.ends_at) {
+    return {
+      start: new Date(event.starts_at),
+      end: new Date(event.ends_at),
+      allDay: parseClockTimes(event.time).length === 0,
+      timezone: resolveTimezone(event.timezone),
+    };
+  }
+  return parseEventTimes(event.date, event.time, event.timezone);
+}
+
+export function getEventStatus(times: EventTimes, now: number = Date.now()): EventStatus {
+  if (now < times.start.getTime()) return 'upcoming';
+  if (now < times.end.getTime()) return 'happening';
+  return 'past';
+}
+
+export type Countdown = {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+};
+
+export function getCountdown(target: Date, now: number = Date.now()): Countdown | null {
+  const diff = target.getTime() - now;
+  if (diff <= 0) return null;
+
+  const totalSeconds = Math.floor(diff / 1000);
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+  };
+}
+
+// Coarse 'in 3 days' / 'in 5 hours' label for lists where a ticking clock is too noisy.
+export function formatRelativeStart(times: EventTimes, now: number = Date.now()): string {
+  const status = getEventStatus(times, now);
+  if (status === 'happening') return 'Happening now';
+  if (status === 'past') return 'Ended';
+
+  const countdown = getCountdown(times.start, now)!;
+  if (countdown.days > 0) return `in ${countdown.days} day${countdown.days === 1 ? '' : 's'}`;
+  if (countdown.hours > 0) return `in ${countdown.hours} hour${countdown.hours === 1 ? '' : 's'}`;
+  return `in ${Math.max(1, countdown.minutes)} min`;
+}
+
+export function formatEventDate(times: EventTimes, options: Intl.DateTimeFormatOptions = {}): string {
+  return times.start.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...options,
+    timeZone: times.timezone.tzid,
+  });
+}
+
+const formatClock = (date: Date, timeZone?: string) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+// '10:00 AM - 6:00 PM EAT', in the zone the event was declared in.
+export function formatEventTimeRange(times: EventTimes): string {
+  if (times.allDay) return 'All day';
+  const { tzid, abbreviation } = times.timezone;
+  return `${formatClock(times.start, tzid)} - ${formatClock(times.end, tzid)} ${abbreviation}`;
+}
+
+// '14:30' from a time input -> '2:30 PM'
+const formatClockInput = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+export type EventSchedule = {
+  date: string;
+  time: string;
+  timezone: string;
+  starts_at: string;
+  ends_at: string;
+};
+
+// Builds the stored display strings and instants from an editor's date and 24-hour clock inputs.
+// Leaving the start time empty makes it an all-day event.
+export function buildEventSchedule(date: string, startTime: string, endTime: string, tzid: string): EventSchedule {
+  const timezone = resolveTimezone(tzid);
+  const time = startTime
+    ? `${formatClockInput(startTime)}${endTime ? ` - ${formatClockInput(endTime)}` : ''} ${timezone.abbreviation}`
+    : '';
+  const times = parseEventTimes(date, time, timezone.tzid);
+  return {
+    date,
+    time,
+    timezone: timezone.tzid,
+    starts_at: times.start.toISOString(),
+    ends_at: times.end.toISOString(),
+  };
+}
+
+// An instant as a 'HH:MM' time input value in the event's own zone.
+export function toClockInput(instant: Date, timezone: EventTimezone): string {
+  const local = new Date(instant.getTime() + timezone.offsetMinutes * 60 * 1000);
+  return `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+}
+
+export function isViewerInTimezone(timezone: EventTimezone, at: Date = new Date()): boolean {
+  return -at.getTimezoneOffset() === timezone.offsetMinutes;
+}
+
+// The same range in the viewer's own zone, e.g. '9:00 AM - 5:00 PM your time (Mon, Nov 15)'.
+export function formatViewerTimeRange(times: EventTimes): string {
+  const sameDay = times.start.toLocaleDateString() === times.end.toLocaleDateString();
+  const day = times.start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return (
+    `${formatClock(times.start)} - ${formatClock(times.end)}${sameDay ? '' : ' (+1)'} your time (${day})`
+  );
+}
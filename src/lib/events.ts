@@ -0,0 +1,159 @@
+import { supabase } from './supabaseClient';
+import type { EventStatus } from './eventTime';
+import { sanitizeSearch } from './search';
+
+export type Event = {
+  id: string;
+  title: string;
+  description: string;
+  category: 'social' | 'networking' | 'business';
+  date: string;
+  time: string;
+  location: string;
+  organizer: string;
+  organizer_id: string | null;
+  image_url: string | null;
+  price: number;
+  rating: number;
+  features: string[];
+  speakers: string[];
+  is_livestream: boolean;
+  capacity: number | null;
+  timezone: string;
+  starts_at: string;
+  ends_at: string;
+  /** Null while the event is a draft */
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const EVENT_CATEGORIES = ['all', 'social', 'networking', 'business'] as const;
+
+export interface EventFilters {
+  searchQuery?: string;
+  category?: string;
+  status?: EventStatus;
+  isLivestream?: boolean;
+  organizerId?: string;
+}
+
+const buildEventsQuery = (filters: EventFilters, head = false) => {
+  let query = supabase
+    .from('events')
+    .select('*', head ? { count: 'exact', head: true } : undefined);
+
+  if (filters.category && filters.category !== 'all') {
+    query = query.eq('category', filters.category);
+  }
+  // Status is derived from the start/end instants rather than stored
+  const now = new Date().toISOString();
+  if (filters.status === 'upcoming') {
+    query = query.gt('starts_at', now);
+  } else if (filters.status === 'happening') {
+    query = query.lte('starts_at', now).gt('ends_at', now);
+  } else if (filters.status === 'past') {
+    query = query.lte('ends_at', now);
+  }
+  if (filters.isLivestream !== undefined) {
+    query = query.eq('is_livestream', filters.isLivestream);
+  }
+  // An organizer's own listing includes their drafts; everywhere else only shows published events
+  if (filters.organizerId) {
+    query = query.eq('organizer_id', filters.organizerId);
+  } else {
+    query = query.not('published_at', 'is', null);
+  }
+
+  const search = sanitizeSearch(filters.searchQuery || '');
+  if (search) {
+    query = query.or(
+      `title.ilike.%${search}%,description.ilike.%${search}%,organizer.ilike.%${search}%`
+    );
+  }
+
+  return query;
+};
+
+export async function fetchEvents(filters: EventFilters = {}): Promise<Event[]> {
+  const { data, error } = await buildEventsQuery(filters).order('starts_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as Event[];
+}
+
+export async function fetchEventById(id: string): Promise<Event | null> {
+  const { data, error } = await supabase.from('events').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Event | null;
+}
+
+export type EventInput = Pick<
+  Event,
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'date'
+  | 'time'
+  | 'timezone'
+  | 'starts_at'
+  | 'ends_at'
+  | 'location'
+  | 'image_url'
+  | 'price'
+  | 'capacity'
+  | 'features'
+  | 'speakers'
+  | 'is_livestream'
+>;
+
+export const EVENT_COVERS_BUCKET = 'event-covers';
+
+export async function createEvent(organizerId: string, organizerName: string, input: EventInput): Promise<Event> {
+  const { data, error } = await supabase
+    .from('events')
+    .insert({ ...input, organizer_id: organizerId, organizer: organizerName })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as Event;
+}
+
+export async function updateEvent(eventId: string, changes: Partial<EventInput>): Promise<Event> {
+  const { data, error } = await supabase.from('events').update(changes).eq('id', eventId).select().single();
+  if (error) throw error;
+  return data as Event;
+}
+
+export async function setEventPublished(eventId: string, published: boolean): Promise<Event> {
+  const { data, error } = await supabase
+    .from('events')
+    .update({ published_at: published ? new Date().toISOString() : null })
+    .eq('id', eventId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as Event;
+}
+
+export async function deleteEvent(eventId: string): Promise<void> {
+  const { error } = await supabase.from('events').delete().eq('id', eventId);
+  if (error) throw error;
+}
+
+export async function uploadEventCover(userId: string, file: File): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(EVENT_COVERS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return supabase.storage.from(EVENT_COVERS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function countEvents(filters: EventFilters = {}): Promise<number> {
+  const { count, error } = await buildEventsQuery(filters, true);
+  if (error) throw error;
+  return count || 0;
+}
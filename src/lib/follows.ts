@@ -0,0 +1,69 @@
+import { supabase } from './supabaseClient';
+
+export type FollowedCreator = {
+  id: string;
+  name: string;
+  profile_image: string | null;
+  followers_count: number;
+};
+
+export type CreatorProfile = FollowedCreator & {
+  is_verified: boolean;
+};
+
+export async function followCreator(followerId: string, creatorId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('creator_follows')
+    .insert({ follower_id: followerId, creator_id: creatorId })
+    .select('id')
+    .single();
+  if (error) {
+    // Already following, e.g. from another tab
+    if (error.code === '23505') return null;
+    throw error;
+  }
+  return data.id as string;
+}
+
+export async function unfollowCreator(followerId: string, creatorId: string): Promise<void> {
+  const { error } = await supabase
+    .from('creator_follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('creator_id', creatorId);
+  if (error) throw error;
+}
+
+// The caller's follows among the given creators, keyed by creator id
+export async function fetchMyFollows(followerId: string, creatorIds: string[]): Promise<Record<string, string>> {
+  if (creatorIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('creator_follows')
+    .select('id, creator_id')
+    .eq('follower_id', followerId)
+    .in('creator_id', creatorIds);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((follow) => [follow.creator_id, follow.id]));
+}
+
+export async function fetchFollowedCreators(followerId: string): Promise<FollowedCreator[]> {
+  const { data, error } = await supabase
+    .from('creator_follows')
+    .select('creator:profiles!creator_follows_creator_id_fkey(id, name, profile_image, followers_count)')
+    .eq('follower_id', followerId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data || []) as unknown as { creator: FollowedCreator | null }[])
+    .map((row) => row.creator)
+    .filter((creator): creator is FollowedCreator => creator !== null);
+}
+
+export async function fetchCreatorProfile(creatorId: string): Promise<CreatorProfile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name, profile_image, followers_count, is_verified')
+    .eq('id', creatorId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as CreatorProfile | null;
+}
@@ -0,0 +1,118 @@
+// RFC 5545 iCalendar builder. Only depends on eventTime (imported with its extension for Deno)
+// so the calendar-feed edge function can reuse it.
+
+import type { EventTimes } from './eventTime.ts';
+
+export type IcsEvent = {
+  uid: string;
+  title: string;
+  description: string;
+  location: string;
+  times: EventTimes;
+  url?: string | null;
+  updatedAt?: string;
+  cancelled?: boolean;
+};
+
+const PRODID = '-//FlourishTalents//Events//EN';
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Wall-clock time in the event's zone, for use with a TZID parameter.
+const formatLocal = (date: Date, offsetMinutes: number) => {
+  const shifted = new Date(date.getTime() + offsetMinutes * 60 * 1000);
+  return formatUtc(shifted).slice(0, -1);
+};
+
+const formatDate = (date: Date, offsetMinutes: number) => formatLocal(date, offsetMinutes).slice(0, 8);
+
+const formatOffset = (offsetMinutes: number) => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+// Lines longer than 75 octets are folded with CRLF + a single space (RFC 5545 §3.1).
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const buildTimezone = ({ tzid, abbreviation, offsetMinutes }: EventTimes['timezone']) => [
+  'BEGIN:VTIMEZONE',
+  `TZID:${tzid}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  `TZOFFSETFROM:${formatOffset(offsetMinutes)}`,
+  `TZOFFSETTO:${formatOffset(offsetMinutes)}`,
+  `TZNAME:${abbreviation}`,
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const buildEvent = (event: IcsEvent, stamp: string) => {
+  const { start, end, allDay, timezone } = event.times;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    allDay
+      ? `DTSTART;VALUE=DATE:${formatDate(start, timezone.offsetMinutes)}`
+      : `DTSTART;TZID=${timezone.tzid}:${formatLocal(start, timezone.offsetMinutes)}`,
+    allDay
+      ? `DTEND;VALUE=DATE:${formatDate(end, timezone.offsetMinutes)}`
+      : `DTEND;TZID=${timezone.tzid}:${formatLocal(end, timezone.offsetMinutes)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export function buildCalendar(events: IcsEvent[], calendarName?: string): string {
+  const stamp = formatUtc(new Date());
+  const timezones = new Map(events.filter((e) => !e.times.allDay).map((e) => [e.times.timezone.tzid, e.times.timezone]));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+    ...[...timezones.values()].flatMap(buildTimezone),
+    ...events.flatMap((event) => buildEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
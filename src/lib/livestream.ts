@@ -0,0 +1,55 @@
+import { supabase } from './supabaseClient';
+
+export type StreamAccess =
+  | { mode: 'waiting'; starts_at: string }
+  | { mode: 'live'; url: string; ends_at: string }
+  | { mode: 'replay'; url: string }
+  | { mode: 'ended' };
+
+export type MembershipTier = 'free' | 'premium' | 'professional' | 'elite';
+
+export type EventStreamSettings = {
+  event_id: string;
+  playback_url: string;
+  replay_url: string | null;
+  min_tier: MembershipTier;
+};
+
+// Organizer-only: RLS hides the row from everyone else
+export async function fetchEventStreamSettings(eventId: string): Promise<EventStreamSettings | null> {
+  const { data, error } = await supabase
+    .from('event_streams')
+    .select('event_id, playback_url, replay_url, min_tier')
+    .eq('event_id', eventId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as EventStreamSettings | null;
+}
+
+export async function saveEventStreamSettings(settings: EventStreamSettings): Promise<EventStreamSettings> {
+  const { data, error } = await supabase
+    .from('event_streams')
+    .upsert(settings)
+    .select('event_id, playback_url, replay_url, min_tier')
+    .single();
+  if (error) throw error;
+  return data as EventStreamSettings;
+}
+
+export async function deleteEventStream(eventId: string): Promise<void> {
+  const { error } = await supabase.from('event_streams').delete().eq('event_id', eventId);
+  if (error) throw error;
+}
+
+// Stream URLs are never selected directly; the RPC checks tier, ticket or organizer access server-side.
+export async function getEventStream(eventId: string): Promise<StreamAccess> {
+  const { data, error } = await supabase.rpc('get_event_stream', { p_event_id: eventId });
+  if (error) throw error;
+  return data as StreamAccess;
+}
+
+// Counts the caller towards the live viewer figures in organizer analytics
+export async function recordStreamHeartbeat(eventId: string): Promise<void> {
+  const { error } = await supabase.rpc('record_stream_heartbeat', { p_event_id: eventId });
+  if (error) throw error;
+}
@@ -0,0 +1,184 @@
+import { supabase, supabaseUrl } from './supabaseClient';
+
+export type MediaItem = {
+  id: string;
+  title: string;
+  creator_name: string;
+  creator_id: string | null;
+  thumbnail_url: string;
+  content_url: string | null;
+  duration?: string;
+  read_time?: string;
+  category: string;
+  type: string;
+  content_type: string;
+  description: string;
+  price?: number;
+  rating: number;
+  is_premium: boolean;
+  views_count: number;
+  plays_count: number;
+  sales_count: number;
+  created_at: string;
+  likes_count: number;
+  is_liked: boolean;
+  is_following: boolean;
+  // The caller's own like and follow rows
+  my_like_id: string | null;
+  my_follow_id: string | null;
+  comments_count: number;
+};
+
+// Position of the last row of a page; the next page starts strictly after it in (created_at, id) order
+export type MediaCursor = Pick<MediaItem, 'created_at' | 'id'>;
+
+export type MediaPage = {
+  items: MediaItem[];
+  nextCursor: MediaCursor | null;
+};
+
+export const MEDIA_PAGE_SIZE = 24;
+
+// Categories offered on each Media tab; 'all' is the tab's unfiltered view
+export const MEDIA_CATEGORIES = {
+  stream: ['all', 'movie', 'music-video', 'documentaries', 'lifestyle', 'Go Live'],
+  listen: ['all', 'greatest-of-all-time', 'latest-release', 'new-talent', 'DJ-mixtapes', 'UG-Unscripted', 'Afrobeat', 'hip-hop', 'RnB', 'Others'],
+  blog: ['all', 'interviews', 'lifestyle', 'product-reviews', 'others'],
+  gallery: ['all', 'design', 'photography', 'art', 'others'],
+  resources: ['all', 'templates', 'ebooks', 'software', 'presets'],
+};
+
+export type MediaTab = keyof typeof MEDIA_CATEGORIES;
+
+// One page of a Media tab from the media_feed view, which joins in like counts and the caller's
+// like/follow state so the page is a single request regardless of its size. Pages are keyset
+// paginated on (created_at, id) so new uploads never shift or duplicate rows between pages.
+export async function fetchMediaPage(
+  type: string,
+  {
+    category = 'all',
+    after = null,
+    limit = MEDIA_PAGE_SIZE,
+  }: { category?: string; after?: MediaCursor | null; limit?: number } = {}
+): Promise<MediaPage> {
+  let query = supabase
+    .from('media_feed')
+    .select('*')
+    .eq('type', type)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (category !== 'all') {
+    query = query.eq('category', category);
+  }
+  if (after) {
+    query = query.or(
+      `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+    );
+  }
+
+  // Ask for one extra row to learn whether another page exists without a count query
+  const { data, error } = await query.limit(limit + 1);
+  if (error) throw error;
+
+  const rows = (data || []) as MediaItem[];
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+export type MediaSearchPage = {
+  items: MediaItem[];
+  nextOffset: number | null;
+};
+
+// Ranked search over a whole Media tab; results are ordered by relevance, so pages are offset based
+export async function searchMedia(
+  type: string,
+  searchQuery: string,
+  {
+    category = 'all',
+    offset = 0,
+    limit = MEDIA_PAGE_SIZE,
+  }: { category?: string; offset?: number; limit?: number } = {}
+): Promise<MediaSearchPage> {
+  const { data, error } = await supabase.rpc('search_media', {
+    p_query: searchQuery,
+    p_type: type,
+    p_category: category === 'all' ? null : category,
+    p_limit: limit + 1,
+    p_offset: offset,
+  });
+  if (error) throw error;
+
+  const rows = (data || []) as MediaItem[];
+  return {
+    items: rows.slice(0, limit),
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
+
+export async function fetchMediaItem(mediaId: string): Promise<MediaItem | null> {
+  const { data, error } = await supabase.from('media_feed').select('*').eq('id', mediaId).maybeSingle();
+  if (error) throw error;
+  return data as MediaItem | null;
+}
+
+// More of the same type from the same creator or category, newest first
+export async function fetchRelatedMedia(item: MediaItem, limit = 6): Promise<MediaItem[]> {
+  const related = [`category.eq."${item.category}"`];
+  if (item.creator_id) related.push(`creator_id.eq.${item.creator_id}`);
+
+  const { data, error } = await supabase
+    .from('media_feed')
+    .select('*')
+    .eq('type', item.type)
+    .neq('id', item.id)
+    .or(related.join(','))
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as MediaItem[];
+}
+
+// Shared links go through the media-preview edge function, which serves the Open Graph tags that
+// link previews need (crawlers do not run the app) and then redirects to /media/:id. Production
+// needs VITE_MEDIA_PREVIEW_URL set to the function behind a custom domain or site rewrite, since
+// *.supabase.co serves its HTML as plain text (see the function's header).
+const mediaPreviewUrl = import.meta.env.VITE_MEDIA_PREVIEW_URL || `${supabaseUrl}/functions/v1/media-preview`;
+
+export const mediaShareUrl = (mediaId: string) => `${mediaPreviewUrl}?id=${mediaId}`;
+
+export async function likeMedia(userId: string, mediaId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('media_likes')
+    .insert({ media_id: mediaId, user_id: userId })
+    .select('id')
+    .single();
+  if (error) {
+    // Already liked, e.g. from another tab
+    if (error.code === '23505') return null;
+    throw error;
+  }
+  return data.id as string;
+}
+
+export async function unlikeMedia(userId: string, mediaId: string): Promise<void> {
+  const { error } = await supabase.from('media_likes').delete().eq('media_id', mediaId).eq('user_id', userId);
+  if (error) throw error;
+}
+
+// The caller's likes among the given items, keyed by media id
+export async function fetchMyLikes(userId: string, mediaIds: string[]): Promise<Record<string, string>> {
+  if (mediaIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('media_likes')
+    .select('id, media_id')
+    .eq('user_id', userId)
+    .in('media_id', mediaIds);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((like) => [like.media_id, like.id]));
+}
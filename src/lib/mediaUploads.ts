@@ -0,0 +1,272 @@
+import * as tus from 'tus-js-client';
+import { supabase, supabaseUrl } from './supabaseClient';
+import { MEDIA_CATEGORIES, type MediaTab } from './media';
+
+export type ContentKind = 'video' | 'music' | 'photo' | 'blog' | 'template';
+
+export type MediaStatus = 'pending' | 'approved' | 'rejected' | 'taken_down';
+
+export type MediaSubmission = {
+  id: string;
+  title: string;
+  type: string;
+  category: string;
+  thumbnail_url: string | null;
+  status: MediaStatus;
+  reviewer_notes: string | null;
+  created_at: string;
+};
+
+export type NewMediaSubmission = {
+  creator_id: string;
+  creator_name: string;
+  kind: ContentKind;
+  title: string;
+  description: string;
+  category: string;
+  price: number | null;
+  content_url: string;
+  thumbnail_url: string | null;
+  duration: string | null;
+  file_size: number;
+  mime_type: string;
+};
+
+const MB = 1024 * 1024;
+
+// What each option of the upload form accepts and where the result is listed on Media
+export const CONTENT_KINDS: Record<
+  ContentKind,
+  { label: string; tab: MediaTab; contentType: string; mimeTypes: string[]; maxBytes: number; hint: string }
+> = {
+  video: {
+    label: 'Video',
+    tab: 'stream',
+    contentType: 'video',
+    mimeTypes: ['video/mp4', 'video/quicktime'],
+    maxBytes: 100 * MB,
+    hint: 'MP4 or MOV up to 100MB.',
+  },
+  music: {
+    label: 'Music',
+    tab: 'listen',
+    contentType: 'audio-music',
+    mimeTypes: ['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/mp4', 'audio/x-m4a'],
+    maxBytes: 100 * MB,
+    hint: 'MP3, WAV or M4A up to 100MB.',
+  },
+  photo: {
+    label: 'Photo',
+    tab: 'gallery',
+    contentType: 'image',
+    mimeTypes: ['image/png', 'image/jpeg', 'image/gif'],
+    maxBytes: 10 * MB,
+    hint: 'PNG, JPG, GIF up to 10MB.',
+  },
+  blog: {
+    label: 'Blog',
+    tab: 'blog',
+    contentType: 'article',
+    mimeTypes: ['image/png', 'image/jpeg', 'image/gif'],
+    maxBytes: 10 * MB,
+    hint: 'Cover image: PNG, JPG, GIF up to 10MB. The description is the article.',
+  },
+  template: {
+    label: 'Template',
+    tab: 'resources',
+    contentType: 'download',
+    mimeTypes: ['application/pdf', 'application/zip', 'application/x-zip-compressed'],
+    maxBytes: 100 * MB,
+    hint: 'PDF or ZIP up to 100MB.',
+  },
+};
+
+// The Media categories a kind of upload can be filed under
+export const categoriesForKind = (kind: ContentKind) =>
+  MEDIA_CATEGORIES[CONTENT_KINDS[kind].tab].filter((c) => c !== 'all');
+
+const MEDIA_CONTENT_BUCKET = 'media-content';
+// Supabase's resumable endpoint requires 6MB chunks
+const UPLOAD_CHUNK_SIZE = 6 * MB;
+const THUMBNAIL_WIDTH = 640;
+
+// Returns a message for the user, or null when the file can be uploaded as this kind
+export function validateContentFile(kind: ContentKind, file: File): string | null {
+  const rules = CONTENT_KINDS[kind];
+  if (!rules.mimeTypes.includes(file.type)) {
+    return `This file type is not supported for ${rules.label.toLowerCase()} uploads. ${rules.hint}`;
+  }
+  if (file.size > rules.maxBytes) {
+    return `This file is ${(file.size / MB).toFixed(1)}MB; ${rules.label.toLowerCase()} uploads are limited to ${rules.maxBytes / MB}MB.`;
+  }
+  return null;
+}
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+export const estimateReadTime = (text: string) =>
+  `${Math.max(1, Math.round(text.trim().split(/\s+/).filter(Boolean).length / 200))} min read`;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number) =>
+  new Promise<Blob | null>((resolve) => {
+    const scale = Math.min(1, THUMBNAIL_WIDTH / width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return resolve(null);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(resolve, 'image/jpeg', 0.8);
+  });
+
+// Best effort: a JPEG thumbnail for images and videos, and the running time of videos and audio.
+// Anything the browser cannot decode comes back as nulls rather than failing the upload.
+export async function probeContentFile(file: File): Promise<{ thumbnail: Blob | null; duration: string | null }> {
+  const url = URL.createObjectURL(file);
+  try {
+    if (file.type.startsWith('image/')) {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return { thumbnail: await drawThumbnail(image, image.naturalWidth, image.naturalHeight), duration: null };
+    }
+
+    if (file.type.startsWith('video/') || file.type.startsWith('audio/')) {
+      const element = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+      element.preload = 'metadata';
+      element.muted = true;
+      element.src = url;
+      await new Promise((resolve, reject) => {
+        element.onloadedmetadata = resolve;
+        element.onerror = reject;
+      });
+      const duration = Number.isFinite(element.duration) ? formatDuration(element.duration) : null;
+      if (!(element instanceof HTMLVideoElement)) return { thumbnail: null, duration };
+
+      // Skip black opening frames, but stay inside very short clips
+      element.currentTime = Math.min(1, element.duration / 2 || 0);
+      await new Promise((resolve, reject) => {
+        element.onseeked = resolve;
+        element.onerror = reject;
+      });
+      return { thumbnail: await drawThumbnail(element, element.videoWidth, element.videoHeight), duration };
+    }
+
+    return { thumbnail: null, duration: null };
+  } catch (error) {
+    console.error('Error reading media file:', error);
+    return { thumbnail: null, duration: null };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const publicUrl = (path: string) => supabase.storage.from(MEDIA_CONTENT_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// Uploads in 6MB chunks over tus. An interrupted upload of the same file (same name, size and
+// modification time) picks up from the last stored chunk instead of starting over.
+export async function uploadContentFile(
+  userId: string,
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'bin';
+  let objectName = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  return new Promise((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      headers: { 'x-upsert': 'false' },
+      metadata: {
+        bucketName: MEDIA_CONTENT_BUCKET,
+        objectName,
+        contentType: file.type,
+        cacheControl: '3600',
+      },
+      // Long uploads can outlive an access token, so read the current one for every chunk
+      onBeforeRequest: async (request) => {
+        const { data } = await supabase.auth.getSession();
+        if (data.session) request.setHeader('authorization', `Bearer ${data.session.access_token}`);
+      },
+      onProgress: (bytesSent, bytesTotal) => onProgress(bytesTotal ? bytesSent / bytesTotal : 0),
+      onSuccess: () => resolve(publicUrl(objectName)),
+      onError: reject,
+    });
+
+    signal?.addEventListener('abort', () => {
+      upload.abort().catch(() => undefined);
+      reject(new Error('Upload cancelled'));
+    });
+
+    upload
+      .findPreviousUploads()
+      .then((previousUploads) => {
+        const previous = previousUploads.find((p) => p.metadata.objectName?.startsWith(`${userId}/`));
+        if (previous) {
+          objectName = previous.metadata.objectName;
+          upload.resumeFromPreviousUpload(previous);
+        }
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
+
+export async function uploadThumbnail(userId: string, thumbnail: Blob): Promise<string> {
+  const path = `${userId}/${crypto.randomUUID()}-thumb.jpg`;
+  const { error } = await supabase.storage
+    .from(MEDIA_CONTENT_BUCKET)
+    .upload(path, thumbnail, { contentType: 'image/jpeg', upsert: false });
+  if (error) throw error;
+  return publicUrl(path);
+}
+
+// New content starts out pending; it only appears on Media once it has been approved
+export async function createMediaSubmission(input: NewMediaSubmission): Promise<MediaSubmission> {
+  const kind = CONTENT_KINDS[input.kind];
+  const { data, error } = await supabase
+    .from('media_content')
+    .insert({
+      creator_id: input.creator_id,
+      creator_name: input.creator_name,
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      type: kind.tab,
+      content_type: kind.contentType,
+      price: input.price,
+      content_url: input.content_url,
+      thumbnail_url: input.thumbnail_url,
+      duration: input.duration,
+      read_time: input.kind === 'blog' ? estimateReadTime(input.description) : null,
+      file_size: input.file_size,
+      mime_type: input.mime_type,
+      status: 'pending',
+    })
+    .select('id, title, type, category, thumbnail_url, status, reviewer_notes, created_at')
+    .single();
+  if (error) throw error;
+  return data as MediaSubmission;
+}
+
+export async function fetchMySubmissions(userId: string): Promise<MediaSubmission[]> {
+  const { data, error } = await supabase
+    .from('media_content')
+    .select('id, title, type, category, thumbnail_url, status, reviewer_notes, created_at')
+    .eq('creator_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+  if (error) throw error;
+  return (data || []) as MediaSubmission[];
+}
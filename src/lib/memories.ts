@@ -0,0 +1,140 @@
+import { supabase } from './supabaseClient';
+import type { Event } from './events';
+
+export type EventMemory = {
+  id: string;
+  event_id: string;
+  user_id: string;
+  content: string;
+  highlights: string[];
+  photos: string[];
+  rating: number | null;
+  created_at: string;
+};
+
+export type MemoryChat = {
+  id: string;
+  event_id: string | null;
+  user_id: string;
+  message: string;
+  parent_id: string | null;
+  created_at: string;
+};
+
+type Author = { name: string; profile_image: string | null } | null;
+
+export type MemoryWithDetails = EventMemory & {
+  author: Author;
+  event: Pick<Event, 'id' | 'title' | 'date' | 'time' | 'timezone' | 'starts_at' | 'ends_at'> | null;
+};
+
+export type MemoryChatWithAuthor = MemoryChat & { author: Author };
+
+export type NewEventMemory = Pick<EventMemory, 'event_id' | 'content' | 'highlights' | 'photos' | 'rating'>;
+
+const MEMORY_PHOTOS_BUCKET = 'event-memories';
+export const MAX_MEMORY_PHOTOS = 10;
+
+export async function fetchEventMemories(eventId?: string): Promise<MemoryWithDetails[]> {
+  let query = supabase
+    .from('event_memories')
+    .select(
+      '*, author:profiles(name, profile_image), event:events(id, title, date, time, timezone, starts_at, ends_at)'
+    )
+    .order('created_at', { ascending: false });
+  if (eventId) query = query.eq('event_id', eventId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as MemoryWithDetails[];
+}
+
+export async function createEventMemory(userId: string, memory: NewEventMemory): Promise<EventMemory> {
+  const { data, error } = await supabase
+    .from('event_memories')
+    .insert({ ...memory, user_id: userId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as EventMemory;
+}
+
+export async function deleteEventMemory(memoryId: string): Promise<void> {
+  const { error } = await supabase.from('event_memories').delete().eq('id', memoryId);
+  if (error) throw error;
+}
+
+// Photos live under `<user id>/<event id>/` so storage policies can check ownership by folder.
+export async function uploadMemoryPhoto(userId: string, eventId: string, file: File): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${userId}/${eventId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(MEMORY_PHOTOS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return supabase.storage.from(MEMORY_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Events the user may post memories about: ones they organized or held a settled ticket for, once started.
+// Mirrors has_attended_event: unpaid tickets only count once they were checked in at the door.
+export async function fetchAttendedEvents(userId: string): Promise<Event[]> {
+  const now = new Date().toISOString();
+  const [registrations, organized] = await Promise.all([
+    supabase
+      .from('event_registrations')
+      .select('event:events!inner(*)')
+      .eq('user_id', userId)
+      .neq('status', 'cancelled')
+      .or('payment_status.in.(free,paid),checked_in_at.not.is.null')
+      .lte('event.starts_at', now),
+    supabase
+      .from('events')
+      .select('*')
+      .eq('organizer_id', userId)
+      .not('published_at', 'is', null)
+      .lte('starts_at', now),
+  ]);
+  if (registrations.error) throw registrations.error;
+  if (organized.error) throw organized.error;
+
+  const events = new Map<string, Event>();
+  for (const row of (registrations.data || []) as unknown as { event: Event }[]) events.set(row.event.id, row.event);
+  for (const event of (organized.data || []) as Event[]) events.set(event.id, event);
+  return [...events.values()].sort((a, b) => b.starts_at.localeCompare(a.starts_at));
+}
+
+// A null eventId is the general community chat.
+export async function fetchMemoryChats(eventId: string | null): Promise<MemoryChatWithAuthor[]> {
+  let query = supabase
+    .from('memory_chats')
+    .select('*, author:profiles(name, profile_image)')
+    .order('created_at', { ascending: true })
+    .limit(500);
+  query = eventId ? query.eq('event_id', eventId) : query.is('event_id', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as MemoryChatWithAuthor[];
+}
+
+export async function postMemoryChat(
+  userId: string,
+  eventId: string | null,
+  message: string,
+  parentId: string | null = null
+): Promise<MemoryChatWithAuthor> {
+  const { data, error } = await supabase
+    .from('memory_chats')
+    .insert({ user_id: userId, event_id: eventId, message: message.trim(), parent_id: parentId })
+    .select('*, author:profiles(name, profile_image)')
+    .single();
+  if (error) throw error;
+  return data as MemoryChatWithAuthor;
+}
+
+export async function deleteMemoryChat(chatId: string): Promise<void> {
+  const { error } = await supabase.from('memory_chats').delete().eq('id', chatId);
+  if (error) throw error;
+}
@@ -0,0 +1,61 @@
+import { supabase } from './supabaseClient';
+import type { MediaStatus, MediaSubmission } from './mediaUploads';
+
+export type ModerationDecision = Exclude<MediaStatus, 'pending'>;
+
+export type ModerationItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  creator_id: string | null;
+  creator_name: string;
+  type: string;
+  category: string;
+  content_type: string;
+  thumbnail_url: string | null;
+  content_url: string | null;
+  file_size: number | null;
+  mime_type: string | null;
+  status: MediaStatus;
+  reviewer_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+// Mirrors media_status_transition_allowed in the database, for deciding which actions to offer
+export const MODERATION_ACTIONS: Record<MediaStatus, ModerationDecision[]> = {
+  pending: ['approved', 'rejected'],
+  rejected: ['approved'],
+  approved: ['taken_down'],
+  taken_down: ['approved'],
+};
+
+// Oldest first for the pending queue so nothing waits indefinitely; newest first elsewhere
+export async function fetchModerationQueue(status: MediaStatus): Promise<ModerationItem[]> {
+  const { data, error } = await supabase
+    .from('media_content')
+    .select(
+      'id, title, description, creator_id, creator_name, type, category, content_type, thumbnail_url, content_url, file_size, mime_type, status, reviewer_notes, reviewed_at, created_at'
+    )
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(200);
+  if (error) throw error;
+  return (data || []) as ModerationItem[];
+}
+
+export async function moderateMedia(mediaIds: string[], decision: ModerationDecision, notes = ''): Promise<number> {
+  const { data, error } = await supabase.rpc('moderate_media', {
+    p_media_ids: mediaIds,
+    p_status: decision,
+    p_notes: notes,
+  });
+  if (error) throw error;
+  return data as number;
+}
+
+export async function resubmitMedia(mediaId: string): Promise<MediaSubmission> {
+  const { data, error } = await supabase.rpc('resubmit_media', { p_media_id: mediaId });
+  if (error) throw error;
+  return data as MediaSubmission;
+}
@@ -0,0 +1,59 @@
+// Page title and Open Graph tags. Kept free of imports so the media-preview edge function can reuse
+// the Media type mapping.
+
+export type PageMeta = {
+  title: string;
+  description?: string;
+  image?: string | null;
+  url?: string;
+  type?: string;
+};
+
+// og:type for each Media tab; anything else is a plain website
+export const MEDIA_OG_TYPES: Record<string, string> = {
+  stream: 'video.other',
+  listen: 'music.song',
+  blog: 'article',
+  resources: 'product',
+};
+
+const upsertMeta = (attribute: 'name' | 'property', key: string, content: string) => {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  const created = !tag;
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  const previous = tag.content;
+  tag.content = content;
+  return () => {
+    if (created) tag.remove();
+    else tag.content = previous;
+  };
+};
+
+// Sets the document title and Open Graph / Twitter tags for a page and returns a function that
+// restores the previous values, for use as an effect cleanup
+export function setPageMeta({ title, description, image, url, type = 'website' }: PageMeta): () => void {
+  const previousTitle = document.title;
+  document.title = `${title} | Talent Connections`;
+
+  const tags: ['name' | 'property', string, string | null | undefined][] = [
+    ['name', 'description', description],
+    ['property', 'og:title', title],
+    ['property', 'og:description', description],
+    ['property', 'og:image', image],
+    ['property', 'og:url', url],
+    ['property', 'og:type', type],
+    ['name', 'twitter:card', image ? 'summary_large_image' : 'summary'],
+  ];
+  const restore = tags
+    .filter((tag): tag is ['name' | 'property', string, string] => Boolean(tag[2]))
+    .map(([attribute, key, content]) => upsertMeta(attribute, key, content));
+
+  return () => {
+    document.title = previousTitle;
+    restore.forEach((undo) => undo());
+  };
+}
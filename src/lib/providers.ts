@@ -0,0 +1,243 @@
+import { supabase } from './supabaseClient';
+import type { Event } from './events';
+import { sanitizeSearch } from './search';
+
+export type ServiceProvider = {
+  id: string;
+  owner_id: string | null;
+  name: string;
+  category: 'venue' | 'decor' | 'catering' | 'audio' | 'ushering' | 'photography' | 'entertainment' | 'security' | 'transport';
+  description: string;
+  expertise: string;
+  base_price: number;
+  /** Average of visible reviews, maintained by the database */
+  rating: number;
+  reviews_count: number;
+  contact_email: string | null;
+  contact_phone: string | null;
+  portfolio_images: string[];
+  available: boolean;
+  daily_capacity: number;
+  lead_time_days: number;
+  created_at: string;
+};
+
+export type ProviderCategory = ServiceProvider['category'];
+
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+
+export type ProviderBooking = {
+  id: string;
+  provider_id: string;
+  user_id: string;
+  event_id: string | null;
+  quantity: number;
+  unit_price: number;
+  service_fee: number;
+  total_cost: number;
+  booking_date: string;
+  event_date: string;
+  status: BookingStatus;
+  notes: string | null;
+  responded_at: string | null;
+};
+
+export type BookingWithDetails = ProviderBooking & {
+  provider: Pick<ServiceProvider, 'id' | 'name' | 'category' | 'contact_email' | 'contact_phone' | 'owner_id'>;
+  customer: { name: string; email: string } | null;
+  event: Pick<Event, 'id' | 'title'> | null;
+};
+
+export type CartLine = { provider: ServiceProvider; quantity: number };
+
+export type DayStatus = 'available' | 'full' | 'blocked' | 'too_soon';
+
+export type ProviderDayAvailability = {
+  provider_id: string;
+  day: string;
+  booked: number;
+  capacity: number;
+  status: DayStatus;
+};
+
+export type ProviderBlockedDate = {
+  provider_id: string;
+  blocked_date: string;
+  reason: string | null;
+  created_at: string;
+};
+
+export const PROVIDER_CATEGORIES = [
+  'all',
+  'venue',
+  'decor',
+  'catering',
+  'audio',
+  'ushering',
+  'photography',
+  'entertainment',
+  'security',
+  'transport',
+] as const;
+
+// Mirrors the fee create_provider_bookings charges; the server's figure is the one that is stored.
+export const SERVICE_FEE_RATE = 0.05;
+
+export const calculateServiceFee = (subtotal: number) => Math.round(subtotal * SERVICE_FEE_RATE);
+
+export interface ProviderFilters {
+  searchQuery?: string;
+  category?: string;
+  sortBy?: 'rating' | 'price' | 'reviews';
+}
+
+export async function fetchProviders(filters: ProviderFilters = {}): Promise<ServiceProvider[]> {
+  let query = supabase.from('service_providers').select('*');
+
+  if (filters.category && filters.category !== 'all') {
+    query = query.eq('category', filters.category);
+  }
+  const search = sanitizeSearch(filters.searchQuery || '');
+  if (search) {
+    query = query.or(`name.ilike.%${search}%,expertise.ilike.%${search}%,description.ilike.%${search}%`);
+  }
+
+  if (filters.sortBy === 'price') {
+    query = query.order('base_price', { ascending: true });
+  } else if (filters.sortBy === 'reviews') {
+    query = query.order('reviews_count', { ascending: false }).order('rating', { ascending: false });
+  } else {
+    query = query.order('rating', { ascending: false }).order('reviews_count', { ascending: false });
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ServiceProvider[];
+}
+
+export async function fetchProvidersByIds(ids: string[]): Promise<ServiceProvider[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from('service_providers').select('*').in('id', ids);
+  if (error) throw error;
+  return (data || []) as ServiceProvider[];
+}
+
+export async function fetchOwnedProviders(userId: string): Promise<ServiceProvider[]> {
+  const { data, error } = await supabase.from('service_providers').select('*').eq('owner_id', userId).order('name');
+  if (error) throw error;
+  return (data || []) as ServiceProvider[];
+}
+
+export async function createProviderBookings(
+  cart: CartLine[],
+  eventDate: string,
+  notes: string,
+  eventId: string | null = null
+): Promise<ProviderBooking[]> {
+  const { data, error } = await supabase.rpc('create_provider_bookings', {
+    p_items: cart.map((line) => ({ provider_id: line.provider.id, quantity: line.quantity })),
+    p_event_date: eventDate,
+    p_notes: notes,
+    p_event_id: eventId,
+  });
+  if (error) throw error;
+  return (data || []) as ProviderBooking[];
+}
+
+const BOOKING_DETAILS_SELECT =
+  '*, provider:service_providers(id, name, category, contact_email, contact_phone, owner_id), customer:profiles(name, email), event:events(id, title)';
+
+export async function linkBookingToEvent(bookingId: string, eventId: string | null): Promise<ProviderBooking> {
+  const { data, error } = await supabase.rpc('link_provider_booking_to_event', {
+    p_booking_id: bookingId,
+    p_event_id: eventId,
+  });
+  if (error) throw error;
+  return data as ProviderBooking;
+}
+
+export async function fetchMyProviderBookings(userId: string): Promise<BookingWithDetails[]> {
+  const { data, error } = await supabase
+    .from('provider_bookings')
+    .select(BOOKING_DETAILS_SELECT)
+    .eq('user_id', userId)
+    .order('booking_date', { ascending: false });
+  if (error) throw error;
+  return (data || []) as BookingWithDetails[];
+}
+
+export async function fetchIncomingProviderBookings(providerIds: string[]): Promise<BookingWithDetails[]> {
+  if (providerIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('provider_bookings')
+    .select(BOOKING_DETAILS_SELECT)
+    .in('provider_id', providerIds)
+    .order('event_date', { ascending: true });
+  if (error) throw error;
+  return (data || []) as BookingWithDetails[];
+}
+
+export async function updateProviderBookingStatus(bookingId: string, status: BookingStatus): Promise<ProviderBooking> {
+  const { data, error } = await supabase.rpc('update_provider_booking_status', {
+    p_booking_id: bookingId,
+    p_status: status,
+  });
+  if (error) throw error;
+  return data as ProviderBooking;
+}
+
+// Dates are plain 'YYYY-MM-DD' strings; the server caps a single request at roughly three months.
+export async function fetchProviderAvailability(
+  providerIds: string[],
+  from: string,
+  to: string = from
+): Promise<ProviderDayAvailability[]> {
+  if (providerIds.length === 0) return [];
+  const { data, error } = await supabase.rpc('get_provider_availability', {
+    p_provider_ids: providerIds,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+  return (data || []) as ProviderDayAvailability[];
+}
+
+export async function fetchBlockedDates(providerId: string): Promise<ProviderBlockedDate[]> {
+  const { data, error } = await supabase
+    .from('provider_blocked_dates')
+    .select('*')
+    .eq('provider_id', providerId)
+    .order('blocked_date', { ascending: true });
+  if (error) throw error;
+  return (data || []) as ProviderBlockedDate[];
+}
+
+export async function blockProviderDate(providerId: string, date: string, reason: string | null = null): Promise<void> {
+  const { error } = await supabase
+    .from('provider_blocked_dates')
+    .insert({ provider_id: providerId, blocked_date: date, reason });
+  if (error) throw error;
+}
+
+export async function unblockProviderDate(providerId: string, date: string): Promise<void> {
+  const { error } = await supabase
+    .from('provider_blocked_dates')
+    .delete()
+    .eq('provider_id', providerId)
+    .eq('blocked_date', date);
+  if (error) throw error;
+}
+
+export async function updateProviderSchedule(
+  providerId: string,
+  schedule: Pick<ServiceProvider, 'daily_capacity' | 'lead_time_days' | 'available'>
+): Promise<ServiceProvider> {
+  const { data, error } = await supabase
+    .from('service_providers')
+    .update(schedule)
+    .eq('id', providerId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ServiceProvider;
+}
@@ -0,0 +1,113 @@
+import { supabase } from './supabaseClient';
+import type { Event } from './events';
+
+export type EventRegistration = {
+  id: string;
+  event_id: string;
+  user_id: string;
+  ticket_code: string;
+  amount: number;
+  discount: number;
+  seats: number;
+  ticket_type_id: string | null;
+  promo_code_id: string | null;
+  payment_status: 'free' | 'pending' | 'paid';
+  status: 'confirmed' | 'cancelled';
+  cancelled_at: string | null;
+  checked_in_at: string | null;
+  checked_in_by: string | null;
+  created_at: string;
+};
+
+export type RegistrationWithEvent = EventRegistration & {
+  event: Event;
+  ticket_type: { name: string } | null;
+};
+
+export type RegistrationWithAttendee = EventRegistration & {
+  attendee: { name: string; email: string } | null;
+};
+
+export type CheckInResult = {
+  result: 'checked_in' | 'duplicate';
+  registration: EventRegistration;
+};
+
+export type EventRegistrationStats = {
+  event_id: string;
+  capacity: number | null;
+  registered_count: number;
+  // Seats held for waitlisted users who have been offered a spot
+  held_count: number;
+};
+
+export async function registerForEvent(
+  eventId: string,
+  ticketTypeId: string | null = null,
+  promoCode = ''
+): Promise<EventRegistration> {
+  const { data, error } = await supabase.rpc('register_for_event', {
+    p_event_id: eventId,
+    p_ticket_type_id: ticketTypeId,
+    p_promo_code: promoCode,
+  });
+  if (error) throw error;
+  return data as EventRegistration;
+}
+
+export async function cancelRegistration(registrationId: string): Promise<EventRegistration> {
+  const { data, error } = await supabase.rpc('cancel_event_registration', {
+    p_registration_id: registrationId,
+  });
+  if (error) throw error;
+  return data as EventRegistration;
+}
+
+export async function fetchMyRegistrations(userId: string): Promise<RegistrationWithEvent[]> {
+  const { data, error } = await supabase
+    .from('event_registrations')
+    .select('*, event:events(*), ticket_type:event_ticket_types(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  // Drafts are hidden from everyone but the organizer, so a cancelled ticket for an event that was
+  // unpublished afterwards comes back without its event
+  return ((data || []) as RegistrationWithEvent[]).filter((registration) => registration.event);
+}
+
+export async function fetchRegistrationStats(eventIds: string[]): Promise<Record<string, EventRegistrationStats>> {
+  if (eventIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from('event_registration_stats')
+    .select('*')
+    .in('event_id', eventIds);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row) => [row.event_id, row as EventRegistrationStats]));
+}
+
+export async function fetchEventRegistrations(eventId: string): Promise<RegistrationWithAttendee[]> {
+  const { data, error } = await supabase
+    .from('event_registrations')
+    .select('*, attendee:profiles!event_registrations_user_id_fkey(name, email)')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as RegistrationWithAttendee[];
+}
+
+export async function checkInTicket(eventId: string, ticketCode: string): Promise<CheckInResult> {
+  const { data, error } = await supabase.rpc('check_in_ticket', {
+    p_event_id: eventId,
+    p_ticket_code: ticketCode,
+  });
+  if (error) throw error;
+  return data as CheckInResult;
+}
+
+export async function markRegistrationPaid(registrationId: string): Promise<EventRegistration> {
+  const { data, error } = await supabase.rpc('mark_registration_paid', {
+    p_registration_id: registrationId,
+  });
+  if (error) throw error;
+  return data as EventRegistration;
+}
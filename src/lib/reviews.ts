@@ -0,0 +1,104 @@
+import { supabase } from './supabaseClient';
+
+export type ProviderReview = {
+  id: string;
+  provider_id: string;
+  booking_id: string;
+  user_id: string;
+  rating: number;
+  comment: string;
+  reply: string | null;
+  replied_at: string | null;
+  hidden_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ReviewWithAuthor = ProviderReview & {
+  author: { name: string; profile_image: string | null } | null;
+};
+
+export type ReportReason = 'spam' | 'offensive' | 'fake' | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'offensive', label: 'Offensive or abusive' },
+  { value: 'fake', label: 'Fake or misleading' },
+  { value: 'other', label: 'Something else' },
+];
+
+export async function fetchProviderReviews(providerId: string): Promise<ReviewWithAuthor[]> {
+  const { data, error } = await supabase
+    .from('provider_reviews')
+    .select('*, author:profiles(name, profile_image)')
+    .eq('provider_id', providerId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as ReviewWithAuthor[];
+}
+
+export async function fetchMyProviderReviews(userId: string): Promise<ProviderReview[]> {
+  const { data, error } = await supabase.from('provider_reviews').select('*').eq('user_id', userId);
+  if (error) throw error;
+  return (data || []) as ProviderReview[];
+}
+
+export async function createProviderReview(
+  userId: string,
+  review: Pick<ProviderReview, 'provider_id' | 'booking_id' | 'rating' | 'comment'>
+): Promise<ProviderReview> {
+  const { data, error } = await supabase
+    .from('provider_reviews')
+    .insert({ ...review, user_id: userId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ProviderReview;
+}
+
+export async function updateProviderReview(
+  reviewId: string,
+  changes: Pick<ProviderReview, 'rating' | 'comment'>
+): Promise<ProviderReview> {
+  const { data, error } = await supabase
+    .from('provider_reviews')
+    .update(changes)
+    .eq('id', reviewId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ProviderReview;
+}
+
+export async function deleteProviderReview(reviewId: string): Promise<void> {
+  const { error } = await supabase.from('provider_reviews').delete().eq('id', reviewId);
+  if (error) throw error;
+}
+
+export async function replyToProviderReview(reviewId: string, reply: string): Promise<ProviderReview> {
+  const { data, error } = await supabase.rpc('reply_to_provider_review', {
+    p_review_id: reviewId,
+    p_reply: reply,
+  });
+  if (error) throw error;
+  return data as ProviderReview;
+}
+
+export async function reportProviderReview(
+  reporterId: string,
+  reviewId: string,
+  reason: ReportReason,
+  details: string
+): Promise<void> {
+  const { error } = await supabase.from('provider_review_reports').insert({
+    review_id: reviewId,
+    reporter_id: reporterId,
+    reason,
+    details: details.trim() || null,
+  });
+  if (error) {
+    // Unique (review_id, reporter_id)
+    if (error.code === '23505') throw new Error('You have already reported this review.');
+    throw error;
+  }
+}
@@ -0,0 +1,2 @@
+// PostgREST uses commas and parentheses as syntax inside `or=(...)`, so strip them from user input.
+export const sanitizeSearch = (query: string) => query.replace(/[%,()*\\]/g, ' ').trim();
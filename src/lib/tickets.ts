@@ -0,0 +1,191 @@
+import { supabase } from './supabaseClient';
+
+export type TicketKind = 'early_bird' | 'regular' | 'vip' | 'group';
+
+export const TICKET_KINDS: { value: TicketKind; label: string }[] = [
+  { value: 'early_bird', label: 'Early Bird' },
+  { value: 'regular', label: 'Regular' },
+  { value: 'vip', label: 'VIP' },
+  { value: 'group', label: 'Group' },
+];
+
+export type TicketType = {
+  id: string;
+  event_id: string;
+  name: string;
+  kind: TicketKind;
+  description: string;
+  price: number;
+  quantity: number | null;
+  group_size: number;
+  sales_start: string | null;
+  sales_end: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TicketTypeInput = Pick<
+  TicketType,
+  'name' | 'kind' | 'description' | 'price' | 'quantity' | 'group_size' | 'sales_start' | 'sales_end' | 'sort_order'
+>;
+
+export type TicketTypeStats = {
+  ticket_type_id: string;
+  event_id: string;
+  quantity: number | null;
+  sold_count: number;
+  held_count: number;
+};
+
+export type PromoCode = {
+  id: string;
+  event_id: string;
+  ticket_type_id: string | null;
+  code: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  max_uses: number | null;
+  expires_at: string | null;
+  active: boolean;
+  created_at: string;
+};
+
+export type PromoCodeInput = Pick<
+  PromoCode,
+  'ticket_type_id' | 'code' | 'discount_type' | 'discount_value' | 'max_uses' | 'expires_at'
+>;
+
+export type TicketQuote = {
+  price: number;
+  discount: number;
+  amount: number;
+  seats: number;
+  promo_applied: boolean;
+};
+
+export type SaleState = 'on_sale' | 'not_started' | 'ended' | 'sold_out';
+
+export function getSaleState(type: TicketType, stats?: TicketTypeStats, now: number = Date.now()): SaleState {
+  if (type.sales_start && now < new Date(type.sales_start).getTime()) return 'not_started';
+  if (type.sales_end && now >= new Date(type.sales_end).getTime()) return 'ended';
+  if (type.quantity !== null && stats && stats.sold_count + stats.held_count >= type.quantity) return 'sold_out';
+  return 'on_sale';
+}
+
+export const formatDiscount = (promo: Pick<PromoCode, 'discount_type' | 'discount_value'>) =>
+  promo.discount_type === 'percent'
+    ? `${promo.discount_value}% off`
+    : `UGX ${promo.discount_value.toLocaleString()} off`;
+
+export async function fetchTicketTypes(eventId: string): Promise<TicketType[]> {
+  const { data, error } = await supabase
+    .from('event_ticket_types')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('sort_order')
+    .order('price');
+  if (error) throw error;
+  return (data || []) as TicketType[];
+}
+
+export async function fetchTicketTypeStats(eventId: string): Promise<Record<string, TicketTypeStats>> {
+  const { data, error } = await supabase.from('event_ticket_type_stats').select('*').eq('event_id', eventId);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row) => [row.ticket_type_id, row as TicketTypeStats]));
+}
+
+export async function createTicketType(eventId: string, input: TicketTypeInput): Promise<TicketType> {
+  const { data, error } = await supabase
+    .from('event_ticket_types')
+    .insert({ ...input, event_id: eventId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as TicketType;
+}
+
+export async function updateTicketType(ticketTypeId: string, input: TicketTypeInput): Promise<TicketType> {
+  const { data, error } = await supabase
+    .from('event_ticket_types')
+    .update(input)
+    .eq('id', ticketTypeId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as TicketType;
+}
+
+export async function deleteTicketType(ticketTypeId: string): Promise<void> {
+  const { error } = await supabase.from('event_ticket_types').delete().eq('id', ticketTypeId);
+  if (error) throw error;
+}
+
+export async function fetchPromoCodes(eventId: string): Promise<PromoCode[]> {
+  const { data, error } = await supabase
+    .from('event_promo_codes')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as PromoCode[];
+}
+
+export async function createPromoCode(eventId: string, input: PromoCodeInput): Promise<PromoCode> {
+  const { data, error } = await supabase
+    .from('event_promo_codes')
+    .insert({ ...input, code: input.code.trim().toUpperCase(), event_id: eventId })
+    .select()
+    .single();
+  if (error) {
+    // Unique (event_id, code)
+    if (error.code === '23505') throw new Error('This event already has a promo code with that name.');
+    throw error;
+  }
+  return data as PromoCode;
+}
+
+export async function setPromoCodeActive(promoCodeId: string, active: boolean): Promise<PromoCode> {
+  const { data, error } = await supabase
+    .from('event_promo_codes')
+    .update({ active })
+    .eq('id', promoCodeId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as PromoCode;
+}
+
+export async function deletePromoCode(promoCodeId: string): Promise<void> {
+  const { error } = await supabase.from('event_promo_codes').delete().eq('id', promoCodeId);
+  if (error) throw error;
+}
+
+// Active redemptions per promo code; organizers can read every registration for their event
+export async function fetchPromoCodeUsage(eventId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('event_registrations')
+    .select('promo_code_id')
+    .eq('event_id', eventId)
+    .neq('status', 'cancelled')
+    .not('promo_code_id', 'is', null);
+  if (error) throw error;
+  return (data || []).reduce<Record<string, number>>((usage, row) => {
+    usage[row.promo_code_id] = (usage[row.promo_code_id] || 0) + 1;
+    return usage;
+  }, {});
+}
+
+export async function quoteTicket(
+  eventId: string,
+  ticketTypeId: string | null,
+  promoCode: string
+): Promise<TicketQuote> {
+  const { data, error } = await supabase.rpc('quote_event_ticket', {
+    p_event_id: eventId,
+    p_ticket_type_id: ticketTypeId,
+    p_promo_code: promoCode,
+  });
+  if (error) throw error;
+  return data as TicketQuote;
+}
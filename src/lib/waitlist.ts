@@ -0,0 +1,63 @@
+import { supabase } from './supabaseClient';
+import type { Event } from './events';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'left';
+
+export type WaitlistEntry = {
+  id: string;
+  event_id: string;
+  ticket_type_id: string | null;
+  user_id: string;
+  status: WaitlistStatus;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WaitlistEntryWithEvent = WaitlistEntry & {
+  event: Event;
+  ticket_type: { name: string } | null;
+  // Place in the queue while waiting; null once a spot has been offered
+  position: number | null;
+};
+
+export async function joinWaitlist(eventId: string, ticketTypeId: string | null = null): Promise<WaitlistEntry> {
+  const { data, error } = await supabase.rpc('join_event_waitlist', {
+    p_event_id: eventId,
+    p_ticket_type_id: ticketTypeId,
+  });
+  if (error) throw error;
+  return data as WaitlistEntry;
+}
+
+export async function leaveWaitlist(entryId: string): Promise<WaitlistEntry> {
+  const { data, error } = await supabase.rpc('leave_event_waitlist', { p_entry_id: entryId });
+  if (error) throw error;
+  return data as WaitlistEntry;
+}
+
+// Open entries (waiting or offered) with their queue position
+export async function fetchMyWaitlist(userId: string): Promise<WaitlistEntryWithEvent[]> {
+  // Lapsed offers are closed lazily, so sweep them before reading
+  const { error: expireError } = await supabase.rpc('expire_waitlist_offers');
+  if (expireError) throw expireError;
+
+  const [entriesResult, positionsResult] = await Promise.all([
+    supabase
+      .from('event_waitlist_entries')
+      .select('*, event:events(*), ticket_type:event_ticket_types(name)')
+      .eq('user_id', userId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: true }),
+    supabase.from('my_waitlist_positions').select('*'),
+  ]);
+  if (entriesResult.error) throw entriesResult.error;
+  if (positionsResult.error) throw positionsResult.error;
+
+  const positions = new Map((positionsResult.data || []).map((row) => [row.entry_id, row.position as number]));
+  return (entriesResult.data || []).map((entry) => ({
+    ...entry,
+    position: positions.get(entry.id) ?? null,
+  })) as WaitlistEntryWithEvent[];
+}
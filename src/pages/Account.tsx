@@ -1,11 +1,27 @@
-import React from 'react';
-import { User, Heart, Music, Film, Star } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { User, Heart, Music, Film, Star, Ticket, ClipboardList, CalendarDays } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { fetchFollowedCreators, type FollowedCreator } from '../lib/follows';
 
 export default function Account() {
-  const favoriteCreators = [
-    { id: 1, name: 'Emma Wilson', avatar: 'https://images.pexels.com/photos/31422830/pexels-photo-31422830.png?auto=compress&cs=tinysrgb&w=150' },
-    { id: 2, name: 'Ruby Nesda', avatar: 'https://images.pexels.com/photos/6311651/pexels-photo-6311651.jpeg?auto=compress&cs=tinysrgb&w=400' },
-  ];
+  const { user } = useAuth();
+  const [favoriteCreators, setFavoriteCreators] = useState<FollowedCreator[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    fetchFollowedCreators(user.id)
+      .then((creators) => {
+        if (isMounted) setFavoriteCreators(creators);
+      })
+      .catch((error) => console.error('Error fetching followed creators:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
 
   const playlists = [
     { id: 1, name: 'Chill Vibes', content: [{ type: 'music', title: 'Sunset Groove' }, { type: 'music', title: 'Acoustic Soul' }] },
@@ -26,11 +42,26 @@ export default function Account() {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 {favoriteCreators.map(creator => (
                   <div key={creator.id} className="text-center">
-                    <img src={creator.avatar} alt={creator.name} className="w-24 h-24 rounded-full mx-auto mb-2" />
+                    {creator.profile_image ? (
+                      <img src={creator.profile_image} alt={creator.name} className="w-24 h-24 rounded-full mx-auto mb-2 object-cover" />
+                    ) : (
+                      <div className="w-24 h-24 rounded-full mx-auto mb-2 bg-gray-700 flex items-center justify-center">
+                        <User className="w-10 h-10 text-gray-400" />
+                      </div>
+                    )}
                     <p className="text-white font-medium">{creator.name}</p>
+                    <p className="text-gray-400 text-xs">
+                      {creator.followers_count.toLocaleString()} follower{creator.followers_count === 1 ? '' : 's'}
+                    </p>
                   </div>
                 ))}
               </div>
+              {favoriteCreators.length === 0 && (
+                <p className="text-gray-400 text-sm">
+                  You are not following anyone yet. Follow creators from{' '}
+                  <Link to="/media" className="text-rose-400 hover:text-rose-300">Media</Link>.
+                </p>
+              )}
             </div>
 
             {/* Playlists */}
@@ -60,8 +91,53 @@ export default function Account() {
             {/* Account Summary */}
             <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl">
               <h2 className="text-2xl font-semibold text-white mb-6">Account Summary</h2>
-              {/* Add summary details here */}
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-white">{(user?.followers_count || 0).toLocaleString()}</div>
+                  <div className="text-gray-400 text-sm">Followers</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{(user?.following_count || 0).toLocaleString()}</div>
+                  <div className="text-gray-400 text-sm">Following</div>
+                </div>
+              </div>
             </div>
+
+            {/* Tickets */}
+            <Link
+              to="/account/tickets"
+              className="block bg-gray-800 border border-gray-700 p-6 rounded-2xl hover:border-rose-400 transition-colors"
+            >
+              <div className="flex items-center space-x-3 mb-2">
+                <Ticket className="w-6 h-6 text-rose-400" />
+                <h2 className="text-2xl font-semibold text-white">My Tickets</h2>
+              </div>
+              <p className="text-gray-400 text-sm">View your event tickets, ticket codes and cancel bookings.</p>
+            </Link>
+
+            {/* Provider bookings */}
+            <Link
+              to="/account/bookings"
+              className="block bg-gray-800 border border-gray-700 p-6 rounded-2xl hover:border-rose-400 transition-colors"
+            >
+              <div className="flex items-center space-x-3 mb-2">
+                <ClipboardList className="w-6 h-6 text-rose-400" />
+                <h2 className="text-2xl font-semibold text-white">My Bookings</h2>
+              </div>
+              <p className="text-gray-400 text-sm">Track service provider bookings and respond to requests for your services.</p>
+            </Link>
+
+            {/* Organized events */}
+            <Link
+              to="/account/events"
+              className="block bg-gray-800 border border-gray-700 p-6 rounded-2xl hover:border-rose-400 transition-colors"
+            >
+              <div className="flex items-center space-x-3 mb-2">
+                <CalendarDays className="w-6 h-6 text-rose-400" />
+                <h2 className="text-2xl font-semibold text-white">My Events</h2>
+              </div>
+              <p className="text-gray-400 text-sm">Create events, edit drafts and publish them when they are ready.</p>
+            </Link>
           </div>
         </div>
       </div>
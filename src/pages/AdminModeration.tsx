@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, ExternalLink, FileText, ShieldCheck, XCircle, EyeOff } from 'lucide-react';
+import {
+  fetchModerationQueue,
+  moderateMedia,
+  MODERATION_ACTIONS,
+  type ModerationDecision,
+  type ModerationItem,
+} from '../lib/moderation';
+import type { MediaStatus } from '../lib/mediaUploads';
+import ReportedComments from '../components/ReportedComments';
+
+type ReviewTab = MediaStatus | 'comments';
+
+const REVIEW_TABS: { id: ReviewTab; label: string }[] = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'taken_down', label: 'Taken Down' },
+  { id: 'comments', label: 'Reported Comments' },
+];
+
+const ACTION_STYLES: Record<ModerationDecision, { label: string; icon: JSX.Element; className: string }> = {
+  approved: {
+    label: 'Approve',
+    icon: <CheckCircle className="w-4 h-4" />,
+    className: 'bg-gradient-to-r from-rose-500 to-purple-600 text-white hover:shadow-lg',
+  },
+  rejected: {
+    label: 'Reject',
+    icon: <XCircle className="w-4 h-4" />,
+    className: 'glass-effect text-gray-300 hover:text-white',
+  },
+  taken_down: {
+    label: 'Take Down',
+    icon: <EyeOff className="w-4 h-4" />,
+    className: 'glass-effect text-red-400 hover:text-red-300',
+  },
+};
+
+export default function AdminModeration() {
+  const [tab, setTab] = useState<ReviewTab>('pending');
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const status = tab === 'comments' ? null : tab;
+
+  useEffect(() => {
+    if (!status) return;
+    let isMounted = true;
+    setLoading(true);
+    setSelected(new Set());
+
+    fetchModerationQueue(status)
+      .then((data) => {
+        if (isMounted) setItems(data);
+      })
+      .catch((error) => console.error('Error fetching moderation queue:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [status]);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const allSelected = items.length > 0 && selected.size === items.length;
+
+  const handleDecision = async (decision: ModerationDecision, ids: string[]) => {
+    if (ids.length === 0) return;
+    if (decision !== 'approved' && !notes.trim()) {
+      alert('Add a note for the creator explaining the decision.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await moderateMedia(ids, decision, notes.trim());
+      setItems((prev) => prev.filter((item) => !ids.includes(item.id)));
+      setSelected(new Set());
+      setNotes('');
+    } catch (error: any) {
+      console.error('Error reviewing content:', error);
+      alert(error.message || 'Failed to review content. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const actions = status ? MODERATION_ACTIONS[status] : [];
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-4xl font-playfair font-bold text-white mb-2 flex items-center space-x-3">
+          <ShieldCheck className="w-9 h-9 text-rose-400" />
+          <span>Content Review</span>
+        </h1>
+        <p className="text-gray-300 mb-8">Approve submissions before they appear on Media, and take down anything that breaks the rules.</p>
+
+        <div className="flex space-x-1 mb-6 glass-effect p-2 rounded-xl overflow-x-auto whitespace-nowrap">
+          {REVIEW_TABS.map((reviewTab) => (
+            <button
+              key={reviewTab.id}
+              onClick={() => setTab(reviewTab.id)}
+              className={`flex-shrink-0 px-6 py-2 rounded-lg font-medium transition-all duration-300 ${
+                tab === reviewTab.id
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white shadow-lg'
+                  : 'text-gray-300 hover:text-white hover:bg-white/10'
+              }`}
+            >
+              {reviewTab.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'comments' ? (
+          <ReportedComments />
+        ) : (
+          <>
+            {items.length > 0 && (
+              <div className="bg-gray-800 border border-gray-700 rounded-2xl p-4 mb-6">
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                  <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(items.map((item) => item.id)))}
+                      className="accent-rose-500"
+                    />
+                    <span>{selected.size > 0 ? `${selected.size} selected` : 'Select all'}</span>
+                  </label>
+                  <div className="flex-1" />
+                  {actions.map((decision) => (
+                    <button
+                      key={decision}
+                      onClick={() => handleDecision(decision, [...selected])}
+                      disabled={submitting || selected.size === 0}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center space-x-2 disabled:opacity-50 ${ACTION_STYLES[decision].className}`}
+                    >
+                      {ACTION_STYLES[decision].icon}
+                      <span>{ACTION_STYLES[decision].label}</span>
+                    </button>
+                  ))}
+                </div>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Note for the creator (required to reject or take down)"
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+              </div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+                <CheckCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-white mb-2">Nothing here</h3>
+                <p className="text-gray-400">
+                  {status === 'pending' ? 'The review queue is empty.' : 'No content has this status.'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className={`flex gap-4 p-4 bg-gray-800 border rounded-2xl transition-colors ${
+                      selected.has(item.id) ? 'border-rose-400' : 'border-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.id)}
+                      onChange={() => toggle(item.id)}
+                      className="mt-1 accent-rose-500"
+                      aria-label={`Select ${item.title}`}
+                    />
+                    {item.thumbnail_url ? (
+                      <img src={item.thumbnail_url} alt={item.title} className="w-32 h-20 object-cover rounded-lg flex-shrink-0" />
+                    ) : (
+                      <div className="w-32 h-20 bg-gray-700 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <FileText className="w-6 h-6 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap justify-between gap-2">
+                        <h3 className="text-white font-semibold">{item.title}</h3>
+                        {item.content_url && (
+                          <a
+                            href={item.content_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-rose-400 hover:text-rose-300 text-sm flex items-center space-x-1"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                            <span>Open file</span>
+                          </a>
+                        )}
+                      </div>
+                      <div className="text-gray-400 text-sm capitalize">
+                        {item.creator_name} • {item.type} • {item.category} •{' '}
+                        {new Date(item.created_at).toLocaleDateString()}
+                        {item.file_size !== null && ` • ${(item.file_size / (1024 * 1024)).toFixed(1)}MB`}
+                      </div>
+                      {item.description && <p className="text-gray-300 text-sm mt-2 line-clamp-3">{item.description}</p>}
+                      {item.reviewer_notes && (
+                        <p className="text-gray-400 text-xs mt-2 italic">Review note: {item.reviewer_notes}</p>
+                      )}
+                      <div className="flex gap-2 mt-3">
+                        {actions.map((decision) => (
+                          <button
+                            key={decision}
+                            onClick={() => handleDecision(decision, [item.id])}
+                            disabled={submitting}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium transition-all flex items-center space-x-1 disabled:opacity-50 ${ACTION_STYLES[decision].className}`}
+                          >
+                            {ACTION_STYLES[decision].icon}
+                            <span>{ACTION_STYLES[decision].label}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
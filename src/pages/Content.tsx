@@ -1,7 +1,147 @@
-import React from 'react';
-import { UploadCloud } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, Clock, EyeOff, FileText, RotateCcw, UploadCloud, X, XCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { resubmitMedia } from '../lib/moderation';
+import {
+  categoriesForKind,
+  CONTENT_KINDS,
+  createMediaSubmission,
+  fetchMySubmissions,
+  probeContentFile,
+  uploadContentFile,
+  uploadThumbnail,
+  validateContentFile,
+  type ContentKind,
+  type MediaStatus,
+  type MediaSubmission,
+} from '../lib/mediaUploads';
+
+const STATUS_STYLES: Record<MediaStatus, { label: string; icon: typeof Clock; className: string }> = {
+  pending: { label: 'Pending review', icon: Clock, className: 'bg-yellow-500/20 text-yellow-300' },
+  approved: { label: 'Live on Media', icon: CheckCircle, className: 'bg-green-500/20 text-green-300' },
+  rejected: { label: 'Not approved', icon: XCircle, className: 'bg-red-500/20 text-red-300' },
+  taken_down: { label: 'Taken down', icon: EyeOff, className: 'bg-gray-500/20 text-gray-300' },
+};
 
 export default function Content() {
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [kind, setKind] = useState<ContentKind>('video');
+  const [category, setCategory] = useState(categoriesForKind('video')[0]);
+  const [price, setPrice] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submissions, setSubmissions] = useState<MediaSubmission[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    fetchMySubmissions(user.id)
+      .then((data) => {
+        if (isMounted) setSubmissions(data);
+      })
+      .catch((error) => console.error('Error fetching submissions:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  const selectFile = (selected: File | null, forKind: ContentKind = kind) => {
+    setFile(selected);
+    setFileError(selected ? validateContentFile(forKind, selected) : null);
+  };
+
+  const handleKindChange = (next: ContentKind) => {
+    setKind(next);
+    setCategory(categoriesForKind(next)[0]);
+    // The chosen file may not be valid for the new kind
+    if (file) selectFile(file, next);
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setPrice('');
+    selectFile(null);
+    setProgress(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !file || fileError) return;
+    if (kind === 'blog' && !description.trim()) {
+      alert('Please write the article in the description.');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSubmitting(true);
+    setProgress(0);
+    try {
+      const [{ thumbnail, duration }, contentUrl] = await Promise.all([
+        probeContentFile(file),
+        uploadContentFile(user.id, file, setProgress, controller.signal),
+      ]);
+      // Uploaded images are their own thumbnail at full size when no smaller one could be made
+      const thumbnailUrl = thumbnail
+        ? await uploadThumbnail(user.id, thumbnail)
+        : file.type.startsWith('image/')
+          ? contentUrl
+          : null;
+
+      const submission = await createMediaSubmission({
+        creator_id: user.id,
+        creator_name: user.name,
+        kind,
+        title: title.trim(),
+        description: description.trim(),
+        category,
+        price: kind === 'template' && price ? Number(price) : null,
+        content_url: contentUrl,
+        thumbnail_url: thumbnailUrl,
+        duration,
+        file_size: file.size,
+        mime_type: file.type,
+      });
+
+      setSubmissions((prev) => [submission, ...prev]);
+      resetForm();
+      alert('Content submitted for review. It will appear on Media once it has been approved.');
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        setProgress(null);
+        return;
+      }
+      console.error('Error uploading content:', error);
+      alert(error.message || 'Failed to upload content. Please try again.');
+    } finally {
+      abortRef.current = null;
+      setSubmitting(false);
+    }
+  };
+
+  const handleResubmit = async (mediaId: string) => {
+    try {
+      const updated = await resubmitMedia(mediaId);
+      setSubmissions((prev) =>
+        prev.map((submission) => (submission.id === mediaId ? { ...submission, status: updated.status } : submission))
+      );
+    } catch (error: any) {
+      console.error('Error resubmitting content:', error);
+      alert(error.message || 'Failed to resubmit content. Please try again.');
+    }
+  };
+
+  const rules = CONTENT_KINDS[kind];
+
   return (
     <div className="min-h-screen pt-20 pb-12 px-4">
       <div className="max-w-7xl mx-auto">
@@ -9,12 +149,15 @@ export default function Content() {
         <p className="text-gray-300 mb-8">Upload your creative work to share with the world.</p>
 
         <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl">
-          <form>
+          <form onSubmit={handleSubmit}>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-white mb-2">Title</label>
                 <input
                   type="text"
+                  required
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
                   className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
                   placeholder="Enter a title for your content"
                 />
@@ -23,54 +166,209 @@ export default function Content() {
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-white mb-2">Description</label>
                 <textarea
-                  rows={4}
+                  rows={kind === 'blog' ? 10 : 4}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
                   className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
-                  placeholder="Tell us more about your content"
+                  placeholder={kind === 'blog' ? 'Write your article' : 'Tell us more about your content'}
                 ></textarea>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-white mb-2">Content Type</label>
-                <select className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all">
-                  <option value="video" className="bg-gray-800">Video</option>
-                  <option value="music" className="bg-gray-800">Music</option>
-                  <option value="photo" className="bg-gray-800">Photo</option>
-                  <option value="blog" className="bg-gray-800">Blog</option>
-                  <option value="template" className="bg-gray-800">Template</option>
+                <select
+                  value={kind}
+                  onChange={(e) => handleKindChange(e.target.value as ContentKind)}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+                >
+                  {(Object.keys(CONTENT_KINDS) as ContentKind[]).map((value) => (
+                    <option key={value} value={value} className="bg-gray-800">
+                      {CONTENT_KINDS[value].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">Category</label>
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+                >
+                  {categoriesForKind(kind).map((value) => (
+                    <option key={value} value={value} className="bg-gray-800">
+                      {value.charAt(0).toUpperCase() + value.slice(1)}
+                    </option>
+                  ))}
                 </select>
               </div>
 
+              {kind === 'template' && (
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">Price (UGX)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="500"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+                    placeholder="Leave empty for a free download"
+                  />
+                </div>
+              )}
+
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-white mb-2">Upload File</label>
-                <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md">
+                <div
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                  }}
+                  onDragLeave={() => setDragging(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setDragging(false);
+                    if (!submitting) selectFile(e.dataTransfer.files[0] || null);
+                  }}
+                  className={`mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-md transition-colors ${
+                    dragging ? 'border-rose-400 bg-rose-500/5' : 'border-gray-600'
+                  }`}
+                >
                   <div className="space-y-1 text-center">
                     <UploadCloud className="mx-auto h-12 w-12 text-gray-400" />
-                    <div className="flex text-sm text-gray-400">
-                      <label
-                        htmlFor="file-upload"
-                        className="relative cursor-pointer bg-transparent rounded-md font-medium text-rose-400 hover:text-rose-300 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-rose-500"
-                      >
-                        <span>Upload a file</span>
-                        <input id="file-upload" name="file-upload" type="file" className="sr-only" />
-                      </label>
-                      <p className="pl-1">or drag and drop</p>
-                    </div>
-                    <p className="text-xs text-gray-500">PNG, JPG, GIF up to 10MB. MP4, MOV up to 100MB.</p>
+                    {file ? (
+                      <div className="flex items-center justify-center gap-2 text-sm text-white">
+                        <FileText className="w-4 h-4 text-rose-400" />
+                        <span>{file.name}</span>
+                        <span className="text-gray-400">({(file.size / (1024 * 1024)).toFixed(1)}MB)</span>
+                        {!submitting && (
+                          <button
+                            type="button"
+                            onClick={() => selectFile(null)}
+                            className="text-gray-400 hover:text-white"
+                            aria-label="Remove file"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex text-sm text-gray-400">
+                        <label
+                          htmlFor="file-upload"
+                          className="relative cursor-pointer bg-transparent rounded-md font-medium text-rose-400 hover:text-rose-300 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-rose-500"
+                        >
+                          <span>Upload a file</span>
+                          <input
+                            id="file-upload"
+                            name="file-upload"
+                            type="file"
+                            accept={rules.mimeTypes.join(',')}
+                            onChange={(e) => selectFile(e.target.files?.[0] || null)}
+                            className="sr-only"
+                          />
+                        </label>
+                        <p className="pl-1">or drag and drop</p>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">{rules.hint}</p>
+                    {fileError && <p className="text-xs text-rose-400">{fileError}</p>}
                   </div>
                 </div>
               </div>
             </div>
 
-            <div className="mt-6">
+            {progress !== null && (
+              <div className="mt-6">
+                <div className="flex justify-between text-sm text-gray-300 mb-1">
+                  <span>{progress < 1 ? 'Uploading...' : 'Processing...'}</span>
+                  <span>{Math.round(progress * 100)}%</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-rose-400 to-purple-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${Math.round(progress * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="mt-6 flex gap-3">
               <button
                 type="submit"
-                className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-xl hover:shadow-xl transition-all"
+                disabled={submitting || !file || !!fileError || !title.trim()}
+                className="flex-1 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-xl hover:shadow-xl transition-all disabled:opacity-50"
               >
-                Submit for Review
+                {submitting ? 'Submitting...' : 'Submit for Review'}
               </button>
+              {submitting && (
+                <button
+                  type="button"
+                  onClick={() => abortRef.current?.abort()}
+                  className="px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-xl transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </form>
         </div>
+
+        {submissions.length > 0 && (
+          <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl mt-8">
+            <h2 className="text-2xl font-semibold text-white mb-6">Your Submissions</h2>
+            <div className="space-y-3">
+              {submissions.map((submission) => {
+                const status = STATUS_STYLES[submission.status];
+                const StatusIcon = status.icon;
+                return (
+                  <div key={submission.id} className="flex items-start gap-4 p-3 bg-white/5 rounded-lg">
+                    {submission.thumbnail_url ? (
+                      <img
+                        src={submission.thumbnail_url}
+                        alt={submission.title}
+                        className="w-16 h-10 object-cover rounded"
+                      />
+                    ) : (
+                      <div className="w-16 h-10 bg-gray-700 rounded flex items-center justify-center">
+                        <FileText className="w-4 h-4 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-white font-medium truncate">{submission.title}</div>
+                      <div className="text-gray-400 text-xs capitalize">
+                        {submission.type} • {submission.category} •{' '}
+                        {new Date(submission.created_at).toLocaleDateString()}
+                      </div>
+                      {submission.reviewer_notes && submission.status !== 'pending' && (
+                        <p className="text-gray-300 text-xs mt-1">Reviewer: {submission.reviewer_notes}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <span
+                        className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
+                      >
+                        <StatusIcon className="w-3 h-3" />
+                        <span>{status.label}</span>
+                      </span>
+                      {submission.status === 'rejected' && (
+                        <button
+                          onClick={() => handleResubmit(submission.id)}
+                          className="flex items-center space-x-1 text-xs text-rose-400 hover:text-rose-300"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          <span>Resubmit</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,53 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Crown, TrendingUp, Users, Star, Calendar, Briefcase, Play, Award, Plus, ArrowRight } from 'lucide-react';
+import { Crown, TrendingUp, Users, Star, Calendar, Briefcase, Play, Award, Plus, ArrowRight, BarChart3 } from 'lucide-react';
 import { useAuth, TIER_POINTS } from '../context/AuthContext';
+import { fetchEvents, type Event } from '../lib/events';
+import { fetchRegistrationStats, type EventRegistrationStats } from '../lib/registrations';
+import { fetchOrganizerAnalytics, summarizeAnalytics, type OrganizerSummary } from '../lib/analytics';
+import { getEventTimes, formatEventDate, formatEventTimeRange, formatRelativeStart } from '../lib/eventTime';
 
 export default function Dashboard() {
   const { user } = useAuth();
+  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
+  const [eventStats, setEventStats] = useState<Record<string, EventRegistrationStats>>({});
+  const [organizerSummary, setOrganizerSummary] = useState<OrganizerSummary | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadUpcomingEvents = async () => {
+      try {
+        const events = (await fetchEvents({ status: 'upcoming' })).slice(0, 3);
+        if (!isMounted) return;
+        setUpcomingEvents(events);
+        const stats = await fetchRegistrationStats(events.map((event) => event.id));
+        if (isMounted) setEventStats(stats);
+      } catch (error) {
+        console.error('Error fetching upcoming events:', error);
+      }
+    };
+
+    loadUpcomingEvents();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (user?.role !== 'creator') return;
+    let isMounted = true;
+
+    fetchOrganizerAnalytics()
+      .then((rows) => {
+        if (isMounted && rows.length > 0) setOrganizerSummary(summarizeAnalytics(rows));
+      })
+      .catch((error) => console.error('Error fetching event analytics:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user?.role]);
 
   const getNextTier = () => {
     if (!user) return null;
@@ -19,7 +62,7 @@ export default function Dashboard() {
 
   const quickStats = [
     { label: 'Portfolio Views', value: '2,847', icon: <TrendingUp className="w-5 h-5" />, change: '+12%' },
-    { label: 'Followers', value: '1,256', icon: <Users className="w-5 h-5" />, change: '+8%' },
+    { label: 'Followers', value: (user?.followers_count || 0).toLocaleString(), icon: <Users className="w-5 h-5" />, change: '+8%' },
     { label: 'Rating', value: '4.9', icon: <Star className="w-5 h-5" />, change: '+0.2' },
     { label: 'Loyalty Points', value: user?.loyalty_points || 0, icon: <Crown className="w-5 h-5" />, change: '+50' }
   ];
@@ -120,20 +163,31 @@ export default function Dashboard() {
                 </Link>
               </div>
               <div className="space-y-3">
-                {[
-                  { name: 'Digital Marketing Workshop', date: 'Nov 15, 2025', attendees: 245 },
-                  { name: 'Talent Showcase Event', date: 'Nov 20, 2025', attendees: 189 },
-                  { name: 'Brand Ambassador Summit', date: 'Nov 25, 2025', attendees: 156 }
-                ].map((event, index) => (
-                  <div key={index} className="flex items-center space-x-4 p-3 hover:bg-white/5 rounded-lg transition-colors">
-                    <Calendar className="w-5 h-5 text-rose-400 flex-shrink-0" />
-                    <div className="flex-1">
-                      <div className="text-white font-medium">{event.name}</div>
-                      <div className="text-gray-400 text-sm">{event.date} • {event.attendees} attending</div>
-                    </div>
-                    <ArrowRight className="w-4 h-4 text-gray-400" />
-                  </div>
-                ))}
+                {upcomingEvents.map((event) => {
+                  const times = getEventTimes(event);
+                  const attendees = eventStats[event.id]?.registered_count;
+                  return (
+                    <Link
+                      key={event.id}
+                      to="/events"
+                      className="flex items-center space-x-4 p-3 hover:bg-white/5 rounded-lg transition-colors"
+                    >
+                      <Calendar className="w-5 h-5 text-rose-400 flex-shrink-0" />
+                      <div className="flex-1">
+                        <div className="text-white font-medium">{event.title}</div>
+                        <div className="text-gray-400 text-sm">
+                          {formatEventDate(times, { weekday: undefined, month: 'short' })} • {formatEventTimeRange(times)}
+                          {attendees !== undefined && ` • ${attendees} attending`}
+                        </div>
+                      </div>
+                      <span className="text-rose-400 text-sm whitespace-nowrap">{formatRelativeStart(times)}</span>
+                      <ArrowRight className="w-4 h-4 text-gray-400" />
+                    </Link>
+                  );
+                })}
+                {upcomingEvents.length === 0 && (
+                  <p className="text-gray-400 text-sm">No upcoming events right now.</p>
+                )}
               </div>
             </div>
           </div>
@@ -160,6 +214,39 @@ export default function Dashboard() {
               )}
             </div>
 
+            {/* Organizer Summary */}
+            {organizerSummary && (
+              <div className="glass-effect p-6 rounded-xl">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                    <BarChart3 className="w-5 h-5 text-rose-400" />
+                    <span>Your Events</span>
+                  </h3>
+                  <Link to="/account/events" className="text-rose-400 hover:text-rose-300 text-sm transition-colors">
+                    Manage
+                  </Link>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {[
+                    { label: 'Events', value: `${organizerSummary.events} (${organizerSummary.upcomingEvents} upcoming)` },
+                    { label: 'Tickets sold', value: organizerSummary.ticketsSold.toLocaleString() },
+                    { label: 'Revenue', value: `UGX ${organizerSummary.grossRevenue.toLocaleString()}` },
+                    {
+                      label: 'Check-in rate',
+                      value:
+                        organizerSummary.checkInRate === null ? '—' : `${Math.round(organizerSummary.checkInRate * 100)}%`
+                    },
+                    { label: 'Memories posted', value: organizerSummary.memories.toLocaleString() }
+                  ].map((stat) => (
+                    <div key={stat.label}>
+                      <div className="text-white font-semibold">{stat.value}</div>
+                      <div className="text-gray-400 text-xs">{stat.label}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Challenges */}
             <div className="glass-effect p-6 rounded-xl">
               <h3 className="text-lg font-semibold text-white mb-4">Active Challenges</h3>
@@ -0,0 +1,244 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BarChart3,
+  Camera,
+  CheckCircle,
+  Hourglass,
+  Radio,
+  Ticket,
+  Wallet,
+  XCircle,
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  checkInRate,
+  fetchEventAnalytics,
+  fetchRegistrationTimeline,
+  fetchTicketTypeAnalytics,
+  type EventAnalytics as EventAnalyticsRow,
+  type RegistrationTimelinePoint,
+  type TicketTypeAnalytics,
+} from '../lib/analytics';
+
+const formatPercent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// One entry per calendar day from the first registration to the last activity, zero-filled
+function fillTimeline(points: RegistrationTimelinePoint[]) {
+  if (points.length === 0) return [];
+  const byDay = new Map(points.map((point) => [point.day, point]));
+  const days: { day: string; registrations: number; cancellations: number; total: number }[] = [];
+  const cursor = new Date(`${points[0].day}T00:00:00Z`);
+  const last = new Date(`${points[points.length - 1].day}T00:00:00Z`);
+  let total = 0;
+
+  while (cursor <= last) {
+    const day = cursor.toISOString().slice(0, 10);
+    const point = byDay.get(day);
+    const registrations = point?.registrations || 0;
+    const cancellations = point?.cancellations || 0;
+    total += registrations - cancellations;
+    days.push({ day, registrations, cancellations, total });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+function StatCard({ icon, label, value, detail }: { icon: ReactNode; label: string; value: ReactNode; detail?: ReactNode }) {
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+      <div className="text-rose-400 mb-2">{icon}</div>
+      <div className="text-2xl font-bold text-white mb-1">{value}</div>
+      <div className="text-gray-400 text-sm">{label}</div>
+      {detail && <div className="text-gray-500 text-xs mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+export default function EventAnalytics() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const { user } = useAuth();
+  const [analytics, setAnalytics] = useState<EventAnalyticsRow | null>(null);
+  const [timeline, setTimeline] = useState<RegistrationTimelinePoint[]>([]);
+  const [ticketTypes, setTicketTypes] = useState<TicketTypeAnalytics[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!eventId || !user) return;
+    let isMounted = true;
+
+    Promise.all([fetchEventAnalytics(eventId), fetchRegistrationTimeline(eventId), fetchTicketTypeAnalytics(eventId)])
+      .then(([row, points, types]) => {
+        if (!isMounted) return;
+        setAnalytics(row);
+        setTimeline(points);
+        setTicketTypes(types);
+      })
+      .catch((error) => console.error('Error fetching event analytics:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, user]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (!analytics) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-3xl mx-auto text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+          <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">Analytics not available</h3>
+          <p className="text-gray-400 mb-4">Only the organizer of an event can view its analytics.</p>
+          <Link to="/account/events" className="text-rose-400 hover:text-rose-300">
+            Back to My Events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const days = fillTimeline(timeline);
+  const maxDaily = Math.max(1, ...days.map((d) => d.registrations));
+  const hasStarted = new Date(analytics.starts_at).getTime() <= Date.now();
+  const maxTypeSold = Math.max(1, ...ticketTypes.map((type) => type.quantity ?? type.sold_count));
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/account/events" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to My Events</span>
+        </Link>
+        <h1 className="text-4xl font-playfair font-bold text-white mb-2">{analytics.title}</h1>
+        <p className="text-gray-300 mb-8">
+          Attendee analytics •{' '}
+          {new Date(analytics.starts_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
+        </p>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          <StatCard
+            icon={<Ticket className="w-5 h-5" />}
+            label="Tickets sold"
+            value={analytics.tickets_sold}
+            detail={
+              analytics.capacity
+                ? `${analytics.seats_sold} of ${analytics.capacity} seats`
+                : `${analytics.seats_sold} seats`
+            }
+          />
+          <StatCard
+            icon={<Wallet className="w-5 h-5" />}
+            label="Revenue"
+            value={`UGX ${analytics.gross_revenue.toLocaleString()}`}
+            detail={
+              <>
+                UGX {analytics.paid_revenue.toLocaleString()} collected
+                {analytics.discount_total > 0 && ` • UGX ${analytics.discount_total.toLocaleString()} in discounts`}
+              </>
+            }
+          />
+          <StatCard
+            icon={<CheckCircle className="w-5 h-5" />}
+            label="Check-in rate"
+            value={hasStarted ? formatPercent(checkInRate(analytics.checked_in_count, analytics.tickets_sold)) : '—'}
+            detail={
+              hasStarted
+                ? `${analytics.checked_in_count} of ${analytics.tickets_sold} checked in`
+                : 'Available once the event starts'
+            }
+          />
+          {analytics.is_livestream && (
+            <StatCard
+              icon={<Radio className="w-5 h-5" />}
+              label="Peak live viewers"
+              value={analytics.peak_viewers}
+              detail="Most people watching at the same time"
+            />
+          )}
+          <StatCard icon={<Camera className="w-5 h-5" />} label="Memories posted" value={analytics.memories_count} />
+          <StatCard icon={<Hourglass className="w-5 h-5" />} label="On the waitlist" value={analytics.waitlist_count} />
+          <StatCard icon={<XCircle className="w-5 h-5" />} label="Cancellations" value={analytics.cancelled_count} />
+        </div>
+
+        <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 mb-8">
+          <h2 className="text-xl font-semibold text-white flex items-center space-x-2 mb-6">
+            <BarChart3 className="w-5 h-5 text-rose-400" />
+            <span>Registrations over time</span>
+          </h2>
+          {days.length === 0 ? (
+            <p className="text-gray-400 text-sm">No registrations yet.</p>
+          ) : (
+            <>
+              <div className="flex items-end gap-1 h-40">
+                {days.map((d) => (
+                  <div
+                    key={d.day}
+                    className="flex-1 flex flex-col justify-end h-full"
+                    title={`${d.day}: ${d.registrations} registered, ${d.cancellations} cancelled, ${d.total} total`}
+                  >
+                    <div
+                      className="bg-gradient-to-t from-rose-500 to-purple-600 rounded-t"
+                      style={{ height: `${(d.registrations / maxDaily) * 100}%`, minHeight: d.registrations ? 2 : 0 }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-gray-400 text-xs mt-2">
+                <span>{days[0].day}</span>
+                <span>
+                  {days.length} day{days.length === 1 ? '' : 's'} • {days[days.length - 1].total} active tickets
+                </span>
+                <span>{days[days.length - 1].day}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {ticketTypes.length > 0 && (
+          <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+            <h2 className="text-xl font-semibold text-white flex items-center space-x-2 mb-6">
+              <Ticket className="w-5 h-5 text-rose-400" />
+              <span>Ticket types</span>
+            </h2>
+            <div className="space-y-4">
+              {ticketTypes.map((type) => (
+                <div key={type.ticket_type_id}>
+                  <div className="flex flex-wrap justify-between gap-2 text-sm mb-1">
+                    <span className="text-white font-medium">
+                      {type.name}{' '}
+                      <span className="text-gray-400 font-normal">
+                        {type.price > 0 ? `UGX ${type.price.toLocaleString()}` : 'Free'}
+                      </span>
+                    </span>
+                    <span className="text-gray-300">
+                      {type.sold_count}
+                      {type.quantity !== null && ` / ${type.quantity}`} sold • {type.checked_in_count} checked in • UGX{' '}
+                      {type.revenue.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-gradient-to-r from-rose-400 to-purple-500 h-2 rounded-full"
+                      style={{ width: `${Math.min(100, (type.sold_count / maxTypeSold) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState, useEffect, useRef, type FormEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Camera, CameraOff, CheckCircle, AlertTriangle, XCircle, Search, Users, QrCode } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import { fetchEventById, type Event } from '../lib/events';
+import { getEventTimes, formatEventDate } from '../lib/eventTime';
+import {
+  fetchEventRegistrations,
+  checkInTicket,
+  markRegistrationPaid,
+  type EventRegistration,
+  type RegistrationWithAttendee,
+} from '../lib/registrations';
+import TicketQRCode from '../components/TicketQRCode';
+
+// BarcodeDetector is not in the TS DOM lib yet; it ships in Chromium-based browsers.
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+type ScanFeedback = {
+  kind: 'success' | 'duplicate' | 'error';
+  message: string;
+};
+
+const SCAN_INTERVAL_MS = 500;
+const RESCAN_COOLDOWN_MS = 3000;
+
+export default function EventCheckIn() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const { user } = useAuth();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [registrations, setRegistrations] = useState<RegistrationWithAttendee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [codeInput, setCodeInput] = useState('');
+  const [filterQuery, setFilterQuery] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const registrationsRef = useRef(registrations);
+  registrationsRef.current = registrations;
+
+  const BarcodeDetectorApi = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  const isOrganizer = !!user && !!event && event.organizer_id === user.id;
+
+  useEffect(() => {
+    if (!eventId) return;
+    let isMounted = true;
+
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const eventData = await fetchEventById(eventId);
+        if (!isMounted) return;
+        setEvent(eventData);
+        if (eventData && user && eventData.organizer_id === user.id) {
+          const data = await fetchEventRegistrations(eventId);
+          if (isMounted) setRegistrations(data);
+        }
+      } catch (error) {
+        console.error('Error loading check-in data:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadData();
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, user]);
+
+  useEffect(() => {
+    if (!eventId || !isOrganizer) return;
+
+    const channel = supabase
+      .channel(`event_registrations_${eventId}_${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'event_registrations', filter: `event_id=eq.${eventId}` },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            fetchEventRegistrations(eventId)
+              .then(setRegistrations)
+              .catch((error) => console.error('Error refreshing registrations:', error));
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as EventRegistration;
+            setRegistrations((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, isOrganizer]);
+
+  const attendeeName = (registrationId: string) =>
+    registrationsRef.current.find((r) => r.id === registrationId)?.attendee?.name || 'Guest';
+
+  const submitCode = async (rawCode: string) => {
+    if (!eventId) return;
+    const code = rawCode.trim().toUpperCase();
+    if (!code) return;
+
+    try {
+      const { result, registration } = await checkInTicket(eventId, code);
+      setRegistrations((prev) => prev.map((r) => (r.id === registration.id ? { ...r, ...registration } : r)));
+
+      if (result === 'duplicate') {
+        setFeedback({
+          kind: 'duplicate',
+          message: `${code} was already checked in at ${new Date(registration.checked_in_at!).toLocaleTimeString()} (${attendeeName(registration.id)}).`,
+        });
+      } else {
+        setFeedback({ kind: 'success', message: `Welcome, ${attendeeName(registration.id)}! ${code} checked in.` });
+      }
+    } catch (error: any) {
+      console.error('Error checking in ticket:', error);
+      setFeedback({ kind: 'error', message: error.message || `Could not check in ${code}.` });
+    }
+  };
+
+  // The scanner calls the latest submitCode through a ref so the camera does not restart after every check-in
+  const submitCodeRef = useRef(submitCode);
+  submitCodeRef.current = submitCode;
+
+  const handleMarkPaid = async (registration: RegistrationWithAttendee) => {
+    if (!window.confirm(`Confirm UGX ${registration.amount.toLocaleString()} received for ${registration.ticket_code}?`)) return;
+
+    setPayingId(registration.id);
+    try {
+      const updated = await markRegistrationPaid(registration.id);
+      setRegistrations((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+    } catch (error: any) {
+      console.error('Error confirming payment:', error);
+      alert(error.message || 'Failed to confirm payment. Please try again.');
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  const handleManualSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    await submitCode(codeInput);
+    setCodeInput('');
+  };
+
+  useEffect(() => {
+    if (!scanning || !BarcodeDetectorApi) return;
+
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    const detector = new BarcodeDetectorApi({ formats: ['qr_code'] });
+
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) {
+          // The scanner was closed while the permission prompt was open
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        if (cancelled) return;
+
+        interval = setInterval(async () => {
+          if (!videoRef.current) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            const value = codes[0]?.rawValue;
+            if (!value) return;
+
+            const last = lastScanRef.current;
+            if (last && last.code === value && Date.now() - last.at < RESCAN_COOLDOWN_MS) return;
+            lastScanRef.current = { code: value, at: Date.now() };
+            submitCodeRef.current(value);
+          } catch (error) {
+            console.error('Error detecting QR code:', error);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        alert('Could not access the camera. Enter ticket codes manually instead.');
+        setScanning(false);
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [scanning, BarcodeDetectorApi]);
+
+  const activeRegistrations = registrations.filter((r) => r.status !== 'cancelled');
+  // Group tickets admit several people on one code
+  const attendedCount = activeRegistrations.reduce((sum, r) => sum + (r.checked_in_at ? r.seats : 0), 0);
+  const registeredCount = activeRegistrations.reduce((sum, r) => sum + r.seats, 0);
+  const attendanceRate = registeredCount > 0 ? Math.round((attendedCount / registeredCount) * 100) : 0;
+
+  const visibleRegistrations = registrations.filter((r) => {
+    const q = filterQuery.toLowerCase();
+    return (
+      !q ||
+      r.ticket_code.toLowerCase().includes(q) ||
+      r.attendee?.name.toLowerCase().includes(q) ||
+      r.attendee?.email.toLowerCase().includes(q)
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (!event || !isOrganizer) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-3xl mx-auto text-center py-12 glass-effect rounded-2xl">
+          <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">
+            {event ? 'Check-in is only available to the organizer' : 'Event not found'}
+          </h3>
+          <Link to="/events" className="text-rose-400 hover:text-rose-300">
+            Back to Events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/events" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Events</span>
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-playfair font-bold text-white mb-2">Check-In</h1>
+            <p className="text-gray-300">
+              {event.title} • {formatEventDate(getEventTimes(event))} • {event.location}
+            </p>
+          </div>
+          <div className="glass-effect px-6 py-4 rounded-xl flex items-center space-x-4">
+            <Users className="w-8 h-8 text-rose-400" />
+            <div>
+              <div className="text-3xl font-bold text-white">
+                {attendedCount} / {registeredCount}
+              </div>
+              <div className="text-gray-400 text-sm">attended • {attendanceRate}%</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <div className="glass-effect p-6 rounded-2xl">
+              <h2 className="text-xl font-semibold text-white mb-4 flex items-center space-x-2">
+                <QrCode className="w-5 h-5" />
+                <span>Scan or Enter Ticket</span>
+              </h2>
+
+              {BarcodeDetectorApi ? (
+                <div className="mb-4">
+                  {scanning && (
+                    <video ref={videoRef} className="w-full rounded-xl bg-black mb-3" muted playsInline />
+                  )}
+                  <button
+                    onClick={() => setScanning((prev) => !prev)}
+                    className="w-full py-2 glass-effect text-white rounded-lg hover:bg-white/10 transition-all flex items-center justify-center space-x-2"
+                  >
+                    {scanning ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+                    <span>{scanning ? 'Stop Camera' : 'Scan with Camera'}</span>
+                  </button>
+                </div>
+              ) : (
+                <p className="text-gray-400 text-sm mb-4">
+                  Camera scanning isn't supported in this browser. Enter ticket codes below.
+                </p>
+              )}
+
+              <form onSubmit={handleManualSubmit} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  placeholder="TKT-XXXXXXXXXX"
+                  className="flex-1 px-4 py-2 glass-effect rounded-xl border border-white/20 text-white font-mono uppercase placeholder-gray-500 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all"
+                >
+                  Check In
+                </button>
+              </form>
+
+              {feedback && (
+                <div
+                  className={`mt-4 p-3 rounded-xl flex items-start space-x-2 text-sm ${
+                    feedback.kind === 'success'
+                      ? 'bg-green-500/20 text-green-300'
+                      : feedback.kind === 'duplicate'
+                        ? 'bg-yellow-400/20 text-yellow-300'
+                        : 'bg-rose-500/20 text-rose-300'
+                  }`}
+                >
+                  {feedback.kind === 'success' && <CheckCircle className="w-5 h-5 flex-shrink-0" />}
+                  {feedback.kind === 'duplicate' && <AlertTriangle className="w-5 h-5 flex-shrink-0" />}
+                  {feedback.kind === 'error' && <XCircle className="w-5 h-5 flex-shrink-0" />}
+                  <span>{feedback.message}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 glass-effect p-6 rounded-2xl">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold text-white">Registrations</h2>
+              <div className="relative md:w-72">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <input
+                  type="text"
+                  value={filterQuery}
+                  onChange={(e) => setFilterQuery(e.target.value)}
+                  placeholder="Search name, email or code..."
+                  className="w-full pl-9 pr-4 py-2 glass-effect rounded-xl border border-white/20 text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {visibleRegistrations.length === 0 ? (
+              <div className="text-center py-12 text-gray-400">No registrations yet.</div>
+            ) : (
+              <div className="space-y-3 max-h-[36rem] overflow-y-auto">
+                {visibleRegistrations.map((registration) => (
+                  <div key={registration.id} className="bg-white/5 p-4 rounded-xl">
+                    <div className="flex items-center justify-between gap-4">
+                      <button
+                        onClick={() => setExpandedId((prev) => (prev === registration.id ? null : registration.id))}
+                        className="flex-shrink-0"
+                        title="Show ticket QR code"
+                      >
+                        <TicketQRCode code={registration.ticket_code} size={56} />
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-white font-medium truncate">{registration.attendee?.name || 'Guest'}</div>
+                        <div className="text-gray-400 text-xs truncate">{registration.attendee?.email}</div>
+                        <div className="text-gray-300 text-sm font-mono">{registration.ticket_code}</div>
+                        <div className="text-xs text-gray-400">
+                          {registration.payment_status === 'free'
+                            ? 'Free'
+                            : `UGX ${registration.amount.toLocaleString()} • `}
+                          {registration.payment_status === 'paid' && <span className="text-green-300">Paid</span>}
+                          {registration.payment_status === 'pending' && (
+                            <span className="text-yellow-300">Payment pending</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        {registration.status === 'cancelled' ? (
+                          <span className="px-3 py-1 bg-gray-600 text-gray-300 rounded-full">Cancelled</span>
+                        ) : registration.payment_status === 'pending' ? (
+                          <button
+                            onClick={() => handleMarkPaid(registration)}
+                            disabled={payingId === registration.id}
+                            className="px-3 py-1 bg-yellow-400/20 text-yellow-300 hover:bg-yellow-400/30 rounded-full disabled:opacity-50"
+                          >
+                            {payingId === registration.id ? 'Saving...' : 'Mark paid'}
+                          </button>
+                        ) : registration.checked_in_at ? (
+                          <span className="px-3 py-1 bg-green-500/20 text-green-300 rounded-full">
+                            In at {new Date(registration.checked_in_at).toLocaleTimeString()}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => submitCode(registration.ticket_code)}
+                            className="px-3 py-1 glass-effect text-gray-300 hover:text-white rounded-full"
+                          >
+                            Mark attended
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {expandedId === registration.id && (
+                      <div className="mt-4 flex justify-center">
+                        <TicketQRCode code={registration.ticket_code} size={220} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,908 @@
+import { useState, useEffect, type ChangeEvent, type ReactNode } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Calendar,
+  CheckCircle,
+  ClipboardList,
+  Eye,
+  EyeOff,
+  Image as ImageIcon,
+  MapPin,
+  Plus,
+  Save,
+  Ticket,
+  Trash2,
+  Upload,
+  Video,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  createEvent,
+  deleteEvent,
+  fetchEventById,
+  setEventPublished,
+  updateEvent,
+  uploadEventCover,
+  type Event,
+  type EventInput,
+} from '../lib/events';
+import { EVENT_TIMEZONES, buildEventSchedule, getEventTimes, toClockInput } from '../lib/eventTime';
+import {
+  deleteEventStream,
+  fetchEventStreamSettings,
+  saveEventStreamSettings,
+  type MembershipTier,
+} from '../lib/livestream';
+import { fetchMyProviderBookings, linkBookingToEvent, type BookingWithDetails } from '../lib/providers';
+import { fetchRegistrationStats } from '../lib/registrations';
+import { fetchTicketTypes, type TicketType } from '../lib/tickets';
+import TicketTypesManager from '../components/TicketTypesManager';
+
+type Step = 'details' | 'schedule' | 'tickets' | 'providers' | 'review';
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'schedule', label: 'Date & Venue' },
+  { id: 'tickets', label: 'Tickets & Program' },
+  { id: 'providers', label: 'Providers' },
+  { id: 'review', label: 'Review & Publish' },
+];
+
+const CATEGORIES: Event['category'][] = ['social', 'networking', 'business'];
+
+const MEMBERSHIP_TIERS: MembershipTier[] = ['free', 'premium', 'professional', 'elite'];
+
+const INPUT_CLASS =
+  'w-full px-4 py-3 glass-effect rounded-xl border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400';
+
+type EventForm = {
+  title: string;
+  description: string;
+  category: Event['category'];
+  imageUrl: string | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  isLivestream: boolean;
+  location: string;
+  playbackUrl: string;
+  replayUrl: string;
+  minTier: MembershipTier;
+  price: number;
+  capacity: string;
+  speakers: string[];
+  features: string[];
+};
+
+const EMPTY_FORM: EventForm = {
+  title: '',
+  description: '',
+  category: 'social',
+  imageUrl: null,
+  date: '',
+  startTime: '',
+  endTime: '',
+  timezone: EVENT_TIMEZONES.EAT.tzid,
+  isLivestream: false,
+  location: '',
+  playbackUrl: '',
+  replayUrl: '',
+  minTier: 'premium',
+  price: 0,
+  capacity: '',
+  speakers: [],
+  features: [],
+};
+
+function toForm(event: Event): EventForm {
+  const times = getEventTimes(event);
+  return {
+    ...EMPTY_FORM,
+    title: event.title,
+    description: event.description,
+    category: event.category,
+    imageUrl: event.image_url,
+    date: event.date,
+    startTime: times.allDay ? '' : toClockInput(times.start, times.timezone),
+    endTime: times.allDay ? '' : toClockInput(times.end, times.timezone),
+    timezone: times.timezone.tzid,
+    isLivestream: event.is_livestream,
+    location: event.location,
+    price: event.price,
+    capacity: event.capacity ? String(event.capacity) : '',
+    speakers: event.speakers,
+    features: event.features,
+  };
+}
+
+// Problems that block publishing; drafts only need a title and a date.
+function publishProblems(form: EventForm): string[] {
+  const problems: string[] = [];
+  if (!form.title.trim()) problems.push('Add a title');
+  if (!form.description.trim()) problems.push('Add a description');
+  if (!form.date) problems.push('Choose a date');
+  else if (form.date < new Date().toLocaleDateString('en-CA')) problems.push('Choose a date that is not in the past');
+  if (form.endTime && !form.startTime) problems.push('Add a start time, or clear the end time for an all-day event');
+  if (form.isLivestream ? !form.playbackUrl.trim() : !form.location.trim()) {
+    problems.push(form.isLivestream ? 'Add the livestream playback URL' : 'Add a venue');
+  }
+  return problems;
+}
+
+function ListInput({
+  label,
+  placeholder,
+  values,
+  onChange,
+}: {
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <label className="block text-gray-300 text-sm mb-2">{label}</label>
+      <div className="flex space-x-2 mb-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder={placeholder}
+          className={INPUT_CLASS}
+        />
+        <button type="button" onClick={add} className="px-4 glass-effect rounded-xl text-gray-300 hover:text-white">
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {values.map((value) => (
+          <span key={value} className="flex items-center space-x-1 px-3 py-1 bg-white/10 text-white text-sm rounded-full">
+            <span>{value}</span>
+            <button type="button" onClick={() => onChange(values.filter((v) => v !== value))} className="text-gray-400 hover:text-white">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ReviewRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 border-b border-white/10 text-sm">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-white text-right">{children}</span>
+    </div>
+  );
+}
+
+export default function EventEditor() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [form, setForm] = useState<EventForm>(EMPTY_FORM);
+  const [hadStream, setHadStream] = useState(false);
+  const [step, setStep] = useState<Step>('details');
+  const [bookings, setBookings] = useState<BookingWithDetails[]>([]);
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [registeredCount, setRegisteredCount] = useState(0);
+  const [loading, setLoading] = useState(!!eventId);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    const loadEvent = async () => {
+      try {
+        const [eventData, myBookings] = await Promise.all([
+          eventId ? fetchEventById(eventId) : Promise.resolve(null),
+          fetchMyProviderBookings(user.id),
+        ]);
+        if (!isMounted) return;
+        setBookings(myBookings.filter((booking) => booking.status !== 'cancelled'));
+
+        if (eventData && eventData.organizer_id === user.id) {
+          const [stream, types, stats] = await Promise.all([
+            fetchEventStreamSettings(eventData.id),
+            fetchTicketTypes(eventData.id),
+            fetchRegistrationStats([eventData.id]),
+          ]);
+          if (!isMounted) return;
+          setEvent(eventData);
+          setTicketTypes(types);
+          setRegisteredCount(stats[eventData.id]?.registered_count || 0);
+          setForm({
+            ...toForm(eventData),
+            playbackUrl: stream?.playback_url || '',
+            replayUrl: stream?.replay_url || '',
+            minTier: stream?.min_tier || 'premium',
+          });
+          setHadStream(!!stream);
+        }
+      } catch (error) {
+        console.error('Error loading event:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadEvent();
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, user]);
+
+  const update = <K extends keyof EventForm>(key: K, value: EventForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const handleCoverChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+    if (!file.type.startsWith('image/')) {
+      alert('Please choose an image file.');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      update('imageUrl', await uploadEventCover(user.id, file));
+    } catch (error: any) {
+      console.error('Error uploading cover:', error);
+      alert(error.message || 'Failed to upload cover image. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Saves the form and returns the stored event, or null when validation failed
+  const saveEvent = async (): Promise<Event | null> => {
+    if (!user) return null;
+    if (!form.title.trim() || !form.date) {
+      alert('Please add a title and a date before saving.');
+      return null;
+    }
+
+    const input: Omit<EventInput, 'price'> = {
+      title: form.title.trim(),
+      description: form.description.trim(),
+      category: form.category,
+      ...buildEventSchedule(form.date, form.startTime, form.endTime, form.timezone),
+      location: form.isLivestream ? form.location.trim() || 'Virtual Event' : form.location.trim(),
+      image_url: form.imageUrl,
+      capacity: Number(form.capacity) > 0 ? Math.round(Number(form.capacity)) : null,
+      features: form.features,
+      speakers: form.speakers,
+      is_livestream: form.isLivestream,
+    };
+
+    // Once ticket types exist they own the price; the database keeps events.price at the cheapest one
+    const price = Math.max(0, Math.round(form.price));
+    const saved = event
+      ? await updateEvent(event.id, ticketTypes.length > 0 ? input : { ...input, price })
+      : await createEvent(user.id, user.name, { ...input, price });
+
+    if (form.isLivestream && form.playbackUrl.trim()) {
+      await saveEventStreamSettings({
+        event_id: saved.id,
+        playback_url: form.playbackUrl.trim(),
+        replay_url: form.replayUrl.trim() || null,
+        min_tier: form.minTier,
+      });
+      setHadStream(true);
+    } else if (!form.isLivestream && hadStream) {
+      await deleteEventStream(saved.id);
+      setHadStream(false);
+    }
+
+    setEvent(saved);
+    if (!event) navigate(`/events/${saved.id}/edit`, { replace: true });
+    return saved;
+  };
+
+  const handleSaveDraft = async () => {
+    setSaving(true);
+    try {
+      await saveEvent();
+    } catch (error: any) {
+      console.error('Error saving event:', error);
+      alert(error.message || 'Failed to save event. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePublish = async (published: boolean) => {
+    if (published) {
+      const problems = publishProblems(form);
+      if (problems.length > 0) {
+        alert(`Before publishing:\n\n• ${problems.join('\n• ')}`);
+        return;
+      }
+    } else {
+      if (!event) return;
+      try {
+        const stats = await fetchRegistrationStats([event.id]);
+        if (stats[event.id]?.registered_count > 0) {
+          alert('People have already registered for this event, so it has to stay published for their tickets to keep working.');
+          return;
+        }
+      } catch (error) {
+        // The database refuses the unpublish anyway; let it report the problem
+        console.error('Error checking registrations:', error);
+      }
+      if (!window.confirm('Unpublish this event? It will be hidden from the Events page until you publish it again.')) return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = published ? await saveEvent() : event;
+      if (saved) setEvent(await setEventPublished(saved.id, published));
+    } catch (error: any) {
+      console.error('Error publishing event:', error);
+      alert(error.message || 'Failed to update event. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!event || !window.confirm(`Delete "${event.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteEvent(event.id);
+      navigate('/account/events');
+    } catch (error: any) {
+      console.error('Error deleting event:', error);
+      alert(error.message || 'Failed to delete event. Please try again.');
+    }
+  };
+
+  const handleToggleBooking = async (booking: BookingWithDetails) => {
+    if (!event) return;
+    const linked = booking.event_id === event.id;
+
+    setLinkingId(booking.id);
+    try {
+      const updated = await linkBookingToEvent(booking.id, linked ? null : event.id);
+      setBookings((prev) =>
+        prev.map((b) =>
+          b.id === updated.id
+            ? { ...b, ...updated, event: linked ? null : { id: event.id, title: event.title } }
+            : b
+        )
+      );
+    } catch (error: any) {
+      console.error('Error linking booking:', error);
+      alert(error.message || 'Failed to update booking. Please try again.');
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (eventId && !event) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-3xl mx-auto text-center py-12 glass-effect rounded-2xl">
+          <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">Event not found</h3>
+          <p className="text-gray-400 mb-4">Only the organizer can edit an event.</p>
+          <Link to="/account/events" className="text-rose-400 hover:text-rose-300">
+            Back to My Events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!eventId && user?.role !== 'creator') {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-3xl mx-auto text-center py-12 glass-effect rounded-2xl">
+          <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">Events are created by creators</h3>
+          <p className="text-gray-400 mb-4">Switch to your creator profile to organize an event.</p>
+          <Link to="/profile" className="text-rose-400 hover:text-rose-300">
+            Go to Profile Settings
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+  const problems = publishProblems(form);
+  const linkedBookings = event ? bookings.filter((booking) => booking.event_id === event.id) : [];
+  const isPublished = !!event?.published_at;
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <Link to="/account/events" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to My Events</span>
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-playfair font-bold text-white mb-2">{event ? 'Edit Event' : 'Create Event'}</h1>
+            <p className="text-gray-300">
+              {event ? (
+                <span
+                  className={`px-3 py-1 text-xs font-medium rounded-full ${
+                    isPublished ? 'bg-green-500/20 text-green-300' : 'bg-yellow-400/20 text-yellow-300'
+                  }`}
+                >
+                  {isPublished ? 'Published' : 'Draft'}
+                </span>
+              ) : (
+                'Drafts stay private until you publish them.'
+              )}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {event && (
+              <button
+                onClick={handleDelete}
+                disabled={registeredCount > 0}
+                title={registeredCount > 0 ? 'Events with active registrations cannot be deleted' : undefined}
+                className="px-4 py-2 glass-effect text-rose-400 hover:text-rose-300 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete</span>
+              </button>
+            )}
+            <button
+              onClick={handleSaveDraft}
+              disabled={saving}
+              className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : isPublished ? 'Save Changes' : 'Save Draft'}</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex space-x-1 mb-8 glass-effect p-2 rounded-xl overflow-x-auto">
+          {STEPS.map((s, i) => (
+            <button
+              key={s.id}
+              onClick={() => setStep(s.id)}
+              className={`flex-shrink-0 flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                step === s.id
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white shadow-lg'
+                  : 'text-gray-300 hover:text-white hover:bg-white/10'
+              }`}
+            >
+              <span className="w-5 h-5 rounded-full bg-white/20 text-xs flex items-center justify-center">{i + 1}</span>
+              <span>{s.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 space-y-6">
+          {step === 'details' && (
+            <>
+              <div>
+                <label className="block text-gray-300 text-sm mb-2">Title *</label>
+                <input
+                  value={form.title}
+                  onChange={(e) => update('title', e.target.value)}
+                  placeholder="e.g. Kampala Creators Mixer"
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-2">Category</label>
+                <div className="flex flex-wrap gap-2">
+                  {CATEGORIES.map((category) => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => update('category', category)}
+                      className={`px-4 py-2 rounded-lg text-sm capitalize transition-all ${
+                        form.category === category
+                          ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                          : 'glass-effect text-gray-300 hover:text-white'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-2">Description *</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => update('description', e.target.value)}
+                  rows={5}
+                  placeholder="What should attendees expect?"
+                  className={`${INPUT_CLASS} resize-none`}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-2">Cover Image</label>
+                {form.imageUrl ? (
+                  <div className="relative rounded-xl overflow-hidden">
+                    <img src={form.imageUrl} alt="Event cover" className="w-full h-56 object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => update('imageUrl', null)}
+                      className="absolute top-3 right-3 p-2 bg-black/60 rounded-full text-white hover:bg-black/80"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <label className="flex flex-col items-center justify-center h-40 glass-effect rounded-xl border border-dashed border-white/20 cursor-pointer hover:border-rose-400 transition-colors">
+                    {uploading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-400"></div>
+                    ) : (
+                      <>
+                        <Upload className="w-8 h-8 text-gray-400 mb-2" />
+                        <span className="text-gray-400 text-sm">Upload a cover image</span>
+                      </>
+                    )}
+                    <input type="file" accept="image/*" onChange={handleCoverChange} className="hidden" disabled={uploading} />
+                  </label>
+                )}
+              </div>
+            </>
+          )}
+
+          {step === 'schedule' && (
+            <>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-gray-300 text-sm mb-2">Date *</label>
+                  <input
+                    type="date"
+                    value={form.date}
+                    min={new Date().toLocaleDateString('en-CA')}
+                    onChange={(e) => update('date', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-gray-300 text-sm mb-2">Timezone</label>
+                  <select value={form.timezone} onChange={(e) => update('timezone', e.target.value)} className={INPUT_CLASS}>
+                    {Object.values(EVENT_TIMEZONES).map((zone) => (
+                      <option key={zone.tzid} value={zone.tzid} className="bg-gray-800">
+                        {zone.abbreviation} ({zone.tzid})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-gray-300 text-sm mb-2">Starts</label>
+                  <input type="time" value={form.startTime} onChange={(e) => update('startTime', e.target.value)} className={INPUT_CLASS} />
+                </div>
+                <div>
+                  <label className="block text-gray-300 text-sm mb-2">Ends</label>
+                  <input type="time" value={form.endTime} onChange={(e) => update('endTime', e.target.value)} className={INPUT_CLASS} />
+                </div>
+              </div>
+              <p className="text-gray-400 text-xs">
+                Leave the times empty for an all-day event. An end time before the start runs past midnight.
+              </p>
+
+              <div className="flex space-x-2">
+                {[false, true].map((isLivestream) => (
+                  <button
+                    key={String(isLivestream)}
+                    type="button"
+                    onClick={() => update('isLivestream', isLivestream)}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm transition-all ${
+                      form.isLivestream === isLivestream
+                        ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                        : 'glass-effect text-gray-300 hover:text-white'
+                    }`}
+                  >
+                    {isLivestream ? <Video className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+                    <span>{isLivestream ? 'Livestream' : 'In person'}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-gray-300 text-sm mb-2">{form.isLivestream ? 'Location (optional)' : 'Venue *'}</label>
+                <input
+                  value={form.location}
+                  onChange={(e) => update('location', e.target.value)}
+                  placeholder={form.isLivestream ? 'Virtual Event' : 'e.g. Kampala Serena Hotel'}
+                  className={INPUT_CLASS}
+                />
+              </div>
+
+              {form.isLivestream && (
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-gray-300 text-sm mb-2">Playback URL (HLS .m3u8 or DASH .mpd) *</label>
+                    <input
+                      value={form.playbackUrl}
+                      onChange={(e) => update('playbackUrl', e.target.value)}
+                      placeholder="https://..."
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-300 text-sm mb-2">Replay URL</label>
+                    <input
+                      value={form.replayUrl}
+                      onChange={(e) => update('replayUrl', e.target.value)}
+                      placeholder="Offered after the event ends"
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-gray-300 text-sm mb-2">Free to watch from</label>
+                    <select
+                      value={form.minTier}
+                      onChange={(e) => update('minTier', e.target.value as MembershipTier)}
+                      className={`${INPUT_CLASS} capitalize`}
+                    >
+                      {MEMBERSHIP_TIERS.map((tier) => (
+                        <option key={tier} value={tier} className="bg-gray-800">
+                          {tier} membership
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="md:col-span-2 text-gray-400 text-xs">
+                    Ticket holders can always watch; members at or above this tier can watch without a ticket.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'tickets' && (
+            <>
+              <div className="grid md:grid-cols-2 gap-4">
+                {ticketTypes.length === 0 && (
+                  <div>
+                    <label className="block text-gray-300 text-sm mb-2">Ticket price (UGX)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1000}
+                      value={form.price || ''}
+                      onChange={(e) => update('price', Math.max(0, Number(e.target.value)))}
+                      placeholder="0 for a free event"
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-gray-300 text-sm mb-2">Capacity</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.capacity}
+                    onChange={(e) => update('capacity', e.target.value)}
+                    placeholder="Unlimited"
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              </div>
+              {event ? (
+                <TicketTypesManager eventId={event.id} ticketTypes={ticketTypes} onTicketTypesChange={setTicketTypes} />
+              ) : (
+                <p className="text-gray-400 text-sm">
+                  Save a draft to add ticket tiers such as Early Bird, VIP or group tickets, and promo codes.
+                </p>
+              )}
+              <ListInput
+                label="Speakers"
+                placeholder="Add a speaker and press Enter"
+                values={form.speakers}
+                onChange={(speakers) => update('speakers', speakers)}
+              />
+              <ListInput
+                label="Features"
+                placeholder="e.g. Networking, Certificates, Recordings"
+                values={form.features}
+                onChange={(features) => update('features', features)}
+              />
+            </>
+          )}
+
+          {step === 'providers' &&
+            (event ? (
+              <>
+                <p className="text-gray-300 text-sm">
+                  Link service providers you booked in the Organize tab to this event so your plan stays in one place.
+                </p>
+                {bookings.length === 0 ? (
+                  <div className="text-center py-8">
+                    <ClipboardList className="w-12 h-12 text-gray-500 mx-auto mb-3" />
+                    <p className="text-gray-400 text-sm mb-2">You have no provider bookings yet.</p>
+                    <Link to="/events" className="text-rose-400 hover:text-rose-300 text-sm">
+                      Book providers from the Organize tab
+                    </Link>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {bookings.map((booking) => {
+                      const linked = booking.event_id === event.id;
+                      return (
+                        <label
+                          key={booking.id}
+                          className={`flex items-center justify-between p-4 rounded-xl cursor-pointer transition-colors ${
+                            linked ? 'bg-rose-500/10 border border-rose-400/40' : 'bg-white/5 border border-transparent'
+                          }`}
+                        >
+                          <div>
+                            <div className="text-white font-medium">{booking.provider.name}</div>
+                            <div className="text-gray-400 text-xs capitalize">
+                              {booking.provider.category} • {booking.status} •{' '}
+                              {new Date(`${booking.event_date}T00:00:00`).toLocaleDateString('en-US', {
+                                month: 'short',
+                                day: 'numeric',
+                                year: 'numeric',
+                              })}
+                              {booking.event && !linked && ` • linked to ${booking.event.title}`}
+                            </div>
+                          </div>
+                          <input
+                            type="checkbox"
+                            checked={linked}
+                            disabled={linkingId === booking.id}
+                            onChange={() => handleToggleBooking(booking)}
+                          />
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-gray-400 text-sm">Save a draft first, then link the providers you booked for it.</p>
+            ))}
+
+          {step === 'review' && (
+            <>
+              {form.imageUrl ? (
+                <img src={form.imageUrl} alt="Event cover" className="w-full h-48 object-cover rounded-xl" />
+              ) : (
+                <div className="w-full h-32 glass-effect rounded-xl flex items-center justify-center text-gray-500">
+                  <ImageIcon className="w-8 h-8" />
+                </div>
+              )}
+              <div>
+                <ReviewRow label="Title">{form.title || '—'}</ReviewRow>
+                <ReviewRow label="Category">
+                  <span className="capitalize">{form.category}</span>
+                </ReviewRow>
+                <ReviewRow label="When">
+                  {form.date
+                    ? `${form.date} • ${buildEventSchedule(form.date, form.startTime, form.endTime, form.timezone).time || 'All day'}`
+                    : '—'}
+                </ReviewRow>
+                <ReviewRow label={form.isLivestream ? 'Livestream' : 'Venue'}>
+                  {form.isLivestream ? (form.playbackUrl ? `Free from ${form.minTier}` : '—') : form.location || '—'}
+                </ReviewRow>
+                <ReviewRow label="Price">
+                  {ticketTypes.length > 0
+                    ? ticketTypes
+                        .map((type) => `${type.name}: ${type.price > 0 ? `UGX ${type.price.toLocaleString()}` : 'Free'}`)
+                        .join(', ')
+                    : form.price > 0
+                      ? `UGX ${form.price.toLocaleString()}`
+                      : 'Free'}
+                </ReviewRow>
+                <ReviewRow label="Capacity">{form.capacity || 'Unlimited'}</ReviewRow>
+                <ReviewRow label="Speakers">{form.speakers.join(', ') || '—'}</ReviewRow>
+                <ReviewRow label="Providers">{linkedBookings.map((b) => b.provider.name).join(', ') || '—'}</ReviewRow>
+              </div>
+
+              {problems.length > 0 && !isPublished && (
+                <div className="p-4 bg-yellow-400/10 border border-yellow-400/30 rounded-xl">
+                  <p className="text-yellow-300 text-sm font-medium mb-2">Before you can publish:</p>
+                  <ul className="text-yellow-200 text-sm list-disc list-inside space-y-1">
+                    {problems.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {isPublished ? (
+                  <button
+                    onClick={() => handlePublish(false)}
+                    disabled={saving}
+                    className="px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    <EyeOff className="w-5 h-5" />
+                    <span>Unpublish</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handlePublish(true)}
+                    disabled={saving || problems.length > 0}
+                    className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                    <span>{saving ? 'Publishing...' : 'Publish Event'}</span>
+                  </button>
+                )}
+                {isPublished && (
+                  <Link
+                    to="/events"
+                    className="px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2"
+                  >
+                    <Eye className="w-5 h-5" />
+                    <span>View on Events</span>
+                  </Link>
+                )}
+                {event && (
+                  <Link
+                    to={`/events/${event.id}/check-in`}
+                    className="px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2"
+                  >
+                    <Ticket className="w-5 h-5" />
+                    <span>Check-in</span>
+                  </Link>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-between mt-6">
+          <button
+            onClick={() => setStep(STEPS[stepIndex - 1].id)}
+            disabled={stepIndex === 0}
+            className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-0"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </button>
+          {stepIndex < STEPS.length - 1 && (
+            <button
+              onClick={() => setStep(STEPS[stepIndex + 1].id)}
+              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
+            >
+              <span>Next</span>
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
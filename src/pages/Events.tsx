@@ -1,14 +1,42 @@
-import React, { useState } from 'react';
-import { Users, Briefcase, Video, Image as ImageIcon } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Users, Briefcase, Video, Image as ImageIcon, CalendarPlus } from 'lucide-react';
 import JoinTab from '../components/JoinTab';
 import LivestreamTab from '../components/LivestreamTab';
 import OrganizeTab from '../components/OrganizeTab';
 import MemoriesTab from '../components/MemoriesTab';
+import { useAuth } from '../context/AuthContext';
+import { countEvents } from '../lib/events';
 
 export default function Events() {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'join' | 'livestream' | 'organize' | 'memories'>('join');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
+  const [eventCounts, setEventCounts] = useState<Partial<Record<'join' | 'livestream', number>>>({});
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCounts = async () => {
+      try {
+        const filters = { searchQuery, category: selectedCategory };
+        const [join, livestream] = await Promise.all([
+          countEvents({ ...filters, status: 'upcoming' }),
+          countEvents({ ...filters, isLivestream: true }),
+        ]);
+        if (isMounted) setEventCounts({ join, livestream });
+      } catch (error) {
+        console.error('Error counting events:', error);
+      }
+    };
+
+    const t = setTimeout(loadCounts, 300);
+    return () => {
+      isMounted = false;
+      clearTimeout(t);
+    };
+  }, [searchQuery, selectedCategory]);
 
   const tabs = [
     { id: 'join' as const, label: 'Join', icon: <Users className="w-4 h-4" /> },
@@ -27,6 +55,15 @@ export default function Events() {
               Don't miss early bird tickets. Share with friends for more vibes and get rewards.
             </p>
           </div>
+          {user?.role === 'creator' && (
+            <Link
+              to="/events/new"
+              className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2 self-start md:self-auto"
+            >
+              <CalendarPlus className="w-5 h-5" />
+              <span>Create Event</span>
+            </Link>
+          )}
         </div>
 
         <div className="flex space-x-1 mb-8 glass-effect p-2 rounded-xl overflow-x-auto">
@@ -42,6 +79,11 @@ export default function Events() {
             >
               {tab.icon}
               <span>{tab.label}</span>
+              {(tab.id === 'join' || tab.id === 'livestream') && eventCounts[tab.id] !== undefined && (
+                <span className="px-2 py-0.5 bg-white/20 text-white text-xs rounded-full">
+                  {eventCounts[tab.id]}
+                </span>
+              )}
             </button>
           ))}
         </div>
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Clock, Lock, PlayCircle, Radio, XCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { fetchEventById, type Event } from '../lib/events';
+import { getEventStream, recordStreamHeartbeat, type StreamAccess } from '../lib/livestream';
+import { getEventTimes, getCountdown, formatEventDate, formatEventTimeRange } from '../lib/eventTime';
+import StreamPlayer from '../components/StreamPlayer';
+import LiveChat from '../components/LiveChat';
+
+export default function LivestreamPlayer() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const { user } = useAuth();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [access, setAccess] = useState<StreamAccess | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [nowTime, setNowTime] = useState(Date.now());
+  const [reloadKey, setReloadKey] = useState(0);
+  const [playbackSeconds, setPlaybackSeconds] = useState(0);
+
+  useEffect(() => {
+    if (!eventId) return;
+    let isMounted = true;
+
+    const loadData = async () => {
+      try {
+        const [eventData, streamData] = await Promise.all([
+          fetchEventById(eventId),
+          getEventStream(eventId).catch((error: any) => {
+            if (isMounted) setAccessError(error.message || 'This livestream is not available.');
+            return null;
+          }),
+        ]);
+        if (!isMounted) return;
+        setEvent(eventData);
+        setAccess(streamData);
+        if (streamData) setAccessError(null);
+      } catch (error) {
+        console.error('Error loading livestream:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadData();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, user, reloadKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNowTime(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const isLive = access?.mode === 'live';
+
+  useEffect(() => {
+    if (!eventId || !user || !isLive) return;
+
+    const beat = () =>
+      recordStreamHeartbeat(eventId).catch((error) => console.error('Error recording stream heartbeat:', error));
+    beat();
+    const heartbeat = setInterval(beat, 60000);
+    return () => clearInterval(heartbeat);
+  }, [eventId, user, isLive]);
+
+  // Ask the server again when the waiting room opens or the broadcast ends, so the URL it hands out
+  // always matches the event's current state.
+  const transitionAt =
+    access?.mode === 'waiting' ? new Date(access.starts_at).getTime()
+      : access?.mode === 'live' ? new Date(access.ends_at).getTime()
+        : null;
+
+  useEffect(() => {
+    if (transitionAt === null) return;
+    const timeout = setTimeout(() => setReloadKey((key) => key + 1), Math.max(0, transitionAt - Date.now()) + 1000);
+    return () => clearTimeout(timeout);
+  }, [transitionAt]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (!event || !event.is_livestream) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-3xl mx-auto text-center py-12 glass-effect rounded-2xl">
+          <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">
+            {event ? 'This event is not being livestreamed' : 'Event not found'}
+          </h3>
+          <Link to="/events" className="text-rose-400 hover:text-rose-300">
+            Back to Events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const times = getEventTimes(event);
+  const countdown = access?.mode === 'waiting' ? getCountdown(new Date(access.starts_at), nowTime) : null;
+  const membershipPath = user?.account_type === 'creator' ? '/creator-membership' : '/member-membership';
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/events" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Events</span>
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-playfair font-bold text-white mb-2">{event.title}</h1>
+            <p className="text-gray-300">
+              by {event.organizer} • {formatEventDate(times)} • {formatEventTimeRange(times)}
+            </p>
+          </div>
+          {access?.mode === 'live' && (
+            <span className="self-start md:self-auto px-3 py-1 bg-red-500 text-white text-sm font-medium rounded-full animate-pulse flex items-center space-x-1">
+              <Radio className="w-4 h-4" />
+              <span>LIVE</span>
+            </span>
+          )}
+          {access?.mode === 'replay' && (
+            <span className="self-start md:self-auto px-3 py-1 glass-effect text-gray-200 text-sm font-medium rounded-full flex items-center space-x-1">
+              <PlayCircle className="w-4 h-4" />
+              <span>Replay</span>
+            </span>
+          )}
+        </div>
+
+        {accessError ? (
+          <div className="text-center py-12 glass-effect rounded-2xl">
+            <Lock className="w-16 h-16 text-rose-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">Livestream locked</h3>
+            <p className="text-gray-300 mb-6">{accessError}</p>
+            <Link
+              to={membershipPath}
+              className="inline-block px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-semibold hover:shadow-lg transition-all"
+            >
+              Upgrade Membership
+            </Link>
+          </div>
+        ) : access?.mode === 'waiting' ? (
+          <div className="relative aspect-video rounded-2xl overflow-hidden bg-gray-800">
+            {event.image_url && (
+              <img src={event.image_url} alt={event.title} className="absolute inset-0 w-full h-full object-cover opacity-40" />
+            )}
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-6">
+              <Clock className="w-12 h-12 text-rose-400 mb-4" />
+              <h3 className="text-2xl font-semibold text-white mb-2">Waiting room</h3>
+              <p className="text-gray-200 mb-4">The stream starts in</p>
+              {countdown ? (
+                <div className="text-3xl md:text-5xl font-mono font-bold text-white">
+                  {countdown.days > 0 && `${countdown.days}d `}
+                  {String(countdown.hours).padStart(2, '0')}:{String(countdown.minutes).padStart(2, '0')}:
+                  {String(countdown.seconds).padStart(2, '0')}
+                </div>
+              ) : (
+                <div className="text-xl text-white">Starting any moment...</div>
+              )}
+            </div>
+          </div>
+        ) : access?.mode === 'live' || access?.mode === 'replay' ? (
+          <div className="grid lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <StreamPlayer
+                url={access.url}
+                live={access.mode === 'live'}
+                poster={event.image_url}
+                onTimeUpdate={access.mode === 'replay' ? setPlaybackSeconds : undefined}
+              />
+            </div>
+            {/* Replays assume the recording starts at the scheduled start time */}
+            <LiveChat eventId={event.id} startsAt={times.start} mode={access.mode} playbackSeconds={playbackSeconds} />
+          </div>
+        ) : (
+          <div className="text-center py-12 glass-effect rounded-2xl">
+            <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">This livestream has ended</h3>
+            <p className="text-gray-400">No replay is available for this event.</p>
+          </div>
+        )}
+
+        <div className="glass-effect p-6 rounded-2xl mt-6">
+          <h2 className="text-lg font-semibold text-white mb-2">About this event</h2>
+          <p className="text-gray-300">{event.description}</p>
+          {event.speakers.length > 0 && (
+            <p className="text-gray-400 text-sm mt-3">Speakers: {event.speakers.join(', ')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
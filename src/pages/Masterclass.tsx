@@ -18,6 +18,15 @@ import {
   Briefcase
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import {
+  parseEventTimes,
+  getEventStatus,
+  formatEventDate,
+  formatEventTimeRange,
+  formatViewerTimeRange,
+  formatRelativeStart,
+  isViewerInTimezone,
+} from '../lib/eventTime';
 
 type ViewMode = 'courses' | 'workshops' | 'learning' | 'teaching' | 'mentorship';
 type LayoutMode = 'grid' | 'list';
@@ -43,8 +52,8 @@ type Masterclass = {
 type Workshop = {
   id: number;
   title: string;
-  date: string;
-  time: string;
+  date: string; // YYYY-MM-DD
+  time: string; // '2:00 PM - 5:00 PM EAT', parsed by lib/eventTime
   duration: string;
   instructor: string;
   spots: number;
@@ -449,8 +458,8 @@ export default function Masterclass() {
       {
         id: 1,
         title: 'Creative Bootcamp',
-        date: 'November 15, 2025',
-        time: '2:00 PM EAT',
+        date: '2025-11-15',
+        time: '2:00 PM - 5:00 PM EAT',
         duration: '3 hours',
         instructor: 'Alex Chen',
         spots: 25,
@@ -461,8 +470,8 @@ export default function Masterclass() {
       {
         id: 2,
         title: 'Personal Branding Workshop',
-        date: 'November 20, 2025',
-        time: '10:00 AM EAT',
+        date: '2025-11-20',
+        time: '10:00 AM - 2:00 PM EAT',
         duration: '4 hours',
         instructor: 'Maya Patel',
         spots: 15,
@@ -474,8 +483,8 @@ export default function Masterclass() {
       {
         id: 3,
         title: 'Litflex - Multimedia Analytica',
-        date: 'December 5, 2025',
-        time: '4:00 PM EAT',
+        date: '2025-12-05',
+        time: '4:00 PM - 7:00 PM EAT',
         duration: '3 hours',
         instructor: 'Rouje Gerard',
         spots: 30,
@@ -850,35 +859,54 @@ export default function Masterclass() {
 
         {viewMode === 'workshops' && (
           <div className={workshopContainerClass}>
-            {sortedWorkshops.map((workshop) => (
-              <div
-                key={workshop.id}
-                className={`glass-effect rounded-2xl overflow-hidden hover-lift transition-all p-6 ${
-                  layoutMode === 'list' ? 'md:flex md:items-center md:justify-between' : ''
-                }`}
-              >
-                <div>
-                  <h3 className="text-xl font-semibold text-white mb-2">{workshop.title}</h3>
-                  <div className="text-gray-300 text-sm space-y-1">
-                    <div>{workshop.date} at {workshop.time}</div>
-                    <div>{workshop.duration} • {workshop.spots} spots left</div>
-                    <div>by {workshop.instructor}</div>
-                  </div>
-                </div>
-                <div className="mt-4 md:mt-0 md:text-right">
-                  <div className="flex items-center justify-start md:justify-end gap-2 text-sm text-gray-300 mb-2">
-                    <MapPin className="w-4 h-4" />
-                    <span>{workshop.location}</span>
+            {sortedWorkshops.map((workshop) => {
+              const times = parseEventTimes(workshop.date, workshop.time);
+              const isPast = getEventStatus(times) === 'past';
+              return (
+                <div
+                  key={workshop.id}
+                  className={`glass-effect rounded-2xl overflow-hidden hover-lift transition-all p-6 ${
+                    layoutMode === 'list' ? 'md:flex md:items-center md:justify-between' : ''
+                  }`}
+                >
+                  <div>
+                    <h3 className="text-xl font-semibold text-white mb-2">{workshop.title}</h3>
+                    <div className="text-gray-300 text-sm space-y-1">
+                      <div>
+                        {formatEventDate(times, { weekday: 'short', month: 'short' })} at {formatEventTimeRange(times)}
+                      </div>
+                      {!isViewerInTimezone(times.timezone, times.start) && (
+                        <div className="text-gray-400 text-xs">{formatViewerTimeRange(times)}</div>
+                      )}
+                      <div>
+                        {workshop.duration} • {workshop.spots} spots left •{' '}
+                        <span className="text-rose-400">{formatRelativeStart(times)}</span>
+                      </div>
+                      <div>by {workshop.instructor}</div>
+                    </div>
                   </div>
-                  <div className="flex items-center justify-between md:justify-end md:gap-4">
-                    <span className="text-rose-400 font-bold">UGX --</span>
-                    <button className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all">
-                      Register
-                    </button>
+                  <div className="mt-4 md:mt-0 md:text-right">
+                    <div className="flex items-center justify-start md:justify-end gap-2 text-sm text-gray-300 mb-2">
+                      <MapPin className="w-4 h-4" />
+                      <span>{workshop.location}</span>
+                    </div>
+                    <div className="flex items-center justify-between md:justify-end md:gap-4">
+                      <span className="text-rose-400 font-bold">UGX --</span>
+                      <button
+                        disabled={isPast}
+                        className={`px-4 py-2 text-sm rounded-lg transition-all ${
+                          isPast
+                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                            : 'bg-gradient-to-r from-rose-500 to-purple-600 text-white hover:shadow-lg'
+                        }`}
+                      >
+                        {isPast ? 'Ended' : 'Register'}
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
             {filteredWorkshops.length === 0 && (
               <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">
                 No workshops match your filters right now.
@@ -1,47 +1,40 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Play, Image, Headphones, ShoppingBag, Heart, Share2, MessageCircle, Eye, Filter, Search, Star, Download, Rss } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabaseClient';
-
-interface MediaItem {
-  id: string;
-  title: string;
-  creator_name: string;
-  thumbnail_url: string;
-  duration?: string;
-  read_time?: string;
-  category: string;
-  type: string;
-  content_type: string;
-  description: string;
-  price?: number;
-  rating: number;
-  is_premium: boolean;
-  views_count: number;
-  plays_count: number;
-  sales_count: number;
-  likes_count?: number;
-  is_liked?: boolean;
-  is_following?: boolean;
-}
+import { fetchMyFollows, followCreator, unfollowCreator } from '../lib/follows';
+import {
+  fetchMediaPage,
+  fetchMyLikes,
+  likeMedia,
+  MEDIA_CATEGORIES,
+  mediaShareUrl,
+  searchMedia,
+  unlikeMedia,
+  type MediaCursor,
+  type MediaItem,
+  type MediaTab,
+} from '../lib/media';
+
+// Postgres changes filters accept at most 100 values in an `in` list
+const REALTIME_FILTER_LIMIT = 100;
 
 export default function Media() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('stream');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [mediaContent, setMediaContent] = useState<MediaItem[]>([]);
   const [loading, setLoading] = useState(true);
-
-  const categories = {
-    stream: ['all', 'movie', 'music-video', 'documentaries', 'lifestyle', 'Go Live'],
-    listen: ['all', 'greatest-of-all-time', 'latest-release', 'new-talent', 'DJ-mixtapes', 'UG-Unscripted', 'Afrobeat', 'hip-hop', 'RnB', 'Others'],
-    blog: ['all', 'interviews', 'lifestyle', 'product-reviews', 'others'],
-    gallery: ['all', 'design', 'photography', 'art', 'others'],
-    resources: ['all', 'templates', 'ebooks', 'software', 'presets']
-  };
+  const [nextCursor, setNextCursor] = useState<MediaCursor | null>(null);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped whenever the tab or category changes so pages requested for the previous feed are dropped
+  const feedVersion = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   const tabs = [
     { id: 'stream', label: 'Stream', icon: <Play className="w-5 h-5" /> },
@@ -51,139 +44,193 @@ export default function Media() {
     { id: 'resources', label: 'Resources', icon: <ShoppingBag className="w-5 h-5" /> }
   ];
 
+  // Search runs on the server, so wait for a pause in typing before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   useEffect(() => {
+    feedVersion.current += 1;
     fetchMediaContent();
-  }, [activeTab, user]);
+  }, [activeTab, selectedCategory, debouncedSearch, user]);
 
+  const hasMore = debouncedSearch ? nextOffset !== null : nextCursor !== null;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore) return;
+    const version = feedVersion.current;
+    setLoadingMore(true);
+    try {
+      if (debouncedSearch && nextOffset !== null) {
+        const page = await searchMedia(activeTab, debouncedSearch, { category: selectedCategory, offset: nextOffset });
+        if (version !== feedVersion.current) return;
+        // Relevance order can shift between requests, so skip anything already shown
+        setMediaContent((prev) => [...prev, ...page.items.filter((item) => !prev.some((m) => m.id === item.id))]);
+        setNextOffset(page.nextOffset);
+      } else if (nextCursor) {
+        const page = await fetchMediaPage(activeTab, { category: selectedCategory, after: nextCursor });
+        if (version !== feedVersion.current) return;
+        setMediaContent((prev) => [...prev, ...page.items]);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (error: any) {
+      console.error('Error fetching more media:', error);
+      // Stop paging rather than letting the still-visible sentinel retry in a loop
+      if (version === feedVersion.current) {
+        setNextCursor(null);
+        setNextOffset(null);
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, debouncedSearch, nextOffset, nextCursor, activeTab, selectedCategory]);
+
+  // Infinite scroll: fetch the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, loadingMore, loadMore]);
+
+  // Realtime channels can only filter on a bounded list of ids, so watch loaded items in chunks
+  const loadedIds = mediaContent.map((m) => m.id).join(',');
+  const loadedCreatorIds = [...new Set(mediaContent.map((m) => m.creator_id).filter((id): id is string => !!id))].join(',');
+
+  // Apply like/follow changes to the loaded items in place instead of refetching the feed
   useEffect(() => {
-    if (!user) return;
+    if (!user || !loadedIds) return;
+
+    const patch = (match: (m: MediaItem) => boolean, changes: (m: MediaItem) => Partial<MediaItem>) =>
+      setMediaContent((prev) => prev.map((m) => (match(m) ? { ...m, ...changes(m) } : m)));
+
+    const ids = loadedIds.split(',');
+    // Each run gets its own topic so the previous run's channel is fully removed before this one joins
+    let channel = supabase.channel(`media_feed_${user.id}_${crypto.randomUUID()}`);
+
+    for (let i = 0; i < ids.length; i += REALTIME_FILTER_LIMIT) {
+      const chunk = ids.slice(i, i + REALTIME_FILTER_LIMIT);
+      // Like and comment counts are maintained on media_content by triggers, so every change shows up here
+      channel = channel.on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'media_content', filter: `id=in.(${chunk.join(',')})` },
+        (payload) => {
+          const updated = payload.new as Pick<MediaItem, 'id' | 'likes_count' | 'comments_count'>;
+          patch(
+            (m) => m.id === updated.id,
+            () => ({ likes_count: updated.likes_count, comments_count: updated.comments_count })
+          );
+        }
+      );
+    }
+
+    // The viewer's own new likes and follows, e.g. from another tab
+    channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'media_likes', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const like = payload.new as { id: string; media_id: string };
+          patch((m) => m.id === like.media_id, () => ({ is_liked: true, my_like_id: like.id }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'creator_follows', filter: `follower_id=eq.${user.id}` },
+        (payload) => {
+          const follow = payload.new as { id: string; creator_id: string };
+          patch((m) => m.creator_id === follow.creator_id, () => ({ is_following: true, my_follow_id: follow.id }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadedIds]);
 
+  // DELETE events cannot be filtered, so rather than receiving everyone's unlikes and unfollows the
+  // feed re-reads the viewer's own likes and follows when they come back to this tab
+  useEffect(() => {
+    if (!user || !loadedIds) return;
     let isMounted = true;
-    let retryCount = 0;
-    const maxRetries = 3;
 
-    const setupSubscriptions = async () => {
+    const resync = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const ids = loadedIds.split(',');
       try {
-        const likesSubscription = supabase
-          .channel('media_likes_changes')
-          .on('postgres_changes', { event: '*', schema: 'public', table: 'media_likes' }, () => {
-            if (isMounted) fetchMediaContent();
-          })
-          .subscribe((status) => {
-            if (status === 'CHANNEL_ERROR' && retryCount < maxRetries) {
-              retryCount++;
-              setTimeout(setupSubscriptions, 2000 * retryCount);
-            }
-          });
-
-        const followsSubscription = supabase
-          .channel('creator_follows_changes')
-          .on('postgres_changes', { event: '*', schema: 'public', table: 'creator_follows' }, () => {
-            if (isMounted) fetchMediaContent();
+        const [likes, follows] = await Promise.all([
+          fetchMyLikes(user.id, ids),
+          fetchMyFollows(user.id, loadedCreatorIds ? loadedCreatorIds.split(',') : []),
+        ]);
+        if (!isMounted) return;
+        setMediaContent((prev) =>
+          prev.map((m) => {
+            if (!ids.includes(m.id)) return m;
+            const likeId = likes[m.id] ?? null;
+            const followId = (m.creator_id && follows[m.creator_id]) || null;
+            return {
+              ...m,
+              is_liked: likeId !== null,
+              my_like_id: likeId,
+              is_following: followId !== null,
+              my_follow_id: followId,
+            };
           })
-          .subscribe((status) => {
-            if (status === 'CHANNEL_ERROR' && retryCount < maxRetries) {
-              retryCount++;
-              setTimeout(setupSubscriptions, 2000 * retryCount);
-            }
-          });
-
-        return () => {
-          if (isMounted) {
-            likesSubscription.unsubscribe();
-            followsSubscription.unsubscribe();
-          }
-        };
+        );
       } catch (error) {
-        console.error('Error setting up subscriptions:', error);
+        console.error('Error refreshing likes and follows:', error);
       }
     };
 
-    const unsubscribe = setupSubscriptions();
-
+    document.addEventListener('visibilitychange', resync);
     return () => {
       isMounted = false;
-      unsubscribe?.then((unsub) => unsub?.());
+      document.removeEventListener('visibilitychange', resync);
     };
-  }, [user, activeTab]);
+  }, [user, loadedIds, loadedCreatorIds]);
 
   const fetchMediaContent = async () => {
+    // media_feed is only readable when signed in, like the media_content table behind it
+    if (!user) {
+      setMediaContent([]);
+      setNextCursor(null);
+      setNextOffset(null);
+      setLoading(false);
+      return;
+    }
+
+    const version = feedVersion.current;
     setLoading(true);
     try {
-      const { data: mediaData, error } = await supabase
-        .from('media_content')
-        .select('*')
-        .eq('type', activeTab)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-          console.log('Session expired, user needs to re-authenticate');
-        }
-        throw error;
-      }
-
-      if (!mediaData) {
-        setMediaContent([]);
-        return;
-      }
-
-      if (!user) {
-        const simpleData = mediaData.map((item) => ({
-          ...item,
-          likes_count: 0,
-          is_liked: false,
-          is_following: false,
-        }));
-        setMediaContent(simpleData);
-        return;
+      if (debouncedSearch) {
+        const { items, nextOffset } = await searchMedia(activeTab, debouncedSearch, { category: selectedCategory });
+        if (version !== feedVersion.current) return;
+        setMediaContent(items);
+        setNextCursor(null);
+        setNextOffset(nextOffset);
+      } else {
+        const { items, nextCursor } = await fetchMediaPage(activeTab, { category: selectedCategory });
+        if (version !== feedVersion.current) return;
+        setMediaContent(items);
+        setNextCursor(nextCursor);
+        setNextOffset(null);
       }
-
-      const enrichedData = await Promise.all(
-        mediaData.map(async (item) => {
-          try {
-            const [likesResult, userLikeResult, userFollowResult] = await Promise.all([
-              supabase
-                .from('media_likes')
-                .select('*', { count: 'exact', head: true })
-                .eq('media_id', item.id),
-              supabase
-                .from('media_likes')
-                .select('id')
-                .eq('media_id', item.id)
-                .eq('user_id', user.id)
-                .maybeSingle(),
-              supabase
-                .from('creator_follows')
-                .select('id')
-                .eq('creator_name', item.creator_name)
-                .eq('follower_id', user.id)
-                .maybeSingle(),
-            ]);
-
-            return {
-              ...item,
-              likes_count: likesResult.count || 0,
-              is_liked: !!userLikeResult.data,
-              is_following: !!userFollowResult.data,
-            };
-          } catch (itemError) {
-            console.error('Error enriching media item:', itemError);
-            return {
-              ...item,
-              likes_count: 0,
-              is_liked: false,
-              is_following: false,
-            };
-          }
-        })
-      );
-
-      setMediaContent(enrichedData);
     } catch (error: any) {
+      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
+        console.log('Session expired, user needs to re-authenticate');
+      }
       console.error('Error fetching media:', error);
     } finally {
-      setLoading(false);
+      if (version === feedVersion.current) setLoading(false);
     }
   };
 
@@ -197,116 +244,91 @@ export default function Media() {
     const item = mediaContent.find((m) => m.id === mediaId);
     if (!item) return;
 
+    // Update the count before the request so the absolute count from realtime, which may arrive
+    // before the response, is not adjusted a second time
+    const setLiked = (liked: boolean, likeId: string | null) =>
+      setMediaContent((prev) =>
+        prev.map((m) =>
+          m.id === mediaId
+            ? {
+                ...m,
+                is_liked: liked,
+                my_like_id: likeId,
+                likes_count: m.is_liked === liked ? m.likes_count : Math.max(0, m.likes_count + (liked ? 1 : -1)),
+              }
+            : m
+        )
+      );
+
+    setLiked(!item.is_liked, null);
     try {
       if (item.is_liked) {
-        const { error } = await supabase
-          .from('media_likes')
-          .delete()
-          .eq('media_id', mediaId)
-          .eq('user_id', user.id);
-
-        if (error) {
-          if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-            alert('Your session has expired. Please sign in again.');
-            navigate('/signin');
-            return;
-          }
-          throw error;
-        }
-
-        setMediaContent((prev) =>
-          prev.map((m) =>
-            m.id === mediaId
-              ? { ...m, is_liked: false, likes_count: Math.max(0, (m.likes_count || 0) - 1) }
-              : m
-          )
-        );
+        await unlikeMedia(user.id, mediaId);
       } else {
-        const { error } = await supabase
-          .from('media_likes')
-          .insert({ media_id: mediaId, user_id: user.id });
-
-        if (error) {
-          if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-            alert('Your session has expired. Please sign in again.');
-            navigate('/signin');
-            return;
-          }
-          throw error;
-        }
-
-        setMediaContent((prev) =>
-          prev.map((m) =>
-            m.id === mediaId
-              ? { ...m, is_liked: true, likes_count: (m.likes_count || 0) + 1 }
-              : m
-          )
-        );
+        const likeId = await likeMedia(user.id, mediaId);
+        if (likeId) setLiked(true, likeId);
+      }
+    } catch (error: any) {
+      setLiked(item.is_liked, item.my_like_id);
+      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
+        alert('Your session has expired. Please sign in again.');
+        navigate('/signin');
+        return;
       }
-    } catch (error) {
       console.error('Error toggling like:', error);
       alert('Failed to update like. Please try again.');
     }
   };
 
-  const handleFollow = async (creatorName: string) => {
+  const handleFollow = async (creatorId: string | null) => {
     if (!user) {
       alert('Please sign in to follow creators.');
       navigate('/signin');
       return;
     }
 
-    const item = mediaContent.find((m) => m.creator_name === creatorName);
-    if (!item) return;
+    const item = mediaContent.find((m) => m.creator_id === creatorId);
+    if (!creatorId || !item) return;
 
     try {
+      let followId: string | null = null;
       if (item.is_following) {
-        const { error } = await supabase
-          .from('creator_follows')
-          .delete()
-          .eq('creator_name', creatorName)
-          .eq('follower_id', user.id);
-
-        if (error) {
-          if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-            alert('Your session has expired. Please sign in again.');
-            navigate('/signin');
-            return;
-          }
-          throw error;
-        }
-
-        setMediaContent((prev) =>
-          prev.map((m) =>
-            m.creator_name === creatorName ? { ...m, is_following: false } : m
-          )
-        );
+        await unfollowCreator(user.id, creatorId);
       } else {
-        const { error } = await supabase
-          .from('creator_follows')
-          .insert({ creator_name: creatorName, follower_id: user.id });
-
-        if (error) {
-          if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-            alert('Your session has expired. Please sign in again.');
-            navigate('/signin');
-            return;
-          }
-          throw error;
-        }
+        followId = await followCreator(user.id, creatorId);
+      }
 
-        setMediaContent((prev) =>
-          prev.map((m) =>
-            m.creator_name === creatorName ? { ...m, is_following: true } : m
-          )
-        );
+      setMediaContent((prev) =>
+        prev.map((m) =>
+          m.creator_id === creatorId
+            ? { ...m, is_following: !item.is_following, my_follow_id: followId ?? (item.is_following ? null : m.my_follow_id) }
+            : m
+        )
+      );
+    } catch (error: any) {
+      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
+        alert('Your session has expired. Please sign in again.');
+        navigate('/signin');
+        return;
       }
-    } catch (error) {
       console.error('Error toggling follow:', error);
       alert('Failed to update follow status. Please try again.');
     }
   };
 
+  const handleShare = (item: MediaItem) => {
+    const shareData = {
+      title: item.title,
+      text: `${item.title} by ${item.creator_name}`,
+      url: mediaShareUrl(item.id),
+    };
+    if ((navigator as any).share) {
+      (navigator as any).share(shareData).catch(() => {});
+    } else {
+      navigator.clipboard?.writeText(shareData.url).then(() => alert('Link copied to clipboard'));
+    }
+  };
+
   const handleSubscribe = (creatorName: string) => {
     if (!user) {
       alert('Please sign in to subscribe.');
@@ -316,16 +338,6 @@ export default function Media() {
     alert('Premium subscription activated! Enjoy exclusive content.');
   };
 
-  const filteredContent = mediaContent.filter((item) => {
-    const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
-    const matchesSearch =
-      item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.creator_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.description?.toLowerCase().includes(searchQuery.toLowerCase());
-
-    return matchesCategory && matchesSearch;
-  });
-
   return (
     <div className="min-h-screen pt-20 pb-12 px-4">
       <div className="max-w-7xl mx-auto">
@@ -338,7 +350,10 @@ export default function Media() {
           {tabs.map((tab) => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
+              onClick={() => {
+                setActiveTab(tab.id);
+                setSelectedCategory('all');
+              }}
               className={`flex-shrink-0 flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all duration-300 ${
                 activeTab === tab.id
                   ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white shadow-lg'
@@ -370,7 +385,7 @@ export default function Media() {
               onChange={(e) => setSelectedCategory(e.target.value)}
               className="px-4 py-3 glass-effect rounded-xl border border-white/20 text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
             >
-              {categories[activeTab as keyof typeof categories]?.map((category) => (
+              {MEDIA_CATEGORIES[activeTab as MediaTab]?.map((category) => (
                 <option key={category} value={category} className="bg-gray-800">
                   {category.charAt(0).toUpperCase() + category.slice(1)}
                 </option>
@@ -386,9 +401,9 @@ export default function Media() {
           </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredContent.map((item) => (
+            {mediaContent.map((item) => (
               <div key={item.id} className="glass-effect rounded-2xl overflow-hidden hover-lift group">
-                <div className="relative aspect-video bg-gray-800">
+                <Link to={`/media/${item.id}`} className="block relative aspect-video bg-gray-800">
                   <img
                     src={item.thumbnail_url}
                     alt={item.title}
@@ -418,10 +433,14 @@ export default function Media() {
                       {item.read_time}
                     </div>
                   )}
-                </div>
+                </Link>
 
                 <div className="p-4">
-                  <h3 className="text-white font-semibold mb-2 line-clamp-2">{item.title}</h3>
+                  <h3 className="text-white font-semibold mb-2 line-clamp-2">
+                    <Link to={`/media/${item.id}`} className="hover:text-rose-400 transition-colors">
+                      {item.title}
+                    </Link>
+                  </h3>
                   <p className="text-gray-400 text-sm mb-3">{item.creator_name}</p>
 
                   <div className="flex items-center justify-between text-sm text-gray-400 mb-4">
@@ -446,7 +465,7 @@ export default function Media() {
                     {activeTab === 'blog' && (
                       <div className="flex items-center space-x-1">
                         <MessageCircle className="w-4 h-4" />
-                        <span>{item.views_count}</span>
+                        <span>{item.comments_count}</span>
                       </div>
                     )}
                     {activeTab === 'gallery' && (
@@ -480,8 +499,9 @@ export default function Media() {
                     ) : (
                       <>
                         <button
-                          onClick={() => handleFollow(item.creator_name)}
-                          className={`flex-1 py-2 rounded-lg hover:shadow-lg transition-all text-sm font-medium ${
+                          onClick={() => handleFollow(item.creator_id)}
+                          disabled={!item.creator_id || item.creator_id === user?.id}
+                          className={`flex-1 py-2 rounded-lg hover:shadow-lg transition-all text-sm font-medium disabled:opacity-50 ${
                             item.is_following
                               ? 'bg-gray-600 text-white'
                               : 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
@@ -497,7 +517,10 @@ export default function Media() {
                         >
                           <Heart className={`w-4 h-4 ${item.is_liked ? 'fill-current' : ''}`} />
                         </button>
-                        <button className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-colors">
+                        <button
+                          onClick={() => handleShare(item)}
+                          className="p-2 glass-effect text-gray-400 hover:text-white rounded-lg transition-colors"
+                        >
                           <Share2 className="w-4 h-4" />
                         </button>
                       </>
@@ -521,7 +544,14 @@ export default function Media() {
           </div>
         )}
 
-        {!loading && filteredContent.length === 0 && (
+        <div ref={sentinelRef} />
+        {loadingMore && (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-400 mx-auto"></div>
+          </div>
+        )}
+
+        {!loading && !hasMore && mediaContent.length === 0 && (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               {activeTab === 'stream' && <Play className="w-16 h-16 mx-auto mb-4" />}
@@ -530,8 +560,14 @@ export default function Media() {
               {activeTab === 'gallery' && <Image className="w-16 h-16 mx-auto mb-4" />}
               {activeTab === 'resources' && <ShoppingBag className="w-16 h-16 mx-auto mb-4" />}
             </div>
-            <h3 className="text-xl font-semibold text-white mb-2">No content available</h3>
-            <p className="text-gray-400">Check back later for new {activeTab} content!</p>
+            <h3 className="text-xl font-semibold text-white mb-2">
+              {debouncedSearch ? 'No matching content' : 'No content available'}
+            </h3>
+            <p className="text-gray-400">
+              {debouncedSearch
+                ? `Nothing in ${activeTab} matches "${debouncedSearch}". Try different words.`
+                : `Check back later for new ${activeTab} content!`}
+            </p>
           </div>
         )}
       </div>
@@ -0,0 +1,463 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BadgeCheck,
+  Download,
+  Eye,
+  FileText,
+  Headphones,
+  Heart,
+  Lock,
+  Maximize2,
+  Play,
+  Share2,
+  ShoppingBag,
+  Star,
+  User,
+  X,
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import StreamPlayer from '../components/StreamPlayer';
+import MediaComments from '../components/MediaComments';
+import { fetchCreatorProfile, followCreator, unfollowCreator, type CreatorProfile } from '../lib/follows';
+import {
+  fetchMediaItem,
+  fetchRelatedMedia,
+  likeMedia,
+  mediaShareUrl,
+  unlikeMedia,
+  type MediaItem,
+} from '../lib/media';
+import { MEDIA_OG_TYPES, setPageMeta } from '../lib/pageMeta';
+
+export default function MediaDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [item, setItem] = useState<MediaItem | null>(null);
+  const [creator, setCreator] = useState<CreatorProfile | null>(null);
+  const [related, setRelated] = useState<MediaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+
+  useEffect(() => {
+    // media_feed is only readable when signed in, like the Media page
+    if (!id || !user) {
+      setLoading(false);
+      return;
+    }
+    let isMounted = true;
+    setLoading(true);
+    setCreator(null);
+    setRelated([]);
+    setLightboxOpen(false);
+
+    const load = async () => {
+      try {
+        const media = await fetchMediaItem(id);
+        if (!isMounted) return;
+        setItem(media);
+        setLoading(false);
+        if (!media) return;
+
+        const [profile, relatedItems] = await Promise.all([
+          media.creator_id ? fetchCreatorProfile(media.creator_id) : Promise.resolve(null),
+          fetchRelatedMedia(media),
+        ]);
+        if (!isMounted) return;
+        setCreator(profile);
+        setRelated(relatedItems);
+      } catch (error) {
+        console.error('Error fetching media item:', error);
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id, user]);
+
+  useEffect(() => {
+    if (!item) return;
+    return setPageMeta({
+      title: item.title,
+      description: item.description || `By ${item.creator_name}`,
+      image: item.thumbnail_url,
+      url: window.location.href,
+      type: MEDIA_OG_TYPES[item.type],
+    });
+  }, [item]);
+
+  useEffect(() => {
+    if (!lightboxOpen) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLightboxOpen(false);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [lightboxOpen]);
+
+  const handleLike = async () => {
+    if (!user || !item) return;
+
+    const wasLiked = item.is_liked;
+    const setLiked = (liked: boolean, likeId: string | null) =>
+      setItem((prev) =>
+        prev && {
+          ...prev,
+          is_liked: liked,
+          my_like_id: likeId,
+          likes_count: prev.is_liked === liked ? prev.likes_count : Math.max(0, prev.likes_count + (liked ? 1 : -1)),
+        }
+      );
+
+    setLiked(!wasLiked, null);
+    try {
+      if (wasLiked) {
+        await unlikeMedia(user.id, item.id);
+      } else {
+        const likeId = await likeMedia(user.id, item.id);
+        if (likeId) setLiked(true, likeId);
+      }
+    } catch (error: any) {
+      setLiked(wasLiked, item.my_like_id);
+      console.error('Error toggling like:', error);
+      alert(error.message || 'Failed to update like. Please try again.');
+    }
+  };
+
+  const handleFollow = async () => {
+    if (!user || !item?.creator_id) return;
+
+    const wasFollowing = item.is_following;
+    try {
+      let followId: string | null = null;
+      if (wasFollowing) {
+        await unfollowCreator(user.id, item.creator_id);
+      } else {
+        followId = await followCreator(user.id, item.creator_id);
+      }
+
+      setItem((prev) => prev && { ...prev, is_following: !wasFollowing, my_follow_id: followId });
+      setCreator((prev) => prev && { ...prev, followers_count: Math.max(0, prev.followers_count + (wasFollowing ? -1 : 1)) });
+    } catch (error: any) {
+      console.error('Error toggling follow:', error);
+      alert(error.message || 'Failed to update follow status. Please try again.');
+    }
+  };
+
+  const handleShare = () => {
+    if (!item) return;
+    const shareData = {
+      title: item.title,
+      text: `${item.title} by ${item.creator_name}`,
+      url: mediaShareUrl(item.id),
+    };
+    if ((navigator as any).share) {
+      (navigator as any).share(shareData).catch(() => {});
+    } else {
+      navigator.clipboard?.writeText(shareData.url).then(() => alert('Link copied to clipboard'));
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-md mx-auto text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl px-6">
+          <Lock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">Sign in to view this content</h3>
+          <p className="text-gray-400 mb-6">Media on Talent Connections is available to members.</p>
+          <button
+            onClick={() => navigate('/signin')}
+            className="px-6 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all"
+          >
+            Sign In
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-20 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="min-h-screen pt-20 pb-12 px-4">
+        <div className="max-w-md mx-auto text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl px-6">
+          <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">Content not found</h3>
+          <p className="text-gray-400 mb-6">It may have been removed or is no longer available.</p>
+          <Link to="/media" className="text-rose-400 hover:text-rose-300">
+            Back to Media
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const locked = item.is_premium && user.tier === 'free';
+  const isOwnContent = item.creator_id === user.id;
+
+  const renderViewer = () => {
+    if (locked) {
+      return (
+        <div className="relative aspect-video rounded-2xl overflow-hidden bg-gray-800">
+          <img src={item.thumbnail_url} alt={item.title} className="w-full h-full object-cover opacity-40" />
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-6">
+            <Lock className="w-10 h-10 text-yellow-400 mb-3" />
+            <p className="text-white font-semibold mb-4">Premium content - Subscribe to unlock</p>
+            <Link
+              to="/member-membership"
+              className="px-6 py-2 bg-gradient-to-r from-yellow-400 to-orange-500 text-black text-sm font-bold rounded-lg"
+            >
+              Subscribe Now
+            </Link>
+          </div>
+        </div>
+      );
+    }
+
+    switch (item.type) {
+      case 'stream':
+        return item.content_url ? (
+          <StreamPlayer url={item.content_url} poster={item.thumbnail_url} />
+        ) : (
+          <img src={item.thumbnail_url} alt={item.title} className="w-full aspect-video object-cover rounded-2xl" />
+        );
+      case 'listen':
+        return (
+          <div className="flex flex-col sm:flex-row gap-6 items-center p-6 bg-gray-800 border border-gray-700 rounded-2xl">
+            <img src={item.thumbnail_url} alt={item.title} className="w-48 h-48 object-cover rounded-xl shadow-lg" />
+            <div className="flex-1 w-full">
+              <div className="flex items-center space-x-2 text-gray-400 text-sm mb-4">
+                <Headphones className="w-4 h-4" />
+                <span>{item.duration || 'Audio'}</span>
+              </div>
+              {item.content_url && <audio controls src={item.content_url} className="w-full" preload="metadata" />}
+            </div>
+          </div>
+        );
+      case 'gallery':
+        return (
+          <button
+            onClick={() => setLightboxOpen(true)}
+            className="relative block w-full rounded-2xl overflow-hidden bg-gray-800 group"
+            aria-label="View full size"
+          >
+            <img src={item.content_url || item.thumbnail_url} alt={item.title} className="w-full max-h-[70vh] object-contain" />
+            <div className="absolute top-3 right-3 p-2 bg-black/60 rounded-lg text-white opacity-0 group-hover:opacity-100 transition-opacity">
+              <Maximize2 className="w-5 h-5" />
+            </div>
+          </button>
+        );
+      case 'blog':
+        return <img src={item.thumbnail_url} alt={item.title} className="w-full aspect-video object-cover rounded-2xl" />;
+      default:
+        return (
+          <div className="relative aspect-video rounded-2xl overflow-hidden bg-gray-800">
+            <img src={item.thumbnail_url} alt={item.title} className="w-full h-full object-cover" />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/media" className="inline-flex items-center space-x-2 text-gray-300 hover:text-white mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Media</span>
+        </Link>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            {renderViewer()}
+
+            <div>
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                <div>
+                  <h1 className="text-3xl font-playfair font-bold text-white">{item.title}</h1>
+                  <div className="text-gray-400 text-sm mt-1 capitalize">
+                    {item.category} • {new Date(item.created_at).toLocaleDateString()}
+                    {item.type === 'blog' && item.read_time && ` • ${item.read_time}`}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleLike}
+                    className={`flex items-center space-x-2 px-4 py-2 glass-effect rounded-lg transition-colors ${
+                      item.is_liked ? 'text-rose-400' : 'text-gray-300 hover:text-white'
+                    }`}
+                  >
+                    <Heart className={`w-4 h-4 ${item.is_liked ? 'fill-current' : ''}`} />
+                    <span>{item.likes_count}</span>
+                  </button>
+                  <button
+                    onClick={handleShare}
+                    className="flex items-center space-x-2 px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors"
+                  >
+                    <Share2 className="w-4 h-4" />
+                    <span>Share</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-4 text-sm text-gray-400 mb-6">
+                {item.type === 'listen' ? (
+                  <span className="flex items-center space-x-1">
+                    <Play className="w-4 h-4" />
+                    <span>{item.plays_count.toLocaleString()} plays</span>
+                  </span>
+                ) : (
+                  <span className="flex items-center space-x-1">
+                    <Eye className="w-4 h-4" />
+                    <span>{item.views_count.toLocaleString()} views</span>
+                  </span>
+                )}
+              </div>
+
+              {item.type === 'resources' && (
+                <div className="flex flex-wrap items-center gap-4 p-6 mb-6 bg-gray-800 border border-gray-700 rounded-2xl">
+                  <div className="flex-1">
+                    <div className="text-rose-400 text-2xl font-bold">
+                      {item.price ? `UGX ${item.price.toLocaleString()}` : 'Free'}
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm text-gray-400 mt-1">
+                      <span className="flex items-center space-x-1">
+                        <Star className="w-4 h-4 text-yellow-400" />
+                        <span>{item.rating.toFixed(1)}</span>
+                      </span>
+                      <span>{item.sales_count.toLocaleString()} sold</span>
+                    </div>
+                  </div>
+                  {item.price ? (
+                    <button className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium flex items-center space-x-2">
+                      <ShoppingBag className="w-4 h-4" />
+                      <span>Buy Now</span>
+                    </button>
+                  ) : (
+                    item.content_url &&
+                    !locked && (
+                      <a
+                        href={item.content_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium flex items-center space-x-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        <span>Download</span>
+                      </a>
+                    )
+                  )}
+                </div>
+              )}
+
+              {item.description && (
+                <div
+                  className={`text-gray-300 whitespace-pre-line ${
+                    item.type === 'blog' ? 'text-lg leading-relaxed' : ''
+                  }`}
+                >
+                  {item.type === 'blog' && locked ? `${item.description.slice(0, 280)}…` : item.description}
+                </div>
+              )}
+            </div>
+
+            <MediaComments mediaId={item.id} creatorId={item.creator_id} />
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+              <div className="flex items-center space-x-4 mb-4">
+                <div className="w-14 h-14 rounded-full bg-gradient-to-r from-rose-500 to-purple-600 flex items-center justify-center overflow-hidden">
+                  {creator?.profile_image ? (
+                    <img src={creator.profile_image} alt={creator.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-7 h-7 text-white" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-1 text-white font-semibold">
+                    <span className="truncate">{creator?.name || item.creator_name}</span>
+                    {creator?.is_verified && <BadgeCheck className="w-4 h-4 text-rose-400 flex-shrink-0" />}
+                  </div>
+                  {creator && (
+                    <div className="text-gray-400 text-sm">
+                      {creator.followers_count.toLocaleString()} follower{creator.followers_count === 1 ? '' : 's'}
+                    </div>
+                  )}
+                </div>
+              </div>
+              {item.creator_id && !isOwnContent && (
+                <button
+                  onClick={handleFollow}
+                  className={`w-full py-2 rounded-lg hover:shadow-lg transition-all text-sm font-medium ${
+                    item.is_following ? 'bg-gray-600 text-white' : 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  }`}
+                >
+                  {item.is_following ? 'Following' : 'Follow'}
+                </button>
+              )}
+            </div>
+
+            {related.length > 0 && (
+              <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-4">More Like This</h2>
+                <div className="space-y-3">
+                  {related.map((relatedItem) => (
+                    <Link
+                      key={relatedItem.id}
+                      to={`/media/${relatedItem.id}`}
+                      className="flex gap-3 p-2 -mx-2 rounded-lg hover:bg-white/5 transition-colors"
+                    >
+                      <img
+                        src={relatedItem.thumbnail_url}
+                        alt={relatedItem.title}
+                        className="w-24 h-14 object-cover rounded flex-shrink-0"
+                      />
+                      <div className="min-w-0">
+                        <div className="text-white text-sm font-medium line-clamp-2">{relatedItem.title}</div>
+                        <div className="text-gray-400 text-xs truncate">{relatedItem.creator_name}</div>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {lightboxOpen && (
+        <div
+          className="fixed inset-0 bg-black/90 flex items-center justify-center z-50 p-4"
+          onClick={() => setLightboxOpen(false)}
+        >
+          <button
+            onClick={() => setLightboxOpen(false)}
+            className="absolute top-4 right-4 p-2 text-gray-300 hover:text-white"
+            aria-label="Close"
+          >
+            <X className="w-6 h-6" />
+          </button>
+          <img
+            src={item.content_url || item.thumbnail_url}
+            alt={item.title}
+            className="max-w-full max-h-full object-contain"
+            onClick={(e) => e.stopPropagation()}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Calendar, CalendarDays, CheckCircle, ClipboardList, Mail, Phone, XCircle, Inbox, Award, Star } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  fetchMyProviderBookings,
+  fetchOwnedProviders,
+  fetchIncomingProviderBookings,
+  updateProviderBookingStatus,
+  type BookingStatus,
+  type BookingWithDetails,
+  type ServiceProvider,
+} from '../lib/providers';
+import {
+  fetchMyProviderReviews,
+  createProviderReview,
+  updateProviderReview,
+  deleteProviderReview,
+  type ProviderReview,
+} from '../lib/reviews';
+import ProviderAvailabilityCalendar from '../components/ProviderAvailabilityCalendar';
+import { StarRating } from '../components/ProviderReviews';
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-400/20 text-yellow-300',
+  confirmed: 'bg-green-500/20 text-green-300',
+  completed: 'bg-blue-400/20 text-blue-300',
+  cancelled: 'bg-gray-600 text-gray-300',
+};
+
+const formatBookingDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export default function MyBookings() {
+  const { user } = useAuth();
+  const [view, setView] = useState<'booked' | 'requests' | 'availability'>('booked');
+  const [myBookings, setMyBookings] = useState<BookingWithDetails[]>([]);
+  const [ownedProviders, setOwnedProviders] = useState<ServiceProvider[]>([]);
+  const [requests, setRequests] = useState<BookingWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Record<string, ProviderReview>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reviewRating, setReviewRating] = useState(0);
+  const [reviewComment, setReviewComment] = useState('');
+  const [savingReview, setSavingReview] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    const loadBookings = async () => {
+      setLoading(true);
+      try {
+        const [booked, owned, myReviews] = await Promise.all([
+          fetchMyProviderBookings(user.id),
+          fetchOwnedProviders(user.id),
+          fetchMyProviderReviews(user.id),
+        ]);
+        const incoming = await fetchIncomingProviderBookings(owned.map((provider) => provider.id));
+        if (!isMounted) return;
+        setMyBookings(booked);
+        setReviews(Object.fromEntries(myReviews.map((review) => [review.booking_id, review])));
+        setOwnedProviders(owned);
+        setRequests(incoming);
+      } catch (error) {
+        console.error('Error fetching bookings:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadBookings();
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  const handleStatusChange = async (booking: BookingWithDetails, status: BookingStatus, prompt?: string) => {
+    if (prompt && !window.confirm(prompt)) return;
+
+    setUpdatingId(booking.id);
+    try {
+      const updated = await updateProviderBookingStatus(booking.id, status);
+      const apply = (list: BookingWithDetails[]) => list.map((b) => (b.id === updated.id ? { ...b, ...updated } : b));
+      setMyBookings(apply);
+      setRequests(apply);
+    } catch (error: any) {
+      console.error('Error updating booking:', error);
+      alert(error.message || 'Failed to update booking. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const startReview = (booking: BookingWithDetails) => {
+    const existing = reviews[booking.id];
+    setReviewingId(booking.id);
+    setReviewRating(existing?.rating ?? 0);
+    setReviewComment(existing?.comment ?? '');
+  };
+
+  const handleSaveReview = async (e: FormEvent, booking: BookingWithDetails) => {
+    e.preventDefault();
+    if (!user) return;
+    if (reviewRating < 1) {
+      alert('Please choose a star rating.');
+      return;
+    }
+
+    setSavingReview(true);
+    try {
+      const existing = reviews[booking.id];
+      const changes = { rating: reviewRating, comment: reviewComment.trim() };
+      const saved = existing
+        ? await updateProviderReview(existing.id, changes)
+        : await createProviderReview(user.id, { ...changes, provider_id: booking.provider_id, booking_id: booking.id });
+      setReviews((prev) => ({ ...prev, [booking.id]: saved }));
+      setReviewingId(null);
+    } catch (error: any) {
+      console.error('Error saving review:', error);
+      alert(error.message || 'Failed to save review. Please try again.');
+    } finally {
+      setSavingReview(false);
+    }
+  };
+
+  const handleDeleteReview = async (booking: BookingWithDetails) => {
+    const existing = reviews[booking.id];
+    if (!existing || !window.confirm('Delete your review?')) return;
+
+    try {
+      await deleteProviderReview(existing.id);
+      setReviews((prev) => {
+        const next = { ...prev };
+        delete next[booking.id];
+        return next;
+      });
+      setReviewingId(null);
+    } catch (error: any) {
+      console.error('Error deleting review:', error);
+      alert(error.message || 'Failed to delete review. Please try again.');
+    }
+  };
+
+  const renderReview = (booking: BookingWithDetails) => {
+    const review = reviews[booking.id];
+
+    if (reviewingId === booking.id) {
+      return (
+        <form onSubmit={(e) => handleSaveReview(e, booking)} className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+          <div className="text-white font-medium">Rate {booking.provider.name}</div>
+          <StarRating rating={reviewRating} onChange={setReviewRating} />
+          <textarea
+            value={reviewComment}
+            onChange={(e) => setReviewComment(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="How did it go? Your review is public."
+            className="w-full px-4 py-3 glass-effect rounded-xl border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400"
+          />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={savingReview}
+              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              {savingReview ? 'Saving...' : review ? 'Update Review' : 'Submit Review'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setReviewingId(null)}
+              className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!review) return null;
+
+    return (
+      <div className="mt-4 pt-4 border-t border-gray-700">
+        <div className="flex items-center justify-between mb-1">
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-400 text-sm">Your review</span>
+            <StarRating rating={review.rating} />
+          </div>
+          <div className="flex space-x-3 text-sm">
+            <button onClick={() => startReview(booking)} className="text-gray-400 hover:text-white">
+              Edit
+            </button>
+            <button onClick={() => handleDeleteReview(booking)} className="text-rose-400 hover:text-rose-300">
+              Delete
+            </button>
+          </div>
+        </div>
+        {review.comment && <p className="text-gray-300 text-sm whitespace-pre-line">{review.comment}</p>}
+        {review.reply && (
+          <div className="mt-2 pl-3 border-l-2 border-purple-400">
+            <div className="text-purple-300 text-xs font-medium mb-1">Response from {booking.provider.name}</div>
+            <p className="text-gray-300 text-sm whitespace-pre-line">{review.reply}</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderBooking = (booking: BookingWithDetails, asProvider: boolean) => {
+    const isUpdating = updatingId === booking.id;
+
+    return (
+      <div key={booking.id} className="bg-gray-800 border border-gray-700 rounded-2xl p-6">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <h3 className="text-xl font-semibold text-white">
+              {asProvider ? booking.customer?.name || 'Organizer' : booking.provider.name}
+            </h3>
+            <p className="text-gray-400 text-sm">
+              {asProvider ? booking.provider.name : booking.provider.category}
+              {booking.event && ` • ${booking.event.title}`}
+            </p>
+          </div>
+          <span className={`px-3 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[booking.status]}`}>
+            {booking.status}
+          </span>
+        </div>
+
+        <div className="grid sm:grid-cols-3 gap-2 text-sm text-gray-300 mb-4">
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-rose-400" />
+            <span>{formatBookingDate(booking.event_date)}</span>
+          </div>
+          {asProvider ? (
+            booking.customer?.email && (
+              <div className="flex items-center space-x-2">
+                <Mail className="w-4 h-4 text-rose-400" />
+                <span>{booking.customer.email}</span>
+              </div>
+            )
+          ) : (
+            <>
+              {booking.provider.contact_phone && (
+                <div className="flex items-center space-x-2">
+                  <Phone className="w-4 h-4 text-rose-400" />
+                  <span>{booking.provider.contact_phone}</span>
+                </div>
+              )}
+              {booking.provider.contact_email && (
+                <div className="flex items-center space-x-2">
+                  <Mail className="w-4 h-4 text-rose-400" />
+                  <span>{booking.provider.contact_email}</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {booking.notes && <p className="text-gray-300 text-sm mb-4 whitespace-pre-line">“{booking.notes}”</p>}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="text-sm text-gray-400">
+            {booking.quantity} × UGX {booking.unit_price.toLocaleString()} + UGX {booking.service_fee.toLocaleString()} fee
+            <div className="text-white font-semibold text-base">UGX {booking.total_cost.toLocaleString()}</div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {asProvider && booking.status === 'pending' && (
+              <>
+                <button
+                  onClick={() => handleStatusChange(booking, 'confirmed')}
+                  disabled={isUpdating}
+                  className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Accept</span>
+                </button>
+                <button
+                  onClick={() => handleStatusChange(booking, 'cancelled', 'Decline this booking request?')}
+                  disabled={isUpdating}
+                  className="px-4 py-2 glass-effect text-rose-400 hover:text-rose-300 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <XCircle className="w-4 h-4" />
+                  <span>Decline</span>
+                </button>
+              </>
+            )}
+            {asProvider && booking.status === 'confirmed' && (
+              <button
+                onClick={() => handleStatusChange(booking, 'completed', 'Mark this booking as completed?')}
+                disabled={isUpdating}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>Mark Completed</span>
+              </button>
+            )}
+            {(asProvider ? booking.status === 'confirmed' : ['pending', 'confirmed'].includes(booking.status)) && (
+              <button
+                onClick={() =>
+                  handleStatusChange(
+                    booking,
+                    'cancelled',
+                    asProvider ? 'Cancel this confirmed booking?' : `Cancel your booking with ${booking.provider.name}?`
+                  )
+                }
+                disabled={isUpdating}
+                className="px-4 py-2 glass-effect text-rose-400 hover:text-rose-300 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <XCircle className="w-4 h-4" />
+                <span>Cancel Booking</span>
+              </button>
+            )}
+            {!asProvider && booking.status === 'completed' && !reviews[booking.id] && reviewingId !== booking.id && (
+              <button
+                onClick={() => startReview(booking)}
+                className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
+              >
+                <Star className="w-4 h-4" />
+                <span>Leave a Review</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {!asProvider && renderReview(booking)}
+      </div>
+    );
+  };
+
+  const bookings = view === 'booked' ? myBookings : requests;
+  const pendingRequests = requests.filter((booking) => booking.status === 'pending').length;
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/account" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Account</span>
+        </Link>
+        <h1 className="text-4xl font-playfair font-bold text-white mb-2">My Bookings</h1>
+        <p className="text-gray-300 mb-8">Service providers you have booked, and requests for services you offer.</p>
+
+        {ownedProviders.length > 0 && (
+          <div className="flex items-center space-x-4 mb-6">
+            <button
+              onClick={() => setView('booked')}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
+                view === 'booked'
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  : 'glass-effect text-gray-300 hover:text-white'
+              }`}
+            >
+              <ClipboardList className="w-5 h-5" />
+              <span>Services I Booked</span>
+            </button>
+            <button
+              onClick={() => setView('requests')}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
+                view === 'requests'
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  : 'glass-effect text-gray-300 hover:text-white'
+              }`}
+            >
+              <Award className="w-5 h-5" />
+              <span>Requests</span>
+              {pendingRequests > 0 && (
+                <span className="px-2 py-0.5 bg-rose-500 text-white text-xs font-semibold rounded-full">
+                  {pendingRequests}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setView('availability')}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all ${
+                view === 'availability'
+                  ? 'bg-gradient-to-r from-rose-500 to-purple-600 text-white'
+                  : 'glass-effect text-gray-300 hover:text-white'
+              }`}
+            >
+              <CalendarDays className="w-5 h-5" />
+              <span>Availability</span>
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+          </div>
+        ) : view === 'availability' ? (
+          <div className="space-y-6">
+            {ownedProviders.map((provider) => (
+              <ProviderAvailabilityCalendar
+                key={provider.id}
+                provider={provider}
+                onUpdated={(updated) =>
+                  setOwnedProviders((prev) => prev.map((p) => (p.id === updated.id ? updated : p)))
+                }
+              />
+            ))}
+          </div>
+        ) : bookings.length === 0 ? (
+          <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+            <Inbox className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No bookings yet</h3>
+            {view === 'booked' ? (
+              <Link to="/events" className="text-rose-400 hover:text-rose-300">
+                Browse event service providers
+              </Link>
+            ) : (
+              <p className="text-gray-400">Booking requests for your services will show up here.</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">{bookings.map((booking) => renderBooking(booking, view === 'requests'))}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, BarChart3, Calendar, CalendarPlus, MapPin, Pencil, QrCode, Video } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { fetchEvents, type Event } from '../lib/events';
+import { getEventTimes, getEventStatus, formatEventDate } from '../lib/eventTime';
+
+export default function MyEvents() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    fetchEvents({ organizerId: user.id })
+      .then((data) => {
+        if (isMounted) setEvents(data);
+      })
+      .catch((error) => console.error('Error fetching events:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/account" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Account</span>
+        </Link>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-playfair font-bold text-white mb-2">My Events</h1>
+            <p className="text-gray-300">Events you organize, including unpublished drafts.</p>
+          </div>
+          {user?.role === 'creator' && (
+            <Link
+              to="/events/new"
+              className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
+            >
+              <CalendarPlus className="w-5 h-5" />
+              <span>Create Event</span>
+            </Link>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+            <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No events yet</h3>
+            <p className="text-gray-400">Events you create will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event) => {
+              const times = getEventTimes(event);
+              const status = getEventStatus(times);
+              return (
+                <div
+                  key={event.id}
+                  className="bg-gray-800 border border-gray-700 rounded-2xl p-6 flex flex-col md:flex-row gap-4 md:items-center"
+                >
+                  {event.image_url && (
+                    <img src={event.image_url} alt={event.title} className="w-full md:w-32 h-24 object-cover rounded-xl" />
+                  )}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="text-xl font-semibold text-white">{event.title}</h3>
+                      <span
+                        className={`px-3 py-1 text-xs font-medium rounded-full ${
+                          event.published_at ? 'bg-green-500/20 text-green-300' : 'bg-yellow-400/20 text-yellow-300'
+                        }`}
+                      >
+                        {event.published_at ? 'Published' : 'Draft'}
+                      </span>
+                      {status !== 'upcoming' && (
+                        <span className="px-3 py-1 text-xs font-medium rounded-full bg-gray-600 text-gray-300 capitalize">
+                          {status === 'happening' ? 'Happening now' : 'Ended'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-400">
+                      <span className="flex items-center space-x-1">
+                        <Calendar className="w-4 h-4 text-rose-400" />
+                        <span>{formatEventDate(times)}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        {event.is_livestream ? (
+                          <Video className="w-4 h-4 text-rose-400" />
+                        ) : (
+                          <MapPin className="w-4 h-4 text-rose-400" />
+                        )}
+                        <span>{event.location || 'No venue yet'}</span>
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {event.published_at && (
+                      <Link
+                        to={`/events/${event.id}/analytics`}
+                        className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        <span>Analytics</span>
+                      </Link>
+                    )}
+                    {event.published_at && (
+                      <Link
+                        to={`/events/${event.id}/check-in`}
+                        className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2"
+                      >
+                        <QrCode className="w-4 h-4" />
+                        <span>Check-in</span>
+                      </Link>
+                    )}
+                    <Link
+                      to={`/events/${event.id}/edit`}
+                      className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex items-center space-x-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      <span>Edit</span>
+                    </Link>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Ticket, Calendar, MapPin, Clock, ArrowLeft, XCircle, CalendarPlus, Copy, RefreshCw, Hourglass } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  fetchMyRegistrations,
+  cancelRegistration,
+  registerForEvent,
+  type RegistrationWithEvent,
+} from '../lib/registrations';
+import { fetchMyWaitlist, leaveWaitlist, type WaitlistEntryWithEvent } from '../lib/waitlist';
+import { downloadEventIcs, getCalendarFeedUrl, regenerateCalendarFeedUrl } from '../lib/calendar';
+import { getEventTimes, getEventStatus, formatEventDate, formatEventTimeRange } from '../lib/eventTime';
+import TicketQRCode from '../components/TicketQRCode';
+
+export default function MyTickets() {
+  const { user } = useAuth();
+  const [registrations, setRegistrations] = useState<RegistrationWithEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntryWithEvent[]>([]);
+  const [waitlistActionId, setWaitlistActionId] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let isMounted = true;
+
+    const loadTickets = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchMyRegistrations(user.id);
+        if (isMounted) setRegistrations(data);
+      } catch (error) {
+        console.error('Error fetching tickets:', error);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchMyWaitlist(user.id)
+      .then((entries) => {
+        if (isMounted) setWaitlist(entries);
+      })
+      .catch((error) => console.error('Error fetching waitlist:', error));
+
+    loadTickets();
+    return () => {
+      isMounted = false;
+    };
+  }, [user]);
+
+  const handleShowFeed = async () => {
+    if (!user) return;
+    try {
+      setFeedUrl(await getCalendarFeedUrl(user.id));
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      alert('Failed to load your calendar feed. Please try again.');
+    }
+  };
+
+  const handleResetFeed = async () => {
+    if (!user) return;
+    if (!window.confirm('Reset your calendar link? Calendars subscribed to the old link will stop updating.')) return;
+    try {
+      setFeedUrl(await regenerateCalendarFeedUrl());
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error);
+      alert('Failed to reset your calendar link. Please try again.');
+    }
+  };
+
+  const handleCancel = async (registration: RegistrationWithEvent) => {
+    if (!window.confirm(`Cancel your ticket for ${registration.event.title}? Your seat will be released.`)) return;
+
+    setCancellingId(registration.id);
+    try {
+      const updated = await cancelRegistration(registration.id);
+      setRegistrations((prev) =>
+        prev.map((r) => (r.id === registration.id ? { ...r, ...updated } : r))
+      );
+    } catch (error: any) {
+      console.error('Error cancelling registration:', error);
+      alert(error.message || 'Failed to cancel ticket. Please try again.');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleClaim = async (entry: WaitlistEntryWithEvent) => {
+    if (!user) return;
+    setWaitlistActionId(entry.id);
+    try {
+      const registration = await registerForEvent(entry.event_id, entry.ticket_type_id);
+      setWaitlist((prev) => prev.filter((e) => e.id !== entry.id));
+      setRegistrations(await fetchMyRegistrations(user.id));
+      alert(
+        `You're registered! Your ticket code is ${registration.ticket_code}.` +
+          (registration.payment_status === 'pending'
+            ? `\n\nPayment of UGX ${registration.amount.toLocaleString()} is due before the event.`
+            : '')
+      );
+    } catch (error: any) {
+      console.error('Error claiming waitlist spot:', error);
+      alert(error.message || 'Failed to claim your spot. Please try again.');
+    } finally {
+      setWaitlistActionId(null);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntryWithEvent) => {
+    const prompt =
+      entry.status === 'offered'
+        ? `Give up the spot held for you at ${entry.event.title}? It will go to the next person in line.`
+        : `Leave the waitlist for ${entry.event.title}?`;
+    if (!window.confirm(prompt)) return;
+
+    setWaitlistActionId(entry.id);
+    try {
+      await leaveWaitlist(entry.id);
+      setWaitlist((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (error: any) {
+      console.error('Error leaving waitlist:', error);
+      alert(error.message || 'Failed to leave the waitlist. Please try again.');
+    } finally {
+      setWaitlistActionId(null);
+    }
+  };
+
+  const activeTickets = registrations.filter((r) => r.status !== 'cancelled');
+  const cancelledTickets = registrations.filter((r) => r.status === 'cancelled');
+
+  const renderTicket = (registration: RegistrationWithEvent) => {
+    const { event } = registration;
+    const isCancelled = registration.status === 'cancelled';
+    const times = getEventTimes(event);
+    const canCancel = !isCancelled && getEventStatus(times) !== 'past';
+
+    return (
+      <div
+        key={registration.id}
+        className={`bg-gray-800 border border-gray-700 rounded-2xl overflow-hidden flex flex-col md:flex-row ${
+          isCancelled ? 'opacity-60' : ''
+        }`}
+      >
+        <div className="md:w-48 h-32 md:h-auto bg-gray-900 flex-shrink-0">
+          {event.image_url && (
+            <img src={event.image_url} alt={event.title} className="w-full h-full object-cover" />
+          )}
+        </div>
+
+        <div className="flex-1 p-6">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h3 className="text-xl font-semibold text-white">{event.title}</h3>
+              <p className="text-gray-400 text-sm">by {event.organizer}</p>
+            </div>
+            <span
+              className={`px-3 py-1 text-xs font-medium rounded-full ${
+                isCancelled
+                  ? 'bg-gray-600 text-gray-300'
+                  : registration.payment_status === 'pending'
+                    ? 'bg-yellow-400/20 text-yellow-300'
+                    : 'bg-green-500/20 text-green-300'
+              }`}
+            >
+              {isCancelled
+                ? 'Cancelled'
+                : registration.payment_status === 'pending'
+                  ? 'Payment pending'
+                  : 'Confirmed'}
+            </span>
+          </div>
+
+          <div className="grid sm:grid-cols-3 gap-2 text-sm text-gray-300 mb-4">
+            <div className="flex items-center space-x-2">
+              <Calendar className="w-4 h-4 text-rose-400" />
+              <span>{formatEventDate(times, { weekday: 'short', month: 'short' })}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Clock className="w-4 h-4 text-rose-400" />
+              <span>{formatEventTimeRange(times)}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <MapPin className="w-4 h-4 text-rose-400" />
+              <span>{event.location}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              {!isCancelled && <TicketQRCode code={registration.ticket_code} size={96} />}
+              <div>
+                <div className="text-xs text-gray-400">
+                  {registration.ticket_type?.name || 'Ticket'}
+                  {registration.seats > 1 && ` • admits ${registration.seats}`}
+                </div>
+                <div className="text-white font-mono text-lg tracking-wider">{registration.ticket_code}</div>
+                {!isCancelled && registration.payment_status === 'pending' && (
+                  <div className="text-yellow-300 text-xs mt-1">Valid for entry once the organizer confirms payment</div>
+                )}
+                {registration.checked_in_at && (
+                  <div className="text-green-300 text-xs mt-1">
+                    Checked in {new Date(registration.checked_in_at).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-xs text-gray-400">Amount</div>
+              <div className="text-white font-semibold">
+                {registration.amount > 0 ? `UGX ${registration.amount.toLocaleString()}` : 'Free'}
+              </div>
+              {registration.discount > 0 && (
+                <div className="text-green-300 text-xs">Saved UGX {registration.discount.toLocaleString()}</div>
+              )}
+            </div>
+            {!isCancelled && (
+              <button
+                onClick={() => downloadEventIcs(event)}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors flex items-center space-x-2"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                <span>Add to Calendar</span>
+              </button>
+            )}
+            {canCancel && (
+              <button
+                onClick={() => handleCancel(registration)}
+                disabled={cancellingId === registration.id}
+                className="px-4 py-2 glass-effect text-rose-400 hover:text-rose-300 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <XCircle className="w-4 h-4" />
+                <span>{cancellingId === registration.id ? 'Cancelling...' : 'Cancel Ticket'}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/account" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Account</span>
+        </Link>
+        <h1 className="text-4xl font-playfair font-bold text-white mb-2">My Tickets</h1>
+        <p className="text-gray-300 mb-8">Your event registrations and ticket codes.</p>
+
+        <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl mb-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-white flex items-center space-x-2">
+                <Calendar className="w-5 h-5 text-rose-400" />
+                <span>Calendar Subscription</span>
+              </h2>
+              <p className="text-gray-400 text-sm">
+                Subscribe once in Google Calendar, Outlook or Apple Calendar and every event you register for shows up automatically.
+              </p>
+            </div>
+            {!feedUrl && (
+              <button
+                onClick={handleShowFeed}
+                className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all flex-shrink-0"
+              >
+                Get Calendar Link
+              </button>
+            )}
+          </div>
+
+          {feedUrl && (
+            <div className="mt-4 flex flex-col md:flex-row gap-2">
+              <input
+                type="text"
+                value={feedUrl}
+                readOnly
+                className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm font-mono"
+              />
+              <button
+                onClick={() => navigator.clipboard?.writeText(feedUrl).then(() => alert('Calendar link copied to clipboard'))}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg flex items-center justify-center space-x-2"
+              >
+                <Copy className="w-4 h-4" />
+                <span>Copy</span>
+              </button>
+              <a
+                href={feedUrl.replace(/^https?:/, 'webcal:')}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg flex items-center justify-center space-x-2"
+              >
+                <CalendarPlus className="w-4 h-4" />
+                <span>Subscribe</span>
+              </a>
+              <button
+                onClick={handleResetFeed}
+                className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg flex items-center justify-center space-x-2"
+                title="Reset link"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {waitlist.length > 0 && (
+          <div className="bg-gray-800 border border-gray-700 p-6 rounded-2xl mb-8">
+            <h2 className="text-xl font-semibold text-white flex items-center space-x-2 mb-4">
+              <Hourglass className="w-5 h-5 text-rose-400" />
+              <span>Waitlist</span>
+            </h2>
+            <div className="space-y-3">
+              {waitlist.map((entry) => {
+                const offered = entry.status === 'offered';
+                return (
+                  <div
+                    key={entry.id}
+                    className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-xl ${
+                      offered ? 'bg-rose-500/10 border border-rose-400/40' : 'bg-white/5'
+                    }`}
+                  >
+                    <div>
+                      <div className="text-white font-medium">{entry.event.title}</div>
+                      <div className="text-gray-400 text-sm">
+                        {formatEventDate(getEventTimes(entry.event), { weekday: 'short', month: 'short' })}
+                        {entry.ticket_type && ` • ${entry.ticket_type.name}`}
+                      </div>
+                      <div className={`text-sm mt-1 ${offered ? 'text-rose-300' : 'text-gray-300'}`}>
+                        {offered && entry.offer_expires_at
+                          ? `A spot is held for you until ${new Date(entry.offer_expires_at).toLocaleString()}`
+                          : entry.position
+                            ? `#${entry.position} in line`
+                            : 'Waiting for a spot'}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {offered && (
+                        <button
+                          onClick={() => handleClaim(entry)}
+                          disabled={waitlistActionId === entry.id}
+                          className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50"
+                        >
+                          Claim Ticket
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleLeaveWaitlist(entry)}
+                        disabled={waitlistActionId === entry.id}
+                        className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {offered ? 'Decline' : 'Leave Waitlist'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-400 mx-auto"></div>
+            <p className="text-gray-400 mt-4">Loading tickets...</p>
+          </div>
+        ) : registrations.length === 0 ? (
+          <div className="text-center py-12 bg-gray-800 border border-gray-700 rounded-2xl">
+            <Ticket className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No tickets yet</h3>
+            <p className="text-gray-400 mb-6">Book an event and your tickets will show up here.</p>
+            <Link
+              to="/events"
+              className="px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg font-medium hover:shadow-lg transition-all"
+            >
+              Browse Events
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="space-y-4">{activeTickets.map(renderTicket)}</div>
+
+            {cancelledTickets.length > 0 && (
+              <div>
+                <h2 className="text-xl font-semibold text-white mb-4">Cancelled</h2>
+                <div className="space-y-4">{cancelledTickets.map(renderTicket)}</div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
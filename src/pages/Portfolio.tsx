@@ -1,13 +1,20 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Camera, Edit3, Eye, EyeOff, Plus, Star, Award, MapPin, Phone, Mail, Globe, Instagram, Twitter, Linkedin, Save, Upload, X, Mic } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 
+type PortfolioItem = {
+  id: number;
+  title: string;
+  type: string;
+  thumbnail: string;
+  description: string;
+};
+
 export default function Portfolio() {
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isPublic, setIsPublic] = useState(false);
-  const [showMediaModal, setShowMediaModal] = useState(false);
-  const [selectedContent, setSelectedContent] = useState<any>(null);
 
   const [portfolioData, setPortfolioData] = useState({
     profileImage: '',
@@ -77,18 +84,6 @@ export default function Portfolio() {
     ]
   });
 
-  const handleSendToMedia = (content: any) => {
-    setSelectedContent(content);
-    setShowMediaModal(true);
-  };
-
-  const confirmSendToMedia = () => {
-    // Simulate sending to media for admin review
-    alert('Content sent for admin review. You will be notified once it\'s approved!');
-    setShowMediaModal(false);
-    setSelectedContent(null);
-  };
-
   const addSkill = () => {
     const skill = prompt('Enter new skill:');
     if (skill) {
@@ -386,17 +381,15 @@ export default function Portfolio() {
               </div>
               
               <div className="grid md:grid-cols-2 gap-6">
-                {portfolioData.portfolio.map((item) => (
+                {portfolioData.portfolio.map((item: PortfolioItem) => (
                   <div key={item.id} className="group relative">
                     <div className="aspect-video bg-gray-800 rounded-xl overflow-hidden">
                       <img src={item.thumbnail} alt={item.title} className="w-full h-full object-cover" />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                        <button
-                          onClick={() => handleSendToMedia(item)}
-                          className="px-4 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 transition-colors"
-                        >
-                          Send to Media
-                        </button>
+                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center p-4 text-center">
+                        {/* Portfolio highlights are showcase images; the work itself is published from Content */}
+                        <Link to="/content" className="text-white text-sm hover:text-rose-300">
+                          Upload the original file on the Content page to publish it on Media
+                        </Link>
                       </div>
                     </div>
                     <div className="mt-3">
@@ -444,32 +437,6 @@ export default function Portfolio() {
             </div>
           </div>
         </div>
-
-        {/* Send to Media Modal */}
-        {showMediaModal && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-            <div className="glass-effect p-6 rounded-2xl max-w-md w-full">
-              <h3 className="text-xl font-semibold text-white mb-4">Send to Media</h3>
-              <p className="text-gray-300 mb-4">
-                Send "{selectedContent?.title}" to the Media section for admin review?
-              </p>
-              <div className="flex space-x-3">
-                <button
-                  onClick={confirmSendToMedia}
-                  className="flex-1 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all"
-                >
-                  Send for Review
-                </button>
-                <button
-                  onClick={() => setShowMediaModal(false)}
-                  className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+// Subscribable ICS feed of a user's registered events.
+// Calendar apps cannot send auth headers, so the feed is keyed by the secret token in
+// calendar_feed_tokens and must be deployed without JWT verification:
+//   supabase functions deploy calendar-feed --no-verify-jwt
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getEventTimes, type EventTimeSource } from '../../../src/lib/eventTime.ts';
+import { buildCalendar, type IcsEvent } from '../../../src/lib/ics.ts';
+
+type FeedRegistration = {
+  status: 'confirmed' | 'cancelled';
+  event:
+    | (EventTimeSource & { id: string; title: string; description: string; location: string; updated_at: string })
+    | null;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token || !UUID_PATTERN.test(token)) {
+    return new Response('Missing or invalid token', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feed_tokens')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error('Error looking up feed token:', feedError.message);
+    return new Response('Internal error', { status: 500 });
+  }
+  if (!feed) {
+    return new Response('Feed not found', { status: 404 });
+  }
+
+  const { data: registrations, error } = await supabase
+    .from('event_registrations')
+    .select('status, event:events(*)')
+    .eq('user_id', feed.user_id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching registrations:', error.message);
+    return new Response('Internal error', { status: 500 });
+  }
+
+  // Each event appears once under a stable UID, so only its latest registration counts:
+  // a cancelled ticket followed by a new one must not leave the event marked cancelled.
+  const latestByEvent = new Map<string, IcsEvent>();
+  for (const { status, event } of (registrations || []) as FeedRegistration[]) {
+    if (!event || latestByEvent.has(event.id)) continue;
+    latestByEvent.set(event.id, {
+      uid: `${event.id}@flourishtalents`,
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      times: getEventTimes(event),
+      updatedAt: event.updated_at,
+      cancelled: status === 'cancelled',
+    });
+  }
+
+  return new Response(buildCalendar([...latestByEvent.values()], 'FlourishTalents Events'), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+});
@@ -0,0 +1,95 @@
+// Link preview for a Media item. Crawlers that build share previews do not run the app, so this
+// serves the item's Open Graph tags and sends browsers on to /media/:id. Only approved content is
+// described, and premium files are never exposed. Set SITE_URL to the app's origin and deploy
+// without JWT verification:
+//   supabase secrets set SITE_URL=https://example.com
+//   supabase functions deploy media-preview --no-verify-jwt
+//
+// Supabase rewrites text/html responses from functions on the default *.supabase.co domain to
+// text/plain, which crawlers do not parse. Serve this function from a custom domain for the project
+// (supabase domains create), or proxy a path on the site host such as /share/media to it, and point
+// the app's VITE_MEDIA_PREVIEW_URL at that address.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { MEDIA_OG_TYPES } from '../../../src/lib/pageMeta.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const excerpt = (text: string, length = 200) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+};
+
+const redirect = (url: string) => new Response(null, { status: 302, headers: { Location: url } });
+
+Deno.serve(async (req) => {
+  const siteUrl = (Deno.env.get('SITE_URL') || '').replace(/\/$/, '');
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id || !UUID_PATTERN.test(id)) {
+    return redirect(`${siteUrl}/media`);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: item, error } = await supabase
+    .from('media_content')
+    .select('id, title, description, creator_name, type, thumbnail_url, content_url, mime_type, is_premium')
+    .eq('id', id)
+    .eq('status', 'approved')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching media item:', error.message);
+    return new Response('Internal error', { status: 500 });
+  }
+  if (!item) {
+    return redirect(`${siteUrl}/media`);
+  }
+
+  const pageUrl = `${siteUrl}/media/${item.id}`;
+  const description = excerpt(item.description || `By ${item.creator_name} on Talent Connections`);
+  // Premium files are only linked from the app, where access is checked
+  const playableUrl = item.is_premium ? null : item.content_url;
+  const tags: [string, string | null][] = [
+    ['og:site_name', 'Talent Connections'],
+    ['og:title', item.title],
+    ['og:description', description],
+    ['og:type', MEDIA_OG_TYPES[item.type] || 'website'],
+    ['og:url', pageUrl],
+    ['og:image', item.thumbnail_url],
+    ['og:video', item.type === 'stream' ? playableUrl : null],
+    ['og:video:type', item.type === 'stream' && playableUrl ? item.mime_type : null],
+    ['og:audio', item.type === 'listen' ? playableUrl : null],
+    ['twitter:card', item.thumbnail_url ? 'summary_large_image' : 'summary'],
+  ];
+
+  const meta = tags
+    .filter((tag): tag is [string, string] => Boolean(tag[1]))
+    .map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}" />`)
+    .join('\n    ');
+
+  const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(item.title)} | Talent Connections</title>
+    <meta name="description" content="${escapeHtml(description)}" />
+    ${meta}
+    <link rel="canonical" href="${escapeHtml(pageUrl)}" />
+    <meta http-equiv="refresh" content="0; url=${escapeHtml(pageUrl)}" />
+  </head>
+  <body>
+    <a href="${escapeHtml(pageUrl)}">${escapeHtml(item.title)}</a>
+  </body>
+</html>`;
+
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+});
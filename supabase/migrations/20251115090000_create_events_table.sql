@@ -0,0 +1,140 @@
+/*
+  # Create Events Table
+
+  1. New Tables
+    - `events`
+      - `id` (uuid, primary key)
+      - `title` (text)
+      - `description` (text)
+      - `category` (text) - social, networking, business
+      - `date` (date)
+      - `time` (text) - display string, e.g. '10:00 AM - 6:00 PM EAT'
+      - `location` (text)
+      - `organizer` (text) - display name of the organizer
+      - `organizer_id` (uuid, nullable, foreign key to profiles)
+      - `image_url` (text, nullable)
+      - `price` (integer, default 0)
+      - `rating` (numeric, default 0)
+      - `features` (text[], default '{}')
+      - `speakers` (text[], default '{}')
+      - `status` (text, default 'upcoming') - upcoming, happening, past
+      - `is_livestream` (boolean, default false)
+      - `livestream_url` (text, nullable)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on events table
+    - Anyone (including signed-out visitors) can read events
+    - Organizers can insert, update and delete their own events
+
+  3. Data
+    - Seed the events that JoinTab and LivestreamTab previously hardcoded
+*/
+
+-- Create events table
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  category text NOT NULL CHECK (category IN ('social', 'networking', 'business')),
+  date date NOT NULL,
+  time text NOT NULL DEFAULT '',
+  location text NOT NULL DEFAULT '',
+  organizer text NOT NULL,
+  organizer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  image_url text,
+  price integer NOT NULL DEFAULT 0 CHECK (price >= 0),
+  rating numeric NOT NULL DEFAULT 0,
+  features text[] NOT NULL DEFAULT '{}',
+  speakers text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'upcoming' CHECK (status IN ('upcoming', 'happening', 'past')),
+  is_livestream boolean NOT NULL DEFAULT false,
+  livestream_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for the filters used by the Events tabs
+CREATE INDEX IF NOT EXISTS idx_events_date ON events(date);
+CREATE INDEX IF NOT EXISTS idx_events_category ON events(category);
+CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
+CREATE INDEX IF NOT EXISTS idx_events_organizer_id ON events(organizer_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS trigger AS $$
+BEGIN
+  new.updated_at = now();
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_events_updated_at ON events;
+CREATE TRIGGER set_events_updated_at
+  BEFORE UPDATE ON events
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+-- Policies for events
+CREATE POLICY "Anyone can view events"
+  ON events FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Organizers can insert their own events"
+  ON events FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = organizer_id);
+
+CREATE POLICY "Organizers can update their own events"
+  ON events FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = organizer_id)
+  WITH CHECK (auth.uid() = organizer_id);
+
+CREATE POLICY "Organizers can delete their own events"
+  ON events FOR DELETE
+  TO authenticated
+  USING (auth.uid() = organizer_id);
+
+-- Seed the events previously hardcoded in the Join and Livestream tabs
+INSERT INTO events (title, category, date, time, location, organizer, image_url, description, price, rating, features, speakers, status, is_livestream, livestream_url)
+VALUES
+  (
+    'The Advertising Summit', 'business', '2025-11-15', '10:00 AM - 6:00 PM EAT', 'Virtual Event', 'Creative Arts Institute',
+    'https://tinuiti.com/wp-content/uploads/2024/12/2025-amazon-and-retail-media-summit-featured.webp?auto=compress&cs=tinysrgb&w=800',
+    'A momentous occasion of advertising insights, creative strategies, and networking.',
+    380000, 4.8, ARRAY['Live Sessions', 'Networking', 'Certificates', 'Recordings'], ARRAY['Sarah Johnson', 'Mike Chen', 'Emma Wilson'],
+    'upcoming', false, NULL
+  ),
+  (
+    'Talent Show', 'social', '2025-11-20', '7:00 PM - 10:00 PM EAT', 'Kampala, Uganda', 'Creative Collective',
+    'https://static.vecteezy.com/system/resources/thumbnails/035/924/440/small_2x/show-talent-podium-3d-retro-talent-show-podium-with-microphone-show-scene-stage-studio-or-room-vector.jpg',
+    'Showcase your talent and compete for amazing prizes. Open to all creative professionals.',
+    95000, 4.9, ARRAY['Live Judging', 'Prizes', 'Networking', 'Media Coverage'], ARRAY['Celebrity Judges Panel'],
+    'upcoming', false, NULL
+  ),
+  (
+    'The Patrons'' Forum', 'networking', '2025-11-25', '6:00 PM - 9:00 PM EAT', 'Kampala, Uganda', 'The Patrons',
+    'https://cassette.sphdigital.com.sg/image/thepeak/8895ea9e31e92e0644e57b997d762a1a209a9cbf171f5f3a9aed2e210c6d6333?auto=compress&cs=tinysrgb&w=800',
+    'Recognition for Patrons contributions to the flourishing Arts.',
+    285000, 4.7, ARRAY['Networking', 'Panel Discussion', 'Cocktails', 'Business Cards'], ARRAY['Dr. Maria Rodriguez', 'Jedi Martinez'],
+    'upcoming', false, NULL
+  ),
+  (
+    'Brand Ambassador Masterclass', 'business', '2025-10-28', '2:00 PM - 5:00 PM EAT', 'Virtual Event', 'Creative Arts Institute',
+    'https://images.pexels.com/photos/6285080/pexels-photo-6285080.jpeg?auto=compress&cs=tinysrgb&w=800',
+    'Learn the secrets of successful brand ambassadorship from industry experts.',
+    560000, 4.9, ARRAY['Interactive Sessions', 'Case Studies', 'Q&A', 'Certificate'], ARRAY['Ruby Nesda', 'Maya Chen'],
+    'past', false, NULL
+  ),
+  (
+    'Live Concert - Dawn Fever', 'social', '2025-11-14', '8:00 PM - 11:00 PM EAT', 'Main Auditorium', 'LiveEvents Ltd',
+    'https://images.pexels.com/photos/1190299/pexels-photo-1190299.jpeg?auto=compress&cs=tinysrgb&w=800',
+    'Never miss a beat. Attend or stream as a premium subscriber or on VIP ticket.',
+    150000, 4.9, ARRAY['Live Performance', 'Merch', 'Meet & Greet'], ARRAY['Headline Artist'],
+    'happening', true, 'https://stream.example.com/dawn-fever'
+  );
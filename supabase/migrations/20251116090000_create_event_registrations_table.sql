@@ -0,0 +1,164 @@
+/*
+  # Create Event Registrations Table
+
+  1. Changes
+    - `events`
+      - `capacity` (integer, nullable) - maximum number of active registrations, NULL means unlimited
+
+  2. New Tables
+    - `event_registrations`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `user_id` (uuid, foreign key to profiles)
+      - `ticket_code` (text, unique) - code printed on the ticket and checked at the door
+      - `amount` (integer) - price paid, copied from events.price at registration time
+      - `payment_status` (text) - free, pending, paid
+      - `status` (text, default 'confirmed') - confirmed, cancelled
+      - `cancelled_at` (timestamptz, nullable)
+      - `created_at` (timestamptz, default now())
+      - One active (non-cancelled) registration per user per event
+
+  3. Functions
+    - `register_for_event(p_event_id)` - locks the event row, enforces capacity and issues a ticket
+    - `cancel_event_registration(p_registration_id)` - cancels the caller's ticket, freeing the seat
+
+  4. Views
+    - `event_registration_stats` - active registration count per event, used to show seats left
+
+  5. Security
+    - Enable RLS on event_registrations
+    - Users can view their own registrations; organizers can view registrations for their events
+    - Writes only go through the functions above
+*/
+
+-- Add capacity to events
+ALTER TABLE events ADD COLUMN IF NOT EXISTS capacity integer CHECK (capacity IS NULL OR capacity > 0);
+
+-- Create event_registrations table
+CREATE TABLE IF NOT EXISTS event_registrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  ticket_code text UNIQUE NOT NULL,
+  amount integer NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  payment_status text NOT NULL DEFAULT 'free' CHECK (payment_status IN ('free', 'pending', 'paid')),
+  status text NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled')),
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_event_registrations_event_id ON event_registrations(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_registrations_user_id ON event_registrations(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_registrations_active_user
+  ON event_registrations(event_id, user_id)
+  WHERE status <> 'cancelled';
+
+-- Enable Row Level Security
+ALTER TABLE event_registrations ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_registrations
+CREATE POLICY "Users can view their own registrations"
+  ON event_registrations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view registrations for their events"
+  ON event_registrations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_registrations.event_id
+        AND events.organizer_id = auth.uid()
+    )
+  );
+
+-- Active registration count per event
+CREATE OR REPLACE VIEW event_registration_stats AS
+SELECT
+  events.id AS event_id,
+  events.capacity,
+  COUNT(event_registrations.id) FILTER (WHERE event_registrations.status <> 'cancelled')::integer AS registered_count
+FROM events
+LEFT JOIN event_registrations ON event_registrations.event_id = events.id
+GROUP BY events.id, events.capacity;
+
+GRANT SELECT ON event_registration_stats TO anon, authenticated;
+
+-- Register the current user for an event
+CREATE OR REPLACE FUNCTION public.register_for_event(p_event_id uuid)
+RETURNS event_registrations AS $$
+DECLARE
+  v_event events;
+  v_taken integer;
+  v_registration event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register';
+  END IF;
+
+  -- Lock the event row so concurrent registrations cannot oversell it
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.status = 'past' THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    IF v_taken >= v_event.capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  INSERT INTO event_registrations (event_id, user_id, ticket_code, amount, payment_status)
+  VALUES (
+    p_event_id,
+    auth.uid(),
+    'TKT-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_event.price,
+    CASE WHEN v_event.price > 0 THEN 'pending' ELSE 'free' END
+  )
+  RETURNING * INTO v_registration;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel one of the current user's registrations
+CREATE OR REPLACE FUNCTION public.cancel_event_registration(p_registration_id uuid)
+RETURNS event_registrations AS $$
+DECLARE
+  v_registration event_registrations;
+BEGIN
+  UPDATE event_registrations
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = p_registration_id
+    AND user_id = auth.uid()
+    AND status <> 'cancelled'
+  RETURNING * INTO v_registration;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration not found or already cancelled';
+  END IF;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.register_for_event(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_event_registration(uuid) TO authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Add Event Check-In
+
+  1. Changes
+    - `event_registrations`
+      - `checked_in_at` (timestamptz, nullable) - when the ticket was scanned at the door
+      - `checked_in_by` (uuid, nullable, foreign key to profiles) - organizer who scanned it
+
+  2. Functions
+    - `check_in_ticket(p_event_id, p_ticket_code)` - organizer-only; marks attendance and
+      reports duplicates instead of overwriting the first scan time
+
+  3. Realtime
+    - Publish event_registrations so the check-in screen counter updates live
+*/
+
+-- Add check-in columns
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS checked_in_at timestamptz;
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS checked_in_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_registrations_checked_in_at ON event_registrations(event_id, checked_in_at);
+
+-- Check a ticket in at the door
+CREATE OR REPLACE FUNCTION public.check_in_ticket(p_event_id uuid, p_ticket_code text)
+RETURNS jsonb AS $$
+DECLARE
+  v_registration event_registrations;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the event organizer can check in tickets';
+  END IF;
+
+  SELECT * INTO v_registration
+  FROM event_registrations
+  WHERE event_id = p_event_id AND ticket_code = upper(trim(p_ticket_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket not found for this event';
+  END IF;
+
+  IF v_registration.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This ticket was cancelled';
+  END IF;
+
+  IF v_registration.checked_in_at IS NOT NULL THEN
+    RETURN jsonb_build_object('result', 'duplicate', 'registration', to_jsonb(v_registration));
+  END IF;
+
+  UPDATE event_registrations
+  SET checked_in_at = now(), checked_in_by = auth.uid()
+  WHERE id = v_registration.id
+  RETURNING * INTO v_registration;
+
+  RETURN jsonb_build_object('result', 'checked_in', 'registration', to_jsonb(v_registration));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.check_in_ticket(uuid, text) TO authenticated;
+
+-- Enable realtime for the live attendance counter
+ALTER PUBLICATION supabase_realtime ADD TABLE event_registrations;
@@ -0,0 +1,106 @@
+/*
+  # Create Event Calendar Tables
+
+  1. New Tables
+    - `event_calendar_adds`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `event_id` (uuid, foreign key to events)
+      - `created_at` (timestamptz, default now())
+      - Unique constraint on (user_id, event_id)
+
+    - `calendar_feed_tokens`
+      - `user_id` (uuid, primary key, foreign key to profiles)
+      - `token` (uuid, unique) - secret in the subscribable ICS feed URL, always generated by the database
+      - `created_at` (timestamptz, default now())
+
+  2. Functions
+    - `reset_calendar_feed_token()` - replaces the caller's feed token with a fresh random one
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can manage only their own calendar adds and feed token
+    - Clients can never write a token themselves, so feed URLs cannot be chosen or guessed
+    - The calendar-feed edge function reads tokens with the service role key
+*/
+
+-- Create event_calendar_adds table
+CREATE TABLE IF NOT EXISTS event_calendar_adds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, event_id)
+);
+
+-- Create calendar_feed_tokens table
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_event_calendar_adds_user_id ON event_calendar_adds(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE event_calendar_adds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_calendar_adds
+CREATE POLICY "Users can view their own calendar adds"
+  ON event_calendar_adds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar adds"
+  ON event_calendar_adds FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar adds"
+  ON event_calendar_adds FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar adds"
+  ON event_calendar_adds FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policies for calendar_feed_tokens
+CREATE POLICY "Users can view their own feed token"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own feed token"
+  ON calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Tokens come from the column default; clients only ever supply their own user_id
+REVOKE INSERT, UPDATE ON calendar_feed_tokens FROM authenticated;
+GRANT INSERT (user_id) ON calendar_feed_tokens TO authenticated;
+
+-- Swap the caller's feed token for a new one, creating it if needed
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS uuid AS $$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to reset your calendar link';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET token = gen_random_uuid()
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reset_calendar_feed_token() TO authenticated;
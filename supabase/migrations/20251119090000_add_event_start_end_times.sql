@@ -0,0 +1,117 @@
+/*
+  # Add Event Start and End Times
+
+  1. Changes
+    - `events`
+      - `timezone` (text, default 'Africa/Kampala') - IANA zone the event's date/time are declared in,
+        limited to the fixed-offset zones the app supports (EVENT_TIMEZONES in src/lib/eventTime.ts)
+      - `starts_at` (timestamptz) - absolute start, backfilled from date + time
+      - `ends_at` (timestamptz) - absolute end, backfilled from date + time
+      - Drop the static `status` column; status is now derived from starts_at/ends_at
+        (upcoming before start, happening until end, past afterwards)
+
+  2. Functions
+    - `register_for_event` now refuses registrations once `ends_at` has passed
+*/
+
+-- Add timezone-aware columns
+ALTER TABLE events ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Africa/Kampala'
+  CHECK (timezone IN ('Africa/Kampala', 'Africa/Maputo', 'Africa/Lagos', 'Etc/GMT', 'Etc/UTC'));
+ALTER TABLE events ADD COLUMN IF NOT EXISTS starts_at timestamptz;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+
+-- Extract the n-th '7:00 PM' style clock time from a display string
+CREATE OR REPLACE FUNCTION pg_temp.event_clock_time(p_time text, p_index integer)
+RETURNS time AS $$
+  SELECT make_time(
+    (m[1]::integer % 12) + CASE WHEN upper(m[3]) = 'PM' THEN 12 ELSE 0 END,
+    COALESCE(m[2], '0')::integer,
+    0
+  )
+  FROM (
+    SELECT found AS m, row_number() OVER () AS n
+    FROM regexp_matches(p_time, '(\d{1,2})(?::(\d{2}))?\s*(AM|PM)', 'gi') AS found
+  ) matches
+  WHERE n = p_index;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Backfill from the existing date + time strings (all seeded events are EAT)
+UPDATE events
+SET starts_at = ("date" + COALESCE(pg_temp.event_clock_time("time", 1), '00:00'::time)) AT TIME ZONE timezone
+WHERE starts_at IS NULL;
+
+UPDATE events
+SET ends_at = CASE
+  WHEN pg_temp.event_clock_time("time", 1) IS NULL THEN starts_at + interval '1 day'
+  WHEN pg_temp.event_clock_time("time", 2) IS NULL THEN starts_at + interval '2 hours'
+  ELSE ("date" + pg_temp.event_clock_time("time", 2)) AT TIME ZONE timezone
+    + CASE
+        WHEN pg_temp.event_clock_time("time", 2) <= pg_temp.event_clock_time("time", 1) THEN interval '1 day'
+        ELSE interval '0'
+      END
+END
+WHERE ends_at IS NULL;
+
+ALTER TABLE events ALTER COLUMN starts_at SET NOT NULL;
+ALTER TABLE events ALTER COLUMN ends_at SET NOT NULL;
+ALTER TABLE events ADD CONSTRAINT events_ends_after_start CHECK (ends_at > starts_at);
+
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON events(starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_ends_at ON events(ends_at);
+
+-- Status is derived from the start and end times from now on
+DROP INDEX IF EXISTS idx_events_status;
+ALTER TABLE events DROP COLUMN IF EXISTS status;
+
+-- Refuse registrations for events that have ended
+CREATE OR REPLACE FUNCTION public.register_for_event(p_event_id uuid)
+RETURNS event_registrations AS $$
+DECLARE
+  v_event events;
+  v_taken integer;
+  v_registration event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register';
+  END IF;
+
+  -- Lock the event row so concurrent registrations cannot oversell it
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.ends_at <= now() THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    IF v_taken >= v_event.capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  INSERT INTO event_registrations (event_id, user_id, ticket_code, amount, payment_status)
+  VALUES (
+    p_event_id,
+    auth.uid(),
+    'TKT-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_event.price,
+    CASE WHEN v_event.price > 0 THEN 'pending' ELSE 'free' END
+  )
+  RETURNING * INTO v_registration;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
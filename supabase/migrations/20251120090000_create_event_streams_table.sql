@@ -0,0 +1,173 @@
+/*
+  # Create Event Streams Table
+
+  1. New Tables
+    - `event_streams`
+      - `event_id` (uuid, primary key, foreign key to events)
+      - `playback_url` (text) - HLS (.m3u8) or DASH (.mpd) manifest for the live broadcast
+      - `replay_url` (text, nullable) - recording offered once the event has ended
+      - `min_tier` (text, default 'premium') - lowest membership tier that may watch without a ticket
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Changes
+    - Move `events.livestream_url` into `event_streams.playback_url` and drop the column, so stream
+      URLs are no longer readable by everyone who can list events
+
+  3. Functions
+    - `tier_rank(tier)` - orders membership tiers (free < premium < professional < elite)
+    - `get_event_stream(p_event_id)` - the only way viewers obtain a stream URL; checks tier, ticket or
+      organizer access and returns a waiting-room, live, replay or ended state
+    - `switch_account_role()` - flips the caller between creator and member; the only way to change
+      `role` and `account_type`
+
+  4. Security
+    - Enable RLS on event_streams; only organizers can read or manage their own event's stream row
+    - Users can only update their name, email, profile image and dates on their own profile. Tier,
+      loyalty points, role, account type and verification are written by the server, since
+      livestream access trusts them
+*/
+
+-- Create event_streams table
+CREATE TABLE IF NOT EXISTS event_streams (
+  event_id uuid PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  playback_url text NOT NULL,
+  replay_url text,
+  min_tier text NOT NULL DEFAULT 'premium' CHECK (min_tier IN ('free', 'premium', 'professional', 'elite')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_event_streams_updated_at ON event_streams;
+CREATE TRIGGER set_event_streams_updated_at
+  BEFORE UPDATE ON event_streams
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Move existing stream URLs out of the public events table
+INSERT INTO event_streams (event_id, playback_url)
+SELECT id, livestream_url FROM events WHERE livestream_url IS NOT NULL
+ON CONFLICT (event_id) DO NOTHING;
+
+ALTER TABLE events DROP COLUMN IF EXISTS livestream_url;
+
+-- Enable Row Level Security
+ALTER TABLE event_streams ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_streams
+CREATE POLICY "Organizers can view their event streams"
+  ON event_streams FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_streams.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can insert their event streams"
+  ON event_streams FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_streams.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can update their event streams"
+  ON event_streams FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_streams.event_id AND events.organizer_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_streams.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can delete their event streams"
+  ON event_streams FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_streams.event_id AND events.organizer_id = auth.uid()));
+
+-- Order membership tiers
+CREATE OR REPLACE FUNCTION public.tier_rank(p_tier text)
+RETURNS integer AS $$
+  SELECT CASE p_tier
+    WHEN 'premium' THEN 1
+    WHEN 'professional' THEN 2
+    WHEN 'elite' THEN 3
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Hand out the stream URL to viewers who are allowed to watch
+CREATE OR REPLACE FUNCTION public.get_event_stream(p_event_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_event events;
+  v_stream event_streams;
+  v_tier text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to watch livestreams';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  SELECT * INTO v_stream FROM event_streams WHERE event_id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This event has no livestream';
+  END IF;
+
+  SELECT tier INTO v_tier FROM profiles WHERE id = auth.uid();
+
+  IF NOT (
+    v_event.organizer_id = auth.uid()
+    OR public.tier_rank(v_tier) >= public.tier_rank(v_stream.min_tier)
+    OR EXISTS (
+      SELECT 1 FROM event_registrations
+      WHERE event_id = p_event_id
+        AND user_id = auth.uid()
+        AND status <> 'cancelled'
+        AND payment_status IN ('free', 'paid')
+    )
+  ) THEN
+    RAISE EXCEPTION 'This livestream requires a % membership or a ticket', v_stream.min_tier;
+  END IF;
+
+  IF now() < v_event.starts_at THEN
+    RETURN jsonb_build_object('mode', 'waiting', 'starts_at', v_event.starts_at);
+  ELSIF now() < v_event.ends_at THEN
+    RETURN jsonb_build_object('mode', 'live', 'url', v_stream.playback_url, 'ends_at', v_event.ends_at);
+  ELSIF v_stream.replay_url IS NOT NULL THEN
+    RETURN jsonb_build_object('mode', 'replay', 'url', v_stream.replay_url);
+  END IF;
+
+  RETURN jsonb_build_object('mode', 'ended');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_stream(uuid) TO authenticated;
+
+-- Membership tier gates stream access, so users cannot write it themselves
+REVOKE UPDATE ON profiles FROM authenticated;
+GRANT UPDATE (
+  name,
+  email,
+  profile_image,
+  joined_date,
+  updated_at
+) ON profiles TO authenticated;
+
+-- Switch between the creator and member experience
+CREATE OR REPLACE FUNCTION public.switch_account_role()
+RETURNS profiles AS $$
+DECLARE
+  v_profile profiles;
+BEGIN
+  UPDATE profiles
+  SET
+    role = CASE WHEN role = 'creator' THEN 'member' ELSE 'creator' END,
+    account_type = CASE WHEN account_type = 'creator' THEN 'member' ELSE 'creator' END,
+    updated_at = now()
+  WHERE id = auth.uid()
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.switch_account_role() TO authenticated;
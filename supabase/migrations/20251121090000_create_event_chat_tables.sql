@@ -0,0 +1,289 @@
+/*
+  # Create Event Chat Tables
+
+  1. New Tables
+    - `event_chat_messages`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `user_id` (uuid, foreign key to profiles)
+      - `author_name` (text) - sender's name at the time of posting, kept for replays
+      - `kind` (text) - 'message' or 'reaction'
+      - `body` (text) - message text, or the reaction emoji
+      - `deleted_at` (timestamptz, nullable) - set when the organizer removes the message
+      - `deleted_by` (uuid, nullable, foreign key to profiles)
+      - `created_at` (timestamptz, default now())
+    - `event_chat_mutes`
+      - `event_id` (uuid, foreign key to events)
+      - `user_id` (uuid, foreign key to profiles)
+      - `muted_by` (uuid, foreign key to profiles)
+      - `created_at` (timestamptz, default now())
+      - Primary key on (event_id, user_id)
+
+  2. Changes
+    - `event_streams.chat_slow_mode_seconds` (integer, default 0) - minimum gap between a viewer's messages
+
+  3. Functions
+    - `can_watch_event_stream(p_event_id)` - organizer, sufficient tier or an active free or paid ticket;
+      `get_event_stream` now uses it too
+    - `get_event_chat_state(p_event_id)` - slow mode, mute and moderator flags for the current user
+    - `post_event_chat_message(p_event_id, p_kind, p_body)` - enforces live window, mutes and slow mode
+    - `delete_event_chat_message(p_message_id)` - organizer soft delete, body is cleared
+    - `set_event_chat_slow_mode(p_event_id, p_seconds)` - organizer only
+
+  4. Security
+    - Enable RLS on both tables
+    - Viewers allowed to watch the stream can read its chat; writes only go through the functions
+    - Organizers can view, add and remove mutes for their events; users can see their own mute
+    - Add event_chat_messages to the realtime publication
+*/
+
+ALTER TABLE event_streams ADD COLUMN IF NOT EXISTS chat_slow_mode_seconds integer NOT NULL DEFAULT 0
+  CHECK (chat_slow_mode_seconds BETWEEN 0 AND 300);
+
+-- Create event_chat_messages table
+CREATE TABLE IF NOT EXISTS event_chat_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  author_name text NOT NULL,
+  kind text NOT NULL DEFAULT 'message' CHECK (kind IN ('message', 'reaction')),
+  body text NOT NULL CHECK (char_length(body) <= 500),
+  deleted_at timestamptz,
+  deleted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_chat_messages_event_created ON event_chat_messages(event_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_chat_messages_user ON event_chat_messages(event_id, user_id, created_at DESC);
+
+-- Create event_chat_mutes table
+CREATE TABLE IF NOT EXISTS event_chat_mutes (
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  muted_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+-- Who may watch (and therefore read the chat of) an event's stream
+CREATE OR REPLACE FUNCTION public.can_watch_event_stream(p_event_id uuid)
+RETURNS boolean AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM event_streams s, profiles p
+      WHERE s.event_id = p_event_id
+        AND p.id = auth.uid()
+        AND public.tier_rank(p.tier) >= public.tier_rank(s.min_tier)
+    )
+    OR EXISTS (
+      SELECT 1 FROM event_registrations
+      WHERE event_id = p_event_id
+        AND user_id = auth.uid()
+        AND status <> 'cancelled'
+        AND payment_status IN ('free', 'paid')
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_watch_event_stream(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_event_stream(p_event_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_event events;
+  v_stream event_streams;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to watch livestreams';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  SELECT * INTO v_stream FROM event_streams WHERE event_id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This event has no livestream';
+  END IF;
+
+  IF NOT public.can_watch_event_stream(p_event_id) THEN
+    RAISE EXCEPTION 'This livestream requires a % membership or a ticket', v_stream.min_tier;
+  END IF;
+
+  IF now() < v_event.starts_at THEN
+    RETURN jsonb_build_object('mode', 'waiting', 'starts_at', v_event.starts_at);
+  ELSIF now() < v_event.ends_at THEN
+    RETURN jsonb_build_object('mode', 'live', 'url', v_stream.playback_url, 'ends_at', v_event.ends_at);
+  ELSIF v_stream.replay_url IS NOT NULL THEN
+    RETURN jsonb_build_object('mode', 'replay', 'url', v_stream.replay_url);
+  END IF;
+
+  RETURN jsonb_build_object('mode', 'ended');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE event_chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_chat_mutes ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_chat_messages (inserts and deletes go through the functions below)
+CREATE POLICY "Stream viewers can view chat messages"
+  ON event_chat_messages FOR SELECT
+  TO authenticated
+  USING (public.can_watch_event_stream(event_id));
+
+-- Policies for event_chat_mutes
+CREATE POLICY "Users can view their own mutes"
+  ON event_chat_mutes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view mutes for their events"
+  ON event_chat_mutes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_chat_mutes.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can mute users in their events"
+  ON event_chat_mutes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = muted_by
+    AND user_id <> auth.uid()
+    AND EXISTS (SELECT 1 FROM events WHERE events.id = event_chat_mutes.event_id AND events.organizer_id = auth.uid())
+  );
+
+CREATE POLICY "Organizers can unmute users in their events"
+  ON event_chat_mutes FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_chat_mutes.event_id AND events.organizer_id = auth.uid()));
+
+-- Chat settings and flags for the current viewer
+CREATE OR REPLACE FUNCTION public.get_event_chat_state(p_event_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'slow_mode_seconds', COALESCE((SELECT chat_slow_mode_seconds FROM event_streams WHERE event_id = p_event_id), 0),
+    'is_muted', EXISTS (SELECT 1 FROM event_chat_mutes WHERE event_id = p_event_id AND user_id = auth.uid()),
+    'is_moderator', EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_event_chat_state(uuid) TO authenticated;
+
+-- Post a chat message or reaction while the event is live
+CREATE OR REPLACE FUNCTION public.post_event_chat_message(p_event_id uuid, p_kind text, p_body text)
+RETURNS event_chat_messages AS $$
+DECLARE
+  v_event events;
+  v_slow_mode integer;
+  v_last timestamptz;
+  v_body text := trim(p_body);
+  v_message event_chat_messages;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to chat';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT public.can_watch_event_stream(p_event_id) THEN
+    RAISE EXCEPTION 'Only viewers of this livestream can chat';
+  END IF;
+
+  IF now() < v_event.starts_at OR now() >= v_event.ends_at THEN
+    RAISE EXCEPTION 'Chat is only open while the event is live';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM event_chat_mutes WHERE event_id = p_event_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You have been muted in this chat';
+  END IF;
+
+  IF v_body = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF p_kind = 'reaction' THEN
+    IF v_body NOT IN ('❤️', '🔥', '👏', '😂', '😮', '🎉') THEN
+      RAISE EXCEPTION 'Unsupported reaction';
+    END IF;
+  ELSIF p_kind <> 'message' THEN
+    RAISE EXCEPTION 'Unsupported message kind';
+  END IF;
+
+  -- Organizers are exempt from slow mode; reactions are throttled to one per second
+  IF v_event.organizer_id IS DISTINCT FROM auth.uid() THEN
+    SELECT CASE WHEN p_kind = 'reaction' THEN 1 ELSE chat_slow_mode_seconds END INTO v_slow_mode
+    FROM event_streams WHERE event_id = p_event_id;
+
+    IF COALESCE(v_slow_mode, 0) > 0 THEN
+      SELECT MAX(created_at) INTO v_last
+      FROM event_chat_messages
+      WHERE event_id = p_event_id AND user_id = auth.uid() AND kind = p_kind;
+
+      IF v_last IS NOT NULL AND v_last > now() - make_interval(secs => v_slow_mode) THEN
+        RAISE EXCEPTION 'Slow mode is on. Please wait % seconds between messages', v_slow_mode;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO event_chat_messages (event_id, user_id, author_name, kind, body)
+  SELECT p_event_id, auth.uid(), name, p_kind, v_body FROM profiles WHERE id = auth.uid()
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.post_event_chat_message(uuid, text, text) TO authenticated;
+
+-- Organizer removes a message; the row stays so replays keep their timing
+CREATE OR REPLACE FUNCTION public.delete_event_chat_message(p_message_id uuid)
+RETURNS event_chat_messages AS $$
+DECLARE
+  v_message event_chat_messages;
+BEGIN
+  SELECT m.* INTO v_message
+  FROM event_chat_messages m
+  JOIN events e ON e.id = m.event_id
+  WHERE m.id = p_message_id AND e.organizer_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the organizer can remove chat messages';
+  END IF;
+
+  UPDATE event_chat_messages
+  SET body = '', deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_event_chat_message(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_event_chat_slow_mode(p_event_id uuid, p_seconds integer)
+RETURNS integer AS $$
+BEGIN
+  UPDATE event_streams s
+  SET chat_slow_mode_seconds = p_seconds
+  FROM events e
+  WHERE s.event_id = p_event_id AND e.id = s.event_id AND e.organizer_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the organizer can change slow mode';
+  END IF;
+
+  RETURN p_seconds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_event_chat_slow_mode(uuid, integer) TO authenticated;
+
+-- Enable realtime for live chat
+ALTER PUBLICATION supabase_realtime ADD TABLE event_chat_messages;
@@ -0,0 +1,161 @@
+/*
+  # Create Event Memories Tables
+
+  1. New Tables
+    - `event_memories`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `user_id` (uuid, foreign key to profiles)
+      - `content` (text) - the journal entry
+      - `highlights` (text[]) - short highlight tags
+      - `photos` (text[]) - public URLs in the event-memories storage bucket
+      - `rating` (integer, nullable, 1-5)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+    - `memory_chats`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, nullable, foreign key to events) - null for the general community chat
+      - `user_id` (uuid, foreign key to profiles)
+      - `message` (text)
+      - `parent_id` (uuid, nullable, foreign key to memory_chats) - set on replies
+      - `created_at` (timestamptz, default now())
+
+  2. Functions
+    - `has_attended_event(p_event_id)` - true for the organizer, or a ticket holder once the event has started;
+      the ticket must be free, paid for, or checked in at the door
+
+  3. Storage
+    - Public `event-memories` bucket; users upload into a folder named after their user id
+
+  4. Security
+    - Enable RLS on both tables
+    - Anyone can read memories and chat
+    - Only attendees can post memories, or chat in an event's thread; replies must stay in the parent's thread
+    - Users can update and delete their own memories, and delete their own chat messages
+    - Add memory_chats to the realtime publication
+*/
+
+-- Attendees of an event: the organizer, or anyone holding an active, settled ticket once it has started
+CREATE OR REPLACE FUNCTION public.has_attended_event(p_event_id uuid)
+RETURNS boolean AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM event_registrations r
+      JOIN events e ON e.id = r.event_id
+      WHERE r.event_id = p_event_id
+        AND r.user_id = auth.uid()
+        AND r.status <> 'cancelled'
+        AND (r.payment_status IN ('free', 'paid') OR r.checked_in_at IS NOT NULL)
+        AND e.starts_at <= now()
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_attended_event(uuid) TO authenticated;
+
+-- Create event_memories table
+CREATE TABLE IF NOT EXISTS event_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(trim(content)) BETWEEN 1 AND 5000),
+  highlights text[] NOT NULL DEFAULT '{}',
+  photos text[] NOT NULL DEFAULT '{}' CHECK (cardinality(photos) <= 10),
+  rating integer CHECK (rating BETWEEN 1 AND 5),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_memories_event_id ON event_memories(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_memories_created_at ON event_memories(created_at DESC);
+
+DROP TRIGGER IF EXISTS set_event_memories_updated_at ON event_memories;
+CREATE TRIGGER set_event_memories_updated_at
+  BEFORE UPDATE ON event_memories
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Create memory_chats table
+CREATE TABLE IF NOT EXISTS memory_chats (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message text NOT NULL CHECK (char_length(trim(message)) BETWEEN 1 AND 1000),
+  parent_id uuid REFERENCES memory_chats(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_chats_event_created ON memory_chats(event_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_memory_chats_parent_id ON memory_chats(parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE event_memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_chats ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_memories
+CREATE POLICY "Anyone can view event memories"
+  ON event_memories FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Attendees can share memories of an event"
+  ON event_memories FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_attended_event(event_id));
+
+CREATE POLICY "Users can update their own memories"
+  ON event_memories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own memories"
+  ON event_memories FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policies for memory_chats
+CREATE POLICY "Anyone can view memory chat"
+  ON memory_chats FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Users can post in the community chat and attended event threads"
+  ON memory_chats FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (event_id IS NULL OR public.has_attended_event(event_id))
+    AND (
+      parent_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM memory_chats parent
+        WHERE parent.id = memory_chats.parent_id
+          AND parent.event_id IS NOT DISTINCT FROM memory_chats.event_id
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own chat messages"
+  ON memory_chats FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Photo storage
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('event-memories', 'event-memories', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload memory photos to their own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'event-memories' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own memory photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'event-memories' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Enable realtime for the community chat
+ALTER PUBLICATION supabase_realtime ADD TABLE memory_chats;
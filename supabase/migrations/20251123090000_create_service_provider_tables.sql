@@ -0,0 +1,267 @@
+/*
+  # Create Service Provider Tables
+
+  1. New Tables
+    - `service_providers`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, nullable, foreign key to profiles) - account that manages the listing and its bookings
+      - `name` (text)
+      - `category` (text) - venue, decor, catering, audio, ushering, photography, entertainment, security, transport
+      - `description` (text)
+      - `expertise` (text)
+      - `base_price` (integer) - UGX per unit
+      - `rating` (numeric)
+      - `reviews_count` (integer)
+      - `contact_email` (text, nullable)
+      - `contact_phone` (text, nullable)
+      - `portfolio_images` (text[])
+      - `available` (boolean, default true)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+    - `provider_bookings`
+      - `id` (uuid, primary key)
+      - `provider_id` (uuid, foreign key to service_providers)
+      - `user_id` (uuid, foreign key to profiles) - the organizer booking the service
+      - `event_id` (uuid, nullable, foreign key to events)
+      - `quantity` (integer)
+      - `unit_price` (integer) - provider's base price when booked
+      - `service_fee` (integer) - platform fee on this line
+      - `total_cost` (integer) - unit_price * quantity + service_fee
+      - `booking_date` (timestamptz, default now())
+      - `event_date` (date)
+      - `status` (text) - pending, confirmed, completed or cancelled
+      - `notes` (text, nullable)
+      - `responded_at` (timestamptz, nullable) - when the provider accepted or declined
+      - `updated_at` (timestamptz, default now())
+
+  2. Functions
+    - `create_provider_bookings(p_items, p_event_date, p_notes, p_event_id)` - checkout; prices every cart
+      line server-side and creates one pending booking per line
+    - `update_provider_booking_status(p_booking_id, p_status)` - provider accepts, declines or completes;
+      the organizer can cancel
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone can browse providers; owners manage their own listings
+    - Bookings are visible to the organizer who made them and the provider's owner
+    - Bookings are only written through the functions above
+
+  4. Seed Data
+    - The providers previously hardcoded in OrganizeTab
+*/
+
+-- Create service_providers table
+CREATE TABLE IF NOT EXISTS service_providers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  category text NOT NULL CHECK (
+    category IN ('venue', 'decor', 'catering', 'audio', 'ushering', 'photography', 'entertainment', 'security', 'transport')
+  ),
+  description text NOT NULL DEFAULT '',
+  expertise text NOT NULL DEFAULT '',
+  base_price integer NOT NULL CHECK (base_price >= 0),
+  rating numeric(2, 1) NOT NULL DEFAULT 0,
+  reviews_count integer NOT NULL DEFAULT 0,
+  contact_email text,
+  contact_phone text,
+  portfolio_images text[] NOT NULL DEFAULT '{}',
+  available boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_providers_category ON service_providers(category);
+CREATE INDEX IF NOT EXISTS idx_service_providers_owner_id ON service_providers(owner_id);
+
+DROP TRIGGER IF EXISTS set_service_providers_updated_at ON service_providers;
+CREATE TRIGGER set_service_providers_updated_at
+  BEFORE UPDATE ON service_providers
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Create provider_bookings table
+CREATE TABLE IF NOT EXISTS provider_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id uuid NOT NULL REFERENCES service_providers(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price integer NOT NULL CHECK (unit_price >= 0),
+  service_fee integer NOT NULL DEFAULT 0 CHECK (service_fee >= 0),
+  total_cost integer NOT NULL CHECK (total_cost >= 0),
+  booking_date timestamptz NOT NULL DEFAULT now(),
+  event_date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled')),
+  notes text,
+  responded_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_bookings_provider_id ON provider_bookings(provider_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_provider_bookings_user_id ON provider_bookings(user_id, booking_date DESC);
+
+DROP TRIGGER IF EXISTS set_provider_bookings_updated_at ON provider_bookings;
+CREATE TRIGGER set_provider_bookings_updated_at
+  BEFORE UPDATE ON provider_bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE service_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Policies for service_providers
+CREATE POLICY "Anyone can view service providers"
+  ON service_providers FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Owners can insert their provider listings"
+  ON service_providers FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their provider listings"
+  ON service_providers FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+-- Policies for provider_bookings
+CREATE POLICY "Users can view their own provider bookings"
+  ON provider_bookings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Providers can view bookings for their listings"
+  ON provider_bookings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM service_providers
+      WHERE service_providers.id = provider_bookings.provider_id AND service_providers.owner_id = auth.uid()
+    )
+  );
+
+-- Checkout: one pending booking per cart line, priced from the provider's current base price
+CREATE OR REPLACE FUNCTION public.create_provider_bookings(
+  p_items jsonb,
+  p_event_date date,
+  p_notes text DEFAULT NULL,
+  p_event_id uuid DEFAULT NULL
+)
+RETURNS SETOF provider_bookings AS $$
+DECLARE
+  v_item jsonb;
+  v_provider service_providers;
+  v_quantity integer;
+  v_subtotal integer;
+  v_fee integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book providers';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF p_event_date IS NULL OR p_event_date < current_date THEN
+    RAISE EXCEPTION 'Please choose an event date that is not in the past';
+  END IF;
+
+  IF p_event_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only book providers for events you organize';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO v_provider FROM service_providers WHERE id = (v_item->>'provider_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Provider not found';
+    END IF;
+    IF NOT v_provider.available THEN
+      RAISE EXCEPTION '% is not taking bookings right now', v_provider.name;
+    END IF;
+
+    v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    v_subtotal := v_provider.base_price * v_quantity;
+    v_fee := round(v_subtotal * 0.05);
+
+    RETURN QUERY
+    INSERT INTO provider_bookings (
+      provider_id, user_id, event_id, quantity, unit_price, service_fee, total_cost, event_date, notes
+    )
+    VALUES (
+      v_provider.id, auth.uid(), p_event_id, v_quantity, v_provider.base_price, v_fee, v_subtotal + v_fee,
+      p_event_date, NULLIF(trim(p_notes), '')
+    )
+    RETURNING *;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_provider_bookings(jsonb, date, text, uuid) TO authenticated;
+
+-- Booking lifecycle: pending -> confirmed -> completed, or cancelled from pending/confirmed
+CREATE OR REPLACE FUNCTION public.update_provider_booking_status(p_booking_id uuid, p_status text)
+RETURNS provider_bookings AS $$
+DECLARE
+  v_booking provider_bookings;
+  v_is_provider boolean;
+  v_is_customer boolean;
+BEGIN
+  SELECT * INTO v_booking FROM provider_bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_is_provider := EXISTS (
+    SELECT 1 FROM service_providers WHERE id = v_booking.provider_id AND owner_id = auth.uid()
+  );
+  v_is_customer := v_booking.user_id = auth.uid();
+
+  IF NOT (v_is_provider OR v_is_customer) THEN
+    RAISE EXCEPTION 'You cannot manage this booking';
+  END IF;
+
+  IF NOT (
+    (v_is_provider AND v_booking.status = 'pending' AND p_status IN ('confirmed', 'cancelled'))
+    OR (v_is_provider AND v_booking.status = 'confirmed' AND p_status IN ('completed', 'cancelled'))
+    OR (v_is_customer AND v_booking.status IN ('pending', 'confirmed') AND p_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'A % booking cannot be marked %', v_booking.status, p_status;
+  END IF;
+
+  UPDATE provider_bookings
+  SET
+    status = p_status,
+    responded_at = CASE
+      WHEN v_is_provider AND v_booking.status = 'pending' THEN now()
+      ELSE responded_at
+    END
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_provider_booking_status(uuid, text) TO authenticated;
+
+-- Seed the providers that used to be hardcoded in OrganizeTab
+INSERT INTO service_providers (name, category, description, expertise, base_price, rating, reviews_count, contact_email, contact_phone)
+VALUES
+  ('Grand Hall Venues', 'venue', 'Premier event venues for conferences, weddings, and corporate events', 'Large events, conferences, weddings', 2000000, 4.8, 124, 'info@grandhall.com', '+256-700-123456'),
+  ('Elite Tents & Decor', 'decor', 'Professional event decoration and tent rental services', 'Weddings, gala, corporate events', 450000, 4.7, 78, 'elite@tents.com', '+256-700-234567'),
+  ('Prime Ushers', 'ushering', 'Trained and professional ushering staff for all event types', 'Friendly, trained staff, crowd management', 120000, 4.6, 46, 'contact@primeushers.com', '+256-700-345678'),
+  ('SoundWorks Ltd', 'audio', 'Complete audio solutions including PA systems and mixing', 'PA systems, mixing, live sound', 600000, 4.9, 98, 'hello@soundworks.com', '+256-700-456789'),
+  ('CaterPro', 'catering', 'Full-service catering for events of all sizes', 'Buffet, plated service, dietary options', 350000, 4.5, 65, 'catering@caterpro.com', '+256-700-567890'),
+  ('LightUp Studios', 'photography', 'Professional event photography and videography', 'Weddings, corporate events, portraits', 800000, 4.9, 112, 'book@lightupstudios.com', '+256-700-678901'),
+  ('StarDJ Entertainment', 'entertainment', 'DJs, MCs, and live entertainment for events', 'Weddings, parties, corporate events', 500000, 4.7, 89, 'info@stardj.com', '+256-700-789012'),
+  ('SafeGuard Security', 'security', 'Professional event security and crowd control', 'Large events, VIP protection, access control', 400000, 4.8, 73, 'security@safeguard.com', '+256-700-890123'),
+  ('RideShare Transport', 'transport', 'Event transportation and shuttle services', 'Guest shuttles, VIP transport, logistics', 300000, 4.6, 54, 'ride@rideshare.com', '+256-700-901234');
@@ -0,0 +1,199 @@
+/*
+  # Add Provider Availability
+
+  1. Changes
+    - `service_providers`
+      - `daily_capacity` (integer, default 1) - bookings the provider can take on a single date
+      - `lead_time_days` (integer, default 0) - minimum days between booking and the event date
+
+  2. New Tables
+    - `provider_blocked_dates`
+      - `provider_id` (uuid, foreign key to service_providers)
+      - `blocked_date` (date)
+      - `reason` (text, nullable)
+      - `created_at` (timestamptz, default now())
+      - Primary key on (provider_id, blocked_date)
+
+  3. Functions
+    - `get_provider_availability(p_provider_ids, p_from, p_to)` - per-day booked count, capacity and status
+      for a date range, without exposing other organizers' bookings
+    - `create_provider_bookings` now locks the providers being booked and rejects blocked dates,
+      dates inside the lead time and dates already at capacity, so concurrent checkouts cannot
+      double-book a provider
+
+  4. Security
+    - Enable RLS on provider_blocked_dates
+    - Anyone can view blocked dates; providers' owners manage them
+*/
+
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS daily_capacity integer NOT NULL DEFAULT 1
+  CHECK (daily_capacity > 0);
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS lead_time_days integer NOT NULL DEFAULT 0
+  CHECK (lead_time_days >= 0);
+
+-- Create provider_blocked_dates table
+CREATE TABLE IF NOT EXISTS provider_blocked_dates (
+  provider_id uuid NOT NULL REFERENCES service_providers(id) ON DELETE CASCADE,
+  blocked_date date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (provider_id, blocked_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_bookings_active_date
+  ON provider_bookings(provider_id, event_date)
+  WHERE status IN ('pending', 'confirmed');
+
+-- Enable Row Level Security
+ALTER TABLE provider_blocked_dates ENABLE ROW LEVEL SECURITY;
+
+-- Policies for provider_blocked_dates
+CREATE POLICY "Anyone can view provider blocked dates"
+  ON provider_blocked_dates FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Owners can block dates for their providers"
+  ON provider_blocked_dates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM service_providers
+      WHERE service_providers.id = provider_blocked_dates.provider_id AND service_providers.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can unblock dates for their providers"
+  ON provider_blocked_dates FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM service_providers
+      WHERE service_providers.id = provider_blocked_dates.provider_id AND service_providers.owner_id = auth.uid()
+    )
+  );
+
+-- Day-by-day availability; pending bookings hold a slot until the provider declines them
+CREATE OR REPLACE FUNCTION public.get_provider_availability(p_provider_ids uuid[], p_from date, p_to date)
+RETURNS TABLE (
+  provider_id uuid,
+  day date,
+  booked integer,
+  capacity integer,
+  status text
+) AS $$
+  SELECT
+    p.id,
+    d::date,
+    COALESCE(b.booked, 0)::integer,
+    p.daily_capacity,
+    CASE
+      WHEN bd.blocked_date IS NOT NULL OR NOT p.available THEN 'blocked'
+      WHEN d::date < current_date + p.lead_time_days THEN 'too_soon'
+      WHEN COALESCE(b.booked, 0) >= p.daily_capacity THEN 'full'
+      ELSE 'available'
+    END
+  FROM service_providers p
+  CROSS JOIN generate_series(p_from, LEAST(p_to, p_from + 92), interval '1 day') AS d
+  LEFT JOIN provider_blocked_dates bd ON bd.provider_id = p.id AND bd.blocked_date = d::date
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS booked
+    FROM provider_bookings pb
+    WHERE pb.provider_id = p.id AND pb.event_date = d::date AND pb.status IN ('pending', 'confirmed')
+  ) b ON true
+  WHERE p.id = ANY(p_provider_ids)
+  ORDER BY p.id, d;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_provider_availability(uuid[], date, date) TO anon, authenticated;
+
+-- Checkout, now rejecting unavailable dates
+CREATE OR REPLACE FUNCTION public.create_provider_bookings(
+  p_items jsonb,
+  p_event_date date,
+  p_notes text DEFAULT NULL,
+  p_event_id uuid DEFAULT NULL
+)
+RETURNS SETOF provider_bookings AS $$
+DECLARE
+  v_item jsonb;
+  v_provider service_providers;
+  v_quantity integer;
+  v_subtotal integer;
+  v_fee integer;
+  v_taken integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book providers';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF p_event_date IS NULL OR p_event_date < current_date THEN
+    RAISE EXCEPTION 'Please choose an event date that is not in the past';
+  END IF;
+
+  IF p_event_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only book providers for events you organize';
+  END IF;
+
+  -- Lock every provider in the cart (in a fixed order, so two checkouts cannot deadlock) before
+  -- counting their bookings; a concurrent checkout for the same provider waits until we commit
+  PERFORM 1
+  FROM service_providers
+  WHERE id IN (SELECT (item->>'provider_id')::uuid FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO v_provider FROM service_providers WHERE id = (v_item->>'provider_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Provider not found';
+    END IF;
+    IF NOT v_provider.available THEN
+      RAISE EXCEPTION '% is not taking bookings right now', v_provider.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM provider_blocked_dates WHERE provider_id = v_provider.id AND blocked_date = p_event_date
+    ) THEN
+      RAISE EXCEPTION '% is not available on %', v_provider.name, to_char(p_event_date, 'Mon DD, YYYY');
+    END IF;
+
+    IF p_event_date < current_date + v_provider.lead_time_days THEN
+      RAISE EXCEPTION '% needs at least % days notice', v_provider.name, v_provider.lead_time_days;
+    END IF;
+
+    -- Counts lines inserted earlier in this same checkout too
+    SELECT COUNT(*) INTO v_taken
+    FROM provider_bookings
+    WHERE provider_id = v_provider.id AND event_date = p_event_date AND status IN ('pending', 'confirmed');
+
+    IF v_taken >= v_provider.daily_capacity THEN
+      RAISE EXCEPTION '% is fully booked on %', v_provider.name, to_char(p_event_date, 'Mon DD, YYYY');
+    END IF;
+
+    v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    v_subtotal := v_provider.base_price * v_quantity;
+    v_fee := round(v_subtotal * 0.05);
+
+    RETURN QUERY
+    INSERT INTO provider_bookings (
+      provider_id, user_id, event_id, quantity, unit_price, service_fee, total_cost, event_date, notes
+    )
+    VALUES (
+      v_provider.id, auth.uid(), p_event_id, v_quantity, v_provider.base_price, v_fee, v_subtotal + v_fee,
+      p_event_date, NULLIF(trim(p_notes), '')
+    )
+    RETURNING *;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,236 @@
+/*
+  # Create Provider Reviews Tables
+
+  1. New Tables
+    - `provider_reviews`
+      - `id` (uuid, primary key)
+      - `provider_id` (uuid, foreign key to service_providers)
+      - `booking_id` (uuid, unique, foreign key to provider_bookings) - one review per completed booking
+      - `user_id` (uuid, foreign key to profiles)
+      - `rating` (integer, 1-5)
+      - `comment` (text)
+      - `reply` (text, nullable) - the provider's public response
+      - `replied_at` (timestamptz, nullable)
+      - `hidden_at` (timestamptz, nullable) - set once a review collects enough abuse reports
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+    - `provider_review_reports`
+      - `id` (uuid, primary key)
+      - `review_id` (uuid, foreign key to provider_reviews)
+      - `reporter_id` (uuid, foreign key to profiles)
+      - `reason` (text) - spam, offensive, fake or other
+      - `details` (text, nullable)
+      - `created_at` (timestamptz, default now())
+      - Unique on (review_id, reporter_id)
+
+  2. Changes
+    - `service_providers.rating` and `reviews_count` are now maintained by a trigger from visible
+      reviews; the seeded placeholder figures are reset
+
+  3. Functions
+    - `refresh_provider_rating(p_provider_id)` - recomputes the aggregate
+    - `reply_to_provider_review(p_review_id, p_reply)` - provider owner only
+    - Reviews are hidden automatically after 3 reports
+
+  4. Security
+    - Enable RLS on both tables
+    - Visible reviews are public; hidden ones stay visible to their author and the provider's owner
+    - Only the organizer of a completed booking can review it; authors can edit the rating and
+      comment or delete their review
+    - Signed-in users can report a review once and see their own reports
+    - Provider owners can no longer write `rating` or `reviews_count` on their listings
+*/
+
+-- Create provider_reviews table
+CREATE TABLE IF NOT EXISTS provider_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id uuid NOT NULL REFERENCES service_providers(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL UNIQUE REFERENCES provider_bookings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text NOT NULL DEFAULT '' CHECK (char_length(comment) <= 2000),
+  reply text CHECK (char_length(reply) <= 2000),
+  replied_at timestamptz,
+  hidden_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_reviews_provider_id ON provider_reviews(provider_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS set_provider_reviews_updated_at ON provider_reviews;
+CREATE TRIGGER set_provider_reviews_updated_at
+  BEFORE UPDATE ON provider_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Create provider_review_reports table
+CREATE TABLE IF NOT EXISTS provider_review_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES provider_reviews(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'offensive', 'fake', 'other')),
+  details text CHECK (char_length(details) <= 1000),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (review_id, reporter_id)
+);
+
+-- Keep the provider's rating and review count in step with its visible reviews
+CREATE OR REPLACE FUNCTION public.refresh_provider_rating(p_provider_id uuid)
+RETURNS void AS $$
+  UPDATE service_providers
+  SET
+    rating = COALESCE((
+      SELECT round(AVG(rating)::numeric, 1) FROM provider_reviews
+      WHERE provider_id = p_provider_id AND hidden_at IS NULL
+    ), 0),
+    reviews_count = (
+      SELECT COUNT(*) FROM provider_reviews
+      WHERE provider_id = p_provider_id AND hidden_at IS NULL
+    )
+  WHERE id = p_provider_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_provider_review_change()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM public.refresh_provider_rating(COALESCE(NEW.provider_id, OLD.provider_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_provider_rating_on_review ON provider_reviews;
+CREATE TRIGGER refresh_provider_rating_on_review
+  AFTER INSERT OR UPDATE OF rating, hidden_at OR DELETE ON provider_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_provider_review_change();
+
+-- Hide a review once three different users have reported it
+CREATE OR REPLACE FUNCTION public.handle_provider_review_report()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE provider_reviews
+  SET hidden_at = now()
+  WHERE id = NEW.review_id
+    AND hidden_at IS NULL
+    AND (SELECT COUNT(*) FROM provider_review_reports WHERE review_id = NEW.review_id) >= 3;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS hide_reported_provider_review ON provider_review_reports;
+CREATE TRIGGER hide_reported_provider_review
+  AFTER INSERT ON provider_review_reports
+  FOR EACH ROW EXECUTE FUNCTION public.handle_provider_review_report();
+
+-- Enable Row Level Security
+ALTER TABLE provider_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_review_reports ENABLE ROW LEVEL SECURITY;
+
+-- Policies for provider_reviews
+CREATE POLICY "Anyone can view visible provider reviews"
+  ON provider_reviews FOR SELECT
+  TO anon, authenticated
+  USING (
+    hidden_at IS NULL
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM service_providers
+      WHERE service_providers.id = provider_reviews.provider_id AND service_providers.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can review their completed bookings"
+  ON provider_reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND reply IS NULL
+    AND hidden_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM provider_bookings
+      WHERE provider_bookings.id = provider_reviews.booking_id
+        AND provider_bookings.provider_id = provider_reviews.provider_id
+        AND provider_bookings.user_id = auth.uid()
+        AND provider_bookings.status = 'completed'
+    )
+  );
+
+CREATE POLICY "Users can update their own reviews"
+  ON provider_reviews FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews"
+  ON provider_reviews FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Authors may only change what they wrote; replies and moderation go through functions
+REVOKE UPDATE ON provider_reviews FROM authenticated;
+GRANT UPDATE (rating, comment) ON provider_reviews TO authenticated;
+
+-- Policies for provider_review_reports
+CREATE POLICY "Users can view their own review reports"
+  ON provider_review_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Users can report reviews"
+  ON provider_review_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reporter_id);
+
+-- Provider owners respond publicly to a review
+CREATE OR REPLACE FUNCTION public.reply_to_provider_review(p_review_id uuid, p_reply text)
+RETURNS provider_reviews AS $$
+DECLARE
+  v_review provider_reviews;
+BEGIN
+  UPDATE provider_reviews r
+  SET reply = NULLIF(trim(p_reply), ''),
+      replied_at = CASE WHEN NULLIF(trim(p_reply), '') IS NULL THEN NULL ELSE now() END
+  FROM service_providers p
+  WHERE r.id = p_review_id AND p.id = r.provider_id AND p.owner_id = auth.uid()
+  RETURNING r.* INTO v_review;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the provider can reply to this review';
+  END IF;
+
+  RETURN v_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reply_to_provider_review(uuid, text) TO authenticated;
+
+-- Ratings now come from reviews only
+UPDATE service_providers SET rating = 0, reviews_count = 0;
+
+REVOKE INSERT, UPDATE ON service_providers FROM authenticated;
+GRANT INSERT (
+  owner_id,
+  name,
+  category,
+  description,
+  expertise,
+  base_price,
+  contact_email,
+  contact_phone,
+  portfolio_images,
+  available,
+  daily_capacity,
+  lead_time_days
+) ON service_providers TO authenticated;
+GRANT UPDATE (
+  name,
+  category,
+  description,
+  expertise,
+  base_price,
+  contact_email,
+  contact_phone,
+  portfolio_images,
+  available,
+  daily_capacity,
+  lead_time_days
+) ON service_providers TO authenticated;
@@ -0,0 +1,79 @@
+/*
+  # Create Event Budgets Table
+
+  1. New Tables
+    - `event_budgets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `event_id` (uuid, nullable, foreign key to events) - the event the plan is for
+      - `name` (text) - e.g. "Option A - garden venue"
+      - `total_budget` (integer) - overall budget in UGX
+      - `allocations` (jsonb) - amount set aside per provider category, e.g. {"venue": 2000000}
+      - `items` (jsonb) - planned providers as [{"provider_id": ..., "quantity": ...}]
+      - `notes` (text, nullable)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on event_budgets
+    - Budget plans are private drafts; users manage only their own, and can only attach them to
+      events they organize
+*/
+
+-- Create event_budgets table
+CREATE TABLE IF NOT EXISTS event_budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 120),
+  total_budget integer NOT NULL DEFAULT 0 CHECK (total_budget >= 0),
+  allocations jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(allocations) = 'object'),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_budgets_user_id ON event_budgets(user_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS set_event_budgets_updated_at ON event_budgets;
+CREATE TRIGGER set_event_budgets_updated_at
+  BEFORE UPDATE ON event_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE event_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_budgets
+CREATE POLICY "Users can view their own budgets"
+  ON event_budgets FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets"
+  ON event_budgets FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      event_id IS NULL
+      OR EXISTS (SELECT 1 FROM events WHERE events.id = event_budgets.event_id AND events.organizer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update their own budgets"
+  ON event_budgets FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      event_id IS NULL
+      OR EXISTS (SELECT 1 FROM events WHERE events.id = event_budgets.event_id AND events.organizer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete their own budgets"
+  ON event_budgets FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,177 @@
+/*
+  # Add Event Publishing
+
+  1. Changes
+    - `events`
+      - `published_at` (timestamptz, nullable) - null while the event is a draft; existing events are
+        backfilled as published
+
+  2. Storage
+    - Public `event-covers` bucket for cover images, one folder per organizer
+
+  3. Functions
+    - `register_for_event` refuses registrations for drafts
+    - `link_provider_booking_to_event(p_booking_id, p_event_id)` - attaches (or detaches, with a null
+      event) one of the caller's provider bookings to an event they organize
+
+  4. Triggers
+    - Events with active registrations cannot be unpublished, since attendees would lose sight of
+      the event their tickets belong to
+    - Events with active registrations cannot be deleted either, since that would take the tickets,
+      chat, memories and stream with them; attendees have to cancel first
+
+  5. Security
+    - Drafts are only visible to their organizer
+    - Organizers can upload and remove covers in their own folder
+*/
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE events SET published_at = created_at WHERE published_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_published_at ON events(published_at) WHERE published_at IS NOT NULL;
+
+-- Drafts stay private to their organizer
+DROP POLICY IF EXISTS "Anyone can view events" ON events;
+
+CREATE POLICY "Anyone can view published events"
+  ON events FOR SELECT
+  TO anon, authenticated
+  USING (published_at IS NOT NULL OR auth.uid() = organizer_id);
+
+-- Published events keep attendees' tickets readable, so they stay published once anyone registers
+CREATE OR REPLACE FUNCTION public.prevent_unpublishing_registered_event()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.published_at IS NOT NULL AND NEW.published_at IS NULL AND EXISTS (
+    SELECT 1 FROM event_registrations WHERE event_id = NEW.id AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'This event has active registrations and cannot be unpublished';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_unpublishing_registered_event() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS prevent_unpublishing_registered_event ON events;
+CREATE TRIGGER prevent_unpublishing_registered_event
+  BEFORE UPDATE OF published_at ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_unpublishing_registered_event();
+
+-- Deleting an event cascades to its tickets, so keep events that still have attendees
+CREATE OR REPLACE FUNCTION public.prevent_deleting_registered_event()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM event_registrations WHERE event_id = OLD.id AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'This event has active registrations and cannot be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_deleting_registered_event() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS prevent_deleting_registered_event ON events;
+CREATE TRIGGER prevent_deleting_registered_event
+  BEFORE DELETE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_deleting_registered_event();
+
+-- Cover image storage
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('event-covers', 'event-covers', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Organizers can upload event covers to their own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'event-covers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Organizers can delete their own event covers"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'event-covers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Refuse registrations for drafts
+CREATE OR REPLACE FUNCTION public.register_for_event(p_event_id uuid)
+RETURNS event_registrations AS $$
+DECLARE
+  v_event events;
+  v_taken integer;
+  v_registration event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register';
+  END IF;
+
+  -- Lock the event row so concurrent registrations cannot oversell it
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.published_at IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.ends_at <= now() THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    IF v_taken >= v_event.capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  INSERT INTO event_registrations (event_id, user_id, ticket_code, amount, payment_status)
+  VALUES (
+    p_event_id,
+    auth.uid(),
+    'TKT-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_event.price,
+    CASE WHEN v_event.price > 0 THEN 'pending' ELSE 'free' END
+  )
+  RETURNING * INTO v_registration;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attach a provider booking made through the Organize tab to one of the organizer's events
+CREATE OR REPLACE FUNCTION public.link_provider_booking_to_event(p_booking_id uuid, p_event_id uuid)
+RETURNS provider_bookings AS $$
+DECLARE
+  v_booking provider_bookings;
+BEGIN
+  IF p_event_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only link bookings to events you organize';
+  END IF;
+
+  UPDATE provider_bookings
+  SET event_id = p_event_id
+  WHERE id = p_booking_id AND user_id = auth.uid()
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.link_provider_booking_to_event(uuid, uuid) TO authenticated;
@@ -0,0 +1,409 @@
+/*
+  # Create Ticket Types and Promo Codes
+
+  1. New Tables
+    - `event_ticket_types`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `name` (text) - e.g. "Early Bird", "VIP Table"
+      - `kind` (text) - early_bird, regular, vip or group
+      - `description` (text)
+      - `price` (integer) - price per ticket in UGX
+      - `quantity` (integer, nullable) - tickets of this type on sale, NULL means unlimited
+      - `group_size` (integer, default 1) - seats one ticket covers
+      - `sales_start` / `sales_end` (timestamptz, nullable) - sale window
+      - `sort_order` (integer)
+      - `created_at` / `updated_at` (timestamptz)
+    - `event_promo_codes`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `ticket_type_id` (uuid, nullable) - restrict the code to one ticket type
+      - `code` (text) - unique per event, case-insensitive
+      - `discount_type` (text) - percent or fixed
+      - `discount_value` (integer) - percentage (1-100) or UGX amount
+      - `max_uses` (integer, nullable) - NULL means unlimited
+      - `expires_at` (timestamptz, nullable)
+      - `active` (boolean, default true)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `event_registrations`
+      - `ticket_type_id`, `promo_code_id` (uuid, nullable)
+      - `seats` (integer, default 1) - group tickets hold several seats
+      - `discount` (integer, default 0) - promo discount applied to `amount`
+    - `events.price` now follows the cheapest ticket type, so listings show a "from" price
+    - Every existing event gets a "General Admission" ticket type at its current price
+    - `event_registration_stats.registered_count` counts seats rather than tickets
+    - `event_registration_stats` leaves out drafts, which only their organizer can see
+
+  3. Views
+    - `event_ticket_type_stats` - tickets sold per ticket type; drafts are left out for everyone but
+      their organizer
+
+  4. Functions
+    - `register_for_event(p_event_id, p_ticket_type_id, p_promo_code)` replaces the single-price version
+      and enforces sale windows, per-type quantities, event capacity and promo code rules
+    - `quote_event_ticket(p_event_id, p_ticket_type_id, p_promo_code)` - price preview with the same checks
+
+  5. Security
+    - Enable RLS on both tables
+    - Ticket types are visible wherever their event is; organizers manage them
+    - Promo codes are only visible to the organizer; buyers can only redeem them through the functions
+*/
+
+-- Create event_ticket_types table
+CREATE TABLE IF NOT EXISTS event_ticket_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  kind text NOT NULL DEFAULT 'regular' CHECK (kind IN ('early_bird', 'regular', 'vip', 'group')),
+  description text NOT NULL DEFAULT '',
+  price integer NOT NULL DEFAULT 0 CHECK (price >= 0),
+  quantity integer CHECK (quantity IS NULL OR quantity > 0),
+  group_size integer NOT NULL DEFAULT 1 CHECK (group_size BETWEEN 1 AND 50),
+  sales_start timestamptz,
+  sales_end timestamptz,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (sales_end IS NULL OR sales_start IS NULL OR sales_end > sales_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_ticket_types_event_id ON event_ticket_types(event_id, sort_order);
+
+DROP TRIGGER IF EXISTS set_event_ticket_types_updated_at ON event_ticket_types;
+CREATE TRIGGER set_event_ticket_types_updated_at
+  BEFORE UPDATE ON event_ticket_types
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Create event_promo_codes table
+CREATE TABLE IF NOT EXISTS event_promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id uuid REFERENCES event_ticket_types(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value integer NOT NULL CHECK (
+    discount_value > 0 AND (discount_type <> 'percent' OR discount_value <= 100)
+  ),
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  expires_at timestamptz,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, code)
+);
+
+-- Link registrations to what was bought
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS ticket_type_id uuid
+  REFERENCES event_ticket_types(id) ON DELETE SET NULL;
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS promo_code_id uuid
+  REFERENCES event_promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS seats integer NOT NULL DEFAULT 1 CHECK (seats > 0);
+ALTER TABLE event_registrations ADD COLUMN IF NOT EXISTS discount integer NOT NULL DEFAULT 0 CHECK (discount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_event_registrations_ticket_type_id ON event_registrations(ticket_type_id);
+CREATE INDEX IF NOT EXISTS idx_event_registrations_promo_code_id ON event_registrations(promo_code_id);
+
+-- Existing events keep selling at their current price
+INSERT INTO event_ticket_types (event_id, name, kind, price)
+SELECT id, 'General Admission', 'regular', price FROM events
+WHERE NOT EXISTS (SELECT 1 FROM event_ticket_types WHERE event_ticket_types.event_id = events.id);
+
+UPDATE event_registrations r
+SET ticket_type_id = t.id
+FROM event_ticket_types t
+WHERE t.event_id = r.event_id AND r.ticket_type_id IS NULL;
+
+-- Keep events.price at the cheapest ticket type
+CREATE OR REPLACE FUNCTION public.sync_event_price()
+RETURNS trigger AS $$
+DECLARE
+  v_event_id uuid := COALESCE(NEW.event_id, OLD.event_id);
+BEGIN
+  UPDATE events
+  SET price = COALESCE((SELECT MIN(price) FROM event_ticket_types WHERE event_id = v_event_id), price)
+  WHERE id = v_event_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_event_price_on_ticket_types ON event_ticket_types;
+CREATE TRIGGER sync_event_price_on_ticket_types
+  AFTER INSERT OR UPDATE OF price OR DELETE ON event_ticket_types
+  FOR EACH ROW EXECUTE FUNCTION public.sync_event_price();
+
+-- Enable Row Level Security
+ALTER TABLE event_ticket_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Policies for event_ticket_types
+CREATE POLICY "Anyone can view ticket types of visible events"
+  ON event_ticket_types FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_ticket_types.event_id
+        AND (events.published_at IS NOT NULL OR events.organizer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Organizers can insert ticket types for their events"
+  ON event_ticket_types FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_ticket_types.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can update ticket types for their events"
+  ON event_ticket_types FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_ticket_types.event_id AND events.organizer_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_ticket_types.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can delete ticket types for their events"
+  ON event_ticket_types FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_ticket_types.event_id AND events.organizer_id = auth.uid()));
+
+-- Policies for event_promo_codes
+CREATE POLICY "Organizers can view promo codes for their events"
+  ON event_promo_codes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_promo_codes.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can insert promo codes for their events"
+  ON event_promo_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_promo_codes.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can update promo codes for their events"
+  ON event_promo_codes FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_promo_codes.event_id AND events.organizer_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM events WHERE events.id = event_promo_codes.event_id AND events.organizer_id = auth.uid()));
+
+CREATE POLICY "Organizers can delete promo codes for their events"
+  ON event_promo_codes FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_promo_codes.event_id AND events.organizer_id = auth.uid()));
+
+-- Seats, not tickets, count against capacity
+CREATE OR REPLACE VIEW event_registration_stats AS
+SELECT
+  events.id AS event_id,
+  events.capacity,
+  COALESCE(SUM(event_registrations.seats) FILTER (WHERE event_registrations.status <> 'cancelled'), 0)::integer
+    AS registered_count
+FROM events
+LEFT JOIN event_registrations ON event_registrations.event_id = events.id
+WHERE events.published_at IS NOT NULL OR events.organizer_id = auth.uid()
+GROUP BY events.id, events.capacity;
+
+-- Tickets sold per type
+CREATE OR REPLACE VIEW event_ticket_type_stats AS
+SELECT
+  t.id AS ticket_type_id,
+  t.event_id,
+  t.quantity,
+  COUNT(r.id) FILTER (WHERE r.status <> 'cancelled')::integer AS sold_count
+FROM event_ticket_types t
+JOIN events e ON e.id = t.event_id
+LEFT JOIN event_registrations r ON r.ticket_type_id = t.id
+WHERE e.published_at IS NOT NULL OR e.organizer_id = auth.uid()
+GROUP BY t.id, t.event_id, t.quantity;
+
+GRANT SELECT ON event_ticket_type_stats TO anon, authenticated;
+
+-- Works out what a ticket costs, raising the same errors registration would. Callers lock the event
+-- row first when the result is about to be used.
+CREATE OR REPLACE FUNCTION public.price_event_ticket(p_event events, p_ticket_type_id uuid, p_promo_code text)
+RETURNS TABLE (
+  ticket_type_id uuid,
+  seats integer,
+  price integer,
+  promo_code_id uuid,
+  discount integer
+) AS $$
+DECLARE
+  v_type event_ticket_types;
+  v_promo event_promo_codes;
+  v_sold integer;
+  v_used integer;
+  v_price integer := p_event.price;
+  v_seats integer := 1;
+  v_discount integer := 0;
+BEGIN
+  IF EXISTS (SELECT 1 FROM event_ticket_types WHERE event_id = p_event.id) THEN
+    IF p_ticket_type_id IS NULL THEN
+      RAISE EXCEPTION 'Please choose a ticket type';
+    END IF;
+
+    SELECT * INTO v_type FROM event_ticket_types WHERE id = p_ticket_type_id AND event_id = p_event.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ticket type not found';
+    END IF;
+
+    IF v_type.sales_start IS NOT NULL AND now() < v_type.sales_start THEN
+      RAISE EXCEPTION '% tickets go on sale on %', v_type.name, to_char(v_type.sales_start, 'Mon DD, YYYY');
+    END IF;
+    IF v_type.sales_end IS NOT NULL AND now() >= v_type.sales_end THEN
+      RAISE EXCEPTION 'Sales for % tickets have ended', v_type.name;
+    END IF;
+
+    IF v_type.quantity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_sold
+      FROM event_registrations
+      WHERE event_registrations.ticket_type_id = v_type.id AND status <> 'cancelled';
+
+      IF v_sold >= v_type.quantity THEN
+        RAISE EXCEPTION '% tickets are sold out', v_type.name;
+      END IF;
+    END IF;
+
+    v_price := v_type.price;
+    v_seats := v_type.group_size;
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    SELECT * INTO v_promo
+    FROM event_promo_codes
+    WHERE event_id = p_event.id AND code = upper(trim(p_promo_code)) AND active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That promo code is not valid for this event';
+    END IF;
+
+    IF v_promo.expires_at IS NOT NULL AND now() >= v_promo.expires_at THEN
+      RAISE EXCEPTION 'That promo code has expired';
+    END IF;
+
+    IF v_promo.ticket_type_id IS NOT NULL AND v_promo.ticket_type_id IS DISTINCT FROM v_type.id THEN
+      RAISE EXCEPTION 'That promo code does not apply to this ticket type';
+    END IF;
+
+    IF v_promo.max_uses IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_used
+      FROM event_registrations
+      WHERE event_registrations.promo_code_id = v_promo.id AND status <> 'cancelled';
+
+      IF v_used >= v_promo.max_uses THEN
+        RAISE EXCEPTION 'That promo code has reached its usage limit';
+      END IF;
+    END IF;
+
+    v_discount := CASE
+      WHEN v_promo.discount_type = 'percent' THEN round(v_price * v_promo.discount_value / 100.0)::integer
+      ELSE LEAST(v_promo.discount_value, v_price)
+    END;
+  END IF;
+
+  RETURN QUERY SELECT v_type.id, v_seats, v_price, v_promo.id, v_discount;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper; clients go through quote_event_ticket and register_for_event
+REVOKE EXECUTE ON FUNCTION public.price_event_ticket(events, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Price preview for the ticket picker
+CREATE OR REPLACE FUNCTION public.quote_event_ticket(
+  p_event_id uuid,
+  p_ticket_type_id uuid DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_event events;
+  v_quote record;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id AND published_at IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  SELECT * INTO v_quote FROM public.price_event_ticket(v_event, p_ticket_type_id, p_promo_code);
+
+  RETURN jsonb_build_object(
+    'price', v_quote.price,
+    'discount', v_quote.discount,
+    'amount', v_quote.price - v_quote.discount,
+    'seats', v_quote.seats,
+    'promo_applied', v_quote.promo_code_id IS NOT NULL
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.quote_event_ticket(uuid, uuid, text) TO authenticated;
+
+-- Register the current user with a ticket type and optional promo code
+DROP FUNCTION IF EXISTS public.register_for_event(uuid);
+
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  p_event_id uuid,
+  p_ticket_type_id uuid DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS event_registrations AS $$
+DECLARE
+  v_event events;
+  v_quote record;
+  v_taken integer;
+  v_amount integer;
+  v_registration event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register';
+  END IF;
+
+  -- Lock the event row so concurrent registrations cannot oversell it, a ticket type or a promo code
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.published_at IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.ends_at <= now() THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  SELECT * INTO v_quote FROM public.price_event_ticket(v_event, p_ticket_type_id, p_promo_code);
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COALESCE(SUM(seats), 0) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    IF v_taken >= v_event.capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+    IF v_taken + v_quote.seats > v_event.capacity THEN
+      RAISE EXCEPTION 'Only % seats are left, not enough for a group of %', v_event.capacity - v_taken, v_quote.seats;
+    END IF;
+  END IF;
+
+  v_amount := v_quote.price - v_quote.discount;
+
+  INSERT INTO event_registrations (
+    event_id, user_id, ticket_code, amount, payment_status, ticket_type_id, promo_code_id, seats, discount
+  )
+  VALUES (
+    p_event_id,
+    auth.uid(),
+    'TKT-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_amount,
+    CASE WHEN v_amount > 0 THEN 'pending' ELSE 'free' END,
+    v_quote.ticket_type_id,
+    v_quote.promo_code_id,
+    v_quote.seats,
+    v_quote.discount
+  )
+  RETURNING * INTO v_registration;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.register_for_event(uuid, uuid, text) TO authenticated;
@@ -0,0 +1,643 @@
+/*
+  # Create Event Waitlist and Notifications
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `type` (text) - e.g. waitlist_offer, waitlist_expired
+      - `title` (text)
+      - `body` (text)
+      - `link` (text, nullable) - in-app path the notification opens
+      - `read_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+    - `event_waitlist_entries`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `ticket_type_id` (uuid, nullable) - the ticket type being waited for; NULL for events without types
+      - `user_id` (uuid, foreign key to profiles)
+      - `status` (text) - waiting, offered, claimed, expired or left
+      - `offered_at` (timestamptz, nullable)
+      - `offer_expires_at` (timestamptz, nullable) - end of the claim window
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `event_registration_stats.held_count` - seats held for waitlisted users with an open offer
+    - `event_ticket_type_stats.held_count` - tickets of each type held the same way
+    - `price_event_ticket` and `register_for_event` treat held seats as taken for everyone but the
+      person they are held for; registering closes the caller's waitlist entry
+
+  3. Functions
+    - `join_event_waitlist(p_event_id, p_ticket_type_id)` - queue for a sold-out event or ticket type
+    - `leave_event_waitlist(p_entry_id)`
+    - `expire_waitlist_offers(p_event_id)` - closes lapsed offers and offers the seats to the next in line.
+      Called whenever the waitlist is touched; schedule it with pg_cron for prompt promotion on quiet events
+    - `promote_event_waitlist(p_event_id)` (internal) - offers free seats in queue order, notifying each user
+    - Cancelling a registration, raising an event's capacity or a ticket type's quantity promotes the waitlist
+
+  4. Security
+    - Enable RLS on both tables
+    - Users see and manage their own notifications and can only mark them read
+    - Users see their own waitlist entries; organizers see the entries for their events
+    - Entries and notifications are only written through the functions above
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  link text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- Create event_waitlist_entries table
+CREATE TABLE IF NOT EXISTS event_waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id uuid REFERENCES event_ticket_types(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'left')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status <> 'offered' OR offer_expires_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_waitlist_entries_queue
+  ON event_waitlist_entries(event_id, created_at)
+  WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_event_waitlist_entries_offers
+  ON event_waitlist_entries(offer_expires_at)
+  WHERE status = 'offered';
+CREATE INDEX IF NOT EXISTS idx_event_waitlist_entries_user_id ON event_waitlist_entries(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_waitlist_entries_active_user
+  ON event_waitlist_entries(event_id, user_id)
+  WHERE status IN ('waiting', 'offered');
+
+DROP TRIGGER IF EXISTS set_event_waitlist_entries_updated_at ON event_waitlist_entries;
+CREATE TRIGGER set_event_waitlist_entries_updated_at
+  BEFORE UPDATE ON event_waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- Policies for event_waitlist_entries
+CREATE POLICY "Users can view their own waitlist entries"
+  ON event_waitlist_entries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view waitlist entries for their events"
+  ON event_waitlist_entries FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM events WHERE events.id = event_waitlist_entries.event_id AND events.organizer_id = auth.uid()));
+
+-- Seats held for open offers count against capacity until the offer is claimed or lapses
+CREATE OR REPLACE VIEW event_registration_stats AS
+SELECT
+  events.id AS event_id,
+  events.capacity,
+  COALESCE(SUM(event_registrations.seats) FILTER (WHERE event_registrations.status <> 'cancelled'), 0)::integer
+    AS registered_count,
+  (
+    SELECT COALESCE(SUM(COALESCE(t.group_size, 1)), 0)
+    FROM event_waitlist_entries w
+    LEFT JOIN event_ticket_types t ON t.id = w.ticket_type_id
+    WHERE w.event_id = events.id AND w.status = 'offered' AND w.offer_expires_at > now()
+  )::integer AS held_count
+FROM events
+LEFT JOIN event_registrations ON event_registrations.event_id = events.id
+WHERE events.published_at IS NOT NULL OR events.organizer_id = auth.uid()
+GROUP BY events.id, events.capacity;
+
+CREATE OR REPLACE VIEW event_ticket_type_stats AS
+SELECT
+  t.id AS ticket_type_id,
+  t.event_id,
+  t.quantity,
+  COUNT(r.id) FILTER (WHERE r.status <> 'cancelled')::integer AS sold_count,
+  (
+    SELECT COUNT(*)
+    FROM event_waitlist_entries w
+    WHERE w.ticket_type_id = t.id AND w.status = 'offered' AND w.offer_expires_at > now()
+  )::integer AS held_count
+FROM event_ticket_types t
+JOIN events e ON e.id = t.event_id
+LEFT JOIN event_registrations r ON r.ticket_type_id = t.id
+WHERE e.published_at IS NOT NULL OR e.organizer_id = auth.uid()
+GROUP BY t.id, t.event_id, t.quantity;
+
+-- The caller's place in each queue they are waiting in
+CREATE OR REPLACE VIEW my_waitlist_positions AS
+SELECT ranked.id AS entry_id, ranked.position
+FROM (
+  SELECT
+    id,
+    user_id,
+    row_number() OVER (PARTITION BY event_id, ticket_type_id ORDER BY created_at, id)::integer AS position
+  FROM event_waitlist_entries
+  WHERE status = 'waiting'
+) ranked
+WHERE ranked.user_id = auth.uid();
+
+GRANT SELECT ON my_waitlist_positions TO authenticated;
+
+-- Internal: write an in-app notification
+CREATE OR REPLACE FUNCTION public.notify_user(p_user_id uuid, p_type text, p_title text, p_body text, p_link text)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Internal: seats (event-wide) held for other users' open offers
+CREATE OR REPLACE FUNCTION public.waitlist_held_seats(p_event_id uuid, p_exclude_user uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(SUM(COALESCE(t.group_size, 1)), 0)::integer
+  FROM event_waitlist_entries w
+  LEFT JOIN event_ticket_types t ON t.id = w.ticket_type_id
+  WHERE w.event_id = p_event_id
+    AND w.status = 'offered'
+    AND w.offer_expires_at > now()
+    AND w.user_id IS DISTINCT FROM p_exclude_user;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal: tickets of one type held for other users' open offers
+CREATE OR REPLACE FUNCTION public.waitlist_held_tickets(p_ticket_type_id uuid, p_exclude_user uuid)
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer
+  FROM event_waitlist_entries
+  WHERE ticket_type_id = p_ticket_type_id
+    AND status = 'offered'
+    AND offer_expires_at > now()
+    AND user_id IS DISTINCT FROM p_exclude_user;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.waitlist_held_seats(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.waitlist_held_tickets(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Internal: offer free seats to waiting users in the order they joined. Entries that do not fit (a group
+-- ticket when one seat is free, a type that is still sold out) keep their place for the next opening.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_event events;
+  v_entry record;
+  v_taken integer;
+  v_sold integer;
+  v_expires timestamptz;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.published_at IS NULL OR v_event.ends_at <= now() THEN
+    RETURN;
+  END IF;
+
+  FOR v_entry IN
+    SELECT w.id, w.user_id, w.ticket_type_id, COALESCE(t.group_size, 1) AS seats, t.quantity, t.name AS type_name
+    FROM event_waitlist_entries w
+    LEFT JOIN event_ticket_types t ON t.id = w.ticket_type_id
+    WHERE w.event_id = p_event_id
+      AND w.status = 'waiting'
+      AND (t.sales_end IS NULL OR t.sales_end > now())
+    ORDER BY w.created_at, w.id
+  LOOP
+    IF v_event.capacity IS NOT NULL THEN
+      SELECT COALESCE(SUM(seats), 0) INTO v_taken
+      FROM event_registrations
+      WHERE event_id = p_event_id AND status <> 'cancelled';
+
+      IF v_taken + public.waitlist_held_seats(p_event_id, NULL) + v_entry.seats > v_event.capacity THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_entry.quantity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_sold
+      FROM event_registrations
+      WHERE ticket_type_id = v_entry.ticket_type_id AND status <> 'cancelled';
+
+      IF v_sold + public.waitlist_held_tickets(v_entry.ticket_type_id, NULL) >= v_entry.quantity THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    -- 24 hours to claim, but never past the end of the event
+    v_expires := LEAST(now() + interval '24 hours', v_event.ends_at);
+
+    UPDATE event_waitlist_entries
+    SET status = 'offered', offered_at = now(), offer_expires_at = v_expires
+    WHERE id = v_entry.id;
+
+    PERFORM public.notify_user(
+      v_entry.user_id,
+      'waitlist_offer',
+      'A spot opened up for ' || v_event.title,
+      CASE
+        WHEN v_entry.type_name IS NULL THEN 'A seat is being held for you. '
+        ELSE 'A ' || v_entry.type_name || ' ticket is being held for you. '
+      END || 'Claim it from My Tickets before the hold expires.',
+      '/account/tickets'
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Close lapsed offers (for one event, or all of them) and pass the seats on
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers(p_event_id uuid DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_entry record;
+  v_event_ids uuid[] := '{}';
+  v_event_id uuid;
+BEGIN
+  FOR v_entry IN
+    UPDATE event_waitlist_entries w
+    SET status = 'expired'
+    FROM events e
+    WHERE e.id = w.event_id
+      AND w.status = 'offered'
+      AND w.offer_expires_at <= now()
+      AND (p_event_id IS NULL OR w.event_id = p_event_id)
+    RETURNING w.user_id, w.event_id, e.title
+  LOOP
+    v_event_ids := array_append(v_event_ids, v_entry.event_id);
+    PERFORM public.notify_user(
+      v_entry.user_id,
+      'waitlist_expired',
+      'Your held spot for ' || v_entry.title || ' was released',
+      'The claim window closed, so the spot went to the next person in line. You can join the waitlist again.',
+      '/events'
+    );
+  END LOOP;
+
+  FOR v_event_id IN SELECT DISTINCT unnest(v_event_ids) LOOP
+    PERFORM public.promote_event_waitlist(v_event_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers(uuid) TO authenticated;
+
+-- Queue for a sold-out event or ticket type
+CREATE OR REPLACE FUNCTION public.join_event_waitlist(p_event_id uuid, p_ticket_type_id uuid DEFAULT NULL)
+RETURNS event_waitlist_entries AS $$
+DECLARE
+  v_event events;
+  v_type event_ticket_types;
+  v_seats integer := 1;
+  v_taken integer;
+  v_sold integer;
+  v_full boolean := false;
+  v_entry event_waitlist_entries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join the waitlist';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.published_at IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.ends_at <= now() THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_waitlist_entries
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status IN ('waiting', 'offered')
+  ) THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this event';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM event_ticket_types WHERE event_id = p_event_id) THEN
+    IF p_ticket_type_id IS NULL THEN
+      RAISE EXCEPTION 'Please choose a ticket type';
+    END IF;
+
+    SELECT * INTO v_type FROM event_ticket_types WHERE id = p_ticket_type_id AND event_id = p_event_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ticket type not found';
+    END IF;
+
+    IF v_type.sales_end IS NOT NULL AND now() >= v_type.sales_end THEN
+      RAISE EXCEPTION 'Sales for % tickets have ended', v_type.name;
+    END IF;
+
+    v_seats := v_type.group_size;
+
+    IF v_type.quantity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_sold
+      FROM event_registrations
+      WHERE ticket_type_id = v_type.id AND status <> 'cancelled';
+
+      v_full := v_sold + public.waitlist_held_tickets(v_type.id, NULL) >= v_type.quantity;
+    END IF;
+  ELSIF p_ticket_type_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket type not found';
+  END IF;
+
+  IF NOT v_full AND v_event.capacity IS NOT NULL THEN
+    SELECT COALESCE(SUM(seats), 0) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    v_full := v_taken + public.waitlist_held_seats(p_event_id, NULL) + v_seats > v_event.capacity;
+  END IF;
+
+  IF NOT v_full THEN
+    RAISE EXCEPTION 'Tickets are still available, so you can register now';
+  END IF;
+
+  INSERT INTO event_waitlist_entries (event_id, ticket_type_id, user_id)
+  VALUES (p_event_id, v_type.id, auth.uid())
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.join_event_waitlist(uuid, uuid) TO authenticated;
+
+-- Leave a queue, or turn down an offer so it passes to the next person
+CREATE OR REPLACE FUNCTION public.leave_event_waitlist(p_entry_id uuid)
+RETURNS event_waitlist_entries AS $$
+DECLARE
+  v_previous text;
+  v_entry event_waitlist_entries;
+BEGIN
+  SELECT status INTO v_previous
+  FROM event_waitlist_entries
+  WHERE id = p_entry_id AND user_id = auth.uid() AND status IN ('waiting', 'offered')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  UPDATE event_waitlist_entries
+  SET status = 'left'
+  WHERE id = p_entry_id
+  RETURNING * INTO v_entry;
+
+  IF v_previous = 'offered' THEN
+    PERFORM public.promote_event_waitlist(v_entry.event_id);
+  END IF;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.leave_event_waitlist(uuid) TO authenticated;
+
+-- Freed seats and raised limits go to the waitlist first
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'events' THEN
+    PERFORM public.promote_event_waitlist(NEW.id);
+  ELSE
+    PERFORM public.promote_event_waitlist(NEW.event_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_cancellation ON event_registrations;
+CREATE TRIGGER promote_waitlist_on_cancellation
+  AFTER UPDATE OF status ON event_registrations
+  FOR EACH ROW
+  WHEN (OLD.status <> 'cancelled' AND NEW.status = 'cancelled')
+  EXECUTE FUNCTION public.promote_waitlist_on_change();
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_capacity ON events;
+CREATE TRIGGER promote_waitlist_on_capacity
+  AFTER UPDATE OF capacity ON events
+  FOR EACH ROW
+  WHEN (NEW.capacity IS DISTINCT FROM OLD.capacity)
+  EXECUTE FUNCTION public.promote_waitlist_on_change();
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_quantity ON event_ticket_types;
+CREATE TRIGGER promote_waitlist_on_quantity
+  AFTER UPDATE OF quantity ON event_ticket_types
+  FOR EACH ROW
+  WHEN (NEW.quantity IS DISTINCT FROM OLD.quantity)
+  EXECUTE FUNCTION public.promote_waitlist_on_change();
+
+-- Held tickets count as sold for everyone but the person they are held for
+CREATE OR REPLACE FUNCTION public.price_event_ticket(p_event events, p_ticket_type_id uuid, p_promo_code text)
+RETURNS TABLE (
+  ticket_type_id uuid,
+  seats integer,
+  price integer,
+  promo_code_id uuid,
+  discount integer
+) AS $$
+DECLARE
+  v_type event_ticket_types;
+  v_promo event_promo_codes;
+  v_sold integer;
+  v_used integer;
+  v_price integer := p_event.price;
+  v_seats integer := 1;
+  v_discount integer := 0;
+BEGIN
+  IF EXISTS (SELECT 1 FROM event_ticket_types WHERE event_id = p_event.id) THEN
+    IF p_ticket_type_id IS NULL THEN
+      RAISE EXCEPTION 'Please choose a ticket type';
+    END IF;
+
+    SELECT * INTO v_type FROM event_ticket_types WHERE id = p_ticket_type_id AND event_id = p_event.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ticket type not found';
+    END IF;
+
+    IF v_type.sales_start IS NOT NULL AND now() < v_type.sales_start THEN
+      RAISE EXCEPTION '% tickets go on sale on %', v_type.name, to_char(v_type.sales_start, 'Mon DD, YYYY');
+    END IF;
+    IF v_type.sales_end IS NOT NULL AND now() >= v_type.sales_end THEN
+      RAISE EXCEPTION 'Sales for % tickets have ended', v_type.name;
+    END IF;
+
+    IF v_type.quantity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_sold
+      FROM event_registrations
+      WHERE event_registrations.ticket_type_id = v_type.id AND status <> 'cancelled';
+
+      IF v_sold + public.waitlist_held_tickets(v_type.id, auth.uid()) >= v_type.quantity THEN
+        RAISE EXCEPTION '% tickets are sold out', v_type.name;
+      END IF;
+    END IF;
+
+    v_price := v_type.price;
+    v_seats := v_type.group_size;
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    SELECT * INTO v_promo
+    FROM event_promo_codes
+    WHERE event_id = p_event.id AND code = upper(trim(p_promo_code)) AND active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That promo code is not valid for this event';
+    END IF;
+
+    IF v_promo.expires_at IS NOT NULL AND now() >= v_promo.expires_at THEN
+      RAISE EXCEPTION 'That promo code has expired';
+    END IF;
+
+    IF v_promo.ticket_type_id IS NOT NULL AND v_promo.ticket_type_id IS DISTINCT FROM v_type.id THEN
+      RAISE EXCEPTION 'That promo code does not apply to this ticket type';
+    END IF;
+
+    IF v_promo.max_uses IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_used
+      FROM event_registrations
+      WHERE event_registrations.promo_code_id = v_promo.id AND status <> 'cancelled';
+
+      IF v_used >= v_promo.max_uses THEN
+        RAISE EXCEPTION 'That promo code has reached its usage limit';
+      END IF;
+    END IF;
+
+    v_discount := CASE
+      WHEN v_promo.discount_type = 'percent' THEN round(v_price * v_promo.discount_value / 100.0)::integer
+      ELSE LEAST(v_promo.discount_value, v_price)
+    END;
+  END IF;
+
+  RETURN QUERY SELECT v_type.id, v_seats, v_price, v_promo.id, v_discount;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Registration respects held seats and claims the caller's own offer
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  p_event_id uuid,
+  p_ticket_type_id uuid DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS event_registrations AS $$
+DECLARE
+  v_event events;
+  v_quote record;
+  v_taken integer;
+  v_amount integer;
+  v_registration event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to register';
+  END IF;
+
+  -- Lock the event row so concurrent registrations cannot oversell it, a ticket type or a promo code
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.published_at IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.ends_at <= now() THEN
+    RAISE EXCEPTION 'This event has already ended';
+  END IF;
+
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  IF EXISTS (
+    SELECT 1 FROM event_registrations
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You are already registered for this event';
+  END IF;
+
+  SELECT * INTO v_quote FROM public.price_event_ticket(v_event, p_ticket_type_id, p_promo_code);
+
+  IF v_event.capacity IS NOT NULL THEN
+    SELECT COALESCE(SUM(seats), 0) + public.waitlist_held_seats(p_event_id, auth.uid()) INTO v_taken
+    FROM event_registrations
+    WHERE event_id = p_event_id AND status <> 'cancelled';
+
+    IF v_taken >= v_event.capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+    IF v_taken + v_quote.seats > v_event.capacity THEN
+      RAISE EXCEPTION 'Only % seats are left, not enough for a group of %', v_event.capacity - v_taken, v_quote.seats;
+    END IF;
+  END IF;
+
+  v_amount := v_quote.price - v_quote.discount;
+
+  INSERT INTO event_registrations (
+    event_id, user_id, ticket_code, amount, payment_status, ticket_type_id, promo_code_id, seats, discount
+  )
+  VALUES (
+    p_event_id,
+    auth.uid(),
+    'TKT-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_amount,
+    CASE WHEN v_amount > 0 THEN 'pending' ELSE 'free' END,
+    v_quote.ticket_type_id,
+    v_quote.promo_code_id,
+    v_quote.seats,
+    v_quote.discount
+  )
+  RETURNING * INTO v_registration;
+
+  -- A ticket closes the caller's place in the queue; if they bought a different type than the one held
+  -- for them, that hold goes to the next person
+  IF EXISTS (
+    SELECT 1 FROM event_waitlist_entries
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status IN ('waiting', 'offered')
+  ) THEN
+    UPDATE event_waitlist_entries
+    SET status = 'claimed'
+    WHERE event_id = p_event_id AND user_id = auth.uid() AND status IN ('waiting', 'offered');
+
+    PERFORM public.promote_event_waitlist(p_event_id);
+  END IF;
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deliver notifications live
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
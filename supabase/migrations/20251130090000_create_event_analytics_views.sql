@@ -0,0 +1,165 @@
+/*
+  # Create Event Analytics Views
+
+  1. New Tables
+    - `event_stream_sessions`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, foreign key to events)
+      - `user_id` (uuid, foreign key to profiles)
+      - `started_at` (timestamptz) - first heartbeat of a continuous viewing session
+      - `last_seen_at` (timestamptz) - latest heartbeat; a gap of more than two minutes starts a new session
+
+  2. Views (each only returns rows for events the caller organizes)
+    - `event_analytics` - per-event totals: tickets and seats sold, cancellations, check-ins, revenue,
+      discounts, memories posted, waitlist size and livestream peak concurrent viewers
+    - `event_registration_timeline` - registrations and cancellations per day, in the event's timezone
+    - `event_ticket_type_analytics` - sales, check-ins and revenue per ticket type
+
+  3. Functions
+    - `record_stream_heartbeat(p_event_id)` - called by the player about once a minute while a stream is live
+
+  4. Security
+    - Enable RLS on event_stream_sessions with no policies; it is only written by the heartbeat function
+      and only read through the views
+*/
+
+-- Create event_stream_sessions table
+CREATE TABLE IF NOT EXISTS event_stream_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_stream_sessions_event_user
+  ON event_stream_sessions(event_id, user_id, last_seen_at DESC);
+
+ALTER TABLE event_stream_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Extend the viewer's current session, or open a new one
+CREATE OR REPLACE FUNCTION public.record_stream_heartbeat(p_event_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_session_id uuid;
+BEGIN
+  IF NOT public.can_watch_event_stream(p_event_id) THEN
+    RAISE EXCEPTION 'You do not have access to this livestream';
+  END IF;
+
+  -- Only live viewing counts towards concurrency
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = p_event_id AND is_livestream AND now() BETWEEN starts_at AND ends_at
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_session_id
+  FROM event_stream_sessions
+  WHERE event_id = p_event_id AND user_id = auth.uid() AND last_seen_at > now() - interval '2 minutes'
+  ORDER BY last_seen_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE event_stream_sessions SET last_seen_at = now() WHERE id = v_session_id;
+  ELSE
+    INSERT INTO event_stream_sessions (event_id, user_id) VALUES (p_event_id, auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_stream_heartbeat(uuid) TO authenticated;
+
+-- Per-event totals for the organizer
+CREATE OR REPLACE VIEW event_analytics AS
+SELECT
+  e.id AS event_id,
+  e.organizer_id,
+  e.title,
+  e.starts_at,
+  e.ends_at,
+  e.capacity,
+  e.is_livestream,
+  COALESCE(r.tickets_sold, 0)::integer AS tickets_sold,
+  COALESCE(r.seats_sold, 0)::integer AS seats_sold,
+  COALESCE(r.cancelled_count, 0)::integer AS cancelled_count,
+  COALESCE(r.checked_in_count, 0)::integer AS checked_in_count,
+  COALESCE(r.gross_revenue, 0)::integer AS gross_revenue,
+  COALESCE(r.paid_revenue, 0)::integer AS paid_revenue,
+  COALESCE(r.discount_total, 0)::integer AS discount_total,
+  (SELECT COUNT(*) FROM event_memories m WHERE m.event_id = e.id)::integer AS memories_count,
+  (
+    SELECT COUNT(*) FROM event_waitlist_entries w
+    WHERE w.event_id = e.id AND w.status IN ('waiting', 'offered')
+  )::integer AS waitlist_count,
+  -- Sweep session starts (+1) and ends (-1) in time order, starts first on ties so single-heartbeat
+  -- sessions still count; the highest running total is the peak
+  (
+    SELECT COALESCE(MAX(running), 0)
+    FROM (
+      SELECT SUM(delta) OVER (ORDER BY at, delta DESC, id) AS running
+      FROM (
+        SELECT s.id, s.started_at AS at, 1 AS delta FROM event_stream_sessions s WHERE s.event_id = e.id
+        UNION ALL
+        SELECT s.id, s.last_seen_at AS at, -1 AS delta FROM event_stream_sessions s WHERE s.event_id = e.id
+      ) boundaries
+    ) sweep
+  )::integer AS peak_viewers
+FROM events e
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE status <> 'cancelled') AS tickets_sold,
+    SUM(seats) FILTER (WHERE status <> 'cancelled') AS seats_sold,
+    COUNT(*) FILTER (WHERE status = 'cancelled') AS cancelled_count,
+    COUNT(*) FILTER (WHERE status <> 'cancelled' AND checked_in_at IS NOT NULL) AS checked_in_count,
+    SUM(amount) FILTER (WHERE status <> 'cancelled') AS gross_revenue,
+    SUM(amount) FILTER (WHERE status <> 'cancelled' AND payment_status = 'paid') AS paid_revenue,
+    SUM(discount) FILTER (WHERE status <> 'cancelled') AS discount_total
+  FROM event_registrations
+  WHERE event_registrations.event_id = e.id
+) r ON true
+WHERE e.organizer_id = auth.uid();
+
+-- Registrations and cancellations per day
+CREATE OR REPLACE VIEW event_registration_timeline AS
+SELECT
+  activity.event_id,
+  activity.day,
+  COUNT(*) FILTER (WHERE activity.kind = 'registered')::integer AS registrations,
+  COUNT(*) FILTER (WHERE activity.kind = 'cancelled')::integer AS cancellations
+FROM (
+  SELECT r.event_id, (r.created_at AT TIME ZONE e.timezone)::date AS day, 'registered' AS kind
+  FROM event_registrations r
+  JOIN events e ON e.id = r.event_id
+  WHERE e.organizer_id = auth.uid()
+  UNION ALL
+  SELECT r.event_id, (r.cancelled_at AT TIME ZONE e.timezone)::date AS day, 'cancelled' AS kind
+  FROM event_registrations r
+  JOIN events e ON e.id = r.event_id
+  WHERE e.organizer_id = auth.uid() AND r.cancelled_at IS NOT NULL
+) activity
+GROUP BY activity.event_id, activity.day;
+
+-- Sales per ticket type
+CREATE OR REPLACE VIEW event_ticket_type_analytics AS
+SELECT
+  t.id AS ticket_type_id,
+  t.event_id,
+  t.name,
+  t.kind,
+  t.price,
+  t.quantity,
+  t.sort_order,
+  COUNT(r.id) FILTER (WHERE r.status <> 'cancelled')::integer AS sold_count,
+  COUNT(r.id) FILTER (WHERE r.status <> 'cancelled' AND r.checked_in_at IS NOT NULL)::integer AS checked_in_count,
+  COALESCE(SUM(r.amount) FILTER (WHERE r.status <> 'cancelled'), 0)::integer AS revenue
+FROM event_ticket_types t
+JOIN events e ON e.id = t.event_id
+LEFT JOIN event_registrations r ON r.ticket_type_id = t.id
+WHERE e.organizer_id = auth.uid()
+GROUP BY t.id, t.event_id, t.name, t.kind, t.price, t.quantity, t.sort_order;
+
+GRANT SELECT ON event_analytics TO authenticated;
+GRANT SELECT ON event_registration_timeline TO authenticated;
+GRANT SELECT ON event_ticket_type_analytics TO authenticated;
@@ -0,0 +1,40 @@
+/*
+  # Create Media Feed View
+
+  1. Views
+    - `media_feed` - media_content rows with the like count and the caller's like and follow state
+      joined in, so a page of media is a single query instead of three per item
+      - `likes_count` (integer)
+      - `is_liked` (boolean) - the caller has liked the item
+      - `is_following` (boolean) - the caller follows the item's creator
+
+  2. Changes
+    - Index media_content on (type, created_at) for paginated tab listings
+
+  3. Security
+    - Grant SELECT on the view to authenticated users, matching the media_content read policy
+*/
+
+CREATE INDEX IF NOT EXISTS idx_media_content_type_created_at
+  ON media_content(type, created_at DESC);
+
+CREATE OR REPLACE VIEW media_feed AS
+SELECT
+  m.*,
+  COALESCE(l.likes_count, 0)::integer AS likes_count,
+  EXISTS (
+    SELECT 1 FROM media_likes ml
+    WHERE ml.media_id = m.id AND ml.user_id = auth.uid()
+  ) AS is_liked,
+  EXISTS (
+    SELECT 1 FROM creator_follows cf
+    WHERE cf.creator_name = m.creator_name AND cf.follower_id = auth.uid()
+  ) AS is_following
+FROM media_content m
+LEFT JOIN LATERAL (
+  SELECT COUNT(*) AS likes_count
+  FROM media_likes
+  WHERE media_likes.media_id = m.id
+) l ON true;
+
+GRANT SELECT ON media_feed TO authenticated;
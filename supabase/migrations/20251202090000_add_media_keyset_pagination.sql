@@ -0,0 +1,20 @@
+/*
+  # Add Media Keyset Pagination
+
+  1. Changes
+    - `media_content.created_at` is now NOT NULL (backfilled from updated_at or now()) so it can serve
+      as a pagination key
+    - Replace the (type, created_at) index with (type, created_at, id), matching the feed's
+      ORDER BY created_at DESC, id DESC and its "after this row" cursor filter
+*/
+
+UPDATE media_content
+SET created_at = COALESCE(updated_at, now())
+WHERE created_at IS NULL;
+
+ALTER TABLE media_content ALTER COLUMN created_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_content_type_created_at_id
+  ON media_content(type, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS idx_media_content_type_created_at;
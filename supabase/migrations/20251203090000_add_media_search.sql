@@ -0,0 +1,89 @@
+/*
+  # Add Media Search
+
+  1. Changes
+    - Enable the `pg_trgm` extension
+    - `media_content.search_vector` (tsvector, generated) - title (weight A), creator_name (B),
+      category (C) and description (D), using the `simple` configuration so prefix queries match
+      the words as typed rather than their English stems
+    - GIN index on search_vector, and trigram GIN indexes on title and creator_name for typo-tolerant
+      matching
+
+  2. Functions
+    - `search_media(p_query, p_type, p_category, p_limit, p_offset)` - media_feed rows for one Media
+      tab matching the query, best matches first. A row matches when every word of the query is a
+      prefix of a word in the item (full text), or when the query is close to the title, creator
+      name or category (trigram word similarity), so small typos still find results.
+
+  3. Security
+    - The function runs with the caller's rights, so media_content RLS still applies
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE media_content
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(creator_name, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(category, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_media_content_search_vector
+  ON media_content USING gin(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_media_content_title_trgm
+  ON media_content USING gin(title gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_media_content_creator_name_trgm
+  ON media_content USING gin(creator_name gin_trgm_ops);
+
+-- Ranked, prefix-matching and typo-tolerant search over one Media tab
+CREATE OR REPLACE FUNCTION public.search_media(
+  p_query text,
+  p_type text,
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF media_feed AS $$
+DECLARE
+  v_query text := lower(trim(p_query));
+  v_tsquery tsquery;
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  -- 'dj mix' becomes 'dj:* & mix:*'; punctuation is dropped so user input cannot break the syntax
+  SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+  INTO v_tsquery
+  FROM (
+    SELECT regexp_replace(token, '[^[:alnum:]]', '', 'g') AS word
+    FROM regexp_split_to_table(v_query, '\s+') AS token
+  ) words
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT f.*
+  FROM media_feed f
+  JOIN media_content m ON m.id = f.id
+  WHERE f.type = p_type
+    AND (p_category IS NULL OR f.category = p_category)
+    AND (
+      (v_tsquery IS NOT NULL AND m.search_vector @@ v_tsquery)
+      OR v_query <% m.title
+      OR v_query <% m.creator_name
+      OR v_query <% m.category
+    )
+  ORDER BY
+    COALESCE(ts_rank(m.search_vector, v_tsquery), 0)
+      + GREATEST(word_similarity(v_query, m.title), word_similarity(v_query, m.creator_name)) DESC,
+    f.created_at DESC,
+    f.id DESC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.search_media(text, text, text, integer, integer) TO authenticated;
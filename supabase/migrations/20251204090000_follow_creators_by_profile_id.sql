@@ -0,0 +1,136 @@
+/*
+  # Follow Creators by Profile Id
+
+  1. Changes
+    - `creator_follows.creator_id` (uuid, foreign key to profiles) replaces `creator_name`, so renaming
+      a profile or two creators sharing a name no longer breaks follows
+      - Existing rows are resolved to the creator_id their media_content items carry under that name,
+        falling back to the only profile with that name; follows that cannot be resolved, point at
+        the follower themselves or duplicate another follow are removed
+      - Unique constraint on (follower_id, creator_id); a profile cannot follow itself
+    - `profiles.followers_count` and `profiles.following_count` (integer, default 0), kept up to date
+      by a trigger on creator_follows
+    - `media_feed.is_following` now compares creator ids
+
+  2. Security
+    - Users cannot update the follow counts on their own profile; they are left out of the profile
+      columns users may update, so only the trigger writes them
+*/
+
+-- Resolve existing follows to profile ids
+ALTER TABLE creator_follows
+  ADD COLUMN IF NOT EXISTS creator_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+
+UPDATE creator_follows cf
+SET creator_id = COALESCE(
+  (
+    SELECT m.creator_id
+    FROM media_content m
+    WHERE m.creator_name = cf.creator_name AND m.creator_id IS NOT NULL
+    GROUP BY m.creator_id
+    ORDER BY COUNT(*) DESC
+    LIMIT 1
+  ),
+  (
+    SELECT MIN(p.id::text)::uuid
+    FROM profiles p
+    WHERE p.name = cf.creator_name
+    HAVING COUNT(*) = 1
+  )
+)
+WHERE cf.creator_id IS NULL;
+
+DELETE FROM creator_follows
+WHERE creator_id IS NULL OR creator_id = follower_id;
+
+-- Two names that resolved to the same creator leave duplicates; keep the earliest follow
+DELETE FROM creator_follows cf
+USING creator_follows earlier
+WHERE cf.follower_id = earlier.follower_id
+  AND cf.creator_id = earlier.creator_id
+  AND (earlier.created_at, earlier.id) < (cf.created_at, cf.id);
+
+ALTER TABLE creator_follows ALTER COLUMN creator_id SET NOT NULL;
+
+ALTER TABLE creator_follows
+  ADD CONSTRAINT creator_follows_follower_id_creator_id_key UNIQUE (follower_id, creator_id);
+
+ALTER TABLE creator_follows
+  ADD CONSTRAINT creator_follows_not_self CHECK (follower_id <> creator_id);
+
+CREATE INDEX IF NOT EXISTS idx_creator_follows_creator_id ON creator_follows(creator_id);
+
+-- media_feed keeps its column list; only is_following changes
+CREATE OR REPLACE VIEW media_feed AS
+SELECT
+  m.id,
+  m.title,
+  m.creator_name,
+  m.creator_id,
+  m.thumbnail_url,
+  m.content_url,
+  m.duration,
+  m.read_time,
+  m.category,
+  m.type,
+  m.content_type,
+  m.description,
+  m.price,
+  m.rating,
+  m.is_premium,
+  m.views_count,
+  m.plays_count,
+  m.sales_count,
+  m.created_at,
+  m.updated_at,
+  COALESCE(l.likes_count, 0)::integer AS likes_count,
+  EXISTS (
+    SELECT 1 FROM media_likes ml
+    WHERE ml.media_id = m.id AND ml.user_id = auth.uid()
+  ) AS is_liked,
+  EXISTS (
+    SELECT 1 FROM creator_follows cf
+    WHERE cf.creator_id = m.creator_id AND cf.follower_id = auth.uid()
+  ) AS is_following
+FROM media_content m
+LEFT JOIN LATERAL (
+  SELECT COUNT(*) AS likes_count
+  FROM media_likes
+  WHERE media_likes.media_id = m.id
+) l ON true;
+
+DROP INDEX IF EXISTS idx_creator_follows_creator_name;
+ALTER TABLE creator_follows DROP COLUMN IF EXISTS creator_name;
+
+-- Follow counts on profiles
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS followers_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS following_count integer NOT NULL DEFAULT 0;
+
+UPDATE profiles p
+SET
+  followers_count = (SELECT COUNT(*) FROM creator_follows cf WHERE cf.creator_id = p.id),
+  following_count = (SELECT COUNT(*) FROM creator_follows cf WHERE cf.follower_id = p.id);
+
+CREATE OR REPLACE FUNCTION public.update_follow_counts()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET followers_count = followers_count + 1 WHERE id = NEW.creator_id;
+    UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE profiles SET followers_count = GREATEST(followers_count - 1, 0) WHERE id = OLD.creator_id;
+  UPDATE profiles SET following_count = GREATEST(following_count - 1, 0) WHERE id = OLD.follower_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_follow_counts() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_follow_counts ON creator_follows;
+CREATE TRIGGER update_follow_counts
+  AFTER INSERT OR DELETE ON creator_follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_follow_counts();
@@ -0,0 +1,100 @@
+/*
+  # Add Media Like Counter and Realtime
+
+  1. Changes
+    - `media_content.likes_count` (integer, default 0), kept up to date by a trigger on media_likes.
+      Realtime DELETE events only carry the primary key, so viewers cannot decrement a count from
+      an unlike; they follow UPDATEs of this column instead.
+    - `media_feed` reads likes_count from the column and gains two columns at the end:
+      - `my_like_id` (uuid, nullable) - the caller's media_likes row for the item
+      - `my_follow_id` (uuid, nullable) - the caller's creator_follows row for the item's creator
+      so a DELETE event, which only carries the row id, can be matched to the items it affects
+
+  2. Realtime
+    - Publish media_content, media_likes and creator_follows
+
+  3. Security
+    - Creators can only update the details they edit on their own media. Counters, ratings,
+      ownership and timestamps are written by the server
+*/
+
+ALTER TABLE media_content
+  ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0;
+
+UPDATE media_content m
+SET likes_count = (SELECT COUNT(*) FROM media_likes l WHERE l.media_id = m.id);
+
+CREATE OR REPLACE FUNCTION public.update_media_likes_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE media_content SET likes_count = likes_count + 1 WHERE id = NEW.media_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE media_content SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.media_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_media_likes_count() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_media_likes_count ON media_likes;
+CREATE TRIGGER update_media_likes_count
+  AFTER INSERT OR DELETE ON media_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_media_likes_count();
+
+REVOKE UPDATE ON media_content FROM authenticated;
+GRANT UPDATE (
+  title,
+  creator_name,
+  thumbnail_url,
+  content_url,
+  duration,
+  read_time,
+  category,
+  type,
+  content_type,
+  description,
+  price,
+  is_premium
+) ON media_content TO authenticated;
+
+CREATE OR REPLACE VIEW media_feed AS
+SELECT
+  m.id,
+  m.title,
+  m.creator_name,
+  m.creator_id,
+  m.thumbnail_url,
+  m.content_url,
+  m.duration,
+  m.read_time,
+  m.category,
+  m.type,
+  m.content_type,
+  m.description,
+  m.price,
+  m.rating,
+  m.is_premium,
+  m.views_count,
+  m.plays_count,
+  m.sales_count,
+  m.created_at,
+  m.updated_at,
+  m.likes_count,
+  my_like.id IS NOT NULL AS is_liked,
+  my_follow.id IS NOT NULL AS is_following,
+  my_like.id AS my_like_id,
+  my_follow.id AS my_follow_id
+FROM media_content m
+LEFT JOIN media_likes my_like
+  ON my_like.media_id = m.id AND my_like.user_id = auth.uid()
+LEFT JOIN creator_follows my_follow
+  ON my_follow.creator_id = m.creator_id AND my_follow.follower_id = auth.uid();
+
+-- Enable realtime for live like counts and like/follow state
+ALTER PUBLICATION supabase_realtime ADD TABLE media_content;
+ALTER PUBLICATION supabase_realtime ADD TABLE media_likes;
+ALTER PUBLICATION supabase_realtime ADD TABLE creator_follows;
@@ -0,0 +1,99 @@
+/*
+  # Add Media Content Uploads
+
+  1. Changes
+    - `media_content.status` (text) - 'pending' for new submissions awaiting review, 'approved' once
+      they may appear on Media. Existing rows are approved.
+    - `media_content.file_size` (bigint, nullable) - size of the uploaded file in bytes
+    - `media_content.mime_type` (text, nullable) - type of the uploaded file
+    - `media_feed` only lists approved items, so search and the Media tabs skip pending submissions
+
+  2. Storage
+    - `media-content` bucket (public) for uploaded files and their generated thumbnails, limited to
+      100 MB and the accepted image, video, audio and document types. Files live under
+      `<user id>/` so policies can check ownership by folder.
+
+  3. Security
+    - Creators can only insert their own content as 'pending' and cannot change `status`
+    - Creators can upload to and delete from their own folder in the bucket
+*/
+
+ALTER TABLE media_content
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved' CHECK (status IN ('pending', 'approved')),
+  ADD COLUMN IF NOT EXISTS file_size bigint,
+  ADD COLUMN IF NOT EXISTS mime_type text;
+
+-- Existing rows were backfilled as approved; everything submitted from now on waits for review
+ALTER TABLE media_content ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_media_content_creator_id ON media_content(creator_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Creators can insert their own content" ON media_content;
+
+CREATE POLICY "Creators can submit their own content for review"
+  ON media_content FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = creator_id AND status = 'pending');
+
+-- The columns granted in the like counter migration, plus the new file details; status stays out
+GRANT UPDATE (file_size, mime_type) ON media_content TO authenticated;
+
+CREATE OR REPLACE VIEW media_feed AS
+SELECT
+  m.id,
+  m.title,
+  m.creator_name,
+  m.creator_id,
+  m.thumbnail_url,
+  m.content_url,
+  m.duration,
+  m.read_time,
+  m.category,
+  m.type,
+  m.content_type,
+  m.description,
+  m.price,
+  m.rating,
+  m.is_premium,
+  m.views_count,
+  m.plays_count,
+  m.sales_count,
+  m.created_at,
+  m.updated_at,
+  m.likes_count,
+  my_like.id IS NOT NULL AS is_liked,
+  my_follow.id IS NOT NULL AS is_following,
+  my_like.id AS my_like_id,
+  my_follow.id AS my_follow_id
+FROM media_content m
+LEFT JOIN media_likes my_like
+  ON my_like.media_id = m.id AND my_like.user_id = auth.uid()
+LEFT JOIN creator_follows my_follow
+  ON my_follow.creator_id = m.creator_id AND my_follow.follower_id = auth.uid()
+WHERE m.status = 'approved';
+
+-- Upload storage
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'media-content',
+  'media-content',
+  true,
+  104857600,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif',
+    'video/mp4', 'video/quicktime',
+    'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/mp4', 'audio/x-m4a',
+    'application/pdf', 'application/zip', 'application/x-zip-compressed'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Creators can upload media to their own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'media-content' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Creators can delete their own media files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'media-content' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,180 @@
+/*
+  # Add Media Moderation
+
+  1. Changes
+    - `profiles.is_admin` (boolean, default false) - can review submitted content. Not updatable by
+      users; grant it from the SQL editor.
+    - `media_content.status` gains 'rejected' and 'taken_down'. Allowed moves:
+      - pending -> approved | rejected (review)
+      - rejected -> approved (overturned by an admin) | pending (resubmitted by the creator)
+      - approved -> taken_down, taken_down -> approved
+      Editing the title, description, category or files of an approved item sends it back to pending.
+    - `media_content.reviewer_notes` (text, nullable) - shown to the creator, required when rejecting
+      or taking down
+    - `media_content.reviewed_by` (uuid, nullable, foreign key to profiles)
+    - `media_content.reviewed_at` (timestamptz, nullable)
+
+  2. Functions
+    - `is_admin()` - whether the caller is an admin
+    - `moderate_media(p_media_ids, p_status, p_notes)` - admins move one or more items to approved,
+      rejected or taken_down and each creator gets a notification
+    - `resubmit_media(p_media_id)` - creators send a rejected item back for review
+
+  3. Security
+    - Replace "Anyone can view media content" so only approved items are public; creators still see
+      their own submissions and admins see everything
+    - Editing the title, description, category, type, files, creator name, price or premium flag of
+      approved content sends it back to pending
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+ALTER TABLE media_content DROP CONSTRAINT IF EXISTS media_content_status_check;
+ALTER TABLE media_content
+  ADD CONSTRAINT media_content_status_check CHECK (status IN ('pending', 'approved', 'rejected', 'taken_down'));
+
+ALTER TABLE media_content
+  ADD COLUMN IF NOT EXISTS reviewer_notes text,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_media_content_status ON media_content(status, created_at);
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT COALESCE((SELECT is_admin FROM profiles WHERE id = auth.uid()), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- Only approved content is public
+DROP POLICY IF EXISTS "Anyone can view media content" ON media_content;
+
+CREATE POLICY "Anyone can view approved media content"
+  ON media_content FOR SELECT
+  TO authenticated
+  USING (status = 'approved');
+
+CREATE POLICY "Creators can view their own content"
+  ON media_content FOR SELECT
+  TO authenticated
+  USING (auth.uid() = creator_id);
+
+CREATE POLICY "Admins can view all media content"
+  ON media_content FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Internal: the moderation state machine
+CREATE OR REPLACE FUNCTION public.media_status_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'approved'),
+    ('pending', 'rejected'),
+    ('rejected', 'approved'),
+    ('rejected', 'pending'),
+    ('approved', 'taken_down'),
+    ('taken_down', 'approved')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Creators changing what was reviewed need a fresh review
+CREATE OR REPLACE FUNCTION public.reset_media_review_on_edit()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.status = 'approved'
+    AND (
+      NEW.title, NEW.description, NEW.category, NEW.type, NEW.content_url, NEW.thumbnail_url,
+      NEW.creator_name, NEW.price, NEW.is_premium
+    ) IS DISTINCT FROM (
+      OLD.title, OLD.description, OLD.category, OLD.type, OLD.content_url, OLD.thumbnail_url,
+      OLD.creator_name, OLD.price, OLD.is_premium
+    )
+  THEN
+    NEW.status := 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_media_review_on_edit ON media_content;
+CREATE TRIGGER reset_media_review_on_edit
+  BEFORE UPDATE ON media_content
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_media_review_on_edit();
+
+-- Review one or more items; all of them move or none do
+CREATE OR REPLACE FUNCTION public.moderate_media(p_media_ids uuid[], p_status text, p_notes text DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_item media_content;
+  v_notes text := NULLIF(trim(p_notes), '');
+  v_count integer := 0;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review content';
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected', 'taken_down') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', p_status;
+  END IF;
+
+  IF p_status IN ('rejected', 'taken_down') AND v_notes IS NULL THEN
+    RAISE EXCEPTION 'Add a note for the creator explaining the decision';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM media_content WHERE id = ANY(p_media_ids) ORDER BY created_at FOR UPDATE
+  LOOP
+    IF NOT public.media_status_transition_allowed(v_item.status, p_status) THEN
+      RAISE EXCEPTION '"%" is % and cannot be moved to %', v_item.title, v_item.status, p_status;
+    END IF;
+
+    UPDATE media_content
+    SET status = p_status, reviewer_notes = v_notes, reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = v_item.id;
+
+    IF v_item.creator_id IS NOT NULL THEN
+      PERFORM public.notify_user(
+        v_item.creator_id,
+        'media_' || p_status,
+        CASE p_status
+          WHEN 'approved' THEN '"' || v_item.title || '" is now live on Media'
+          WHEN 'rejected' THEN '"' || v_item.title || '" was not approved'
+          ELSE '"' || v_item.title || '" was taken down'
+        END,
+        COALESCE(v_notes, 'Thanks for sharing your work.'),
+        '/content'
+      );
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.moderate_media(uuid[], text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.resubmit_media(p_media_id uuid)
+RETURNS media_content AS $$
+DECLARE
+  v_item media_content;
+BEGIN
+  SELECT * INTO v_item FROM media_content WHERE id = p_media_id AND creator_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content not found';
+  END IF;
+
+  IF NOT public.media_status_transition_allowed(v_item.status, 'pending') THEN
+    RAISE EXCEPTION 'Only rejected content can be resubmitted';
+  END IF;
+
+  UPDATE media_content SET status = 'pending' WHERE id = p_media_id RETURNING * INTO v_item;
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.resubmit_media(uuid) TO authenticated;
@@ -0,0 +1,490 @@
+/*
+  # Create Media Comments
+
+  1. New Tables
+    - `media_comments`
+      - `id` (uuid, primary key)
+      - `media_id` (uuid, foreign key to media_content)
+      - `user_id` (uuid, foreign key to profiles)
+      - `parent_id` (uuid, nullable, foreign key to media_comments) - set on replies. Threads are one
+        level deep: a reply to a reply is attached to the top-level comment it belongs to.
+      - `body` (text, 1-2000 characters)
+      - `likes_count` (integer, default 0) - kept up to date by a trigger on media_comment_likes
+      - `is_pinned` (boolean, default false) - at most one pinned comment per item, set by its creator
+      - `is_hidden` (boolean, default false) - set once a comment collects three reports; only its
+        author and admins still see it
+      - `edited_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+    - `media_comment_likes` (one row per user per comment)
+    - `media_comment_reports` (one row per user per comment) with a `reason` of spam, harassment,
+      hate or other and optional `details`
+
+  2. Changes
+    - `media_content.comments_count` (integer, default 0) - visible comments, kept up to date by a
+      trigger as comments are added, removed, hidden and shown again
+    - `media_feed` gains `comments_count` at the end
+    - `media_comment_feed` view: comments with their author and the caller's like, limited to what
+      the caller may see
+
+  3. Functions
+    - `pin_media_comment(p_comment_id, p_pinned)` - the item's creator pins or unpins a top-level
+      comment; pinning replaces any previous pin
+    - `dismiss_media_comment_reports(p_comment_id)` - admins clear the reports on a comment and
+      show it again
+
+  4. Realtime
+    - Publish media_comments
+    - Hiding, showing and deleting a comment is broadcast on the item's `media_comments_<media id>`
+      topic with only the comment id, since viewers who can no longer see a row do not receive its
+      changes and DELETE changes cannot be filtered by item
+
+  5. Security
+    - Enable RLS on all three tables
+    - Comments are readable wherever the media item is
+    - Authors can edit the body for 15 minutes and delete for 24 hours after posting; the item's
+      creator and admins can delete any comment on it
+    - Creators and reply authors are notified of new comments; admins when a comment is hidden
+*/
+
+CREATE TABLE IF NOT EXISTS media_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  media_id uuid NOT NULL REFERENCES media_content(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES media_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  likes_count integer NOT NULL DEFAULT 0,
+  is_pinned boolean NOT NULL DEFAULT false,
+  is_hidden boolean NOT NULL DEFAULT false,
+  edited_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS media_comment_likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES media_comments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS media_comment_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES media_comments(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'other')),
+  details text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_comments_media_id ON media_comments(media_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_media_comments_parent_id ON media_comments(parent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_comments_one_pin ON media_comments(media_id) WHERE is_pinned;
+CREATE INDEX IF NOT EXISTS idx_media_comment_reports_comment_id ON media_comment_reports(comment_id);
+
+ALTER TABLE media_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE media_comment_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE media_comment_reports ENABLE ROW LEVEL SECURITY;
+
+-- The subquery on media_content runs under its own policies, so comments follow their item
+CREATE POLICY "Users can view comments on media they can see"
+  ON media_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM media_content m WHERE m.id = media_id)
+    AND (NOT is_hidden OR auth.uid() = user_id OR public.is_admin())
+  );
+
+CREATE POLICY "Users can comment on approved media"
+  ON media_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND likes_count = 0
+    AND NOT is_pinned
+    AND NOT is_hidden
+    AND EXISTS (SELECT 1 FROM media_content m WHERE m.id = media_id AND m.status = 'approved')
+  );
+
+CREATE POLICY "Authors can edit their comments for 15 minutes"
+  ON media_comments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND created_at > now() - interval '15 minutes')
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Authors can delete their comments for 24 hours"
+  ON media_comments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND created_at > now() - interval '24 hours');
+
+CREATE POLICY "Creators can delete comments on their content"
+  ON media_comments FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM media_content m WHERE m.id = media_id AND m.creator_id = auth.uid()));
+
+CREATE POLICY "Admins can delete any comment"
+  ON media_comments FOR DELETE
+  TO authenticated
+  USING (public.is_admin());
+
+-- Only the text is editable; counts, pins and hiding are maintained by the database
+REVOKE UPDATE ON media_comments FROM authenticated;
+GRANT UPDATE (body) ON media_comments TO authenticated;
+
+CREATE POLICY "Users can view likes on comments they can see"
+  ON media_comment_likes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM media_comments c WHERE c.id = comment_id));
+
+CREATE POLICY "Users can like visible comments"
+  ON media_comment_likes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM media_comments c WHERE c.id = comment_id AND NOT c.is_hidden)
+  );
+
+CREATE POLICY "Users can unlike comments"
+  ON media_comment_likes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can report visible comments"
+  ON media_comment_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND EXISTS (SELECT 1 FROM media_comments c WHERE c.id = comment_id AND NOT c.is_hidden)
+  );
+
+CREATE POLICY "Users can view their own reports"
+  ON media_comment_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Admins can view all comment reports"
+  ON media_comment_reports FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Internal: attach replies to the top-level comment of the same item
+CREATE OR REPLACE FUNCTION public.thread_media_comment()
+RETURNS trigger AS $$
+DECLARE
+  v_parent media_comments;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM media_comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR v_parent.media_id <> NEW.media_id THEN
+    RAISE EXCEPTION 'The comment you are replying to no longer exists';
+  END IF;
+
+  NEW.parent_id := COALESCE(v_parent.parent_id, v_parent.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS thread_media_comment ON media_comments;
+CREATE TRIGGER thread_media_comment
+  BEFORE INSERT ON media_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.thread_media_comment();
+
+CREATE OR REPLACE FUNCTION public.mark_media_comment_edited()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS mark_media_comment_edited ON media_comments;
+CREATE TRIGGER mark_media_comment_edited
+  BEFORE UPDATE ON media_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_media_comment_edited();
+
+-- Comment counts on media_content
+ALTER TABLE media_content
+  ADD COLUMN IF NOT EXISTS comments_count integer NOT NULL DEFAULT 0;
+
+-- Only visible comments are counted
+CREATE OR REPLACE FUNCTION public.update_media_comments_count()
+RETURNS trigger AS $$
+DECLARE
+  v_delta integer;
+BEGIN
+  v_delta := CASE
+    WHEN TG_OP = 'INSERT' THEN CASE WHEN NEW.is_hidden THEN 0 ELSE 1 END
+    WHEN TG_OP = 'DELETE' THEN CASE WHEN OLD.is_hidden THEN 0 ELSE -1 END
+    ELSE (CASE WHEN NEW.is_hidden THEN 0 ELSE 1 END) - (CASE WHEN OLD.is_hidden THEN 0 ELSE 1 END)
+  END;
+
+  IF v_delta <> 0 THEN
+    UPDATE media_content
+    SET comments_count = GREATEST(comments_count + v_delta, 0)
+    WHERE id = COALESCE(NEW.media_id, OLD.media_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_media_comments_count() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_media_comments_count ON media_comments;
+CREATE TRIGGER update_media_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF is_hidden ON media_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_media_comments_count();
+
+-- Internal: announce visibility changes and deletions to everyone watching the item's thread
+CREATE OR REPLACE FUNCTION public.broadcast_media_comment_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', OLD.id),
+      'comment_deleted',
+      'media_comments_' || OLD.media_id,
+      false
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', NEW.id, 'is_hidden', NEW.is_hidden),
+      'comment_visibility',
+      'media_comments_' || NEW.media_id,
+      false
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.broadcast_media_comment_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS broadcast_media_comment_change ON media_comments;
+CREATE TRIGGER broadcast_media_comment_change
+  AFTER DELETE OR UPDATE OF is_hidden ON media_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_media_comment_change();
+
+CREATE OR REPLACE FUNCTION public.update_media_comment_likes_count()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE media_comments SET likes_count = likes_count + 1 WHERE id = NEW.comment_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE media_comments SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.comment_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_media_comment_likes_count() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_media_comment_likes_count ON media_comment_likes;
+CREATE TRIGGER update_media_comment_likes_count
+  AFTER INSERT OR DELETE ON media_comment_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_media_comment_likes_count();
+
+-- Internal: tell the creator about new comments and the parent's author about replies
+CREATE OR REPLACE FUNCTION public.notify_media_comment()
+RETURNS trigger AS $$
+DECLARE
+  v_media media_content;
+  v_parent_author uuid;
+  v_author_name text;
+BEGIN
+  SELECT * INTO v_media FROM media_content WHERE id = NEW.media_id;
+  SELECT name INTO v_author_name FROM profiles WHERE id = NEW.user_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author FROM media_comments WHERE id = NEW.parent_id;
+    IF v_parent_author IS DISTINCT FROM NEW.user_id THEN
+      PERFORM public.notify_user(
+        v_parent_author,
+        'media_comment_reply',
+        v_author_name || ' replied to your comment',
+        left(NEW.body, 140),
+        '/media/' || NEW.media_id
+      );
+    END IF;
+  END IF;
+
+  IF v_media.creator_id IS NOT NULL
+    AND v_media.creator_id IS DISTINCT FROM NEW.user_id
+    AND v_media.creator_id IS DISTINCT FROM v_parent_author
+  THEN
+    PERFORM public.notify_user(
+      v_media.creator_id,
+      'media_comment',
+      v_author_name || ' commented on "' || v_media.title || '"',
+      left(NEW.body, 140),
+      '/media/' || NEW.media_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_media_comment() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS notify_media_comment ON media_comments;
+CREATE TRIGGER notify_media_comment
+  AFTER INSERT ON media_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_media_comment();
+
+-- Internal: hide a comment on its third report and let the admins know
+CREATE OR REPLACE FUNCTION public.hide_reported_media_comment()
+RETURNS trigger AS $$
+DECLARE
+  v_admin uuid;
+BEGIN
+  IF (SELECT COUNT(*) FROM media_comment_reports WHERE comment_id = NEW.comment_id) <> 3 THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE media_comments SET is_hidden = true WHERE id = NEW.comment_id;
+
+  FOR v_admin IN SELECT id FROM profiles WHERE is_admin LOOP
+    PERFORM public.notify_user(
+      v_admin,
+      'media_comment_reported',
+      'A comment was hidden after repeated reports',
+      'Review it in the reported comments queue.',
+      '/admin/moderation'
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.hide_reported_media_comment() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS hide_reported_media_comment ON media_comment_reports;
+CREATE TRIGGER hide_reported_media_comment
+  AFTER INSERT ON media_comment_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.hide_reported_media_comment();
+
+CREATE OR REPLACE FUNCTION public.pin_media_comment(p_comment_id uuid, p_pinned boolean)
+RETURNS void AS $$
+DECLARE
+  v_comment media_comments;
+BEGIN
+  SELECT c.* INTO v_comment
+  FROM media_comments c
+  JOIN media_content m ON m.id = c.media_id
+  WHERE c.id = p_comment_id AND m.creator_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the creator can pin comments on their content';
+  END IF;
+
+  IF v_comment.parent_id IS NOT NULL OR v_comment.is_hidden THEN
+    RAISE EXCEPTION 'Only visible top-level comments can be pinned';
+  END IF;
+
+  IF p_pinned THEN
+    UPDATE media_comments SET is_pinned = false WHERE media_id = v_comment.media_id AND is_pinned;
+  END IF;
+
+  UPDATE media_comments SET is_pinned = p_pinned WHERE id = p_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.pin_media_comment(uuid, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.dismiss_media_comment_reports(p_comment_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review reports';
+  END IF;
+
+  DELETE FROM media_comment_reports WHERE comment_id = p_comment_id;
+  UPDATE media_comments SET is_hidden = false WHERE id = p_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.dismiss_media_comment_reports(uuid) TO authenticated;
+
+-- Comments with their author and the caller's like, filtered like the policies above
+CREATE OR REPLACE VIEW media_comment_feed AS
+SELECT
+  c.id,
+  c.media_id,
+  c.user_id,
+  c.parent_id,
+  c.body,
+  c.likes_count,
+  c.is_pinned,
+  c.is_hidden,
+  c.edited_at,
+  c.created_at,
+  p.name AS author_name,
+  p.profile_image AS author_image,
+  my_like.id IS NOT NULL AS is_liked,
+  my_like.id AS my_like_id
+FROM media_comments c
+JOIN media_content m ON m.id = c.media_id
+JOIN profiles p ON p.id = c.user_id
+LEFT JOIN media_comment_likes my_like
+  ON my_like.comment_id = c.id AND my_like.user_id = auth.uid()
+WHERE (m.status = 'approved' OR m.creator_id = auth.uid() OR public.is_admin())
+  AND (NOT c.is_hidden OR c.user_id = auth.uid() OR public.is_admin());
+
+GRANT SELECT ON media_comment_feed TO authenticated;
+
+CREATE OR REPLACE VIEW media_feed AS
+SELECT
+  m.id,
+  m.title,
+  m.creator_name,
+  m.creator_id,
+  m.thumbnail_url,
+  m.content_url,
+  m.duration,
+  m.read_time,
+  m.category,
+  m.type,
+  m.content_type,
+  m.description,
+  m.price,
+  m.rating,
+  m.is_premium,
+  m.views_count,
+  m.plays_count,
+  m.sales_count,
+  m.created_at,
+  m.updated_at,
+  m.likes_count,
+  my_like.id IS NOT NULL AS is_liked,
+  my_follow.id IS NOT NULL AS is_following,
+  my_like.id AS my_like_id,
+  my_follow.id AS my_follow_id,
+  m.comments_count
+FROM media_content m
+LEFT JOIN media_likes my_like
+  ON my_like.media_id = m.id AND my_like.user_id = auth.uid()
+LEFT JOIN creator_follows my_follow
+  ON my_follow.creator_id = m.creator_id AND my_follow.follower_id = auth.uid()
+WHERE m.status = 'approved';
+
+-- Enable realtime for live comment threads
+ALTER PUBLICATION supabase_realtime ADD TABLE media_comments;
@@ -0,0 +1,97 @@
+/*
+  # Add Ticket Payment Confirmation
+
+  Priced tickets are issued with a `pending` payment status and nothing moved them on, so unpaid
+  tickets were admitted at the door and `paid_revenue` never counted anything.
+
+  1. Functions
+    - `mark_registration_paid(p_registration_id)` - organizer-only; confirms payment for a pending
+      ticket and lets the attendee know
+    - `check_in_ticket(p_event_id, p_ticket_code)` - now refuses tickets whose payment is still pending
+*/
+
+-- Organizer confirms a ticket has been paid for
+CREATE OR REPLACE FUNCTION public.mark_registration_paid(p_registration_id uuid)
+RETURNS event_registrations AS $$
+DECLARE
+  v_registration event_registrations;
+  v_event events;
+BEGIN
+  SELECT * INTO v_registration FROM event_registrations WHERE id = p_registration_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_registration.event_id;
+  IF v_event.organizer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the event organizer can confirm payments';
+  END IF;
+
+  IF v_registration.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This ticket was cancelled';
+  END IF;
+
+  IF v_registration.payment_status <> 'pending' THEN
+    RETURN v_registration;
+  END IF;
+
+  UPDATE event_registrations
+  SET payment_status = 'paid'
+  WHERE id = v_registration.id
+  RETURNING * INTO v_registration;
+
+  PERFORM public.notify_user(
+    v_registration.user_id,
+    'payment_confirmed',
+    'Payment confirmed',
+    'Your payment for ' || v_event.title || ' has been received. Your ticket is ready.',
+    '/account/tickets'
+  );
+
+  RETURN v_registration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.mark_registration_paid(uuid) TO authenticated;
+
+-- Check a ticket in at the door; unpaid tickets are turned away
+CREATE OR REPLACE FUNCTION public.check_in_ticket(p_event_id uuid, p_ticket_code text)
+RETURNS jsonb AS $$
+DECLARE
+  v_registration event_registrations;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the event organizer can check in tickets';
+  END IF;
+
+  SELECT * INTO v_registration
+  FROM event_registrations
+  WHERE event_id = p_event_id AND ticket_code = upper(trim(p_ticket_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket not found for this event';
+  END IF;
+
+  IF v_registration.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This ticket was cancelled';
+  END IF;
+
+  IF v_registration.payment_status = 'pending' THEN
+    RAISE EXCEPTION 'Payment for this ticket has not been confirmed';
+  END IF;
+
+  IF v_registration.checked_in_at IS NOT NULL THEN
+    RETURN jsonb_build_object('result', 'duplicate', 'registration', to_jsonb(v_registration));
+  END IF;
+
+  UPDATE event_registrations
+  SET checked_in_at = now(), checked_in_by = auth.uid()
+  WHERE id = v_registration.id
+  RETURNING * INTO v_registration;
+
+  RETURN jsonb_build_object('result', 'checked_in', 'registration', to_jsonb(v_registration));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;